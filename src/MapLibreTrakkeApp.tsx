@@ -1,30 +1,57 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react'
-import { MapLibreMap, MapLibreMapRef } from './components/MapLibreMap'
+import { LocationFollowMode, MapLibreMap, MapLibreMapRef, UserLocation } from './components/MapLibreMap'
 import { CategoryPanel } from './components/CategoryPanel'
 import { TrailPanel } from './components/TrailPanel'
 import { NaturskogPanel } from './components/NaturskogPanel'
+import { UtmGridPanel } from './components/UtmGridPanel'
+import { SlopePanel } from './components/SlopePanel'
+import { ViewshedPanel, ViewshedStatus } from './components/ViewshedPanel'
 import { HurtigtasterButton } from './components/HurtigtasterButton'
+import { UtskriftButton } from './components/UtskriftButton'
 import { SlettDataButton } from './components/SlettDataButton'
 import { AdminControls } from './components/AdminControls'
+import { GPXImportButton } from './components/GPXImportButton'
+import { OfflineAreaPanel } from './components/OfflineAreaPanel'
+import { MeasurementPanel } from './components/MeasurementPanel'
+import { RecordedTracksPanel } from './components/RecordedTracksPanel'
+import { TrackRecordingBar } from './components/TrackRecordingBar'
 import { TrailDetails } from './components/TrailDetails'
 import { SearchBox, SearchBoxRef } from './components/SearchBox'
 import { CoordinateDisplay } from './components/CoordinateDisplay'
 import { MapTypePanel } from './components/MapTypePanel'
 import { categoryTree, CategoryState, POI, POIType } from './data/pois'
-import type { Trail, TrailType } from './data/trails'
-import { OverpassService, OverpassPOI } from './services/overpassService'
+import { getCategoryColor, getCategoryMinZoom, hasPOISource, overpassPOISources } from './data/poiSources'
+import type { Trail, TrailType, BoundingBox, ElevationPoint } from './data/trails'
+import { OverpassService, OverpassPOI, OverpassStatus } from './services/overpassService'
 import { SearchResult, SearchService } from './services/searchService'
 import { poiDataService } from './services/poiDataService'
 import { TilfluktsromService, TilfluktsromPOI } from './services/tilfluktsromService'
+import { PoiTileCache } from './services/poiTileCache'
+import { PoiLoadedArea } from './services/poiLoadedArea'
+import { Cabin, CabinService, cabinCategories } from './services/cabinService'
+import { MapView, getLinkAction, parseMapLink, replaceMapLink } from './services/deepLinkService'
 import { EnturService, EnturStop } from './services/enturService'
-import { krigsminneEnhancementService } from './services/krigsminneEnhancementService'
-import { DistanceMeasurement } from './services/distanceService'
+import { Coordinate, DistanceMeasurement } from './services/distanceService'
+import { ElevationService } from './services/elevationService'
+import { CompassService } from './services/compassService'
+import { CoordinateFormat, getSavedCoordinateFormat, saveCoordinateFormat } from './services/coordinateService'
+import { POIRenderMode, getSavedPOIRenderMode, savePOIRenderMode } from './services/poiSymbolService'
+import { TerrainSettings, getSavedTerrainSettings, saveTerrainSettings } from './services/terrainService'
+import { TravelTimeService, TravelTimeSettings } from './services/travelTimeService'
+import { MeasurementStore } from './services/measurementStore'
+import { RecordedTrack, TrackRecordingService } from './services/trackRecordingService'
+import { TrackStore } from './services/trackStore'
+import { GPXData, downloadGPX, getGPXBounds, measurementsToGPX, recordedTrackToGPX, serializeGPX, toGPXFilename } from './services/gpxService'
 import { NaturskogLayerType, NaturskogService } from './services/naturskogService'
+import { DEFAULT_SLOPE_OVERLAY, SlopeOverlaySettings, SlopeService } from './services/slopeService'
+import { DEFAULT_VIEWSHED_SETTINGS, Viewshed, ViewshedOrigin, ViewshedService, ViewshedSettings } from './services/viewshedService'
 import { TurrutebasenService } from './services/turrutebasenService'
+import { OfflineMapService, OfflinePackage } from './services/offlineMapService'
 import { useUIStore } from './state/uiStore'
 import { UIProvider } from './state/UIProvider'
 import { HurtigtasterModal } from './features/shortcuts/HurtigtasterModal'
 import { TegnforklaringModal } from './features/legend/TegnforklaringModal'
+import { UtskriftModal } from './features/print/UtskriftModal'
 import { AdminLoginModal } from './components/modal/AdminLoginModal'
 import { AdminPanel } from './components/modal/AdminPanel'
 import { InstallPromptModal } from './components/InstallPromptModal'
@@ -32,19 +59,150 @@ import { NetworkStatusIndicator } from './components/NetworkStatusIndicator'
 import { OfflineInfoModal } from './components/modal/OfflineInfoModal'
 import './services/adminService' // Import to make adminService available globally
 
+interface POIViewport {
+  north: number
+  south: number
+  east: number
+  west: number
+  zoom: number
+}
+
+// The map has to settle this long after panning or zooming before POIs are reloaded
+const POI_LOAD_DEBOUNCE = 400 // ms
+
+// Helper function to get active category IDs from the checked categories
+const getActiveCategories = (checked: CategoryState['checked']): string[] => {
+  const activeCategories: string[] = []
+  
+  function checkNode(node: typeof categoryTree[0]) {
+    // Only categories with a declared data source
+    if (checked[node.id] && hasPOISource(node.id)) {
+      activeCategories.push(node.id)
+    }
+    if (node.children) {
+      node.children.forEach(checkNode)
+    }
+  }
+  
+  categoryTree.forEach(checkNode)
+  return activeCategories
+}
+
+// Transform Overpass POIs to our POI interface using the category's source declaration
+const transformOverpassPOIs = async (categoryId: string, overpassPOIs: OverpassPOI[]): Promise<POI[]> => {
+  const source = overpassPOISources[categoryId]
+  const color = getCategoryColor(categoryId)
+
+  const transformedPOIs = overpassPOIs.map(poi => {
+    const description = [source.label, ...(source.details?.(poi.tags) ?? []), poi.tags.description]
+      .filter(Boolean)
+      .join('. ')
+
+    const basePOI: POI = {
+      id: poi.id,
+      name: ensureUTF8(poi.name),
+      description: ensureUTF8(description),
+      type: source.poiType,
+      color,
+      lat: poi.lat,
+      lng: poi.lng
+    }
+
+    return basePOI
+  })
+
+  const enhance = source.enhance
+  return enhance ? Promise.all(transformedPOIs.map(poi => enhance(poi))) : transformedPOIs
+}
+
+// Transform UT.no cabins to our POI interface, described like the OpenStreetMap cabins
+const transformCabins = (categoryId: string, cabins: Cabin[]): POI[] => {
+  const source = overpassPOISources[categoryId]
+  const color = getCategoryColor(categoryId)
+
+  return cabins.map(cabin => ({
+    id: cabin.id,
+    name: ensureUTF8(cabin.name),
+    description: ensureUTF8([source.label, ...CabinService.describe(cabin)].join('. ')),
+    type: source.poiType,
+    color,
+    lat: cabin.lat,
+    lng: cabin.lng,
+    api_source: 'ut_no' as const
+  }))
+}
+
+// Transform tilfluktsrom POIs to our POI interface
+const transformTilfluktsromPOIs = (tilfluktsromPOIs: TilfluktsromPOI[]): POI[] => {
+  const transformedPOIs = tilfluktsromPOIs.map(poi => ({
+    id: poi.id,
+    name: ensureUTF8(poi.name),
+    description: ensureUTF8(poi.tags.description ?? 'Offentlig tilfluktsrom'),
+    type: 'emergency_shelters' as POIType,
+    lat: poi.lat,
+    lng: poi.lng,
+    color: '#ea580c' // Use "Service" category color (orange)
+  }))
+
+  return transformedPOIs
+}
+
+// Transform Entur stops (bus/train) to our POI interface
+const transformEnturStops = (enturStops: EnturStop[], stopType: 'bus' | 'train'): POI[] => {
+  const transportColor = '#0284c7' // Transport category color
+  const isBus = stopType === 'bus'
+
+  const transformedPOIs = enturStops.map(stop => ({
+    id: stop.id,
+    name: ensureUTF8(stop.name),
+    description: stop.locality
+      ? `${isBus ? 'Bussholdeplass' : 'Togstasjon'} i ${stop.locality}`
+      : isBus ? 'Bussholdeplass' : 'Togstasjon',
+    type: (isBus ? 'public_transport' : 'train_stations') as POIType,
+    lat: stop.lat,
+    lng: stop.lng,
+    color: transportColor
+  }))
+
+  return transformedPOIs
+}
+
+// Helper function to ensure proper UTF-8 encoding for Norwegian characters
+const ensureUTF8 = (text: string): string => {
+  if (!text) return text
+  
+  // Fix common Norwegian character encoding issues
+  return text
+    .replace(/Ã¦/g, 'æ')
+    .replace(/Ã¸/g, 'ø') 
+    .replace(/Ã¥/g, 'å')
+    .replace(/Ã†/g, 'Æ')
+    .replace(/Ã˜/g, 'Ø')
+    .replace(/Ã…/g, 'Å')
+    .replace(/â€"/g, '–')
+    .replace(/â€™/g, "'")
+}
+
 function MapLibreTrakkeAppInner() {
   // UI Store for modal management
   const {
     isHurtigtasterOpen,
     isTegnforklaringOpen,
+    isUtskriftOpen,
     closeHurtigtaster,
-    closeTegnforklaring
+    closeTegnforklaring,
+    closeUtskrift
   } = useUIStore()
 
   // Category state - "På eventyr" expanded, no categories checked by default
+  // Map state from a shared link, and a manifest shortcut action, read once on load
+  const [initialLink] = useState(() => parseMapLink())
+  const [linkAction] = useState(() => getLinkAction())
+
   const [categoryState, setCategoryState] = useState<CategoryState>({
     checked: {
       // No categories checked by default - user must actively select them
+      ...Object.fromEntries((initialLink.categories ?? []).map(categoryId => [categoryId, true]))
     },
     expanded: {
       // Keep "På eventyr" collapsed by default - user can expand if interested
@@ -54,22 +212,51 @@ function MapLibreTrakkeAppInner() {
 
   const [sidebarCollapsed, setSidebarCollapsed] = useState(true) // Hidden by default
   const [searchResult, setSearchResult] = useState<SearchResult | null>(null)
-  const [mapType, setMapType] = useState<'topo' | 'satellite'>('topo') // Default to topo map
-  const [currentViewport, setCurrentViewport] = useState<{ north: number; south: number; east: number; west: number; zoom: number } | null>(null)
-  const [userLocation, setUserLocation] = useState<{lat: number, lng: number} | null>(null)
+  const [mapType, setMapType] = useState<'topo' | 'satellite'>(initialLink.mapType ?? 'topo') // Default to topo map
+  const [mapView, setMapView] = useState<MapView | null>(null) // Camera, kept in the URL
+  const [selectedPOIId, setSelectedPOIId] = useState<string | null>(initialLink.poiId ?? null)
+  const [currentViewport, setCurrentViewport] = useState<POIViewport | null>(null)
+  const [userLocation, setUserLocation] = useState<UserLocation | null>(null)
+  const [locationMode, setLocationMode] = useState<LocationFollowMode>('off')
+  const [deviceHeading, setDeviceHeading] = useState<number | null>(null)
   const [locationLoading, setLocationLoading] = useState(false)
   const [mapBearing, setMapBearing] = useState(0) // Track current map bearing for compass
   const [currentZoom, setCurrentZoom] = useState(7) // Track current zoom level for scale display (matches initial map zoom)
   const [currentCoordinates, setCurrentCoordinates] = useState<{lat: number, lng: number} | null>(null) // Track cursor coordinates
   const [coordinatesCopied, setCoordinatesCopied] = useState(false) // Track coordinate copy feedback
+  const [coordinateFormat, setCoordinateFormat] = useState<CoordinateFormat>(() => getSavedCoordinateFormat()) // Display and copy format
+  const [poiRenderMode, setPOIRenderMode] = useState<POIRenderMode>(() => getSavedPOIRenderMode()) // DOM overlays or symbol layers
+  const [terrain, setTerrain] = useState<TerrainSettings>(() => getSavedTerrainSettings()) // 3D terrain and hillshading
   const [mapControlsVisible, setMapControlsVisible] = useState(true) // Track map controls visibility
 
   // Distance measurement state
   const [distanceMeasurements, setDistanceMeasurements] = useState<DistanceMeasurement[]>([])
+  const [travelTimeSettings, setTravelTimeSettings] = useState<TravelTimeSettings>(() => TravelTimeService.getSettings())
+  const [measurementProfilePoint, setMeasurementProfilePoint] = useState<(ElevationPoint & { color: string }) | null>(null)
   const [isDistanceMeasuring, setIsDistanceMeasuring] = useState(false)
 
+  // Viewshed analysis state
+  const [viewshedSettings, setViewshedSettings] = useState<ViewshedSettings>(DEFAULT_VIEWSHED_SETTINGS)
+  const [viewshedOrigin, setViewshedOrigin] = useState<ViewshedOrigin | null>(null)
+  const [viewshed, setViewshed] = useState<Viewshed | null>(null)
+  const [viewshedStatus, setViewshedStatus] = useState<ViewshedStatus>('idle')
+  const [isPickingViewshedOrigin, setIsPickingViewshedOrigin] = useState(false)
+
+  // Imported GPX tracks, routes and waypoints
+  const [userTracks, setUserTracks] = useState<GPXData[]>([])
+
+  // GPS track recording state
+  const [activeRecording, setActiveRecording] = useState<RecordedTrack | null>(null)
+  const [recordedTracks, setRecordedTracks] = useState<RecordedTrack[]>([])
+  const [visibleRecordedTrackIds, setVisibleRecordedTrackIds] = useState<string[]>([])
+
+  // Area selected for offline download
+  const [offlineAreaBounds, setOfflineAreaBounds] = useState<BoundingBox | null>(null)
+
   // Layer state tracking for re-initialization after style changes
   const [activeNaturskogLayers, setActiveNaturskogLayers] = useState<Set<NaturskogLayerType>>(new Set())
+  const [showUtmGrid, setShowUtmGrid] = useState(false)
+  const [slopeOverlay, setSlopeOverlay] = useState<SlopeOverlaySettings>(DEFAULT_SLOPE_OVERLAY)
 
   // Attribution modal state
   const [isAttributionOpen, setIsAttributionOpen] = useState(false)
@@ -84,6 +271,7 @@ function MapLibreTrakkeAppInner() {
   const [pois, setPois] = useState<POI[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [overpassStatus, setOverpassStatus] = useState<OverpassStatus>(OverpassService.getStatus())
 
   // Trail data state
   const [selectedTrail, setSelectedTrail] = useState<Trail | null>(null)
@@ -96,6 +284,97 @@ function MapLibreTrakkeAppInner() {
   const _searchService = useRef(new SearchService())
   const _tilfluktsromService = useRef(new TilfluktsromService())
   const mapRef = useRef<MapLibreMapRef>(null)
+  const measurementsLoadedRef = useRef(false)
+  const profileRequestsRef = useRef(new WeakSet<Coordinate[]>())
+  // Aborted when a newer POI load supersedes it
+  const poiRequestRef = useRef<AbortController | null>(null)
+  // POIs loaded so far, per category and map tile
+  const loadedPOIAreaRef = useRef(new PoiLoadedArea())
+  // POI from a shared link, opened once it has loaded
+  const linkedPOIIdRef = useRef(initialLink.poiId ?? null)
+  const linkActionHandledRef = useRef(false)
+
+  // Show when POI data is degraded (rate limited, failover or offline)
+  useEffect(() => OverpassService.onStatusChange(setOverpassStatus), [])
+
+  // Load saved distance measurements
+  useEffect(() => {
+    void MeasurementStore.getAll().then(saved => {
+      measurementsLoadedRef.current = true
+      if (saved.length > 0) {
+        setDistanceMeasurements(prev => [...saved, ...prev])
+      }
+    })
+  }, [])
+
+  // Persist distance measurements whenever they change (after the initial load)
+  useEffect(() => {
+    if (!measurementsLoadedRef.current) return
+    void MeasurementStore.saveAll(distanceMeasurements)
+  }, [distanceMeasurements])
+
+  // Load recorded tracks, picking up a recording that was interrupted by a reload
+  useEffect(() => {
+    void TrackStore.getAll().then(tracks => {
+      const unfinished = tracks.find(track => track.status !== 'finished')
+      if (unfinished) {
+        // Start a new segment so the gap while the page was closed isn't counted
+        setActiveRecording(unfinished.status === 'recording' ? TrackRecordingService.resume(unfinished) : unfinished)
+      }
+      setRecordedTracks(tracks.filter(track => track.status === 'finished'))
+    })
+  }, [])
+
+  // Persist the active recording on every accepted point, so it survives reloads
+  useEffect(() => {
+    if (activeRecording) {
+      void TrackStore.save(activeRecording)
+    }
+  }, [activeRecording])
+
+  // Watch the GPS position while recording
+  const isRecording = activeRecording?.status === 'recording'
+  useEffect(() => {
+    if (!isRecording) return
+
+    if (!navigator.geolocation) {
+      console.error('Geolocation is not supported by this browser')
+      return
+    }
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const point = TrackRecordingService.toPoint(position)
+        setActiveRecording(prev => prev ? TrackRecordingService.addPoint(prev, point) : prev)
+      },
+      (error) => {
+        console.error('❌ GPS error while recording:', error.message)
+      },
+      {
+        enableHighAccuracy: true,
+        timeout: 30000,
+        maximumAge: 0
+      }
+    )
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [isRecording])
+
+  // Fetch elevation profiles for measurements that don't have one yet.
+  // Each points array is requested once; a result is dropped if the line changed meanwhile.
+  useEffect(() => {
+    distanceMeasurements.forEach(measurement => {
+      const points = measurement.points
+      if (measurement.elevationProfile || profileRequestsRef.current.has(points)) return
+
+      profileRequestsRef.current.add(points)
+      void ElevationService.generateLineProfile(points.map(point => [point.lng, point.lat])).then(profile => {
+        setDistanceMeasurements(prev => prev.map(m =>
+          m.id === measurement.id && m.points === points ? { ...m, elevationProfile: profile } : m
+        ))
+      })
+    })
+  }, [distanceMeasurements])
 
 
 
@@ -109,42 +388,57 @@ function MapLibreTrakkeAppInner() {
     }, 50)
   }, [])
 
-  // Handle location button click - with toggle functionality
+  // Location button cycles: off → follow → heading (compass) → off.
+  // After the user pans away (located), it re-centres and follows again.
   const handleLocationClick = useCallback(() => {
-
-    // Toggle off: If location is already active, clear it
-    if (userLocation && !locationLoading) {
-      setUserLocation(null)
-      return
-    }
-
     if (!navigator.geolocation) {
       console.error('Geolocation is not supported by this browser')
       return
     }
 
-    setLocationLoading(true)
-
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        const { latitude, longitude } = position.coords
-
-        // Check if location is within Norwegian bounds
-        const norwegianBounds = {
-          north: 72.0,
-          south: 57.5,
-          east: 32.0,
-          west: 4.0
+    switch (locationMode) {
+      case 'off':
+        mapRef.current?.resetBearing()
+        setLocationLoading(true)
+        setLocationMode('follow')
+        break
+      case 'located':
+        setLocationMode('follow')
+        break
+      case 'follow':
+        if (!CompassService.isSupported()) {
+          setLocationMode('off')
+          setUserLocation(null)
+          break
         }
+        // iOS only grants sensor access from within the click handler
+        void CompassService.requestPermission().then(granted => {
+          setLocationMode(granted ? 'heading' : 'off')
+          if (!granted) setUserLocation(null)
+        })
+        break
+      case 'heading':
+        mapRef.current?.resetBearing()
+        setLocationMode('off')
+        setUserLocation(null)
+        setDeviceHeading(null)
+        break
+    }
+  }, [locationMode])
 
-        if (latitude >= norwegianBounds.south && latitude <= norwegianBounds.north &&
-            longitude >= norwegianBounds.west && longitude <= norwegianBounds.east) {
-          setUserLocation({ lat: latitude, lng: longitude })
-        } else {
-          console.warn('⚠️ Location outside Norway bounds, but setting regardless')
-          setUserLocation({ lat: latitude, lng: longitude })
-        }
+  const handleFollowModeExit = useCallback(() => {
+    setLocationMode('located')
+  }, [])
+
+  // Watch the position while the location is shown
+  const locationActive = locationMode !== 'off'
+  useEffect(() => {
+    if (!locationActive) return
 
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const { latitude, longitude, accuracy } = position.coords
+        setUserLocation({ lat: latitude, lng: longitude, accuracy })
         setLocationLoading(false)
       },
       (error) => {
@@ -155,6 +449,7 @@ function MapLibreTrakkeAppInner() {
         switch (error.code) {
           case error.PERMISSION_DENIED:
             console.error('Location access denied by user')
+            setLocationMode('off')
             break
           case error.POSITION_UNAVAILABLE:
             console.error('Location information unavailable')
@@ -166,11 +461,19 @@ function MapLibreTrakkeAppInner() {
       },
       {
         enableHighAccuracy: true,
-        timeout: 10000, // 10 seconds
-        maximumAge: 300000 // 5 minutes
+        timeout: 20000,
+        maximumAge: 5000
       }
     )
-  }, [locationLoading, userLocation])
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [locationActive])
+
+  // Compass heading for the location marker (and map rotation in heading mode)
+  useEffect(() => {
+    if (!locationActive) return
+    return CompassService.watchHeading(setDeviceHeading)
+  }, [locationActive])
 
   const toggleSidebar = useCallback(() => {
     setSidebarCollapsed(prev => !prev)
@@ -224,13 +527,22 @@ function MapLibreTrakkeAppInner() {
         event.stopPropagation()
         toggleSidebar()
       }
+
+      // Ctrl+Z / ⌘+Z: Undo last distance measurement point
+      else if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'z' && isDistanceMeasuring) {
+        const activeElement = document.activeElement as HTMLElement
+        if (activeElement?.closest('input, textarea')) return
+
+        event.preventDefault()
+        mapRef.current?.undoLastMeasurementPoint()
+      }
     }
     
     document.addEventListener('keydown', handleGlobalKeyDown)
     return () => {
       document.removeEventListener('keydown', handleGlobalKeyDown)
     }
-  }, [sidebarCollapsed, toggleSidebar])
+  }, [sidebarCollapsed, toggleSidebar, isDistanceMeasuring])
 
   // PWA Install Prompt - show on first visit or after 7 days if dismissed (MOBILE ONLY)
   useEffect(() => {
@@ -344,212 +656,352 @@ function MapLibreTrakkeAppInner() {
         }
       }
       
-      const newState = {
+      return {
         ...prev,
         checked: newChecked
       }
-      
+    })
+  }, [])
 
-      // Handle category selection changes
-      setTimeout(async () => {
-        const activeCategories = getActiveCategories(newState)
-        
-        if (activeCategories.length === 0) {
-          setPois([])
-          return
-        }
-        
-        // Load POI data only if we have viewport (prevents loading during initial render)
-        if (currentViewport) {
-          setLoading(true)
-          setError(null)
-          
-          try {
-            let allPOIs: POI[] = []
-            
-            // Load Krigsminne from OpenStreetMap if krigsminne category is active
-            if (activeCategories.includes('krigsminne')) {
-              const overpassPOIs = await OverpassService.fetchKrigsminnePOIs(currentViewport)
+  const handleExpandToggle = useCallback((nodeId: string) => {
+    setCategoryState(prev => ({
+      ...prev,
+      expanded: {
+        ...prev.expanded,
+        [nodeId]: !prev.expanded[nodeId]
+      }
+    }))
+  }, [])
 
-              const transformedOverpassPOIs = await transformOverpassPOIs(overpassPOIs)
-              allPOIs = [...allPOIs, ...transformedOverpassPOIs]
+  // Function to refresh POI data when new POIs are added
+  const handlePOIAdded = useCallback(() => {
+    // Trigger category toggle to reload POIs for active categories
+    const activeCategories = getActiveCategories(categoryState.checked)
+    if (activeCategories.length > 0 && currentViewport) {
+      // Simulate a category state change to trigger POI reload
+      setCategoryState(prev => ({ ...prev, checked: { ...prev.checked } }))
+    }
+  }, [categoryState, currentViewport])
 
-            }
-            
-            // Load cave entrances from OpenStreetMap if hule category is active
-            if (activeCategories.includes('hule')) {
-              const cavePOIs = await OverpassService.fetchCaveEntrancePOIs(currentViewport)
-              
-              const transformedCavePOIs = transformCavePOIs(cavePOIs)
-              allPOIs = [...allPOIs, ...transformedCavePOIs]
-              
-            }
-            
-            // Load observation towers from OpenStreetMap if observasjonstårn category is active
-            if (activeCategories.includes('observasjonstårn')) {
-              const towerPOIs = await OverpassService.fetchObservationTowerPOIs(currentViewport)
-              
-              const transformedTowerPOIs = transformTowerPOIs(towerPOIs)
-              allPOIs = [...allPOIs, ...transformedTowerPOIs]
-              
-
-              // Also load hunting stands for observasjonstårn category
-              const huntingStandPOIs = await OverpassService.fetchHuntingStandPOIs(currentViewport)
-              
-              const transformedHuntingStandPOIs = transformHuntingStandPOIs(huntingStandPOIs)
-              allPOIs = [...allPOIs, ...transformedHuntingStandPOIs]
-              
-            }
+  // Function to handle map type changes
+  const handleMapTypeChange = useCallback((newMapType: 'topo' | 'satellite') => {
+    setMapType(newMapType)
+  }, [])
 
-            // Load fire pits from OpenStreetMap if bålplass category is active
-            if (activeCategories.includes('bålplass')) {
-              const firepitPOIs = await OverpassService.fetchFirepitPOIs(currentViewport)
-              
-              const transformedFirepitPOIs = transformFirepitPOIs(firepitPOIs)
-              allPOIs = [...allPOIs, ...transformedFirepitPOIs]
-              
-            }
+  const handleViewportChange = useCallback((viewport: { north: number; south: number; east: number; west: number; zoom: number }) => {
+    setCurrentViewport(viewport)
+    setCurrentZoom(viewport.zoom)
+  }, [])
 
-            // Load shelters from OpenStreetMap if gapahuk_vindskjul category is active
-            if (activeCategories.includes('gapahuk_vindskjul')) {
-              const shelterPOIs = await OverpassService.fetchShelterPOIs(currentViewport)
+  const handlePOISelect = useCallback((poi: POI | null) => {
+    linkedPOIIdRef.current = null
+    setSelectedPOIId(poi?.id ?? null)
+  }, [])
 
-              const transformedShelterPOIs = transformShelterPOIs(shelterPOIs)
-              allPOIs = [...allPOIs, ...transformedShelterPOIs]
+  // Keep the URL in sync with the map, so the current view can be shared
+  useEffect(() => {
+    if (!mapView) return
 
-            }
+    replaceMapLink({
+      view: mapView,
+      mapType,
+      categories: Object.keys(categoryState.checked).filter(categoryId => categoryState.checked[categoryId]),
+      poiId: selectedPOIId ?? undefined
+    })
+  }, [mapView, mapType, categoryState.checked, selectedPOIId])
 
-            // Load tilfluktsrom from Geonorge WFS if tilfluktsrom category is active
-            if (activeCategories.includes('tilfluktsrom')) {
-              try {
-                const tilfluktsromPOIs = await _tilfluktsromService.current.fetchTilfluktsrom(currentViewport)
+  // Open the POI from a shared link once its category has loaded
+  useEffect(() => {
+    const poi = pois.find(p => p.id === linkedPOIIdRef.current)
+    if (poi) {
+      linkedPOIIdRef.current = null
+      mapRef.current?.openPOI(poi)
+    }
+  }, [pois])
 
-                const transformedTilfluktsromPOIs = transformTilfluktsromPOIs(tilfluktsromPOIs)
-                allPOIs = [...allPOIs, ...transformedTilfluktsromPOIs]
+  // Manifest shortcut actions, run once the map is ready
+  useEffect(() => {
+    if (!currentViewport || !linkAction || linkActionHandledRef.current) return
+    linkActionHandledRef.current = true
 
-              } catch (tilfluktsromError) {
-                console.error('❌ Error loading tilfluktsrom data:', tilfluktsromError)
-                setError(`Feil ved lasting av tilfluktsrom: ${tilfluktsromError instanceof Error ? tilfluktsromError.message : 'Ukjent feil'}`)
-              }
-            }
+    switch (linkAction) {
+      case 'search':
+        setSidebarCollapsed(false)
+        setTimeout(() => {
+          searchInputRef.current?.focusInput()
+        }, 300) // Wait for sidebar animation
+        break
+      case 'location':
+        if (locationMode === 'off') handleLocationClick()
+        break
+      case 'trails':
+        setSidebarCollapsed(false)
+        break
+    }
+  }, [currentViewport, linkAction, locationMode, handleLocationClick])
+
+  // Load POIs for the viewport: only tiles not loaded yet, for categories shown at this zoom
+  const loadViewportPOIs = useCallback(async (activeCategories: string[], viewport: POIViewport) => {
+    poiRequestRef.current?.abort()
+
+    const area = loadedPOIAreaRef.current
+    const visibleCategories = activeCategories.filter(categoryId => viewport.zoom >= getCategoryMinZoom(categoryId))
+    const viewportTiles = PoiTileCache.getTileKeys(viewport)
+    area.retain(visibleCategories, viewportTiles)
+
+    // Categories missing tiles, and the area covering all of them (the whole viewport if it is too large for tiles)
+    const missingTiles = viewportTiles
+      ? new Set(visibleCategories.flatMap(categoryId => area.getMissingTiles(categoryId, viewportTiles)))
+      : null
+    const loadCategories = viewportTiles
+      ? visibleCategories.filter(categoryId => area.getMissingTiles(categoryId, viewportTiles).length > 0)
+      : visibleCategories
+    const loadBounds = missingTiles && missingTiles.size > 0 ? PoiLoadedArea.getFetchBounds(Array.from(missingTiles)) : viewport
+    const loadTiles = missingTiles ? PoiTileCache.getTileKeys(loadBounds) : null
+
+    const controller = new AbortController()
+    poiRequestRef.current = controller
+
+    if (loadCategories.length > 0) {
+      setLoading(true)
+      setError(null)
+    }
 
-            // Load bus stops from Entur API if bussholdeplass category is active
-            // Only load when zoomed in (zoom >= 10) to avoid overwhelming the map
-            if (activeCategories.includes('bussholdeplass')) {
-              if (currentViewport.zoom >= 10) {
-                try {
-                  const busStops = await EnturService.fetchBusStops(currentViewport)
+    try {
+      const loaded = new Map<string, POI[]>()
+      // Categories that failed or were cut off: shown, but loaded again next time
+      const incomplete: string[] = []
 
-                  const transformedBusStops = transformEnturStops(busStops, 'bus')
-                  allPOIs = [...allPOIs, ...transformedBusStops]
+      if (loadCategories.length > 0) {
+        // Load every category declared as an OpenStreetMap source in one request
+        const overpassResult = await OverpassService.fetchCategoryPOIs(loadCategories, loadBounds, controller.signal)
+        for (const [categoryId, overpassPOIs] of Object.entries(overpassResult.pois)) {
+          loaded.set(categoryId, await transformOverpassPOIs(categoryId, overpassPOIs))
+        }
+        incomplete.push(...overpassResult.truncated, ...overpassResult.failed)
+      }
 
-                } catch (enturError) {
-                  console.error('❌ Error loading bus stops:', enturError)
-                  setError(`Feil ved lasting av bussholdeplasser: ${enturError instanceof Error ? enturError.message : 'Ukjent feil'}`)
-                }
-              }
-            }
+      // Cabins from UT.no replace the same cabins from OpenStreetMap
+      const cabinCategoryIds = loadCategories.filter(categoryId => CabinService.isCabinCategory(categoryId))
+      if (cabinCategoryIds.length > 0 && CabinService.isUtNoEnabled()) {
+        const utNoCabins = await CabinService.fetchUtNoCabins(loadBounds, controller.signal)
+        if (utNoCabins) {
+          cabinCategoryIds.forEach(categoryId => {
+            const osmCabins = CabinService.withoutUtNoDuplicates(loaded.get(categoryId) ?? [], utNoCabins)
+            const categoryCabins = utNoCabins.filter(cabin => cabinCategories[cabin.serviceLevel] === categoryId)
+            loaded.set(categoryId, [...osmCabins, ...transformCabins(categoryId, categoryCabins)])
+          })
+        } else {
+          incomplete.push(...cabinCategoryIds)
+        }
+      }
 
-            // Load train stations from Entur API if togstasjon category is active
-            // Train stations can load at lower zoom (8+) as there are fewer of them
-            if (activeCategories.includes('togstasjon')) {
-              if (currentViewport.zoom >= 8) {
-                try {
-                  const trainStations = await EnturService.fetchTrainStations(currentViewport)
+      // Load tilfluktsrom from Geonorge WFS
+      if (loadCategories.includes('tilfluktsrom')) {
+        try {
+          const tilfluktsromPOIs = await _tilfluktsromService.current.fetchTilfluktsrom(loadBounds)
+          loaded.set('tilfluktsrom', transformTilfluktsromPOIs(tilfluktsromPOIs))
+        } catch (tilfluktsromError) {
+          console.error('❌ Error loading tilfluktsrom data:', tilfluktsromError)
+          setError(`Feil ved lasting av tilfluktsrom: ${tilfluktsromError instanceof Error ? tilfluktsromError.message : 'Ukjent feil'}`)
+        }
+      }
 
-                  const transformedStations = transformEnturStops(trainStations, 'train')
-                  allPOIs = [...allPOIs, ...transformedStations]
+      // Load bus stops from Entur API
+      if (loadCategories.includes('bussholdeplass')) {
+        try {
+          const busStops = await EnturService.fetchBusStops(loadBounds)
+          loaded.set('bussholdeplass', transformEnturStops(busStops.stops, 'bus'))
+          if (busStops.failed) incomplete.push('bussholdeplass')
+        } catch (enturError) {
+          console.error('❌ Error loading bus stops:', enturError)
+          setError(`Feil ved lasting av bussholdeplasser: ${enturError instanceof Error ? enturError.message : 'Ukjent feil'}`)
+        }
+      }
 
-                } catch (enturError) {
-                  console.error('❌ Error loading train stations:', enturError)
-                  setError(`Feil ved lasting av togstasjoner: ${enturError instanceof Error ? enturError.message : 'Ukjent feil'}`)
-                }
-              }
-            }
+      // Load train stations from Entur API
+      if (loadCategories.includes('togstasjon')) {
+        try {
+          const trainStations = await EnturService.fetchTrainStations(loadBounds)
+          loaded.set('togstasjon', transformEnturStops(trainStations.stops, 'train'))
+          if (trainStations.failed) incomplete.push('togstasjon')
+        } catch (enturError) {
+          console.error('❌ Error loading train stations:', enturError)
+          setError(`Feil ved lasting av togstasjoner: ${enturError instanceof Error ? enturError.message : 'Ukjent feil'}`)
+        }
+      }
 
-            // Load cable cars from OpenStreetMap if taubane category is active
-            if (activeCategories.includes('taubane')) {
-              const cableCarPOIs = await OverpassService.fetchCableCarPOIs(currentViewport)
+      // Load custom POIs from local storage for all active categories
+      const customPOIs = activeCategories.length > 0
+        ? await poiDataService.getPOIsByCategories(activeCategories)
+        : []
+
+      // A newer load has taken over
+      if (controller.signal.aborted) return
+
+      // Sources that failed outright are left out of loaded, and incomplete ones are not stored,
+      // so their tiles are retried on the next load
+      const partialPOIs = area.addLoad(loaded, loadTiles, incomplete)
+      setPois([...area.getPOIs(), ...partialPOIs, ...(customPOIs as POI[])])
+    } catch (err) {
+      if (controller.signal.aborted) return
+
+      console.error('❌ Error loading POIs:', err)
+      setError('Kunne ikke laste POI-data')
+      setPois(area.getPOIs())
+    } finally {
+      if (poiRequestRef.current === controller) {
+        poiRequestRef.current = null
+        setLoading(false)
+      }
+    }
+  }, [])
 
-              const transformedCableCarPOIs = transformCableCarPOIs(cableCarPOIs)
-              allPOIs = [...allPOIs, ...transformedCableCarPOIs]
+  // Reload POIs when the map settles after panning or zooming, or when categories change
+  useEffect(() => {
+    if (!currentViewport) return
 
-            }
+    const timer = setTimeout(() => {
+      void loadViewportPOIs(getActiveCategories(categoryState.checked), currentViewport)
+    }, POI_LOAD_DEBOUNCE)
 
-            // Load waterfalls from OpenStreetMap if foss category is active
-            if (activeCategories.includes('foss')) {
-              const waterfallPOIs = await OverpassService.fetchWaterfallPOIs(currentViewport)
+    return () => clearTimeout(timer)
+  }, [currentViewport, categoryState.checked, loadViewportPOIs])
 
-              const transformedWaterfallPOIs = transformWaterfallPOIs(waterfallPOIs)
-              allPOIs = [...allPOIs, ...transformedWaterfallPOIs]
+  // GPX import/export handlers
+  const handleGPXImport = useCallback((data: GPXData) => {
+    setUserTracks(prev => [...prev, data])
 
-            }
+    const bounds = getGPXBounds(data)
+    const map = mapRef.current?.getMap()
+    if (map && bounds) {
+      map.fitBounds(bounds, { padding: 50, duration: 1000, maxZoom: 15 })
+    }
+  }, [])
 
-            // Load viewpoints from OpenStreetMap if utsiktspunkt category is active
-            if (activeCategories.includes('utsiktspunkt')) {
-              const viewpointPOIs = await OverpassService.fetchViewpointPOIs(currentViewport)
+  const handleGPXRemove = useCallback((id: string) => {
+    setUserTracks(prev => prev.filter(data => data.id !== id))
+  }, [])
 
-              const transformedViewpointPOIs = transformViewpointPOIs(viewpointPOIs)
-              allPOIs = [...allPOIs, ...transformedViewpointPOIs]
+  const handleOfflineAreaSelect = useCallback(() => {
+    const bounds = mapRef.current?.getMap()?.getBounds()
+    if (!bounds) return
+    setOfflineAreaBounds({
+      north: bounds.getNorth(),
+      south: bounds.getSouth(),
+      east: bounds.getEast(),
+      west: bounds.getWest()
+    })
+  }, [])
 
-            }
+  const handleOfflinePackageShow = useCallback((pkg: OfflinePackage) => {
+    const map = mapRef.current?.getMap()
+    if (!map) return
+    map.fitBounds(
+      [[pkg.bounds.west, pkg.bounds.south], [pkg.bounds.east, pkg.bounds.north]],
+      { padding: 20, duration: 1000, maxZoom: pkg.maxZoom }
+    )
+  }, [])
 
+  const handleMeasurementChange = useCallback((id: string, changes: Partial<Pick<DistanceMeasurement, 'name' | 'color'>>) => {
+    setDistanceMeasurements(prev => prev.map(measurement =>
+      measurement.id === id ? { ...measurement, ...changes, updated: new Date() } : measurement
+    ))
+  }, [])
 
-            // Load custom POIs from local storage for all active categories
-            const customPOIs = await poiDataService.getPOIsByCategories(activeCategories)
-            if (customPOIs.length > 0) {
-              allPOIs = [...allPOIs, ...(customPOIs as POI[])]
-            }
+  const handleMeasurementDelete = useCallback((id: string) => {
+    setDistanceMeasurements(prev => prev.filter(measurement => measurement.id !== id))
+  }, [])
 
-            setPois(allPOIs)
-          } catch (err) {
-            console.error('❌ Error loading POIs:', err)
-            setError('Kunne ikke laste POI-data')
-            setPois([])
-          } finally {
-            setLoading(false)
-          }
-        }
-      }, 100)
+  const handleMeasurementShow = useCallback((measurement: DistanceMeasurement) => {
+    const map = mapRef.current?.getMap()
+    if (!map || measurement.points.length === 0) return
 
-      return newState
-    })
-  }, [currentViewport]) // eslint-disable-line react-hooks/exhaustive-deps -- Transform functions are stable useCallback hooks
+    const lngs = measurement.points.map(point => point.lng)
+    const lats = measurement.points.map(point => point.lat)
+    map.fitBounds(
+      [[Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]],
+      { padding: 80, duration: 1000, maxZoom: 15 }
+    )
+  }, [])
 
-  const handleExpandToggle = useCallback((nodeId: string) => {
-    setCategoryState(prev => ({
-      ...prev,
-      expanded: {
-        ...prev.expanded,
-        [nodeId]: !prev.expanded[nodeId]
-      }
-    }))
+  const handleMeasurementProfileRetry = useCallback((id: string) => {
+    const measurement = distanceMeasurements.find(m => m.id === id)
+    if (!measurement) return
+
+    profileRequestsRef.current.delete(measurement.points)
+    setDistanceMeasurements(prev => prev.map(m => m.id === id ? { ...m, elevationProfile: undefined } : m))
+  }, [distanceMeasurements])
+
+  const handleRecordingStart = useCallback(() => {
+    if (!navigator.geolocation) {
+      alert('Posisjon er ikke tilgjengelig i denne nettleseren')
+      return
+    }
+    setActiveRecording(TrackRecordingService.createTrack())
   }, [])
 
-  // Function to refresh POI data when new POIs are added
-  const handlePOIAdded = useCallback(() => {
-    // Trigger category toggle to reload POIs for active categories
-    const activeCategories = getActiveCategories(categoryState)
-    if (activeCategories.length > 0 && currentViewport) {
-      // Simulate a category state change to trigger POI reload
-      setCategoryState(prev => ({ ...prev }))
+  const handleRecordingStop = useCallback(() => {
+    if (!activeRecording) return
+
+    const finished = TrackRecordingService.finish(activeRecording)
+    setActiveRecording(null)
+
+    if (finished.segments.length === 0) {
+      // Nothing worth keeping
+      void TrackStore.delete(finished.id)
+      return
     }
-  }, [categoryState, currentViewport])
 
-  // Function to handle map type changes
-  const handleMapTypeChange = useCallback((newMapType: 'topo' | 'satellite') => {
-    setMapType(newMapType)
+    void TrackStore.save(finished)
+    setRecordedTracks(prev => [...prev, finished])
+    setVisibleRecordedTrackIds(prev => [...prev, finished.id])
+  }, [activeRecording])
+
+  const handleRecordedTrackRename = useCallback((id: string, name: string) => {
+    const track = recordedTracks.find(t => t.id === id)
+    if (!track) return
+
+    const renamed = { ...track, name }
+    void TrackStore.save(renamed)
+    setRecordedTracks(prev => prev.map(t => t.id === id ? renamed : t))
+  }, [recordedTracks])
+
+  const handleRecordedTrackDelete = useCallback((id: string) => {
+    const track = recordedTracks.find(t => t.id === id)
+    if (!track || !window.confirm(`Slette opptaket «${track.name}»?`)) return
+
+    void TrackStore.delete(id)
+    setRecordedTracks(prev => prev.filter(t => t.id !== id))
+    setVisibleRecordedTrackIds(prev => prev.filter(trackId => trackId !== id))
+  }, [recordedTracks])
+
+  const handleRecordedTrackToggleVisible = useCallback((id: string) => {
+    setVisibleRecordedTrackIds(prev => prev.includes(id) ? prev.filter(trackId => trackId !== id) : [...prev, id])
   }, [])
 
-  const handleViewportChange = useCallback((viewport: { north: number; south: number; east: number; west: number; zoom: number }) => {
-    setCurrentViewport(viewport)
-    setCurrentZoom(viewport.zoom)
+  const handleRecordedTrackExport = useCallback((track: RecordedTrack) => {
+    downloadGPX(serializeGPX(recordedTrackToGPX(track)), toGPXFilename(track.name))
+  }, [])
 
-    // Only reload POIs for significant viewport changes (not during zoom animations)
-    // The category toggle handler will load POIs when categories change
-    // This prevents the flickering during zoom by avoiding redundant POI loading
+  const handleTravelTimeChange = useCallback((settings: TravelTimeSettings) => {
+    setTravelTimeSettings(settings)
+    TravelTimeService.saveSettings(settings)
   }, [])
 
+  const handleMeasurementsExport = useCallback(() => {
+    if (distanceMeasurements.length === 0) return
+    const elevationProfiles = Object.fromEntries(
+      distanceMeasurements
+        .filter(measurement => measurement.elevationProfile?.length)
+        .map(measurement => [measurement.id, measurement.elevationProfile as ElevationPoint[]])
+    )
+    downloadGPX(
+      serializeGPX(measurementsToGPX(distanceMeasurements, elevationProfiles)),
+      `trakke-maling-${new Date().toISOString().slice(0, 10)}.gpx`
+    )
+  }, [distanceMeasurements])
+
   // Calculate accurate map scale for display
   const getScaleText = useCallback((zoom: number, latitude: number = 60.13): string => {
     // Standard Web Mercator scale calculation
@@ -588,6 +1040,80 @@ function MapLibreTrakkeAppInner() {
     setMapBearing(bearing)
   }, [])
 
+  const handleCoordinateFormatChange = useCallback((format: CoordinateFormat) => {
+    setCoordinateFormat(format)
+    saveCoordinateFormat(format)
+  }, [])
+
+  const handlePOIRenderModeChange = useCallback((mode: POIRenderMode) => {
+    setPOIRenderMode(mode)
+    savePOIRenderMode(mode)
+  }, [])
+
+  const handleTerrainChange = useCallback((settings: TerrainSettings) => {
+    setTerrain(settings)
+    saveTerrainSettings(settings)
+  }, [])
+
+  // Viewshed analysis - picking the observer ends distance measuring, and hides the sidebar on mobile
+  const handleViewshedPickToggle = useCallback((picking: boolean) => {
+    setIsPickingViewshedOrigin(picking)
+    if (!picking) return
+
+    setIsDistanceMeasuring(false)
+    if (window.innerWidth < 768) {
+      setSidebarCollapsed(true)
+    }
+  }, [])
+
+  const handleViewshedOriginPick = useCallback((coordinate: Coordinate) => {
+    setIsPickingViewshedOrigin(false)
+    setViewshedOrigin({ lat: coordinate.lat, lng: coordinate.lng })
+  }, [])
+
+  const handleViewpointViewshed = useCallback((poi: POI) => {
+    setIsPickingViewshedOrigin(false)
+    setViewshedOrigin({ lat: poi.lat, lng: poi.lng, name: poi.name })
+  }, [])
+
+  const handleViewshedClear = useCallback(() => {
+    setIsPickingViewshedOrigin(false)
+    setViewshedOrigin(null)
+  }, [])
+
+  // Recompute the viewshed when the observer or settings change; slider drags are debounced
+  useEffect(() => {
+    if (!viewshedOrigin) {
+      ViewshedService.cancel()
+      setViewshed(null)
+      setViewshedStatus('idle')
+      return
+    }
+
+    let cancelled = false
+    setViewshedStatus('computing')
+
+    const timer = setTimeout(() => {
+      ViewshedService.compute(viewshedOrigin, viewshedSettings)
+        .then(result => {
+          if (cancelled) return
+          setViewshed(result)
+          setViewshedStatus('idle')
+        })
+        .catch((error: unknown) => {
+          if (cancelled || (error instanceof DOMException && error.name === 'AbortError')) return
+          console.error('❌ Viewshed analysis failed:', error)
+          setViewshed(null)
+          setViewshedStatus('error')
+        })
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [viewshedOrigin, viewshedSettings])
+
   const handleCoordinatesChange = useCallback((coordinates: {lat: number, lng: number} | null) => {
     setCurrentCoordinates(coordinates)
   }, [])
@@ -699,491 +1225,122 @@ function MapLibreTrakkeAppInner() {
             map.setLayoutProperty(layerId, 'visibility', 'visible')
           } catch (error) {
             console.warn(`Could not show trail layer ${layerId}:`, error)
-          }
-        })
-      }
-    }
-  }, [])
-
-  // Handle Naturskog layer toggles
-  const handleNaturskogLayerToggle = useCallback((layerType: NaturskogLayerType, enabled: boolean) => {
-
-    // Track active layers for re-initialization after style changes
-    setActiveNaturskogLayers(prev => {
-      const newSet = new Set(prev)
-      if (enabled) {
-        newSet.add(layerType)
-      } else {
-        newSet.delete(layerType)
-      }
-      return newSet
-    })
-
-    if (mapRef.current) {
-      const map = mapRef.current.getMap()
-      if (map) {
-        const layerId = `naturskog-${layerType}`
-        const sourceId = `naturskog-${layerType}`
-
-        try {
-          // Lazy initialization: Add layer if it doesn't exist
-          if (!map.getLayer(layerId)) {
-
-            // Get layer configuration
-            const naturskogSources = NaturskogService.getWMSLayerSources()
-            const naturskogLayers = NaturskogService.getMapLayers()
-
-            const source = naturskogSources[sourceId]
-            const layerConfig = naturskogLayers.find(l => l.id === layerId)
-
-            if (source && layerConfig) {
-              // Add source if it doesn't exist
-              if (!map.getSource(sourceId)) {
-                map.addSource(sourceId, source)
-              }
-
-              // Add layer
-              map.addLayer(layerConfig)
-            }
-          }
-
-          // Toggle layer visibility
-          map.setLayoutProperty(layerId, 'visibility', enabled ? 'visible' : 'none')
-        } catch (error) {
-          console.warn(`⚠️ Could not toggle Naturskog layer ${layerType}:`, error)
-        }
-      }
-    }
-  }, [])
-
-  // Re-apply active layers after map style changes
-  useEffect(() => {
-    if (!mapRef.current) return
-
-    const map = mapRef.current.getMap()
-    if (!map) return
-
-    // Wait for style to load before re-adding layers
-    const handleStyleLoad = () => {
-
-      // Re-trigger trail layers if any are active
-      if (_activeTrailTypes.length > 0) {
-        handleTrailTypesChange(_activeTrailTypes)
-      }
-
-      // Re-trigger Naturskog layers if any are active
-      if (activeNaturskogLayers.size > 0) {
-        activeNaturskogLayers.forEach(layerType => {
-          handleNaturskogLayerToggle(layerType, true)
-        })
-      }
-    }
-
-    void map.once('styledata', handleStyleLoad)
-
-    return () => {
-      if (map) {
-        map.off('styledata', handleStyleLoad)
-      }
-    }
-  }, [mapType, _activeTrailTypes, activeNaturskogLayers, handleTrailTypesChange, handleNaturskogLayerToggle])
-
-  // Helper function to get active category IDs from category state
-  const getActiveCategories = (state: CategoryState): string[] => {
-    const activeCategories: string[] = []
-    
-    function checkNode(node: typeof categoryTree[0]) {
-      if (state.checked[node.id]) {
-        // Categories with actual POI data
-        if (node.id === 'krigsminne') {
-          activeCategories.push('krigsminne')
-        } else if (node.id === 'hule') {
-          activeCategories.push('hule')
-        } else if (node.id === 'observasjonstårn') {
-          activeCategories.push('observasjonstårn')
-        } else if (node.id === 'bålplass') {
-          activeCategories.push('bålplass')
-        } else if (node.id === 'gapahuk_vindskjul') {
-          activeCategories.push('gapahuk_vindskjul')
-        } else if (node.id === 'tilfluktsrom') {
-          activeCategories.push('tilfluktsrom')
-        } else if (node.id === 'bussholdeplass') {
-          activeCategories.push('bussholdeplass')
-        } else if (node.id === 'togstasjon') {
-          activeCategories.push('togstasjon')
-        }
-      }
-      if (node.children) {
-        node.children.forEach(checkNode)
-      }
-    }
-    
-    categoryTree.forEach(checkNode)
-    return activeCategories
-  }
-
-
-  // Transform Overpass POIs to our POI interface with enhanced data
-  const transformOverpassPOIs = async (overpassPOIs: OverpassPOI[]): Promise<POI[]> => {
-
-    const transformedPOIs = await Promise.all(
-      overpassPOIs.map(async poi => {
-        const basePOI: POI = {
-          id: poi.id,
-          name: ensureUTF8(poi.name),
-          description: ensureUTF8(poi.tags.description) || 'Krigsminne',
-          type: 'war_memorials' as POIType,
-          color: '#7c3aed', // På eventyr category color (purple) - war memorials
-          lat: poi.lat,
-          lng: poi.lng
-        }
-
-        // Enhance with additional data for Krigsminne POIs
-        try {
-          const enhancedData = await krigsminneEnhancementService.enhancePOI(
-            poi.lat,
-            poi.lng,
-            poi.name
-          )
-
-          if (enhancedData && Object.keys(enhancedData).length > 0) {
-            basePOI.enhancedData = enhancedData
-          }
-        } catch (enhancementError) {
-          console.warn(`⚠️ Could not enhance ${poi.name}:`, enhancementError)
-        }
-
-        return basePOI
-      })
-    )
-
-    return transformedPOIs
-  }
-
-  // Transform Cave entrance POIs to our POI interface
-  const transformCavePOIs = (cavePOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = cavePOIs.map(poi => ({
-      id: poi.id,
-      name: ensureUTF8(poi.name),
-      description: ensureUTF8(poi.tags.description) || 'Hule', // Use exact category name
-      type: 'nature_gems' as POIType, // Keep existing POI type for compatibility
-      color: '#7c3aed', // På eventyr category color (purple) - hule belongs to this category
-      lat: poi.lat,
-      lng: poi.lng
-    }))
-    
-    return transformedPOIs
-  }
-
-  // Transform observation tower POIs to our POI interface
-  const transformTowerPOIs = (towerPOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = towerPOIs.map(poi => ({
-      id: poi.id,
-      name: ensureUTF8(poi.name),
-      description: ensureUTF8(poi.tags.description) || 'Observasjonstårn', // Use exact category name
-      type: 'viewpoints' as POIType, // All tower POIs are categorized as viewpoints
-      color: '#7c3aed', // På eventyr category color (purple) - observation towers
-      lat: poi.lat,
-      lng: poi.lng
-    }))
-    
-    return transformedPOIs
-  }
-
-  // Transform hunting stand POIs to our POI interface
-  const transformHuntingStandPOIs = (huntingStandPOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = huntingStandPOIs.map(poi => {
-      // Extract specific name or use location-based fallback
-      let specificName = poi.name
-      if (!specificName || specificName === 'Jakttårn') {
-        specificName = poi.tags.place || poi.tags.addr_place || poi.tags.addr_city || 
-                      poi.tags['name:place'] || `Jakttårn`
-      }
-      
-      // Create category-specific description
-      const categoryInfo = 'Observasjonstårn'
-      const additionalInfo = []
-      
-      if (poi.tags.hunting === 'yes') additionalInfo.push('Jakttårn')
-      if (poi.tags.access) additionalInfo.push(`Tilgang: ${translateTagValue(poi.tags.access)}`)
-      if (poi.tags.height) additionalInfo.push(`Høyde: ${poi.tags.height}m`)
-      
-      const description = additionalInfo.length > 0 
-        ? `${categoryInfo}. ${additionalInfo.join('. ')}`
-        : categoryInfo
-      
-      return {
-        id: poi.id,
-        name: ensureUTF8(specificName),
-        description: ensureUTF8(description),
-        type: 'viewpoints' as POIType,
-        lat: poi.lat,
-        lng: poi.lng,
-        color: '#7c3aed' // På eventyr category color (purple) - observation towers  
-      }
-    })
-    
-    return transformedPOIs
-  }
-
-  // Transform firepit POIs to our POI interface
-  const transformFirepitPOIs = (firepitPOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = firepitPOIs.map(poi => {
-      // Extract specific name or use location-based fallback
-      let specificName = poi.name
-      if (!specificName || specificName === 'Bål-/grillplass') {
-        // Try to get location name from tags
-        specificName = poi.tags.place || poi.tags.addr_place || poi.tags.addr_city || 
-                      poi.tags['name:place'] || `Bål-/grillplass`
-      }
-      
-      // Create category-specific description
-      const categoryInfo = 'Bål-/grillplass'
-      const additionalInfo = []
-      
-      if (poi.tags.fuel) additionalInfo.push(`Brennstoff: ${translateTagValue(poi.tags.fuel)}`)
-      if (poi.tags.access) additionalInfo.push(`Tilgang: ${translateTagValue(poi.tags.access)}`)
-      if (poi.tags.fee === 'yes') additionalInfo.push('Avgift påkrevd')
-      if (poi.tags.fee === 'no') additionalInfo.push('Gratis')
-      
-      const description = additionalInfo.length > 0 
-        ? `${categoryInfo}. ${additionalInfo.join('. ')}`
-        : categoryInfo
-      
-      return {
-        id: poi.id,
-        name: ensureUTF8(specificName),
-        description: ensureUTF8(description),
-        type: 'fire_places' as POIType,
-        lat: poi.lat,
-        lng: poi.lng,
-        color: '#3e4533' // Use "Aktivitet" category color (green)
+          }
+        })
       }
-    })
-    
-    return transformedPOIs
-  }
+    }
+  }, [])
 
-  // Transform shelter POIs to our POI interface
-  const transformShelterPOIs = (shelterPOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = shelterPOIs.map(poi => {
-      // Extract specific name or use location-based fallback
-      let specificName = poi.name
-      if (!specificName || specificName === 'Gapahuk/vindskjul') {
-        specificName = poi.tags.place || poi.tags.addr_place || poi.tags.addr_city || 
-                      poi.tags['name:place'] || `Gapahuk/vindskjul`
-      }
-      
-      // Create category-specific description
-      const categoryInfo = 'Gapahuk/vindskjul'
-      const additionalInfo = []
-      
-      if (poi.tags.shelter_type) additionalInfo.push(translateTagValue(poi.tags.shelter_type))
-      
-      if (poi.tags.capacity) additionalInfo.push(`Kapasitet: ${poi.tags.capacity} personer`)
-      if (poi.tags.access) additionalInfo.push(`Tilgang: ${translateTagValue(poi.tags.access)}`)
-      if (poi.tags.fee === 'yes') additionalInfo.push('Avgift påkrevd')
-      if (poi.tags.fee === 'no') additionalInfo.push('Gratis')
-      
-      const description = additionalInfo.length > 0 
-        ? `${categoryInfo}. ${additionalInfo.join('. ')}`
-        : categoryInfo
-      
-      return {
-        id: poi.id,
-        name: ensureUTF8(specificName),
-        description: ensureUTF8(description),
-        type: 'wilderness_shelter' as POIType,
-        lat: poi.lat,
-        lng: poi.lng,
-        color: '#b45309' // Use "Overnatte" category color (orange)
+  // Handle Naturskog layer toggles
+  const handleNaturskogLayerToggle = useCallback((layerType: NaturskogLayerType, enabled: boolean) => {
+
+    // Track active layers for re-initialization after style changes
+    setActiveNaturskogLayers(prev => {
+      const newSet = new Set(prev)
+      if (enabled) {
+        newSet.add(layerType)
+      } else {
+        newSet.delete(layerType)
       }
+      return newSet
     })
-    
-    return transformedPOIs
-  }
 
-  // Transform tilfluktsrom POIs to our POI interface
-  const transformTilfluktsromPOIs = (tilfluktsromPOIs: TilfluktsromPOI[]): POI[] => {
-    const transformedPOIs = tilfluktsromPOIs.map(poi => ({
-      id: poi.id,
-      name: ensureUTF8(poi.name),
-      description: ensureUTF8(poi.tags.description ?? 'Offentlig tilfluktsrom'),
-      type: 'emergency_shelters' as POIType,
-      lat: poi.lat,
-      lng: poi.lng,
-      color: '#ea580c' // Use "Service" category color (orange)
-    }))
+    if (mapRef.current) {
+      const map = mapRef.current.getMap()
+      if (map) {
+        const layerId = `naturskog-${layerType}`
+        const sourceId = `naturskog-${layerType}`
 
-    return transformedPOIs
-  }
+        try {
+          // Lazy initialization: Add layer if it doesn't exist
+          if (!map.getLayer(layerId)) {
 
-  // Transform Entur stops (bus/train) to our POI interface
-  const transformEnturStops = (enturStops: EnturStop[], stopType: 'bus' | 'train'): POI[] => {
-    const transportColor = '#0284c7' // Transport category color
-    const isBus = stopType === 'bus'
-
-    const transformedPOIs = enturStops.map(stop => ({
-      id: stop.id,
-      name: ensureUTF8(stop.name),
-      description: stop.locality
-        ? `${isBus ? 'Bussholdeplass' : 'Togstasjon'} i ${stop.locality}`
-        : isBus ? 'Bussholdeplass' : 'Togstasjon',
-      type: (isBus ? 'public_transport' : 'train_stations') as POIType,
-      lat: stop.lat,
-      lng: stop.lng,
-      color: transportColor
-    }))
+            // Get layer configuration
+            const naturskogSources = NaturskogService.getWMSLayerSources()
+            const naturskogLayers = NaturskogService.getMapLayers()
 
-    return transformedPOIs
-  }
+            const source = naturskogSources[sourceId]
+            const layerConfig = naturskogLayers.find(l => l.id === layerId)
 
-  // Transform cable car POIs to our POI interface
-  const transformCableCarPOIs = (cableCarPOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = cableCarPOIs.map(poi => {
-      let specificName = poi.name
-      if (!specificName || specificName === 'Taubane') {
-        specificName = poi.tags.place || poi.tags.addr_place || poi.tags.addr_city ||
-                      poi.tags['name:place'] || 'Taubane'
-      }
+            if (source && layerConfig) {
+              // Add source if it doesn't exist
+              if (!map.getSource(sourceId)) {
+                map.addSource(sourceId, source)
+              }
 
-      const categoryInfo = 'Taubane'
-      const additionalInfo = []
+              // Add layer
+              map.addLayer(layerConfig)
+            }
+          }
 
-      if (poi.tags.aerialway === 'cable_car') additionalInfo.push('Kabelbane')
-      else if (poi.tags.aerialway === 'gondola') additionalInfo.push('Gondol')
-      else if (poi.tags.aerialway === 'goods') additionalInfo.push('Godsbane')
+          // Toggle layer visibility
+          map.setLayoutProperty(layerId, 'visibility', enabled ? 'visible' : 'none')
+        } catch (error) {
+          console.warn(`⚠️ Could not toggle Naturskog layer ${layerType}:`, error)
+        }
+      }
+    }
+  }, [])
 
-      if (poi.tags.access) additionalInfo.push(`Tilgang: ${translateTagValue(poi.tags.access)}`)
-      if (poi.tags.capacity) additionalInfo.push(`Kapasitet: ${poi.tags.capacity}`)
+  // Handle slope overlay changes - added lazily like the Naturskog layers
+  const handleSlopeOverlayChange = useCallback((settings: SlopeOverlaySettings) => {
+    setSlopeOverlay(settings)
 
-      const description = additionalInfo.length > 0
-        ? `${categoryInfo}. ${additionalInfo.join('. ')}`
-        : categoryInfo
+    const map = mapRef.current?.getMap()
+    if (!map) return
 
-      return {
-        id: poi.id,
-        name: ensureUTF8(specificName),
-        description: ensureUTF8(description),
-        type: 'cable_cars' as POIType,
-        lat: poi.lat,
-        lng: poi.lng,
-        color: '#0284c7' // Transport category color (blue)
+    try {
+      if (!map.getLayer(SlopeService.LAYER_ID)) {
+        if (!settings.enabled) return
+        if (!map.getSource(SlopeService.SOURCE_ID)) {
+          map.addSource(SlopeService.SOURCE_ID, SlopeService.getSource())
+        }
+        map.addLayer(SlopeService.getMapLayer(settings.opacity))
       }
-    })
-
-    return transformedPOIs
-  }
 
-  // Transform waterfall POIs to our POI interface
-  const transformWaterfallPOIs = (waterfallPOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = waterfallPOIs.map(poi => {
-      let specificName = poi.name
-      if (!specificName || specificName === 'Foss') {
-        specificName = poi.tags.place || poi.tags.addr_place || poi.tags.addr_city ||
-                      poi.tags['name:place'] || 'Foss'
-      }
+      map.setLayoutProperty(SlopeService.LAYER_ID, 'visibility', settings.enabled ? 'visible' : 'none')
+      map.setPaintProperty(SlopeService.LAYER_ID, 'raster-opacity', settings.opacity)
+    } catch (error) {
+      console.warn('⚠️ Could not update slope overlay:', error)
+    }
+  }, [])
 
-      const categoryInfo = 'Foss'
-      const additionalInfo = []
+  // Re-apply active layers after map style changes
+  useEffect(() => {
+    if (!mapRef.current) return
 
-      if (poi.tags.height) additionalInfo.push(`Høyde: ${poi.tags.height}m`)
-      if (poi.tags.intermittent === 'yes') additionalInfo.push('Sesongavhengig')
+    const map = mapRef.current.getMap()
+    if (!map) return
 
-      const description = additionalInfo.length > 0
-        ? `${categoryInfo}. ${additionalInfo.join('. ')}`
-        : categoryInfo
+    // Wait for style to load before re-adding layers
+    const handleStyleLoad = () => {
 
-      return {
-        id: poi.id,
-        name: ensureUTF8(specificName),
-        description: ensureUTF8(description),
-        type: 'nature_gems' as POIType,
-        lat: poi.lat,
-        lng: poi.lng,
-        color: '#7c3aed' // Naturperle category color (purple)
+      // Re-trigger trail layers if any are active
+      if (_activeTrailTypes.length > 0) {
+        handleTrailTypesChange(_activeTrailTypes)
       }
-    })
-
-    return transformedPOIs
-  }
 
-  // Transform viewpoint POIs to our POI interface
-  const transformViewpointPOIs = (viewpointPOIs: OverpassPOI[]): POI[] => {
-    const transformedPOIs = viewpointPOIs.map(poi => {
-      let specificName = poi.name
-      if (!specificName || specificName === 'Utsiktspunkt') {
-        specificName = poi.tags.place || poi.tags.addr_place || poi.tags.addr_city ||
-                      poi.tags['name:place'] || 'Utsiktspunkt'
+      // Re-trigger Naturskog layers if any are active
+      if (activeNaturskogLayers.size > 0) {
+        activeNaturskogLayers.forEach(layerType => {
+          handleNaturskogLayerToggle(layerType, true)
+        })
       }
 
-      const categoryInfo = 'Utsiktspunkt'
-      const additionalInfo = []
-
-      if (poi.tags.ele) additionalInfo.push(`Høyde: ${poi.tags.ele}moh`)
-      if (poi.tags.direction) additionalInfo.push(`Retning: ${poi.tags.direction}°`)
-      if (poi.tags.access) additionalInfo.push(`Tilgang: ${translateTagValue(poi.tags.access)}`)
-
-      const description = additionalInfo.length > 0
-        ? `${categoryInfo}. ${additionalInfo.join('. ')}`
-        : categoryInfo
-
-      return {
-        id: poi.id,
-        name: ensureUTF8(specificName),
-        description: ensureUTF8(description),
-        type: 'viewpoints' as POIType,
-        lat: poi.lat,
-        lng: poi.lng,
-        color: '#7c3aed' // Naturperle category color (purple)
+      // Re-trigger the slope overlay if active
+      if (slopeOverlay.enabled) {
+        handleSlopeOverlayChange(slopeOverlay)
       }
-    })
+    }
 
-    return transformedPOIs
-  }
+    void map.once('styledata', handleStyleLoad)
 
-  // Helper function to translate common OpenStreetMap tag values to Norwegian
-  const translateTagValue = (tagValue: string): string => {
-    const translations: Record<string, string> = {
-      // Access values
-      'private': 'privat',
-      'no': 'ingen tilgang',
-      'yes': 'offentlig tilgang',
-      'customers': 'kun for kunder',
-      'permit': 'kun med tillatelse',
-      'public': 'offentlig',
-      // Shelter types
-      'basic_hut': 'enkel hytte',
-      'weather_shelter': 'værbeskyttelse', 
-      'rock_shelter': 'bergskjul',
-      'lavvu': 'lavvo',
-      // Fuel types (common ones)
-      'wood': 'ved',
-      'charcoal': 'kull',
-      'gas': 'gass',
-      'electric': 'elektrisk',
-      // General
-      'unknown': 'ukjent'
+    return () => {
+      if (map) {
+        map.off('styledata', handleStyleLoad)
+      }
     }
-    
-    return translations[tagValue.toLowerCase()] || tagValue
-  }
-
-  // Helper function to ensure proper UTF-8 encoding for Norwegian characters
-  const ensureUTF8 = (text: string): string => {
-    if (!text) return text
-    
-    // Fix common Norwegian character encoding issues
-    return text
-      .replace(/Ã¦/g, 'æ')
-      .replace(/Ã¸/g, 'ø') 
-      .replace(/Ã¥/g, 'å')
-      .replace(/Ã†/g, 'Æ')
-      .replace(/Ã˜/g, 'Ø')
-      .replace(/Ã…/g, 'Å')
-      .replace(/â€"/g, '–')
-      .replace(/â€™/g, "'")
-  }
+  }, [mapType, _activeTrailTypes, activeNaturskogLayers, slopeOverlay, handleTrailTypesChange, handleNaturskogLayerToggle, handleSlopeOverlayChange])
 
   return (
     <>
@@ -1220,8 +1377,12 @@ function MapLibreTrakkeAppInner() {
           onBearingChange={handleBearingChange}
           onCoordinatesChange={handleCoordinatesChange}
           onCoordinatesCopied={handleCoordinatesCopied}
+          coordinateFormat={coordinateFormat}
           searchResult={searchResult}
           userLocation={userLocation}
+          followMode={locationMode}
+          deviceHeading={deviceHeading}
+          onFollowModeExit={handleFollowModeExit}
           sidebarCollapsed={sidebarCollapsed}
           mapType={mapType}
           distanceMeasurements={distanceMeasurements}
@@ -1231,6 +1392,23 @@ function MapLibreTrakkeAppInner() {
           activeTrailTypes={_activeTrailTypes}
           onTrailSelect={handleTrailSelect}
           onTrailHighlight={handleTrailHighlight}
+          userTracks={userTracks}
+          offlineAreaBounds={offlineAreaBounds}
+          showUtmGrid={showUtmGrid}
+          profileHighlightPoint={measurementProfilePoint}
+          recordedTracks={[
+            ...recordedTracks.filter(track => visibleRecordedTrackIds.includes(track.id)),
+            ...(activeRecording ? [activeRecording] : [])
+          ]}
+          poiRenderMode={poiRenderMode}
+          terrain={terrain}
+          viewshedOrigin={viewshedOrigin}
+          viewshed={viewshed}
+          isPickingViewshedOrigin={isPickingViewshedOrigin}
+          onViewshedOriginPick={handleViewshedOriginPick}
+          initialView={initialLink.view}
+          onMapViewChange={setMapView}
+          onPOISelect={handlePOISelect}
         />
       </div>
 
@@ -1305,7 +1483,11 @@ function MapLibreTrakkeAppInner() {
             </div>
 
             {/* Coordinate Display (mobile only) */}
-            <CoordinateDisplay coordinates={currentCoordinates} />
+            <CoordinateDisplay
+              coordinates={currentCoordinates}
+              format={coordinateFormat}
+              onFormatChange={handleCoordinateFormatChange}
+            />
 
             {/* Categories and Footer */}
             <div style={{
@@ -1318,6 +1500,10 @@ function MapLibreTrakkeAppInner() {
               <MapTypePanel
                 mapType={mapType}
                 onMapTypeChange={handleMapTypeChange}
+                poiRenderMode={poiRenderMode}
+                onPOIRenderModeChange={handlePOIRenderModeChange}
+                terrain={terrain}
+                onTerrainChange={handleTerrainChange}
               />
 
               <CategoryPanel
@@ -1328,15 +1514,80 @@ function MapLibreTrakkeAppInner() {
                 pois={pois}
                 loading={loading}
                 error={error}
+                sourceStatus={overpassStatus}
+                zoom={currentZoom}
               />
 
               <NaturskogPanel
                 onLayerToggle={handleNaturskogLayerToggle}
               />
+              <SlopePanel
+                settings={slopeOverlay}
+                onChange={handleSlopeOverlayChange}
+                zoom={currentZoom}
+              />
+              <ViewshedPanel
+                settings={viewshedSettings}
+                onSettingsChange={setViewshedSettings}
+                origin={viewshedOrigin}
+                viewshed={viewshed}
+                status={viewshedStatus}
+                isPicking={isPickingViewshedOrigin}
+                onPickToggle={handleViewshedPickToggle}
+                selectedViewpoint={pois.find(poi => poi.id === selectedPOIId && poi.type === 'viewpoints') ?? null}
+                onViewpointSelect={handleViewpointViewshed}
+                onClear={handleViewshedClear}
+              />
+              <UtmGridPanel
+                enabled={showUtmGrid}
+                coordinateFormat={coordinateFormat}
+                onToggle={setShowUtmGrid}
+              />
               <TrailPanel
                 onTrailTypesChange={handleTrailTypesChange}
+                defaultExpanded={linkAction === 'trails'}
+              />
+
+              <GPXImportButton
+                userTracks={userTracks}
+                onImport={handleGPXImport}
+                onRemove={handleGPXRemove}
+              />
+
+              <RecordedTracksPanel
+                tracks={recordedTracks}
+                visibleTrackIds={visibleRecordedTrackIds}
+                onToggleVisible={handleRecordedTrackToggleVisible}
+                onRename={handleRecordedTrackRename}
+                onExport={handleRecordedTrackExport}
+                onDelete={handleRecordedTrackDelete}
+              />
+
+              <MeasurementPanel
+                measurements={distanceMeasurements}
+                onChange={handleMeasurementChange}
+                onDelete={handleMeasurementDelete}
+                onShow={handleMeasurementShow}
+                onRetryProfile={handleMeasurementProfileRetry}
+                onProfileHover={setMeasurementProfilePoint}
+                travelTime={travelTimeSettings}
+                onTravelTimeChange={handleTravelTimeChange}
+              />
+
+              <OfflineAreaPanel
+                selectedBounds={offlineAreaBounds}
+                sources={OfflineMapService.getTileSources({
+                  naturskogLayers: activeNaturskogLayers,
+                  trailTypes: _activeTrailTypes
+                })}
+                currentZoom={currentZoom}
+                onSelectArea={handleOfflineAreaSelect}
+                onClearSelection={() => setOfflineAreaBounds(null)}
+                onShowPackage={handleOfflinePackageShow}
               />
 
+              <UtskriftButton />
+
               <HurtigtasterButton />
 
               <SlettDataButton />
@@ -1582,15 +1833,21 @@ function MapLibreTrakkeAppInner() {
           </button>
         </div>
 
-        {/* 2. Location/Navigation Combined (reset bearing + go to location) */}
+        {/* 2. Location/Navigation Combined (reset bearing + follow location + compass heading) */}
         <button
-          aria-label={locationLoading ? "Getting location..." : "Reset orientation and center on my location"}
+          aria-label={locationLoading ? "Getting location..." : {
+            off: 'Reset orientation and follow my location',
+            located: 'Center on my location',
+            follow: 'Rotate map with compass',
+            heading: 'Stop showing my location'
+          }[locationMode]}
+          aria-pressed={locationMode === 'follow' || locationMode === 'heading'}
           tabIndex={5}
           disabled={locationLoading}
           style={{
             width: '44px',
             height: '44px',
-            background: (userLocation || locationLoading) ? '#3e4533' : 'rgba(255, 255, 255, 0.9)',
+            background: (locationMode !== 'off' || locationLoading) ? '#3e4533' : 'rgba(255, 255, 255, 0.9)',
             borderRadius: '8px',
             border: 'none',
             boxShadow: '0 1px 3px rgba(0,0,0,0.15)',
@@ -1604,33 +1861,28 @@ function MapLibreTrakkeAppInner() {
           onMouseEnter={(e) => {
             if (!locationLoading) {
               e.currentTarget.style.transform = 'scale(1.05)'
-              e.currentTarget.style.background = (userLocation || locationLoading) ? '#2d3327' : '#ffffff'
+              e.currentTarget.style.background = (locationMode !== 'off' || locationLoading) ? '#2d3327' : '#ffffff'
               e.currentTarget.style.boxShadow = '0 2px 6px rgba(0,0,0,0.25)'
             }
           }}
           onMouseLeave={(e) => {
             if (!locationLoading) {
               e.currentTarget.style.transform = 'scale(1.0)'
-              e.currentTarget.style.background = (userLocation || locationLoading) ? '#3e4533' : 'rgba(255, 255, 255, 0.9)'
+              e.currentTarget.style.background = (locationMode !== 'off' || locationLoading) ? '#3e4533' : 'rgba(255, 255, 255, 0.9)'
               e.currentTarget.style.boxShadow = '0 1px 3px rgba(0,0,0,0.15)'
             }
           }}
-          onClick={() => {
-            if (mapRef.current) {
-              mapRef.current.resetBearing()
-            }
-            handleLocationClick()
-          }}
+          onClick={handleLocationClick}
         >
           <span style={{
             fontFamily: 'Material Symbols Outlined',
             fontSize: '20px',
-            color: (userLocation || locationLoading) ? 'white' : '#111827',
+            color: (locationMode !== 'off' || locationLoading) ? 'white' : '#111827',
             transform: `rotate(${-mapBearing}deg)`,
             transition: 'transform 0.3s cubic-bezier(0.4, 0, 0.2, 1)',
             animation: locationLoading ? 'spin 1s linear infinite' : 'none'
           }}>
-            {locationLoading ? 'sync' : 'navigation'}
+            {locationLoading ? 'sync' : { off: 'navigation', located: 'navigation', follow: 'my_location', heading: 'explore' }[locationMode]}
           </span>
         </button>
 
@@ -1676,6 +1928,44 @@ function MapLibreTrakkeAppInner() {
           </span>
         </button>
 
+        {/* 3b. GPS Track Recording */}
+        <button
+          aria-label={activeRecording ? "Stop and save track recording" : "Start track recording"}
+          tabIndex={6}
+          style={{
+            width: '44px',
+            height: '44px',
+            background: activeRecording ? '#b91c1c' : 'rgba(255, 255, 255, 0.9)',
+            borderRadius: '8px',
+            border: 'none',
+            boxShadow: '0 1px 3px rgba(0,0,0,0.15)',
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            transition: 'all 0.2s ease'
+          }}
+          onMouseEnter={(e) => {
+            e.currentTarget.style.transform = 'scale(1.05)'
+            e.currentTarget.style.background = activeRecording ? '#991b1b' : '#ffffff'
+            e.currentTarget.style.boxShadow = '0 2px 6px rgba(0,0,0,0.25)'
+          }}
+          onMouseLeave={(e) => {
+            e.currentTarget.style.transform = 'scale(1.0)'
+            e.currentTarget.style.background = activeRecording ? '#b91c1c' : 'rgba(255, 255, 255, 0.9)'
+            e.currentTarget.style.boxShadow = '0 1px 3px rgba(0,0,0,0.15)'
+          }}
+          onClick={activeRecording ? handleRecordingStop : handleRecordingStart}
+        >
+          <span style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '20px',
+            color: activeRecording ? 'white' : '#111827'
+          }}>
+            {activeRecording ? 'stop' : 'radio_button_checked'}
+          </span>
+        </button>
+
         {/* 4. Clear Distance Measurements */}
         {distanceMeasurements.length > 0 && (
           <button
@@ -1705,7 +1995,7 @@ function MapLibreTrakkeAppInner() {
               e.currentTarget.style.boxShadow = '0 1px 3px rgba(0,0,0,0.15)'
             }}
             onClick={() => {
-              if (mapRef.current) {
+              if (mapRef.current && window.confirm('Slette alle avstandsmålinger?')) {
                 mapRef.current.clearDistanceMeasurements()
               }
             }}
@@ -1720,6 +2010,46 @@ function MapLibreTrakkeAppInner() {
           </button>
         )}
 
+        {/* 4b. Export Distance Measurements as GPX */}
+        {distanceMeasurements.length > 0 && (
+          <button
+            aria-label="Export distance measurements as GPX"
+            tabIndex={7}
+            style={{
+              width: '44px',
+              height: '44px',
+              background: 'rgba(255, 255, 255, 0.9)',
+              borderRadius: '8px',
+              border: 'none',
+              boxShadow: '0 1px 3px rgba(0,0,0,0.15)',
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              transition: 'all 0.2s ease'
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.transform = 'scale(1.05)'
+              e.currentTarget.style.background = '#ffffff'
+              e.currentTarget.style.boxShadow = '0 2px 6px rgba(0,0,0,0.25)'
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.transform = 'scale(1.0)'
+              e.currentTarget.style.background = 'rgba(255, 255, 255, 0.9)'
+              e.currentTarget.style.boxShadow = '0 1px 3px rgba(0,0,0,0.15)'
+            }}
+            onClick={handleMeasurementsExport}
+          >
+            <span style={{
+              fontFamily: 'Material Symbols Outlined',
+              fontSize: '20px',
+              color: '#111827'
+            }}>
+              download
+            </span>
+          </button>
+        )}
+
         {/* 5. Info/Attribution Button */}
         <button
           aria-label="Map information and credits"
@@ -1838,9 +2168,96 @@ function MapLibreTrakkeAppInner() {
           <span>
             {window.innerWidth < 768 ? 'Trykk på kartet for å måle' : 'Klikk på kartet for å måle avstand'}
           </span>
+          <button
+            onClick={() => mapRef.current?.undoLastMeasurementPoint()}
+            aria-label="Angre siste punkt"
+            title="Angre siste punkt"
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              color: 'white'
+            }}
+          >
+            <span style={{
+              fontFamily: 'Material Symbols Outlined',
+              fontSize: '16px'
+            }}>
+              undo
+            </span>
+          </button>
+        </div>
+      )}
+
+      {/* Viewshed Observer Picking Indicator */}
+      {isPickingViewshedOrigin && (
+        <div style={{
+          position: 'absolute',
+          bottom: '24px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          zIndex: 100,
+          backgroundColor: '#3e4533',
+          color: 'white',
+          padding: '4px 6px',
+          borderRadius: '4px',
+          boxShadow: '0 1px 3px rgba(0,0,0,0.15)',
+          fontSize: '12px',
+          fontWeight: '500',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          animation: 'fadeIn 0.3s ease',
+          fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+          whiteSpace: 'nowrap'
+        }}>
+          <span style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '14px'
+          }}>
+            visibility
+          </span>
+          <span>
+            {window.innerWidth < 768 ? 'Trykk der du vil se utsikten fra' : 'Klikk der du vil se utsikten fra'}
+          </span>
+          <button
+            onClick={() => setIsPickingViewshedOrigin(false)}
+            aria-label="Avbryt"
+            title="Avbryt"
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              cursor: 'pointer',
+              display: 'flex',
+              alignItems: 'center',
+              color: 'white'
+            }}
+          >
+            <span style={{
+              fontFamily: 'Material Symbols Outlined',
+              fontSize: '16px'
+            }}>
+              close
+            </span>
+          </button>
         </div>
       )}
 
+      {/* GPS Track Recording Indicator */}
+      {activeRecording && (
+        <TrackRecordingBar
+          track={activeRecording}
+          bottomOffset={isDistanceMeasuring ? 64 : 24}
+          onPause={() => setActiveRecording(prev => prev ? TrackRecordingService.pause(prev) : prev)}
+          onResume={() => setActiveRecording(prev => prev ? TrackRecordingService.resume(prev) : prev)}
+          onStop={handleRecordingStop}
+        />
+      )}
+
       {/* Coordinates Copied Confirmation */}
       {coordinatesCopied && (
         <div style={{
@@ -2208,6 +2625,13 @@ function MapLibreTrakkeAppInner() {
         onClose={closeTegnforklaring}
       />
 
+      <UtskriftModal
+        isOpen={isUtskriftOpen}
+        onClose={closeUtskrift}
+        getMap={() => mapRef.current?.getMap() ?? null}
+        pois={pois}
+      />
+
       {/* PWA Install Prompt Modal */}
       {showInstallPrompt && (
         <InstallPromptModal
@@ -2230,6 +2654,8 @@ function MapLibreTrakkeAppInner() {
       {showTrailDetails && (
         <TrailDetails
           trail={selectedTrail}
+          travelTime={travelTimeSettings}
+          onTravelTimeChange={handleTravelTimeChange}
           onClose={handleCloseTrailDetails}
         />
       )}
@@ -1,6 +1,8 @@
 import React, { useState } from 'react'
 import { CategoryNode, CategoryState, POI } from '../data/pois'
 import { HierarchicalCategoryFilter } from './HierarchicalCategoryFilter'
+import type { OverpassStatus } from '../services/overpassService'
+import { getCategoryMinZoom, hasPOISource } from '../data/poiSources'
 
 interface CategoryPanelProps {
   categoryTree: CategoryNode[]
@@ -10,6 +12,16 @@ interface CategoryPanelProps {
   pois: POI[]
   loading: boolean
   error: string | null
+  sourceStatus: OverpassStatus
+  zoom: number // Current map zoom, to tell which checked categories are hidden until zoomed in
+}
+
+// Checked categories with data that only loads at a higher zoom
+function getZoomHiddenCategories(nodes: CategoryNode[], state: CategoryState, zoom: number): CategoryNode[] {
+  return nodes.flatMap(node => [
+    ...(state.checked[node.id] && hasPOISource(node.id) && zoom < getCategoryMinZoom(node.id) ? [node] : []),
+    ...getZoomHiddenCategories(node.children ?? [], state, zoom)
+  ])
 }
 
 export function CategoryPanel({
@@ -19,9 +31,12 @@ export function CategoryPanel({
   onExpandToggle,
   pois,
   loading,
-  error
+  error,
+  sourceStatus,
+  zoom
 }: CategoryPanelProps) {
   const [isCategoriesExpanded, setIsCategoriesExpanded] = useState(false) // Start collapsed
+  const zoomHiddenCategories = getZoomHiddenCategories(categoryTree, categoryState, zoom)
 
   return (
     <div>
@@ -51,6 +66,40 @@ export function CategoryPanel({
         </div>
       )}
 
+      {sourceStatus !== 'ok' && (
+        <div
+          role="status"
+          style={{
+            padding: '8px',
+            backgroundColor: '#fffbeb',
+            borderRadius: '4px',
+            marginBottom: '8px',
+            fontSize: '12px',
+            color: '#b45309'
+          }}
+        >
+          {sourceStatus === 'degraded'
+            ? 'OpenStreetMap svarer tregt. Data hentes fra en reserveserver.'
+            : 'OpenStreetMap er ikke tilgjengelig. Viser lagrede interessepunkter.'}
+        </div>
+      )}
+
+      {zoomHiddenCategories.length > 0 && (
+        <div
+          role="status"
+          style={{
+            padding: '8px',
+            backgroundColor: '#f8fafc',
+            borderRadius: '4px',
+            marginBottom: '8px',
+            fontSize: '12px',
+            color: '#64748b'
+          }}
+        >
+          Zoom inn for å se {zoomHiddenCategories.map(node => node.name.toLowerCase()).join(', ')}.
+        </div>
+      )}
+
       {/* Categories panel */}
       <div className="categories-panel" style={{ marginBottom: '16px' }}>
         {/* Toggle Button */}
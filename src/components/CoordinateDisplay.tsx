@@ -1,15 +1,19 @@
 import React from 'react'
+import { COORDINATE_FORMATS, CoordinateFormat, formatCoordinates } from '../services/coordinateService'
 
 interface CoordinateDisplayProps {
   coordinates: { lat: number; lng: number } | null
+  format: CoordinateFormat
+  onFormatChange: (format: CoordinateFormat) => void
 }
 
 /**
  * CoordinateDisplay - Shows current map coordinates for mobile devices
  * Displays between search box and category panel
  * Updates as user touches/navigates the map
+ * Tapping the format label cycles DD → DMS → DDM → UTM → MGRS
  */
-export const CoordinateDisplay: React.FC<CoordinateDisplayProps> = ({ coordinates }) => {
+export const CoordinateDisplay: React.FC<CoordinateDisplayProps> = ({ coordinates, format, onFormatChange }) => {
   // Only show on mobile (< 768px)
   const isMobile = typeof window !== 'undefined' && window.innerWidth < 768
 
@@ -22,6 +26,9 @@ export const CoordinateDisplay: React.FC<CoordinateDisplayProps> = ({ coordinate
     return value.toFixed(decimals)
   }
 
+  const formats = Object.keys(COORDINATE_FORMATS) as CoordinateFormat[]
+  const nextFormat = formats[(formats.indexOf(format) + 1) % formats.length]
+
   return (
     <div
       style={{
@@ -36,16 +43,39 @@ export const CoordinateDisplay: React.FC<CoordinateDisplayProps> = ({ coordinate
         backgroundColor: '#f9fafb'
       }}
     >
-      <div style={{ display: 'flex', gap: '16px' }}>
-        <span>
-          <span style={{ fontWeight: '500', color: '#374151' }}>Lat:</span>{' '}
-          {formatCoordinate(coordinates.lat)}
-        </span>
-        <span>
-          <span style={{ fontWeight: '500', color: '#374151' }}>Lng:</span>{' '}
-          {formatCoordinate(coordinates.lng)}
+      {format === 'dd' ? (
+        <div style={{ display: 'flex', gap: '16px' }}>
+          <span>
+            <span style={{ fontWeight: '500', color: '#374151' }}>Lat:</span>{' '}
+            {formatCoordinate(coordinates.lat)}
+          </span>
+          <span>
+            <span style={{ fontWeight: '500', color: '#374151' }}>Lng:</span>{' '}
+            {formatCoordinate(coordinates.lng)}
+          </span>
+        </div>
+      ) : (
+        <span style={{ color: '#374151' }}>
+          {formatCoordinates(coordinates.lat, coordinates.lng, format)}
         </span>
-      </div>
+      )}
+      <button
+        onClick={() => onFormatChange(nextFormat)}
+        aria-label={`Koordinatformat ${COORDINATE_FORMATS[format]}, bytt til ${COORDINATE_FORMATS[nextFormat]}`}
+        style={{
+          padding: '2px 6px',
+          border: '1px solid #e5e7eb',
+          borderRadius: '4px',
+          backgroundColor: 'white',
+          fontSize: '11px',
+          fontWeight: '600',
+          fontFamily: 'inherit',
+          color: '#374151',
+          cursor: 'pointer'
+        }}
+      >
+        {COORDINATE_FORMATS[format]}
+      </button>
     </div>
   )
 }
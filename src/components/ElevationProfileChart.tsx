@@ -0,0 +1,134 @@
+import React, { useState } from 'react'
+import type { ElevationPoint } from '../data/trails'
+import { formatDistance } from '../services/distanceService'
+
+interface ElevationProfileChartProps {
+  profile: ElevationPoint[]
+  color?: string
+  highlightRange?: [number, number] // Distance range (meters) to shade, e.g. the steepest stretch
+  onHover?: (point: ElevationPoint | null) => void
+}
+
+const WIDTH = 300
+const HEIGHT = 100
+const PADDING = { top: 8, right: 4, bottom: 16, left: 34 }
+
+export function ElevationProfileChart({ profile, color = '#3e4533', highlightRange, onHover }: ElevationProfileChartProps) {
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+  if (profile.length < 2) return null
+
+  const maxDistance = profile[profile.length - 1].distance || 1
+  const elevations = profile.map(point => point.elevation)
+  const minElevation = Math.min(...elevations)
+  const maxElevation = Math.max(...elevations)
+  const elevationRange = maxElevation - minElevation || 1
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const x = (distance: number) => PADDING.left + (distance / maxDistance) * plotWidth
+  const y = (elevation: number) => PADDING.top + plotHeight - ((elevation - minElevation) / elevationRange) * plotHeight
+
+  const linePoints = profile.map(point => `${x(point.distance)},${y(point.elevation)}`).join(' ')
+  const baseline = PADDING.top + plotHeight
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    const svgX = ((event.clientX - rect.left) / rect.width) * WIDTH
+    const distance = Math.max(0, Math.min(1, (svgX - PADDING.left) / plotWidth)) * maxDistance
+
+    let nearest = 0
+    profile.forEach((point, index) => {
+      if (Math.abs(point.distance - distance) < Math.abs(profile[nearest].distance - distance)) {
+        nearest = index
+      }
+    })
+
+    setHoverIndex(nearest)
+    onHover?.(profile[nearest])
+  }
+
+  const handlePointerLeave = () => {
+    setHoverIndex(null)
+    onHover?.(null)
+  }
+
+  const hoverPoint = hoverIndex !== null ? profile[hoverIndex] : null
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      width="100%"
+      style={{ display: 'block', touchAction: 'none', cursor: 'crosshair' }}
+      onPointerMove={handlePointerMove}
+      onPointerDown={handlePointerMove}
+      onPointerLeave={handlePointerLeave}
+      role="img"
+      aria-label={`Høydeprofil fra ${Math.round(minElevation)} til ${Math.round(maxElevation)} moh`}
+    >
+      {highlightRange && (
+        <rect
+          x={x(highlightRange[0])}
+          y={PADDING.top}
+          width={Math.max(1, x(highlightRange[1]) - x(highlightRange[0]))}
+          height={plotHeight}
+          fill="#f59e0b"
+          fillOpacity="0.2"
+        />
+      )}
+
+      {/* Fill area under curve */}
+      <polygon
+        points={`${x(0)},${baseline} ${linePoints} ${x(maxDistance)},${baseline}`}
+        fill={color}
+        fillOpacity="0.12"
+      />
+      {/* Elevation line */}
+      <polyline
+        points={linePoints}
+        fill="none"
+        stroke={color}
+        strokeWidth="2"
+        strokeLinejoin="round"
+      />
+
+      {/* Labels */}
+      <text x={PADDING.left - 4} y={PADDING.top + 8} fontSize="9" fill="#6b7280" textAnchor="end">
+        {Math.round(maxElevation)} m
+      </text>
+      <text x={PADDING.left - 4} y={baseline} fontSize="9" fill="#6b7280" textAnchor="end">
+        {Math.round(minElevation)} m
+      </text>
+      <text x={x(0)} y={HEIGHT - 3} fontSize="9" fill="#6b7280">
+        0
+      </text>
+      <text x={x(maxDistance)} y={HEIGHT - 3} fontSize="9" fill="#6b7280" textAnchor="end">
+        {formatDistance(maxDistance)}
+      </text>
+
+      {hoverPoint && (
+        <>
+          <line
+            x1={x(hoverPoint.distance)}
+            x2={x(hoverPoint.distance)}
+            y1={PADDING.top}
+            y2={baseline}
+            stroke="#374151"
+            strokeWidth="1"
+            strokeDasharray="2 2"
+          />
+          <circle cx={x(hoverPoint.distance)} cy={y(hoverPoint.elevation)} r="3.5" fill={color} stroke="white" strokeWidth="1.5" />
+          <text
+            x={Math.min(x(hoverPoint.distance) + 4, WIDTH - 70)}
+            y={PADDING.top + 8}
+            fontSize="9"
+            fontWeight="600"
+            fill="#111827"
+          >
+            {Math.round(hoverPoint.elevation)} moh · {formatDistance(hoverPoint.distance)}
+          </text>
+        </>
+      )}
+    </svg>
+  )
+}
@@ -0,0 +1,150 @@
+import React, { useRef, useState } from 'react'
+import { GPXData, parseGPX } from '../services/gpxService'
+
+interface GPXImportButtonProps {
+  userTracks: GPXData[]
+  onImport: (data: GPXData) => void
+  onRemove: (id: string) => void
+}
+
+export function GPXImportButton({ userTracks, onImport, onRemove }: GPXImportButtonProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? [])
+    setError(null)
+
+    for (const file of files) {
+      try {
+        const text = await file.text()
+        onImport(parseGPX(text, file.name.replace(/\.gpx$/i, '')))
+      } catch (importError) {
+        console.error('❌ Failed to import GPX:', importError)
+        setError(`${file.name}: ${importError instanceof Error ? importError.message : 'Ukjent feil'}`)
+      }
+    }
+
+    // Allow importing the same file again
+    event.target.value = ''
+  }
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept=".gpx,application/gpx+xml"
+        multiple
+        style={{ display: 'none' }}
+        onChange={(e) => { void handleFileChange(e) }}
+      />
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        style={{
+          width: '100%',
+          padding: '12px',
+          backgroundColor: '#ffffff',
+          border: '1px solid #e2e8f0',
+          borderRadius: '6px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '8px',
+          cursor: 'pointer',
+          fontSize: '14px',
+          fontWeight: '500',
+          color: '#334155',
+          transition: 'all 0.2s ease',
+          outline: 'none'
+        }}
+        onMouseEnter={(e) => {
+          e.currentTarget.style.backgroundColor = '#f8fafc'
+          e.currentTarget.style.borderColor = '#cbd5e1'
+        }}
+        onMouseLeave={(e) => {
+          e.currentTarget.style.backgroundColor = '#ffffff'
+          e.currentTarget.style.borderColor = '#e2e8f0'
+        }}
+        onFocus={(e) => {
+          e.currentTarget.style.borderColor = '#94a3b8'
+          e.currentTarget.style.boxShadow = '0 0 0 2px rgba(148, 163, 184, 0.1)'
+        }}
+        onBlur={(e) => {
+          e.currentTarget.style.borderColor = '#e2e8f0'
+          e.currentTarget.style.boxShadow = 'none'
+        }}
+      >
+        <span style={{
+          fontFamily: 'Material Symbols Outlined',
+          fontSize: '16px',
+          color: '#64748b'
+        }}>
+          upload_file
+        </span>
+        <span>Importer GPX</span>
+      </button>
+
+      {error && (
+        <p style={{
+          margin: '8px 0 0 0',
+          fontSize: '12px',
+          color: '#b91c1c',
+          lineHeight: '1.4'
+        }}>
+          {error}
+        </p>
+      )}
+
+      {userTracks.length > 0 && (
+        <ul style={{
+          listStyle: 'none',
+          margin: '8px 0 0 0',
+          padding: 0,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: '4px'
+        }}>
+          {userTracks.map(data => (
+            <li
+              key={data.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                padding: '6px 10px',
+                backgroundColor: '#f8fafc',
+                borderRadius: '6px',
+                fontSize: '13px',
+                color: '#334155'
+              }}
+            >
+              <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {data.name}
+              </span>
+              <button
+                onClick={() => onRemove(data.id)}
+                aria-label={`Fjern ${data.name}`}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  padding: '2px',
+                  display: 'flex',
+                  alignItems: 'center'
+                }}
+              >
+                <span style={{
+                  fontFamily: 'Material Symbols Outlined',
+                  fontSize: '16px',
+                  color: '#64748b'
+                }}>
+                  close
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
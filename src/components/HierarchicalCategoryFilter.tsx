@@ -1,5 +1,6 @@
 import React from 'react'
 import { CategoryNode, CategoryState, POI } from '../data/pois'
+import { hasPOISource } from '../data/poiSources'
 
 interface HierarchicalCategoryFilterProps {
   categoryTree: CategoryNode[]
@@ -19,61 +20,8 @@ export function HierarchicalCategoryFilter({
   
   // Check if category has available data sources
   const categoryHasData = (node: CategoryNode): boolean => {
-    // Categories with active data sources - Multiple POI types now available
-    const activeCategoryMapping: Record<string, boolean> = {
-      // Only parent category with actual data
-      'på_eventyr': true,         // Contains multiple subcategories with real POIs
-      
-      // Active subcategories with real POI data from Overpass API
-      'krigsminne': true,         // War memorials and historic forts
-      'hule': true,               // Cave entrances from natural=cave_entrance
-      'observasjonstårn': true,   // Observation towers and watchtowers + hunting stands
-      
-      // Newly active categories with real POI data
-      'aktivitet': true,          // Contains bålplass with firepit data
-      'naturperle': true,         // Contains foss and utsiktspunkt with real POI data
-      'overnatte': true,          // Contains gapahuk_vindskjul with shelter data
-      'service': true,            // Contains tilfluktsrom with real WFS data
-      'transport': true,          // Contains bus stops and train stations from Entur API
-
-      // Newly active subcategories with real POI data
-      'bålplass': true,           // Fire pits from leisure=firepit
-      'gapahuk_vindskjul': true,  // Shelters from amenity=shelter
-      'tilfluktsrom': true,       // Emergency shelters from Geonorge WFS
-
-      // All other subcategories inactive (no POI sources)
-      'badeplass': false,
-      'badeplass_med_strand': false,
-      'fiskeplass': false,
-      'kanopadling': false,
-      'foss': true,               // Waterfalls from waterway=waterfall
-      'utsiktspunkt': true,       // Viewpoints from tourism=viewpoint
-      'campingplass': false,
-      'fri_camping': false,
-      'hengekøyeplass': false,
-      'hytte_dagstur': false,
-      'hytte_turisthytte_betjent': false,
-      'hytte_turisthytte_selvbetjent': false,
-      'hytte_turisthytte_ubetjent': false,
-      'hytte_utleie': false,
-      'teltplass': false,
-      'vandrerhjem': false,
-      'kulturminne': false,
-      'informasjon': false,
-      'drikkevann': false,
-      'spise_rasteplass': false,
-      'toalett': false,
-      'utfartparkering': false,
-      'bussholdeplass': true,     // Bus stops from Entur API
-      'taubane': true,            // Cable cars from aerialway=cable_car, gondola, goods
-      'togstasjon': true,         // Train stations from Entur API
-      'tursti': false,
-      'fjelltopp': false,
-      'skiløype': false
-    }
-    
-    // Check if this category or any of its children have data
-    const hasDirectData = activeCategoryMapping[node.id] || false
+    // Categories with a declared data source in the POI source registry
+    const hasDirectData = hasPOISource(node.id)
     
     if (hasDirectData) return true
     
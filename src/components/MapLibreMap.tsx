@@ -6,30 +6,84 @@ import { SearchResult } from '../services/searchService'
 import {
   DistanceMeasurement,
   Coordinate,
-  calculatePolylineDistance,
   calculateHaversineDistance,
   formatDistance,
-  generateMeasurementId
+  createMeasurement,
+  updateMeasurementPoints,
+  insertMeasurementPoint,
+  removeMeasurementPoint
 } from '../services/distanceService'
 import { TurrutebasenService } from '../services/turrutebasenService'
-import type { Trail, BoundingBox, TrailType } from '../data/trails'
+import { CoordinateFormat, formatCoordinates } from '../services/coordinateService'
+import type { Trail, BoundingBox, TrailType, ElevationPoint } from '../data/trails'
 import { TrailUtils, TRAIL_STYLES } from '../data/trails'
 import { NaturskogService } from '../services/naturskogService'
+import type { GPXData } from '../services/gpxService'
+import type { RecordedPoint, RecordedTrack } from '../services/trackRecordingService'
+import { KARTVERKET_TOPO_TILE_URL } from '../services/offlineMapService'
+import { POICluster, PoiClusterService } from '../services/poiClusterService'
+import { POIRenderMode, PoiSymbolService } from '../services/poiSymbolService'
+import type { MapView } from '../services/deepLinkService'
+import { UTMGrid, UtmGridService } from '../services/utmGridService'
+import { DEFAULT_TERRAIN_SETTINGS, TerrainService, TerrainSettings } from '../services/terrainService'
+import { Viewshed, ViewshedOrigin, ViewshedService } from '../services/viewshedService'
 
 // ARCHITECTURAL SAFEGUARDS - PREVENT REGRESSION TO OLD APPROACHES
 // ================================================================
-// 🚫 NO GeoJSON - This file must NEVER use GeoJSON for POI rendering
+// 🚫 NO GeoJSON files - POIs always come from the APIs, never from bundled GeoJSON data
 // 🚫 NO WMS Raster tiles - This file must NEVER use Kartverket WMS raster tiles
 // ✅ API-BASED POI rendering using custom DOM overlays (not MapLibre markers)
+// ✅ Opt-in symbol layers (poiRenderMode 'symbols') render the same API POIs on the GPU
 // ✅ WMTS tiles only for base map
 // ================================================================
 
+const POI_SOURCE_ID = 'pois'
+const POI_LAYER_IDS = ['pois-circles', 'pois-icons']
+const UTM_GRID_SOURCE_ID = 'utm-grid'
+const UTM_GRID_LAYER_IDS = ['utm-grid-lines', 'utm-grid-zones']
+
+// POI popup content, shared by the DOM overlays and the symbol layers
+const createPOIPopupContent = (poi: POI): string => {
+  const isMobile = window.innerWidth < 768
+
+  // Simplified popup for faster rendering
+  return `
+    <div style="background: white; border-radius: 8px; box-shadow: 0 4px 12px rgba(0,0,0,0.15);
+                max-width: ${isMobile ? '85vw' : '320px'}; min-width: 280px;
+                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+                position: relative;">
+      <button onclick="this.closest('.maplibregl-popup').remove()" style="
+        position: absolute; top: 8px; right: 8px; width: 28px; height: 28px; border: none;
+        background: rgba(0,0,0,0.1); border-radius: 6px; cursor: pointer; display: flex;
+        align-items: center; justify-content: center; font-size: 16px; color: #666; z-index: 1;">×</button>
+      <div style="padding: 14px 44px 14px 14px;">
+        <div style="display: flex; align-items: center; gap: 10px; margin-bottom: 8px;">
+          <div style="width: 20px; height: 20px; border-radius: 50%; background: ${poi.color ?? '#7c3aed'}; flex-shrink: 0;"></div>
+          <h3 style="margin: 0; font-size: 15px; font-weight: 600; color: #1F2937;">${poi.name}</h3>
+        </div>
+        <div style="font-size: 13px; color: #4B5563; line-height: 1.4;">${poi.description}</div>
+      </div>
+    </div>
+  `
+}
+
+export interface UserLocation {
+  lat: number
+  lng: number
+  accuracy?: number // Meters
+}
+
+// located: position updates shown without moving the map; follow: map centred on the user;
+// heading: centred and rotated to the compass heading
+export type LocationFollowMode = 'off' | 'located' | 'follow' | 'heading'
 
 export interface MapLibreMapRef {
   resetBearing: () => void
   getMap: () => maplibregl.Map | null
   toggleDistanceMeasurement: () => void
   clearDistanceMeasurements: () => void
+  undoLastMeasurementPoint: () => void
+  openPOI: (poi: POI) => void // Show a POI's popup, e.g. from a shared link
 }
 
 export interface MapLibreMapProps {
@@ -39,7 +93,10 @@ export interface MapLibreMapProps {
   onCategoryToggle: (nodeId: string) => void
   onExpandToggle: (nodeId: string) => void
   searchResult?: SearchResult | null
-  userLocation?: {lat: number, lng: number} | null
+  userLocation?: UserLocation | null
+  followMode?: LocationFollowMode
+  deviceHeading?: number | null // Compass heading in degrees clockwise from north
+  onFollowModeExit?: () => void // The user panned or rotated the map while following
   onViewportChange?: (viewport: {
     north: number
     south: number
@@ -50,6 +107,7 @@ export interface MapLibreMapProps {
   onBearingChange?: (bearing: number) => void
   onCoordinatesChange?: (coordinates: {lat: number, lng: number} | null) => void
   onCoordinatesCopied?: (copied: boolean) => void
+  coordinateFormat?: CoordinateFormat // Format used when copying coordinates from the context menu
   sidebarCollapsed?: boolean // Add sidebar state for overlay behavior
   mapType?: 'topo' | 'satellite' // Map type selection
   distanceMeasurements?: DistanceMeasurement[]
@@ -59,6 +117,20 @@ export interface MapLibreMapProps {
   activeTrailTypes?: TrailType[]
   onTrailSelect?: (trail: Trail) => void
   onTrailHighlight?: (trail: Trail | null) => void
+  userTracks?: GPXData[]
+  offlineAreaBounds?: BoundingBox | null // Area selected for offline download
+  showUtmGrid?: boolean // UTM/MGRS grid overlay, labelled in the coordinate format
+  terrain?: TerrainSettings // 3D terrain, hillshading and exaggeration
+  viewshedOrigin?: ViewshedOrigin | null // Observer of the viewshed analysis, marked on the map
+  viewshed?: Viewshed | null // Visible and hidden terrain around the observer
+  isPickingViewshedOrigin?: boolean // The next map click picks the viewshed observer
+  onViewshedOriginPick?: (coordinate: Coordinate) => void
+  profileHighlightPoint?: (ElevationPoint & { color: string }) | null // Point hovered in an elevation profile
+  recordedTracks?: RecordedTrack[] // GPS recordings to draw, including the one in progress
+  poiRenderMode?: POIRenderMode // DOM overlays (default) or GPU symbol layers
+  initialView?: MapView // Start here instead of at the user's position, e.g. from a shared link
+  onMapViewChange?: (view: MapView) => void // Called when the map has moved
+  onPOISelect?: (poi: POI | null) => void // Called when a POI popup opens or closes
 }
 
 // Distance measurement enabled
@@ -71,10 +143,14 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     onExpandToggle: _onExpandToggle,
     searchResult,
     userLocation,
+    followMode = 'off',
+    deviceHeading = null,
+    onFollowModeExit,
     onViewportChange,
     onBearingChange,
     onCoordinatesChange,
     onCoordinatesCopied,
+    coordinateFormat = 'dd',
     sidebarCollapsed: _sidebarCollapsed = true,
     mapType = 'topo',
     distanceMeasurements = [],
@@ -83,31 +159,58 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     onDistanceMeasuringChange,
     activeTrailTypes = [],
     onTrailSelect,
-    onTrailHighlight
+    onTrailHighlight,
+    userTracks = [],
+    offlineAreaBounds = null,
+    showUtmGrid = false,
+    terrain = DEFAULT_TERRAIN_SETTINGS,
+    viewshedOrigin = null,
+    viewshed = null,
+    isPickingViewshedOrigin = false,
+    onViewshedOriginPick,
+    profileHighlightPoint = null,
+    recordedTracks = [],
+    poiRenderMode = 'dom',
+    initialView,
+    onMapViewChange,
+    onPOISelect
   } = props
   const mapRef = useRef<maplibregl.Map | null>(null)
   const containerRef = useRef<HTMLDivElement>(null)
   const onViewportChangeRef = useRef(onViewportChange)
   const onBearingChangeRef = useRef(onBearingChange)
+  const onMapViewChangeRef = useRef(onMapViewChange)
+  const onPOISelectRef = useRef(onPOISelect)
+  const coordinateFormatRef = useRef(coordinateFormat)
   const [mapLoaded, setMapLoaded] = useState(false)
+  // Whether runtime sources and layers can be added. Unlike map.isStyleLoaded(), this stays true
+  // while tiles load, so updates during pans and flights are not dropped; false only between
+  // setStyle and the next style.load, which re-applies everything.
+  const styleReadyRef = useRef(false)
+  const styleMapTypeRef = useRef(mapType) // Map type of the current style
   const [mapInitialized, setMapInitialized] = useState(false)
   const [mapInitError, setMapInitError] = useState<string | null>(null)
   const [_currentZoom, _setCurrentZoom] = useState<number>(13)
   const userLocationMarkerRef = useRef<maplibregl.Marker | null>(null)
   const searchMarkerRef = useRef<maplibregl.Marker | null>(null)
-  const positionMarkerRef = useRef<maplibregl.Marker | null>(null)
+  const userWaypointMarkersRef = useRef<maplibregl.Marker[]>([])
+  const selectedPOIIdRef = useRef<string | number | undefined>(undefined)
 
   // Trail system state
   const [trails, setTrails] = useState<Trail[]>([])
+  const trailsRef = useRef<Trail[]>([])
+  const trailInteractionsReadyRef = useRef(false)
   const [_trailsLoading, _setTrailsLoading] = useState(false)
   const [_selectedTrail, _setSelectedTrail] = useState<Trail | null>(null)
   const [lastTrailBounds, setLastTrailBounds] = useState<BoundingBox | null>(null)
 
   // Distance measurement state
   const [currentMeasurement, setCurrentMeasurement] = useState<Coordinate[]>([])
-  const distanceMarkersRef = useRef<maplibregl.Marker[]>([])
-  const distanceLinesRef = useRef<HTMLElement[]>([])
+  const measurementMarkersRef = useRef<maplibregl.Marker[]>([])
+  const profileHighlightMarkerRef = useRef<maplibregl.Marker | null>(null)
   const isDistanceMeasuringRef = useRef(isDistanceMeasuring)
+  const isPickingViewshedOriginRef = useRef(isPickingViewshedOrigin)
+  const onViewshedOriginPickRef = useRef(onViewshedOriginPick)
 
   // Distance measurement functions
   const toggleDistanceMeasurement = () => {
@@ -119,33 +222,13 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     if (isDistanceMeasuring) {
       // Finish current measurement if any
       finishCurrentMeasurement()
-      // Clear temporary markers and lines after finishing
-      clearTemporaryMeasurements()
     } else {
       // Clear any previous measurement
       setCurrentMeasurement([])
     }
   }
 
-  const clearTemporaryMeasurements = () => {
-    // Clear all temporary markers
-    distanceMarkersRef.current.forEach(marker => marker.remove())
-    distanceMarkersRef.current = []
-
-    // Clear all temporary lines
-    distanceLinesRef.current.forEach(line => line.remove())
-    distanceLinesRef.current = []
-
-    // Cleared temporary distance measurements
-  }
-
   const clearDistanceMeasurements = () => {
-    // Clear all markers and lines
-    distanceMarkersRef.current.forEach(marker => marker.remove())
-    distanceMarkersRef.current = []
-    distanceLinesRef.current.forEach(line => line.remove())
-    distanceLinesRef.current = []
-
     // Clear current measurement
     setCurrentMeasurement([])
     if (onDistanceMeasuringChange) {
@@ -158,20 +241,13 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     }
   }
 
-  const finishCurrentMeasurement = () => {
-    if (currentMeasurement.length >= 2) {
-      const { totalDistance, segments } = calculatePolylineDistance(currentMeasurement)
-      const measurement: DistanceMeasurement = {
-        id: generateMeasurementId(),
-        points: [...currentMeasurement],
-        totalDistance,
-        segments,
-        created: new Date()
-      }
+  const undoLastMeasurementPoint = () => {
+    setCurrentMeasurement(prevMeasurement => prevMeasurement.slice(0, -1))
+  }
 
-      if (onDistanceMeasurementUpdate) {
-        onDistanceMeasurementUpdate([...distanceMeasurements, measurement])
-      }
+  const finishCurrentMeasurement = () => {
+    if (currentMeasurement.length >= 2 && onDistanceMeasurementUpdate) {
+      onDistanceMeasurementUpdate([...distanceMeasurements, createMeasurement(currentMeasurement, distanceMeasurements)])
     }
     setCurrentMeasurement([])
   }
@@ -183,147 +259,51 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     }
 
     // Use functional update to get the current state
-    setCurrentMeasurement(prevMeasurement => {
-      const newPoints = [...prevMeasurement, coordinate]
+    setCurrentMeasurement(prevMeasurement => [...prevMeasurement, coordinate])
+  }
 
-      // Current measurement updated
+  // Mark a POI as selected in the symbol layers (no-op for the DOM overlays)
+  const setSelectedPOI = useCallback((id: string | number | undefined) => {
+    const map = mapRef.current
+    const previousId = selectedPOIIdRef.current
+    selectedPOIIdRef.current = id
+    if (!map?.getSource(POI_SOURCE_ID)) return
 
-      // Create marker for this point
-      const markerElement = document.createElement('div')
-      markerElement.className = 'distance-marker'
-      markerElement.style.cssText = `
-        width: 16px !important;
-        height: 16px !important;
-        background-color: #ff4444 !important;
-        background: #ff4444 !important;
-        border: 3px solid white !important;
-        border-radius: 50% !important;
-        cursor: pointer !important;
-        box-shadow: 0 2px 6px rgba(0,0,0,0.4) !important;
-        z-index: 1000 !important;
-      `
+    if (previousId !== undefined) {
+      map.setFeatureState({ source: POI_SOURCE_ID, id: previousId }, { selected: false })
+    }
+    if (id !== undefined) {
+      map.setFeatureState({ source: POI_SOURCE_ID, id }, { selected: true })
+    }
+  }, [])
 
-      const marker = new maplibregl.Marker({
-        element: markerElement,
-        anchor: 'center'
-      })
-        .setLngLat([coordinate.lng, coordinate.lat])
-        .addTo(mapRef.current!)
-
-      distanceMarkersRef.current.push(marker)
-      // Distance marker added
-
-      // If this is the second or later point, draw line from previous point
-      if (newPoints.length >= 2) {
-        const prevPoint = newPoints[newPoints.length - 2]
-        const currentPoint = coordinate
-        // Drawing line between points
-        drawDistanceLine(prevPoint, currentPoint, newPoints.length - 1)
-      }
+  // Open the popup for a POI, closing any other popup
+  const openPOIPopup = useCallback((poi: POI, offset: maplibregl.Offset = 14) => {
+    const map = mapRef.current
+    if (!map) return
 
-      // Added distance measurement point
+    document.querySelectorAll('.maplibregl-popup').forEach(popup => popup.remove())
+    setSelectedPOI(poi.id)
 
-      return newPoints
+    const popup = new maplibregl.Popup({
+      closeButton: false, // Disable default close button since we have custom ones
+      closeOnClick: false,
+      offset
     })
-  }
-
-  const drawDistanceLine = (start: Coordinate, end: Coordinate, _segmentIndex: number) => {
-    if (!mapRef.current) return
+      .setLngLat([poi.lng, poi.lat])
+      .setHTML(createPOIPopupContent(poi))
+      .addTo(map)
 
-    const map = mapRef.current
+    // The custom close button removes the element directly, which skips the close event
+    popup.getElement().querySelector('button')?.addEventListener('click', () => popup.remove())
+    popup.on('close', () => {
+      if (selectedPOIIdRef.current !== poi.id) return
+      setSelectedPOI(undefined)
+      onPOISelectRef.current?.(null)
+    })
 
-    // Calculate distance for this segment
-    const distance = calculateHaversineDistance(start, end)
-    // Drawing distance line
-
-    // Create line element
-    const lineContainer = document.createElement('div')
-    lineContainer.className = 'distance-line-container'
-    lineContainer.style.position = 'absolute'
-    lineContainer.style.pointerEvents = 'none'
-    lineContainer.style.zIndex = '1000'
-    lineContainer.style.top = '0'
-    lineContainer.style.left = '0'
-    lineContainer.style.width = '100%'
-    lineContainer.style.height = '100%'
-    lineContainer.style.overflow = 'visible'
-
-    // Create line
-    const line = document.createElement('div')
-    line.className = 'distance-line'
-
-    // Create distance label
-    const label = document.createElement('div')
-    label.className = 'distance-label'
-    label.style.position = 'absolute'
-    label.style.background = 'rgba(255, 255, 255, 0.95)'
-    label.style.border = '2px solid #ff4444'
-    label.style.borderRadius = '6px'
-    label.style.padding = '6px 10px'
-    label.style.fontSize = '13px'
-    label.style.fontWeight = 'bold'
-    label.style.color = '#ff4444'
-    label.style.whiteSpace = 'nowrap'
-    label.style.zIndex = '1001'
-    label.style.pointerEvents = 'none'
-    label.style.boxShadow = '0 2px 8px rgba(0,0,0,0.3)'
-    label.style.fontFamily = 'system-ui, -apple-system, sans-serif'
-    label.textContent = formatDistance(distance)
-
-    // Created distance label
-
-    lineContainer.appendChild(line)
-    lineContainer.appendChild(label)
-
-    // Function to update line and label positions
-    const updateLinePosition = () => {
-      const startPixel = map.project([start.lng, start.lat])
-      const endPixel = map.project([end.lng, end.lat])
-
-      const deltaX = endPixel.x - startPixel.x
-      const deltaY = endPixel.y - startPixel.y
-      const length = Math.sqrt(deltaX * deltaX + deltaY * deltaY)
-      const angle = Math.atan2(deltaY, deltaX) * 180 / Math.PI
-
-      // Updating line position
-
-      // Update line position
-      line.style.position = 'absolute'
-      line.style.left = `${startPixel.x}px`
-      line.style.top = `${startPixel.y}px`
-      line.style.width = `${length}px`
-      line.style.height = '3px'
-      line.style.backgroundColor = '#ff4444'
-      line.style.transformOrigin = '0 50%'
-      line.style.transform = `rotate(${angle}deg)`
-      line.style.zIndex = '1000'
-
-      // Update label position (center of line)
-      const labelX = startPixel.x + deltaX / 2
-      const labelY = startPixel.y + deltaY / 2 - 20
-
-      label.style.left = `${labelX}px`
-      label.style.top = `${labelY}px`
-
-      // Positioned distance label
-    }
-
-    // Initial position
-    updateLinePosition()
-
-    // Update on map move/zoom
-    map.on('move', updateLinePosition)
-    map.on('zoom', updateLinePosition)
-
-    // Add to map container
-    const mapContainer = map.getContainer()
-    mapContainer.appendChild(lineContainer)
-
-    distanceLinesRef.current.push(lineContainer)
-
-    // Verify the elements are in the DOM
-    // Distance line added to map
-  }
+    onPOISelectRef.current?.(poi)
+  }, [setSelectedPOI])
 
   // Expose map methods to parent component
   useImperativeHandle(ref, () => ({
@@ -337,11 +317,17 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     },
     getMap: () => mapRef.current,
     toggleDistanceMeasurement,
-    clearDistanceMeasurements
+    clearDistanceMeasurements,
+    undoLastMeasurementPoint,
+    openPOI: (poi: POI) => openPOIPopup(poi)
   }))
 
 
   // Update refs when callbacks change
+  useEffect(() => {
+    coordinateFormatRef.current = coordinateFormat
+  }, [coordinateFormat])
+
   useEffect(() => {
     onViewportChangeRef.current = onViewportChange
   }, [onViewportChange])
@@ -350,11 +336,31 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     onBearingChangeRef.current = onBearingChange
   }, [onBearingChange])
 
+  useEffect(() => {
+    onMapViewChangeRef.current = onMapViewChange
+  }, [onMapViewChange])
+
+  useEffect(() => {
+    onPOISelectRef.current = onPOISelect
+  }, [onPOISelect])
+
   // Keep distance measuring ref in sync
   useEffect(() => {
     isDistanceMeasuringRef.current = isDistanceMeasuring
   }, [isDistanceMeasuring])
 
+  useEffect(() => {
+    onViewshedOriginPickRef.current = onViewshedOriginPick
+  }, [onViewshedOriginPick])
+
+  // Keep viewshed picking ref in sync, with a crosshair while picking
+  useEffect(() => {
+    isPickingViewshedOriginRef.current = isPickingViewshedOrigin
+    if (mapRef.current) {
+      mapRef.current.getCanvas().style.cursor = isPickingViewshedOrigin ? 'crosshair' : ''
+    }
+  }, [isPickingViewshedOrigin])
+
   // Create map style based on map type - shared function
   const createMapStyle = (mapType: 'topo' | 'satellite'): maplibregl.StyleSpecification => {
 
@@ -365,9 +371,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
         sources: {
           'kartverket-topo': {
             type: 'raster',
-            tiles: [
-              'https://cache.kartverket.no/v1/wmts/1.0.0/topo/default/webmercator/{z}/{y}/{x}.png'
-            ],
+            tiles: [KARTVERKET_TOPO_TILE_URL],
             tileSize: 256,
             attribution: '© Kartverket'
           }
@@ -425,7 +429,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
 
 
     // Map initialization function
-    const initializeWithLocation = (center: [number, number]) => {
+    const initializeWithLocation = (center: [number, number], view?: MapView) => {
 
       try {
         const initialMaxZoom = 18 // Same max zoom for both map types
@@ -434,8 +438,9 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
           container: containerRef.current!,
           style: createMapStyle(mapType),
           center: center,
-          zoom: 7, // Zoom level for 60km scale
-          pitch: 60, // Maximum tilt (60 degrees is MapLibre's maximum)
+          zoom: view?.zoom ?? 7, // Zoom level for 60km scale
+          pitch: view?.pitch ?? 60, // Maximum tilt (60 degrees is MapLibre's maximum)
+          bearing: view?.bearing ?? 0,
           minZoom: 3,
           maxZoom: initialMaxZoom,
           attributionControl: false,
@@ -552,6 +557,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
       // No default controls - using custom overlay UI components instead
 
       map.on('load', () => {
+        styleReadyRef.current = true
         setMapLoaded(true)
 
         // Initialize coordinates with map center for immediate display
@@ -589,6 +595,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
       })
 
       map.on('style.load', () => {
+        styleReadyRef.current = true
         // Re-initialize layers when style loads (handles hard refresh issues)
         initializeMapLayers(map, 'STYLE_LOAD')
       })
@@ -610,6 +617,21 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
       map.on('moveend', handleViewportChange)
       map.on('zoomend', handleViewportChange)
 
+      // Report the camera, e.g. to keep the shared link up to date
+      const handleMapViewChange = () => {
+        const center = map.getCenter()
+        onMapViewChangeRef.current?.({
+          lat: center.lat,
+          lng: center.lng,
+          zoom: map.getZoom(),
+          bearing: map.getBearing(),
+          pitch: map.getPitch()
+        })
+      }
+
+      map.on('load', handleMapViewChange)
+      map.on('moveend', handleMapViewChange)
+
       // Handle bearing changes for compass
       const handleBearingChange = () => {
         if (onBearingChangeRef.current) {
@@ -678,7 +700,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
       map.on('contextmenu', async (e) => {
         e.preventDefault()
         const { lat, lng } = e.lngLat
-        const coordinatesText = `${lat.toFixed(5)}°N, ${lng.toFixed(5)}°E`
+        const coordinatesText = formatCoordinates(lat, lng, coordinateFormatRef.current)
 
         try {
           // Use improved clipboard function
@@ -725,9 +747,19 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
         }
       })
 
-      // Handle distance measurement clicks
+      // Handle viewshed observer and distance measurement clicks
       map.on('click', (e) => {
+        if (isPickingViewshedOriginRef.current) {
+          const { lat, lng } = e.lngLat
+          e.preventDefault()
+          onViewshedOriginPickRef.current?.({ lat, lng })
+          return
+        }
+
         if (isDistanceMeasuringRef.current) {
+          // Ignore clicks that end a drag of a measurement handle
+          if ((e.originalEvent.target as HTMLElement | null)?.closest('.maplibregl-marker')) return
+
           const { lat, lng } = e.lngLat
           e.preventDefault()
           addDistanceMeasurementPoint({ lat, lng })
@@ -735,8 +767,10 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
       })
     }
 
-    // Try user location first, fallback to Hardangervidda if disabled/failed
-    if (navigator.geolocation) {
+    // A shared link decides the view; otherwise try user location first, fallback to Hardangervidda if disabled/failed
+    if (initialView) {
+      initializeWithLocation([initialView.lng, initialView.lat], initialView)
+    } else if (navigator.geolocation) {
       navigator.geolocation.getCurrentPosition(
         (position) => {
           const userCenter: [number, number] = [position.coords.longitude, position.coords.latitude]
@@ -778,9 +812,10 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
 
   // Handle map type changes - dynamically update map style
   useEffect(() => {
-    if (!mapRef.current || !mapLoaded) return
+    if (!mapRef.current || !mapLoaded || styleMapTypeRef.current === mapType) return
 
     const map = mapRef.current
+    styleMapTypeRef.current = mapType
 
     // Preserve current map position and zoom before style change
     const currentCenter = map.getCenter()
@@ -790,8 +825,10 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
 
 
     // Update map style based on mapType
+    // Without diffing, so style.load fires and the runtime layers are re-applied
     const newStyle = createMapStyle(mapType)
-    map.setStyle(newStyle)
+    styleReadyRef.current = false
+    map.setStyle(newStyle, { diff: false })
 
     // Restore map position after style loads
     void map.once('styledata', () => {
@@ -829,35 +866,38 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
   }, [mapType, mapLoaded])
 
   // API-BASED POI RENDERING - Using Custom DOM Overlays (not MapLibre markers)
+  // POIs that would overlap are clustered per zoom level; co-located POIs are spiderfied on click
   useEffect(() => {
-    if (!mapRef.current || !mapLoaded) return
+    if (!mapRef.current || !mapLoaded || poiRenderMode !== 'dom') return
 
     const map = mapRef.current
-    // API-based POI rendering
 
     // Clean up existing POI overlays
     const existingOverlays = document.querySelectorAll('.custom-poi-overlay')
     existingOverlays.forEach(overlay => overlay.remove())
 
-    // Creating POI markers
+    // Every overlay with the map position it is pinned to
+    let overlays: { element: HTMLDivElement; lng: number; lat: number }[] = []
+    let spider: HTMLDivElement | null = null
+    let renderedZoom = -1
 
-    // Create API-based POI markers using custom DOM overlays positioned over the map
-    pois.forEach((poi, _index) => {
-      // Creating POI marker
+    const positionOverlay = (overlay: { element: HTMLDivElement; lng: number; lat: number }) => {
+      const point = map.project([overlay.lng, overlay.lat])
+      overlay.element.style.left = point.x + 'px'
+      overlay.element.style.top = point.y + 'px'
+    }
 
-      // Create overlay container
-      const overlay = document.createElement('div')
-      overlay.className = 'custom-poi-overlay'
-      overlay.style.cssText = `
-        position: absolute;
-        z-index: 10;
-        pointer-events: auto;
-        transform: translate(-50%, -50%);
-      `
+    const addOverlay = (element: HTMLDivElement, lng: number, lat: number) => {
+      const overlay = { element, lng, lat }
+      positionOverlay(overlay)
+      map.getContainer().appendChild(element)
+      overlays.push(overlay)
+    }
 
-      // Create the actual marker element
+    const createMarkerElement = (poi: POI, offset: [number, number] = [0, -15]): HTMLDivElement => {
       const markerElement = document.createElement('div')
       markerElement.className = 'custom-poi-marker'
+      markerElement.title = poi.name
       markerElement.style.cssText = `
         width: 20px;
         height: 20px;
@@ -871,26 +911,6 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
         transition: all 0.2s ease;
       `
 
-      overlay.appendChild(markerElement)
-
-      // Function to update overlay position
-      const updatePosition = () => {
-        const point = map.project([poi.lng, poi.lat])
-        overlay.style.left = point.x + 'px'
-        overlay.style.top = point.y + 'px'
-      }
-
-      // Initial position
-      updatePosition()
-
-      // Update position on map move/zoom
-      map.on('move', updatePosition)
-      map.on('zoom', updatePosition)
-
-      // Add overlay to map container
-      map.getContainer().appendChild(overlay)
-
-
       // Enhanced hover effects with smooth animations
       markerElement.addEventListener('mouseenter', () => {
         markerElement.style.transform = 'scale(1.15)'
@@ -903,62 +923,317 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
         markerElement.style.zIndex = '10'
       })
 
-      // Optimized popup content creation - simplified and lazy loaded
-      const createPopupContent = (poi: POI): string => {
-        const isMobile = window.innerWidth < 768
-
-        // Simplified popup for faster rendering
-        return `
-          <div style="background: white; border-radius: 8px; box-shadow: 0 4px 12px rgba(0,0,0,0.15);
-                      max-width: ${isMobile ? '85vw' : '320px'}; min-width: 280px;
-                      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-                      position: relative;">
-            <button onclick="this.closest('.maplibregl-popup').remove()" style="
-              position: absolute; top: 8px; right: 8px; width: 28px; height: 28px; border: none;
-              background: rgba(0,0,0,0.1); border-radius: 6px; cursor: pointer; display: flex;
-              align-items: center; justify-content: center; font-size: 16px; color: #666; z-index: 1;">×</button>
-            <div style="padding: 14px 44px 14px 14px;">
-              <div style="display: flex; align-items: center; gap: 10px; margin-bottom: 8px;">
-                <div style="width: 20px; height: 20px; border-radius: 50%; background: ${poi.color ?? '#7c3aed'}; flex-shrink: 0;"></div>
-                <h3 style="margin: 0; font-size: 15px; font-weight: 600; color: #1F2937;">${poi.name}</h3>
-              </div>
-              <div style="font-size: 13px; color: #4B5563; line-height: 1.4;">${poi.description}</div>
-            </div>
-          </div>
-        `
-      }
-
       // Add click handler for custom popup
       markerElement.addEventListener('click', (e) => {
         // If in distance measurement mode, allow click to propagate to map
         if (isDistanceMeasuringRef.current) {
-          // POI clicked in measurement mode
           return
         }
 
         e.preventDefault()
         e.stopPropagation()
 
-        // Close any existing popups
-        document.querySelectorAll('.maplibregl-popup').forEach(popup => popup.remove())
+        // Popup that follows the marker, offset above it
+        openPOIPopup(poi, offset)
+      })
 
-        // Use simplified popup for all POIs - better performance
-        const popupContent = createPopupContent(poi)
+      return markerElement
+    }
 
-        // Create MapLibre popup that follows the marker
-        new maplibregl.Popup({
-          closeButton: false, // Disable default close button since we have custom ones
-          closeOnClick: false,
-          offset: [0, -15] // Offset above the marker
-        })
-          .setLngLat([poi.lng, poi.lat])
-          .setHTML(popupContent)
-          .addTo(map)
+    const createOverlayElement = (): HTMLDivElement => {
+      const overlay = document.createElement('div')
+      overlay.className = 'custom-poi-overlay'
+      overlay.style.cssText = `
+        position: absolute;
+        z-index: 10;
+        pointer-events: auto;
+        transform: translate(-50%, -50%);
+      `
+      return overlay
+    }
+
+    const closeSpider = () => {
+      if (!spider) return
+      overlays = overlays.filter(overlay => overlay.element !== spider)
+      spider.remove()
+      spider = null
+    }
+
+    // Spread co-located POIs around their shared spot, with legs back to it
+    const openSpider = (cluster: POICluster) => {
+      closeSpider()
+
+      const element = createOverlayElement()
+      element.style.zIndex = '20'
+      const offsets = PoiClusterService.getSpiderOffsets(cluster.pois.length)
+
+      cluster.pois.forEach((poi, index) => {
+        const { x, y } = offsets[index]
+
+        const leg = document.createElement('div')
+        leg.style.cssText = `
+          position: absolute;
+          left: 0;
+          top: 0;
+          width: ${Math.hypot(x, y)}px;
+          height: 2px;
+          background: ${poi.color ?? '#7c3aed'};
+          opacity: 0.6;
+          transform-origin: 0 50%;
+          transform: rotate(${Math.atan2(y, x)}rad);
+          pointer-events: none;
+        `
+        element.appendChild(leg)
+
+        const leaf = document.createElement('div')
+        leaf.style.cssText = `
+          position: absolute;
+          left: ${x}px;
+          top: ${y}px;
+          transform: translate(-50%, -50%);
+        `
+        leaf.appendChild(createMarkerElement(poi, [x, y - 15]))
+        element.appendChild(leaf)
       })
-    })
 
-    // Created POI overlays
-  }, [mapLoaded, pois])
+      spider = element
+      addOverlay(element, cluster.lng, cluster.lat)
+    }
+
+    const createClusterElement = (cluster: POICluster): HTMLDivElement => {
+      const count = cluster.pois.length
+      const size = count < 10 ? 30 : count < 100 ? 36 : 44
+
+      // Ring segments show the category mix, the centre the dominant category
+      let angle = 0
+      const segments = cluster.colors.map(({ color, count: colorCount }) => {
+        const start = angle
+        angle += colorCount / count * 360
+        return `${color} ${start}deg ${angle}deg`
+      })
+
+      const clusterElement = document.createElement('div')
+      clusterElement.className = 'custom-poi-cluster'
+      clusterElement.setAttribute('role', 'button')
+      clusterElement.setAttribute('aria-label', `${count} interessepunkter`)
+      clusterElement.title = `${count} interessepunkter`
+      clusterElement.style.cssText = `
+        width: ${size}px;
+        height: ${size}px;
+        border-radius: 50%;
+        background: conic-gradient(${segments.join(', ')});
+        box-shadow: 0 2px 4px rgba(0,0,0,0.25);
+        cursor: pointer;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        transition: transform 0.2s ease;
+      `
+
+      const badge = document.createElement('span')
+      badge.textContent = String(count)
+      badge.style.cssText = `
+        width: ${size - 10}px;
+        height: ${size - 10}px;
+        border-radius: 50%;
+        background: ${cluster.colors[0].color};
+        border: 2px solid white;
+        box-sizing: border-box;
+        color: white;
+        font: 600 12px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+      `
+      clusterElement.appendChild(badge)
+
+      clusterElement.addEventListener('mouseenter', () => {
+        clusterElement.style.transform = 'scale(1.1)'
+      })
+      clusterElement.addEventListener('mouseleave', () => {
+        clusterElement.style.transform = 'scale(1.0)'
+      })
+
+      // Zoom in until the cluster splits up, or spiderfy POIs sharing one spot
+      clusterElement.addEventListener('click', (e) => {
+        if (isDistanceMeasuringRef.current) return
+
+        e.preventDefault()
+        e.stopPropagation()
+
+        if (PoiClusterService.canExpand(cluster) && map.getZoom() <= PoiClusterService.MAX_CLUSTER_ZOOM) {
+          map.fitBounds(PoiClusterService.getBounds(cluster.pois), {
+            padding: 80,
+            maxZoom: PoiClusterService.MAX_CLUSTER_ZOOM + 1,
+            duration: 500
+          })
+        } else {
+          openSpider(cluster)
+        }
+      })
+
+      return clusterElement
+    }
+
+    const render = () => {
+      const zoom = Math.floor(map.getZoom())
+      if (zoom === renderedZoom) return
+      renderedZoom = zoom
+
+      closeSpider()
+      overlays.forEach(overlay => overlay.element.remove())
+      overlays = []
+
+      PoiClusterService.cluster(pois, zoom).forEach(cluster => {
+        const overlay = createOverlayElement()
+        overlay.appendChild(cluster.pois.length === 1
+          ? createMarkerElement(cluster.pois[0])
+          : createClusterElement(cluster))
+        addOverlay(overlay, cluster.lng, cluster.lat)
+      })
+    }
+
+    const updatePositions = () => overlays.forEach(positionOverlay)
+
+    render()
+
+    map.on('move', updatePositions)
+    map.on('zoomend', render)
+    map.on('zoomstart', closeSpider)
+    map.on('click', closeSpider)
+
+    return () => {
+      map.off('move', updatePositions)
+      map.off('zoomend', render)
+      map.off('zoomstart', closeSpider)
+      map.off('click', closeSpider)
+      overlays.forEach(overlay => overlay.element.remove())
+    }
+  }, [mapLoaded, pois, poiRenderMode, openPOIPopup])
+
+  // GPU POI RENDERING - Opt-in alternative to the DOM overlays for large POI sets
+  // Category circles with Material Symbols icons on top; hover and selection use feature-state
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+
+    const map = mapRef.current
+
+    if (poiRenderMode !== 'symbols') {
+      POI_LAYER_IDS.forEach(layerId => {
+        if (map.getLayer(layerId)) map.removeLayer(layerId)
+      })
+      if (map.getSource(POI_SOURCE_ID)) map.removeSource(POI_SOURCE_ID)
+      return
+    }
+
+    const poisGeoJSON = PoiSymbolService.toFeatureCollection(pois)
+    const iconNames = pois.map(poi => PoiSymbolService.getIconName(poi))
+    let cancelled = false
+    let hoveredId: string | number | undefined
+
+    // Re-applied after style changes, which drop custom sources, layers and images
+    const applyPOISymbols = async () => {
+      await PoiSymbolService.addIcons(map, iconNames)
+      if (cancelled) return
+
+      const existingSource = map.getSource(POI_SOURCE_ID) as maplibregl.GeoJSONSource | undefined
+      if (existingSource) {
+        existingSource.setData(poisGeoJSON)
+        return
+      }
+
+      map.addSource(POI_SOURCE_ID, {
+        // eslint-disable-next-line no-restricted-syntax
+        type: 'geojson',
+        data: poisGeoJSON,
+        promoteId: 'id'
+      })
+
+      const isHovered: maplibregl.ExpressionSpecification = ['boolean', ['feature-state', 'hover'], false]
+      const isSelected: maplibregl.ExpressionSpecification = ['boolean', ['feature-state', 'selected'], false]
+
+      map.addLayer({
+        id: 'pois-circles',
+        type: 'circle',
+        source: POI_SOURCE_ID,
+        paint: {
+          'circle-color': ['get', 'color'],
+          'circle-radius': ['case', isSelected, 14, isHovered, 13, 11],
+          'circle-stroke-color': ['case', isSelected, '#1F2937', '#ffffff'],
+          'circle-stroke-width': ['case', isSelected, 3, 2]
+        }
+      })
+
+      map.addLayer({
+        id: 'pois-icons',
+        type: 'symbol',
+        source: POI_SOURCE_ID,
+        layout: {
+          'icon-image': ['get', 'image'],
+          'icon-allow-overlap': true,
+          'icon-ignore-placement': true
+        }
+      })
+
+      // A popup may already be open, e.g. from before a style change
+      if (selectedPOIIdRef.current !== undefined) {
+        map.setFeatureState({ source: POI_SOURCE_ID, id: selectedPOIIdRef.current }, { selected: true })
+      }
+    }
+
+    const handleStyleLoad = () => {
+      void applyPOISymbols()
+    }
+
+    const setHovered = (id: string | number | undefined) => {
+      if (hoveredId === id) return
+      if (hoveredId !== undefined) {
+        map.setFeatureState({ source: POI_SOURCE_ID, id: hoveredId }, { hover: false })
+      }
+      hoveredId = id
+      if (id !== undefined) {
+        map.setFeatureState({ source: POI_SOURCE_ID, id }, { hover: true })
+      }
+    }
+
+    const handleMouseMove = (e: maplibregl.MapLayerMouseEvent) => {
+      map.getCanvas().style.cursor = 'pointer'
+      setHovered(e.features?.[0]?.id)
+    }
+
+    const handleMouseLeave = () => {
+      map.getCanvas().style.cursor = ''
+      setHovered(undefined)
+    }
+
+    const handleClick = (e: maplibregl.MapLayerMouseEvent) => {
+      // In distance measurement mode the click adds a measurement point instead
+      if (isDistanceMeasuringRef.current) return
+
+      const id = e.features?.[0]?.id
+      const poi = pois.find(p => p.id === id)
+      if (poi) openPOIPopup(poi)
+    }
+
+    if (styleReadyRef.current) {
+      handleStyleLoad()
+    }
+    map.on('style.load', handleStyleLoad)
+    map.on('mousemove', 'pois-circles', handleMouseMove)
+    map.on('mouseleave', 'pois-circles', handleMouseLeave)
+    map.on('click', 'pois-circles', handleClick)
+
+    return () => {
+      cancelled = true
+      map.off('style.load', handleStyleLoad)
+      map.off('mousemove', 'pois-circles', handleMouseMove)
+      map.off('mouseleave', 'pois-circles', handleMouseLeave)
+      map.off('click', 'pois-circles', handleClick)
+      if (hoveredId !== undefined && map.getSource(POI_SOURCE_ID)) {
+        map.setFeatureState({ source: POI_SOURCE_ID, id: hoveredId }, { hover: false })
+      }
+    }
+  }, [mapLoaded, pois, poiRenderMode, openPOIPopup])
 
   // Handle trail click events
   const handleTrailClick = useCallback((trail: Trail, lngLat: maplibregl.LngLat) => {
@@ -1003,11 +1278,17 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     }
   }, [onTrailSelect])
 
-  // Setup trail click and hover interactions
+  // Keep the trail lookup used by map event handlers in sync with state
+  useEffect(() => {
+    trailsRef.current = trails
+  }, [trails])
+
+  // Setup trail click and hover interactions (registered once - handlers read trailsRef)
   const setupTrailInteractions = useCallback(() => {
-    if (!mapRef.current) return
+    if (!mapRef.current || trailInteractionsReadyRef.current) return
 
     const map = mapRef.current
+    trailInteractionsReadyRef.current = true
 
     // Add click handler for trails
     Object.keys(TRAIL_STYLES).forEach(trailType => {
@@ -1020,7 +1301,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
         const trailId = feature.properties?.id
 
         if (trailId) {
-          const trail = trails.find(t => t.id === trailId)
+          const trail = trailsRef.current.find(t => t.id === trailId)
           if (trail) {
             handleTrailClick(trail, e.lngLat)
           }
@@ -1035,7 +1316,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
         if (onTrailHighlight && e.features?.[0]) {
           const trailId = e.features[0].properties?.id
           if (trailId) {
-            const trail = trails.find(t => t.id === trailId)
+            const trail = trailsRef.current.find(t => t.id === trailId)
             if (trail) {
               onTrailHighlight(trail)
             }
@@ -1052,7 +1333,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
         }
       })
     })
-  }, [onTrailHighlight, handleTrailClick, trails])
+  }, [onTrailHighlight, handleTrailClick])
 
   // Add WMS trail layers (new primary method)
   const addWMSTrailLayers = useCallback((activeTypes: ('hiking' | 'skiing' | 'cycling' | 'other')[]) => {
@@ -1115,7 +1396,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
 
   // Add trail vector data to map
   const addTrailsToMap = useCallback((trailData: Trail[]) => {
-    if (!mapRef.current || trailData.length === 0) return
+    if (!mapRef.current) return
 
     const map = mapRef.current
 
@@ -1139,6 +1420,15 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
       }))
     }
 
+    // Reuse the existing source when the viewport reloads trails
+    const existingSource = map.getSource('trails-data') as maplibregl.GeoJSONSource | undefined
+    if (existingSource) {
+      existingSource.setData(trailsGeoJSON)
+      return
+    }
+
+    if (trailData.length === 0) return
+
     // Add trail data source
     map.addSource('trails-data', {
       // eslint-disable-next-line no-restricted-syntax
@@ -1219,7 +1509,8 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
 
       // Fetch trails from Turrutebasen WFS
       const fetchedTrails = await TurrutebasenService.fetchTrailsInBounds(trailBounds, {
-        maxFeatures: 200 // Limit for performance
+        maxFeatures: 200, // Limit for performance
+        types: activeTypes
       })
 
       // Filter trails by active types
@@ -1229,6 +1520,7 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
       })
 
       setTrails(filteredTrails)
+      trailsRef.current = filteredTrails
 
       // Add trails to map
       addTrailsToMap(filteredTrails)
@@ -1337,161 +1629,981 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
     }
   }, [mapLoaded, activeTrailTypes, lastTrailBounds, loadTrailsForCurrentView])
 
-  // Handle search result centering
+  // DISTANCE MEASUREMENTS - Saved measurements with editable vertices, and the one being drawn
   useEffect(() => {
-    if (!mapRef.current) return
+    if (!mapRef.current || !mapLoaded) return
 
     const map = mapRef.current
+    const currentColor = '#ff4444'
+
+    const toFeature = (id: string, points: Coordinate[], color: string) => ({
+      type: 'Feature' as const,
+      geometry: {
+        type: 'LineString' as const,
+        coordinates: points.map(point => [point.lng, point.lat])
+      },
+      properties: { id, color }
+    })
 
-    // Always clean up existing search marker first
-    if (searchMarkerRef.current) {
-      searchMarkerRef.current.remove()
-      searchMarkerRef.current = null
+    const features = distanceMeasurements.map(measurement =>
+      toFeature(measurement.id, measurement.points, measurement.color)
+    )
+    if (currentMeasurement.length >= 2) {
+      features.push(toFeature('current', currentMeasurement, currentColor))
     }
 
-    // If no search result, just cleanup and return
-    if (!searchResult) {
-      return
+    const measurementsGeoJSON = {
+      type: 'FeatureCollection' as const,
+      features
     }
 
+    // Re-applied after style changes, which drop custom sources and layers
+    const applyMeasurements = () => {
+      const existingSource = map.getSource('distance-measurements') as maplibregl.GeoJSONSource | undefined
+      if (existingSource) {
+        existingSource.setData(measurementsGeoJSON)
+        return
+      }
 
-    // Create modern search marker
-    const searchElement = document.createElement('div')
-    searchElement.className = 'search-marker'
-    searchElement.style.cssText = `
-      width: 40px;
-      height: 40px;
-      border-radius: 50%;
-      background: #ff0000 !important;
-      border: 4px solid #ffffff !important;
-      box-shadow: 0 4px 16px rgba(255, 0, 0, 0.8) !important;
-      position: absolute !important;
-      z-index: 9999 !important;
-      transform: translate(-50%, -50%) !important;
-      pointer-events: auto !important;
-    `
-    searchElement.innerHTML = '<div style="width: 100%; height: 100%; background: red; border-radius: 50%; display: flex; align-items: center; justify-content: center; color: white; font-weight: bold; font-size: 14px;">S</div>'
+      map.addSource('distance-measurements', {
+        // eslint-disable-next-line no-restricted-syntax
+        type: 'geojson',
+        data: measurementsGeoJSON
+      })
 
-    const searchMarker = new maplibregl.Marker(searchElement)
-      .setLngLat([searchResult.lng, searchResult.lat])
-      .addTo(map)
+      map.addLayer({
+        id: 'distance-measurements-casing',
+        type: 'line',
+        source: 'distance-measurements',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#ffffff',
+          'line-width': 6,
+          'line-opacity': 0.8
+        }
+      })
 
-    searchMarkerRef.current = searchMarker
+      map.addLayer({
+        id: 'distance-measurements-line',
+        type: 'line',
+        source: 'distance-measurements',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': ['get', 'color'],
+          'line-width': 3
+        }
+      })
+    }
 
-    // Center map on search result
-    map.flyTo({
-      center: [searchResult.lng, searchResult.lat],
-      zoom: 15,
-      duration: 1000
-    })
+    if (styleReadyRef.current) {
+      applyMeasurements()
+    }
+    map.on('style.load', applyMeasurements)
 
-    // Automatically remove search marker after 3 seconds
-    const removeTimer = setTimeout(() => {
-      if (searchMarkerRef.current) {
-        searchMarkerRef.current.remove()
-        searchMarkerRef.current = null
-      }
-    }, 3000)
+    // Redraw one line while a handle is dragged, without touching React state
+    const previewLine = (index: number, measurement: DistanceMeasurement, points: Coordinate[]) => {
+      features[index] = toFeature(measurement.id, points, measurement.color)
+      const source = map.getSource('distance-measurements') as maplibregl.GeoJSONSource | undefined
+      source?.setData({ ...measurementsGeoJSON, features: [...features] })
+    }
 
-    // Cleanup timer on unmount or when searchResult changes
-    return () => {
-      clearTimeout(removeTimer)
+    const commitMeasurement = (updated: DistanceMeasurement) => {
+      onDistanceMeasurementUpdate?.(distanceMeasurements.map(measurement =>
+        measurement.id === updated.id ? updated : measurement
+      ))
     }
-  }, [searchResult])
 
-  // Handle user location centering and marker
+    const createHandleElement = (color: string, isMidpoint: boolean) => {
+      const element = document.createElement('div')
+      element.className = isMidpoint ? 'measurement-midpoint-handle' : 'measurement-vertex-handle'
+      element.style.cssText = isMidpoint ? `
+        width: 10px;
+        height: 10px;
+        border-radius: 50%;
+        background: white;
+        border: 2px solid ${color};
+        opacity: 0.8;
+        cursor: copy;
+      ` : `
+        width: 12px;
+        height: 12px;
+        border-radius: 50%;
+        background: ${color};
+        border: 2px solid white;
+        box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+        cursor: grab;
+      `
+      // Keep handle clicks from reaching the map (and adding measurement points)
+      element.addEventListener('click', (e) => e.stopPropagation())
+      return element
+    }
+
+    const createLabelElement = (text: string, color: string, className: string) => {
+      const element = document.createElement('div')
+      element.className = className
+      element.style.cssText = `
+        background: rgba(255, 255, 255, 0.95);
+        border: 2px solid ${color};
+        border-radius: 6px;
+        padding: 4px 8px;
+        font-size: 12px;
+        font-weight: bold;
+        color: ${color};
+        white-space: nowrap;
+        pointer-events: none;
+        box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+        font-family: system-ui, -apple-system, sans-serif;
+      `
+      element.textContent = text
+      return element
+    }
+
+    measurementMarkersRef.current.forEach(marker => marker.remove())
+    const markers: maplibregl.Marker[] = []
+
+    distanceMeasurements.forEach((measurement, measurementIndex) => {
+      // Vertices: drag to move, double-click to remove
+      measurement.points.forEach((point, pointIndex) => {
+        const element = createHandleElement(measurement.color, false)
+        element.title = 'Dra for å flytte punktet, dobbeltklikk for å fjerne det'
+        element.addEventListener('dblclick', (e) => {
+          e.stopPropagation()
+          commitMeasurement(removeMeasurementPoint(measurement, pointIndex))
+        })
+
+        const marker = new maplibregl.Marker({ element, anchor: 'center', draggable: true })
+          .setLngLat([point.lng, point.lat])
+
+        const movedPoints = () => {
+          const { lat, lng } = marker.getLngLat()
+          return measurement.points.map((p, i) => i === pointIndex ? { lat, lng } : p)
+        }
+        marker.on('drag', () => previewLine(measurementIndex, measurement, movedPoints()))
+        marker.on('dragend', () => commitMeasurement(updateMeasurementPoints(measurement, movedPoints())))
+
+        markers.push(marker.addTo(map))
+      })
+
+      // Segment midpoints: click to insert a point, or drag it into place
+      measurement.points.slice(0, -1).forEach((start, segmentIndex) => {
+        const end = measurement.points[segmentIndex + 1]
+        const element = createHandleElement(measurement.color, true)
+        element.title = 'Klikk eller dra for å legge til et punkt'
+
+        const marker = new maplibregl.Marker({ element, anchor: 'center', draggable: true })
+          .setLngLat([(start.lng + end.lng) / 2, (start.lat + end.lat) / 2])
+
+        let dragged = false
+        element.addEventListener('click', () => {
+          if (dragged) {
+            dragged = false
+            return
+          }
+          commitMeasurement(insertMeasurementPoint(measurement, segmentIndex))
+        })
+
+        const insertedPoints = () => {
+          const { lat, lng } = marker.getLngLat()
+          const points = [...measurement.points]
+          points.splice(segmentIndex + 1, 0, { lat, lng })
+          return points
+        }
+        marker.on('dragstart', () => { dragged = true })
+        marker.on('drag', () => previewLine(measurementIndex, measurement, insertedPoints()))
+        marker.on('dragend', () => commitMeasurement(updateMeasurementPoints(measurement, insertedPoints())))
+
+        markers.push(marker.addTo(map))
+      })
+
+      // Name and total distance at the end of the line
+      const last = measurement.points[measurement.points.length - 1]
+      markers.push(new maplibregl.Marker({
+        element: createLabelElement(`${measurement.name}: ${formatDistance(measurement.totalDistance)}`, measurement.color, 'measurement-label'),
+        anchor: 'bottom',
+        offset: [0, -10]
+      }).setLngLat([last.lng, last.lat]).addTo(map))
+    })
+
+    // Measurement in progress: points with the length of each segment
+    currentMeasurement.forEach((point, index) => {
+      const element = document.createElement('div')
+      element.className = 'distance-marker'
+      element.addEventListener('click', (e) => e.stopPropagation())
+      markers.push(new maplibregl.Marker({ element, anchor: 'center' })
+        .setLngLat([point.lng, point.lat])
+        .addTo(map))
+
+      if (index > 0) {
+        const previous = currentMeasurement[index - 1]
+        markers.push(new maplibregl.Marker({
+          element: createLabelElement(formatDistance(calculateHaversineDistance(previous, point)), currentColor, 'distance-label'),
+          anchor: 'bottom',
+          offset: [0, -6]
+        }).setLngLat([(previous.lng + point.lng) / 2, (previous.lat + point.lat) / 2]).addTo(map))
+      }
+    })
+
+    measurementMarkersRef.current = markers
+
+    return () => {
+      map.off('style.load', applyMeasurements)
+    }
+  }, [mapLoaded, distanceMeasurements, currentMeasurement, onDistanceMeasurementUpdate])
+
+  // ELEVATION PROFILE HOVER - Mark the position hovered in an elevation profile chart
   useEffect(() => {
-    if (!mapRef.current) return
+    if (!mapRef.current || !mapLoaded) return
 
-    // If userLocation is null, remove markers and return
-    if (!userLocation) {
-      if (userLocationMarkerRef.current) {
-        userLocationMarkerRef.current.remove()
-        userLocationMarkerRef.current = null
+    if (!profileHighlightPoint) {
+      profileHighlightMarkerRef.current?.remove()
+      profileHighlightMarkerRef.current = null
+      return
+    }
+
+    if (!profileHighlightMarkerRef.current) {
+      const element = document.createElement('div')
+      element.style.cssText = `
+        width: 14px;
+        height: 14px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: 0 1px 4px rgba(0,0,0,0.4);
+        pointer-events: none;
+      `
+      profileHighlightMarkerRef.current = new maplibregl.Marker({ element, anchor: 'center' })
+        .setLngLat([profileHighlightPoint.lng, profileHighlightPoint.lat])
+        .addTo(mapRef.current)
+    }
+
+    profileHighlightMarkerRef.current.getElement().style.backgroundColor = profileHighlightPoint.color
+    profileHighlightMarkerRef.current.setLngLat([profileHighlightPoint.lng, profileHighlightPoint.lat])
+  }, [mapLoaded, profileHighlightPoint])
+
+  // USER TRACKS - Imported GPX tracks/routes as a line layer, waypoints as markers
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+
+    const map = mapRef.current
+
+    const userTracksGeoJSON = {
+      type: 'FeatureCollection' as const,
+      features: userTracks.flatMap(data => data.tracks.map(track => ({
+        type: 'Feature' as const,
+        id: track.id,
+        geometry: {
+          type: 'LineString' as const,
+          coordinates: track.points.map(point => [point.lng, point.lat])
+        },
+        properties: {
+          id: track.id,
+          name: track.name,
+          kind: track.kind
+        }
+      })))
+    }
+
+    // Re-applied after style changes, which drop custom sources and layers
+    const applyUserTracks = () => {
+      const existingSource = map.getSource('user-tracks') as maplibregl.GeoJSONSource | undefined
+      if (existingSource) {
+        existingSource.setData(userTracksGeoJSON)
+        return
       }
-      if (positionMarkerRef.current) {
-        positionMarkerRef.current.remove()
-        positionMarkerRef.current = null
+
+      map.addSource('user-tracks', {
+        // eslint-disable-next-line no-restricted-syntax
+        type: 'geojson',
+        data: userTracksGeoJSON
+      })
+
+      map.addLayer({
+        id: 'user-tracks-casing',
+        type: 'line',
+        source: 'user-tracks',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#ffffff',
+          'line-width': 6,
+          'line-opacity': 0.8
+        }
+      })
+
+      map.addLayer({
+        id: 'user-tracks-line',
+        type: 'line',
+        source: 'user-tracks',
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#db2777',
+          'line-width': 3,
+          // Routes (planned) are dashed, recorded tracks are solid
+          'line-dasharray': ['case', ['==', ['get', 'kind'], 'route'], ['literal', [2, 1]], ['literal', [1, 0]]]
+        }
+      })
+    }
+
+    if (styleReadyRef.current) {
+      applyUserTracks()
+    }
+    map.on('style.load', applyUserTracks)
+
+    // Waypoints, removed again in the cleanup when the tracks change or the map unmounts
+    userWaypointMarkersRef.current = userTracks.flatMap(data => data.waypoints.map(waypoint => {
+      const element = document.createElement('div')
+      element.className = 'user-waypoint-marker'
+      element.style.cssText = `
+        width: 14px;
+        height: 14px;
+        border-radius: 50%;
+        background: #db2777;
+        border: 2px solid white;
+        box-shadow: 0 2px 4px rgba(0,0,0,0.3);
+        cursor: pointer;
+      `
+
+      const marker = new maplibregl.Marker({ element, anchor: 'center' })
+        .setLngLat([waypoint.lng, waypoint.lat])
+
+      if (waypoint.name || waypoint.description) {
+        const content = document.createElement('div')
+        content.style.cssText = 'padding: 12px; font-size: 13px; color: #374151;'
+        const title = document.createElement('strong')
+        title.textContent = waypoint.name ?? 'Veipunkt'
+        content.appendChild(title)
+        if (waypoint.description) {
+          const description = document.createElement('div')
+          description.style.marginTop = '4px'
+          description.textContent = waypoint.description
+          content.appendChild(description)
+        }
+        marker.setPopup(new maplibregl.Popup({ offset: 10 }).setDOMContent(content))
       }
-      return
+
+      return marker.addTo(map)
+    }))
+
+    return () => {
+      map.off('style.load', applyUserTracks)
+      userWaypointMarkersRef.current.forEach(marker => marker.remove())
+      userWaypointMarkersRef.current = []
     }
+  }, [mapLoaded, userTracks])
+
+  // RECORDED TRACKS - GPS breadcrumb trails, with the latest position of an active recording
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
 
     const map = mapRef.current
 
-    // Remove existing user location marker if it exists
-    if (userLocationMarkerRef.current) {
-      userLocationMarkerRef.current.remove()
-    }
-    
-    // Create user location marker with pulsing animation
-    const locationElement = document.createElement('div')
-    locationElement.className = 'user-location-marker'
-    locationElement.style.cssText = `
-      width: 20px;
-      height: 20px;
-      border-radius: 50%;
-      background: linear-gradient(135deg, #3e4533, #0891b2);
-      border: 3px solid white;
-      box-shadow: 0 4px 16px rgba(62, 69, 51, 0.4), 0 2px 8px rgba(0,0,0,0.1);
-      animation: locationPulse 2s infinite;
-      position: relative;
-    `
-    
-    // Add inner dot for better visibility
-    const innerDot = document.createElement('div')
-    innerDot.style.cssText = `
-      position: absolute;
-      top: 50%;
-      left: 50%;
-      transform: translate(-50%, -50%);
-      width: 6px;
-      height: 6px;
+    const recordedTracksGeoJSON = {
+      type: 'FeatureCollection' as const,
+      features: recordedTracks.flatMap(track => {
+        const lines = track.segments
+          .filter(segment => segment.length >= 2)
+          .map(segment => ({
+            type: 'Feature' as const,
+            geometry: {
+              type: 'LineString' as const,
+              coordinates: segment.map(point => [point.lng, point.lat])
+            },
+            properties: { active: track.status !== 'finished' }
+          }))
+
+        const currentSegment = track.segments[track.segments.length - 1] ?? []
+        const lastPoint = track.status !== 'finished'
+          ? currentSegment[currentSegment.length - 1] as RecordedPoint | undefined
+          : undefined
+
+        return lastPoint
+          ? [...lines, {
+              type: 'Feature' as const,
+              geometry: { type: 'Point' as const, coordinates: [lastPoint.lng, lastPoint.lat] },
+              properties: { active: true }
+            }]
+          : lines
+      })
+    }
+
+    // Re-applied after style changes, which drop custom sources and layers
+    const applyRecordedTracks = () => {
+      const existingSource = map.getSource('recorded-tracks') as maplibregl.GeoJSONSource | undefined
+      if (existingSource) {
+        existingSource.setData(recordedTracksGeoJSON)
+        return
+      }
+
+      map.addSource('recorded-tracks', {
+        // eslint-disable-next-line no-restricted-syntax
+        type: 'geojson',
+        data: recordedTracksGeoJSON
+      })
+
+      map.addLayer({
+        id: 'recorded-tracks-casing',
+        type: 'line',
+        source: 'recorded-tracks',
+        filter: ['==', ['geometry-type'], 'LineString'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': '#ffffff',
+          'line-width': 6,
+          'line-opacity': 0.8
+        }
+      })
+
+      map.addLayer({
+        id: 'recorded-tracks-line',
+        type: 'line',
+        source: 'recorded-tracks',
+        filter: ['==', ['geometry-type'], 'LineString'],
+        layout: { 'line-join': 'round', 'line-cap': 'round' },
+        paint: {
+          'line-color': ['case', ['get', 'active'], '#dc2626', '#ea580c'],
+          'line-width': 3
+        }
+      })
+
+      map.addLayer({
+        id: 'recorded-tracks-position',
+        type: 'circle',
+        source: 'recorded-tracks',
+        filter: ['==', ['geometry-type'], 'Point'],
+        paint: {
+          'circle-radius': 6,
+          'circle-color': '#dc2626',
+          'circle-stroke-color': '#ffffff',
+          'circle-stroke-width': 2
+        }
+      })
+    }
+
+    if (styleReadyRef.current) {
+      applyRecordedTracks()
+    }
+    map.on('style.load', applyRecordedTracks)
+
+    return () => {
+      map.off('style.load', applyRecordedTracks)
+    }
+  }, [mapLoaded, recordedTracks])
+
+  // OFFLINE AREA - Outline of the area selected for offline download
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+
+    const map = mapRef.current
+
+    const offlineAreaGeoJSON = {
+      type: 'FeatureCollection' as const,
+      features: offlineAreaBounds ? [{
+        type: 'Feature' as const,
+        geometry: {
+          type: 'Polygon' as const,
+          coordinates: [[
+            [offlineAreaBounds.west, offlineAreaBounds.south],
+            [offlineAreaBounds.east, offlineAreaBounds.south],
+            [offlineAreaBounds.east, offlineAreaBounds.north],
+            [offlineAreaBounds.west, offlineAreaBounds.north],
+            [offlineAreaBounds.west, offlineAreaBounds.south]
+          ]]
+        },
+        properties: {}
+      }] : []
+    }
+
+    const applyOfflineArea = () => {
+      const existingSource = map.getSource('offline-area') as maplibregl.GeoJSONSource | undefined
+      if (existingSource) {
+        existingSource.setData(offlineAreaGeoJSON)
+        return
+      }
+
+      map.addSource('offline-area', {
+        // eslint-disable-next-line no-restricted-syntax
+        type: 'geojson',
+        data: offlineAreaGeoJSON
+      })
+
+      map.addLayer({
+        id: 'offline-area-fill',
+        type: 'fill',
+        source: 'offline-area',
+        paint: {
+          'fill-color': '#3e4533',
+          'fill-opacity': 0.08
+        }
+      })
+
+      map.addLayer({
+        id: 'offline-area-outline',
+        type: 'line',
+        source: 'offline-area',
+        paint: {
+          'line-color': '#3e4533',
+          'line-width': 2,
+          'line-dasharray': [3, 2]
+        }
+      })
+    }
+
+    if (styleReadyRef.current) {
+      applyOfflineArea()
+    }
+    map.on('style.load', applyOfflineArea)
+
+    return () => {
+      map.off('style.load', applyOfflineArea)
+    }
+  }, [mapLoaded, offlineAreaBounds])
+
+  // TERRAIN - 3D terrain and hillshading from DEM tiles, re-applied after style changes
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+
+    const map = mapRef.current
+
+    const applyTerrain = () => {
+      try {
+        TerrainService.apply(map, terrain, mapType)
+      } catch (error) {
+        console.warn('⚠️ Could not apply terrain:', error)
+      }
+    }
+
+    if (styleReadyRef.current) {
+      applyTerrain()
+    }
+    map.on('style.load', applyTerrain)
+
+    return () => {
+      map.off('style.load', applyTerrain)
+    }
+  }, [mapLoaded, terrain, mapType])
+
+  // VIEWSHED - Visible and hidden terrain as an image overlay, re-applied after style changes
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+
+    const map = mapRef.current
+
+    if (!viewshed) {
+      if (map.getLayer(ViewshedService.LAYER_ID)) map.removeLayer(ViewshedService.LAYER_ID)
+      if (map.getSource(ViewshedService.SOURCE_ID)) map.removeSource(ViewshedService.SOURCE_ID)
+      return
+    }
+
+    const applyViewshed = () => {
+      const existingSource = map.getSource(ViewshedService.SOURCE_ID) as maplibregl.ImageSource | undefined
+      if (existingSource) {
+        existingSource.updateImage({ url: viewshed.image, coordinates: viewshed.coordinates })
+        return
+      }
+
+      map.addSource(ViewshedService.SOURCE_ID, ViewshedService.getSource(viewshed))
+      map.addLayer(ViewshedService.getMapLayer())
+    }
+
+    if (styleReadyRef.current) {
+      applyViewshed()
+    }
+    map.on('style.load', applyViewshed)
+
+    return () => {
+      map.off('style.load', applyViewshed)
+    }
+  }, [mapLoaded, viewshed])
+
+  // Observer marker, shown while the viewshed is computed too
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded || !viewshedOrigin) return
+
+    const markerElement = document.createElement('div')
+    markerElement.className = 'viewshed-observer-marker'
+    markerElement.title = viewshedOrigin.name ?? 'Observatør'
+    markerElement.style.cssText = `
+      width: 28px;
+      height: 28px;
       border-radius: 50%;
-      background: white;
+      background: #3e4533;
+      border: 2px solid #ffffff;
+      box-shadow: 0 2px 6px rgba(0, 0, 0, 0.35);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      color: #ffffff;
+      font-family: 'Material Symbols Outlined';
+      font-size: 18px;
     `
-    locationElement.appendChild(innerDot)
-    
-    const locationMarker = new maplibregl.Marker(locationElement)
-      .setLngLat([userLocation.lng, userLocation.lat])
-      .addTo(map)
-    
-    userLocationMarkerRef.current = locationMarker
+    markerElement.textContent = 'visibility'
+
+    const marker = new maplibregl.Marker({ element: markerElement })
+      .setLngLat([viewshedOrigin.lng, viewshedOrigin.lat])
+      .addTo(mapRef.current)
+
+    return () => {
+      marker.remove()
+    }
+  }, [mapLoaded, viewshedOrigin])
+
+  // UTM GRID - Grid lines for the viewport, rebuilt when the map stops moving
+  // Edge labels are DOM elements (the style has no glyphs) and follow the map while it moves
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+
+    const map = mapRef.current
+
+    if (!showUtmGrid) {
+      UTM_GRID_LAYER_IDS.forEach(layerId => {
+        if (map.getLayer(layerId)) map.removeLayer(layerId)
+      })
+      if (map.getSource(UTM_GRID_SOURCE_ID)) map.removeSource(UTM_GRID_SOURCE_ID)
+      return
+    }
+
+    // Dark lines on the topographic map, light lines on aerial imagery
+    const isSatellite = mapType === 'satellite'
+    const lineColor = isSatellite ? 'rgba(255, 255, 255, 0.75)' : 'rgba(30, 58, 138, 0.55)'
+    const zoneColor = isSatellite ? '#facc15' : '#1e3a8a'
+    const labelColor = isSatellite ? '#ffffff' : '#1e3a8a'
+    const labelHalo = isSatellite ? '0 0 3px #000, 0 0 2px #000' : '0 0 3px #fff, 0 0 2px #fff'
+    const labelFormat = coordinateFormat === 'mgrs' ? 'mgrs' : 'utm'
+    const edgeInset = 6 // px from the map edge
+
+    const labelContainer = document.createElement('div')
+    labelContainer.className = 'utm-grid-labels'
+    labelContainer.style.cssText = 'position: absolute; inset: 0; pointer-events: none; overflow: hidden; z-index: 1;'
+    map.getContainer().appendChild(labelContainer)
+
+    let grid: UTMGrid | null = null
+    let labelFrame = 0
+
+    const createLabel = (text: string, x: number, y: number, transform: string, bold = false) => {
+      const label = document.createElement('span')
+      label.textContent = text
+      label.style.cssText = `
+        position: absolute;
+        left: ${x}px;
+        top: ${y}px;
+        transform: ${transform};
+        font-size: ${bold ? 12 : 11}px;
+        font-weight: ${bold ? 700 : 600};
+        color: ${labelColor};
+        text-shadow: ${labelHalo};
+        white-space: nowrap;
+      `
+      labelContainer.appendChild(label)
+    }
+
+    // Label each line where it crosses the top (eastings) or left (northings) edge
+    const updateLabels = () => {
+      labelFrame = 0
+      labelContainer.replaceChildren()
+      if (!grid) return
+
+      const { interval } = grid
+      const { clientWidth: width, clientHeight: height } = map.getContainer()
+
+      grid.lines.features.forEach(feature => {
+        const { axis, value } = feature.properties
+        if (!axis || value === undefined) return
+
+        feature.geometry.coordinates.forEach(part => {
+          const points = part.map(coordinate => map.project(coordinate as [number, number]))
+          for (let i = 1; i < points.length; i++) {
+            const [a, b] = axis === 'easting'
+              ? [points[i - 1].y - edgeInset, points[i].y - edgeInset]
+              : [points[i - 1].x - edgeInset, points[i].x - edgeInset]
+            if ((a < 0) === (b < 0)) continue
+
+            const t = a / (a - b)
+            const x = points[i - 1].x + (points[i].x - points[i - 1].x) * t
+            const y = points[i - 1].y + (points[i].y - points[i - 1].y) * t
+            if (x < 0 || x > width || y < 0 || y > height) continue
+
+            const text = UtmGridService.formatLabel(value, interval, labelFormat)
+            if (axis === 'easting') {
+              createLabel(text, x, y, 'translate(-50%, 0)')
+            } else {
+              createLabel(text, x, y, 'translate(0, -50%)')
+            }
+            break
+          }
+        })
+      })
 
-    // Remove existing position marker if it exists
-    if (positionMarkerRef.current) {
-      positionMarkerRef.current.remove()
+      // Zone name near the top-left corner of each zone on screen
+      grid.sectors.forEach(sector => {
+        const corner = map.project([sector.west, sector.north])
+        const x = Math.max(corner.x, 0) + 28
+        const y = Math.max(corner.y, 0) + 24
+        if (x > width - 40 || y > height - 20) return
+
+        const position = map.unproject([x, y])
+        if (position.lng < sector.west || position.lng > sector.east || position.lat < sector.south || position.lat > sector.north) return
+        createLabel(UtmGridService.formatZoneLabel(sector, position.lat, position.lng, labelFormat), x, y, 'none', true)
+      })
     }
 
-    // Create position marker (distinct from user location marker)
-    const positionElement = document.createElement('div')
-    positionElement.className = 'position-marker'
-    positionElement.style.cssText = `
-      width: 50px;
-      height: 50px;
+    const scheduleLabels = () => {
+      labelFrame ||= requestAnimationFrame(updateLabels)
+    }
+
+    const updateGrid = () => {
+      // Half a viewport of margin on each side, so lines are in place while panning
+      const bounds = map.getBounds()
+      const latMargin = (bounds.getNorth() - bounds.getSouth()) / 2
+      const lngMargin = (bounds.getEast() - bounds.getWest()) / 2
+      grid = UtmGridService.getGrid({
+        north: Math.min(bounds.getNorth() + latMargin, 84),
+        south: Math.max(bounds.getSouth() - latMargin, -80),
+        east: Math.min(bounds.getEast() + lngMargin, 180),
+        west: Math.max(bounds.getWest() - lngMargin, -180)
+      }, map.getZoom())
+
+      const gridGeoJSON = grid?.lines ?? { type: 'FeatureCollection' as const, features: [] }
+      const source = map.getSource(UTM_GRID_SOURCE_ID) as maplibregl.GeoJSONSource | undefined
+      source?.setData(gridGeoJSON)
+      scheduleLabels()
+    }
+
+    // Re-applied after style changes, which drop custom sources and layers
+    const applyUtmGrid = () => {
+      if (!map.getSource(UTM_GRID_SOURCE_ID)) {
+        map.addSource(UTM_GRID_SOURCE_ID, {
+          // eslint-disable-next-line no-restricted-syntax
+          type: 'geojson',
+          data: { type: 'FeatureCollection', features: [] }
+        })
+
+        map.addLayer({
+          id: 'utm-grid-lines',
+          type: 'line',
+          source: UTM_GRID_SOURCE_ID,
+          filter: ['==', ['get', 'kind'], 'grid'],
+          paint: {
+            'line-color': lineColor,
+            'line-width': 1
+          }
+        })
+
+        map.addLayer({
+          id: 'utm-grid-zones',
+          type: 'line',
+          source: UTM_GRID_SOURCE_ID,
+          filter: ['==', ['get', 'kind'], 'zone'],
+          paint: {
+            'line-color': zoneColor,
+            'line-width': 2.5
+          }
+        })
+      } else {
+        map.setPaintProperty('utm-grid-lines', 'line-color', lineColor)
+        map.setPaintProperty('utm-grid-zones', 'line-color', zoneColor)
+      }
+
+      updateGrid()
+    }
+
+    if (styleReadyRef.current) {
+      applyUtmGrid()
+    }
+    map.on('style.load', applyUtmGrid)
+    map.on('moveend', updateGrid)
+    map.on('move', scheduleLabels)
+    map.on('resize', scheduleLabels)
+
+    return () => {
+      map.off('style.load', applyUtmGrid)
+      map.off('moveend', updateGrid)
+      map.off('move', scheduleLabels)
+      map.off('resize', scheduleLabels)
+      if (labelFrame) cancelAnimationFrame(labelFrame)
+      labelContainer.remove()
+    }
+  }, [mapLoaded, showUtmGrid, mapType, coordinateFormat])
+
+  // Handle search result centering
+  useEffect(() => {
+    if (!mapRef.current) return
+
+    const map = mapRef.current
+
+    // Always clean up existing search marker first
+    if (searchMarkerRef.current) {
+      searchMarkerRef.current.remove()
+      searchMarkerRef.current = null
+    }
+
+    // If no search result, just cleanup and return
+    if (!searchResult) {
+      return
+    }
+
+
+    // Create modern search marker
+    const searchElement = document.createElement('div')
+    searchElement.className = 'search-marker'
+    searchElement.style.cssText = `
+      width: 40px;
+      height: 40px;
       border-radius: 50%;
-      background: #0000ff !important;
+      background: #ff0000 !important;
       border: 4px solid #ffffff !important;
-      box-shadow: 0 4px 16px rgba(0, 0, 255, 0.8) !important;
+      box-shadow: 0 4px 16px rgba(255, 0, 0, 0.8) !important;
       position: absolute !important;
       z-index: 9999 !important;
       transform: translate(-50%, -50%) !important;
       pointer-events: auto !important;
     `
-    positionElement.innerHTML = '<div style="width: 100%; height: 100%; background: blue; border-radius: 50%; display: flex; align-items: center; justify-content: center; color: white; font-weight: bold; font-size: 16px;">P</div>'
+    searchElement.innerHTML = '<div style="width: 100%; height: 100%; background: red; border-radius: 50%; display: flex; align-items: center; justify-content: center; color: white; font-weight: bold; font-size: 14px;">S</div>'
 
-    const positionMarker = new maplibregl.Marker(positionElement)
-      .setLngLat([userLocation.lng, userLocation.lat])
+    const searchMarker = new maplibregl.Marker(searchElement)
+      .setLngLat([searchResult.lng, searchResult.lat])
       .addTo(map)
 
-    positionMarkerRef.current = positionMarker
+    searchMarkerRef.current = searchMarker
 
-    // Fly to user location
+    // Center map on search result
     map.flyTo({
+      center: [searchResult.lng, searchResult.lat],
+      zoom: 15,
+      duration: 1000
+    })
+
+    // Automatically remove search marker after 3 seconds
+    const removeTimer = setTimeout(() => {
+      if (searchMarkerRef.current) {
+        searchMarkerRef.current.remove()
+        searchMarkerRef.current = null
+      }
+    }, 3000)
+
+    // Cleanup timer on unmount or when searchResult changes
+    return () => {
+      clearTimeout(removeTimer)
+    }
+  }, [searchResult])
+
+  // USER LOCATION - Marker turned to the compass heading, plus the accuracy radius
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+
+    const map = mapRef.current
+
+    if (!userLocation) {
+      userLocationMarkerRef.current?.remove()
+      userLocationMarkerRef.current = null
+    } else {
+      userLocationMarkerRef.current ??= new maplibregl.Marker({
+        element: createUserLocationElement(),
+        rotationAlignment: 'map'
+      })
+        .setLngLat([userLocation.lng, userLocation.lat])
+        .addTo(map)
+
+      const marker = userLocationMarkerRef.current
+      marker.setLngLat([userLocation.lng, userLocation.lat])
+      marker.setRotation(deviceHeading ?? 0)
+      const headingElement = marker.getElement().querySelector<HTMLElement>('.user-location-heading')
+      if (headingElement) {
+        headingElement.style.display = deviceHeading === null ? 'none' : 'block'
+      }
+    }
+
+    const accuracyGeoJSON = {
+      type: 'FeatureCollection' as const,
+      features: userLocation?.accuracy
+        ? [{
+            type: 'Feature' as const,
+            geometry: {
+              type: 'Polygon' as const,
+              coordinates: [circleCoordinates(userLocation, userLocation.accuracy)]
+            },
+            properties: {}
+          }]
+        : []
+    }
+
+    // Re-applied after style changes, which drop custom sources and layers
+    const applyAccuracy = () => {
+      const existingSource = map.getSource('user-location-accuracy') as maplibregl.GeoJSONSource | undefined
+      if (existingSource) {
+        existingSource.setData(accuracyGeoJSON)
+        return
+      }
+
+      map.addSource('user-location-accuracy', {
+        // eslint-disable-next-line no-restricted-syntax
+        type: 'geojson',
+        data: accuracyGeoJSON
+      })
+
+      map.addLayer({
+        id: 'user-location-accuracy-fill',
+        type: 'fill',
+        source: 'user-location-accuracy',
+        paint: {
+          'fill-color': '#0891b2',
+          'fill-opacity': 0.12
+        }
+      })
+
+      map.addLayer({
+        id: 'user-location-accuracy-outline',
+        type: 'line',
+        source: 'user-location-accuracy',
+        paint: {
+          'line-color': '#0891b2',
+          'line-width': 1,
+          'line-opacity': 0.5
+        }
+      })
+    }
+
+    if (styleReadyRef.current) {
+      applyAccuracy()
+    }
+    map.on('style.load', applyAccuracy)
+
+    return () => {
+      map.off('style.load', applyAccuracy)
+    }
+  }, [mapLoaded, userLocation, deviceHeading])
+
+  // FOLLOW MODE - Keep the map centred on the user, rotated to the heading in heading mode
+  const followBearing = followMode === 'heading' ? deviceHeading : null
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded || !userLocation) return
+    if (followMode !== 'follow' && followMode !== 'heading') return
+
+    const map = mapRef.current
+    map.easeTo({
       center: [userLocation.lng, userLocation.lat],
-      zoom: 14,
-      duration: 1500
+      zoom: Math.max(map.getZoom(), 14),
+      bearing: followBearing ?? map.getBearing(),
+      duration: 500
     })
-  }, [userLocation])
+  }, [mapLoaded, userLocation, followMode, followBearing])
+
+  // Drop out of follow mode when the user pans or rotates the map by hand
+  useEffect(() => {
+    if (!mapRef.current || !mapLoaded) return
+    if (followMode !== 'follow' && followMode !== 'heading') return
+
+    const map = mapRef.current
+    const exitFollow = (event: { originalEvent?: unknown }) => {
+      // Only user gestures carry an original DOM event; our own easeTo calls don't
+      if (event.originalEvent) onFollowModeExit?.()
+    }
+
+    map.on('dragstart', exitFollow)
+    map.on('rotatestart', exitFollow)
+
+    return () => {
+      map.off('dragstart', exitFollow)
+      map.off('rotatestart', exitFollow)
+    }
+  }, [mapLoaded, followMode, onFollowModeExit])
 
   return (
     <div className="map-container" style={{ position: 'relative', width: '100%', height: '100%' }}>
@@ -1711,22 +2823,6 @@ const MapLibreMapComponent = forwardRef<MapLibreMapRef, MapLibreMapProps>((props
           z-index: 1000 !important;
         }
 
-        /* Distance measurement lines */
-        .distance-line-container {
-          position: absolute !important;
-          top: 0 !important;
-          left: 0 !important;
-          width: 100% !important;
-          height: 100% !important;
-          pointer-events: none !important;
-          z-index: 999 !important;
-        }
-
-        .distance-line {
-          background-color: #ff4444 !important;
-          z-index: 999 !important;
-        }
-
         .distance-label {
           background: rgba(255, 255, 255, 0.95) !important;
           color: #ff4444 !important;
@@ -1817,4 +2913,64 @@ function _adjustBrightness(color: string, percent: number): string {
   return '#' + (0x1000000 + (R < 255 ? R < 1 ? 0 : R : 255) * 0x10000 +
     (G < 255 ? G < 1 ? 0 : G : 255) * 0x100 +
     (B < 255 ? B < 1 ? 0 : B : 255)).toString(16).slice(1)
-}
\ No newline at end of file
+}
+// User location dot with a heading arrow (shown once a compass heading is known)
+function createUserLocationElement(): HTMLDivElement {
+  const element = document.createElement('div')
+  element.className = 'user-location-marker'
+  element.style.cssText = `
+    width: 20px;
+    height: 20px;
+    border-radius: 50%;
+    background: linear-gradient(135deg, #3e4533, #0891b2);
+    border: 3px solid white;
+    box-shadow: 0 4px 16px rgba(62, 69, 51, 0.4), 0 2px 8px rgba(0,0,0,0.1);
+    animation: locationPulse 2s infinite;
+    position: relative;
+  `
+
+  const innerDot = document.createElement('div')
+  innerDot.style.cssText = `
+    position: absolute;
+    top: 50%;
+    left: 50%;
+    transform: translate(-50%, -50%);
+    width: 6px;
+    height: 6px;
+    border-radius: 50%;
+    background: white;
+  `
+  element.appendChild(innerDot)
+
+  const heading = document.createElement('div')
+  heading.className = 'user-location-heading'
+  heading.style.cssText = `
+    display: none;
+    position: absolute;
+    top: -15px;
+    left: 50%;
+    transform: translateX(-50%);
+    width: 0;
+    height: 0;
+    border-left: 6px solid transparent;
+    border-right: 6px solid transparent;
+    border-bottom: 10px solid #0891b2;
+  `
+  element.appendChild(heading)
+
+  return element
+}
+
+// Ring of [lng, lat] coordinates approximating a circle on the ground
+function circleCoordinates(center: { lat: number; lng: number }, radiusMeters: number, steps = 64): number[][] {
+  const earthRadius = 6371000
+  const latRadius = (radiusMeters / earthRadius) * (180 / Math.PI)
+  const lngRadius = latRadius / Math.cos(center.lat * Math.PI / 180)
+
+  const ring: number[][] = []
+  for (let i = 0; i <= steps; i++) {
+    const angle = (i / steps) * 2 * Math.PI
+    ring.push([center.lng + lngRadius * Math.cos(angle), center.lat + latRadius * Math.sin(angle)])
+  }
+  return ring
+}
@@ -1,15 +1,39 @@
 import React, { useState } from 'react'
+import type { POIRenderMode } from '../services/poiSymbolService'
+import { TERRAIN_EXAGGERATION_RANGE, TerrainSettings } from '../services/terrainService'
 
 interface MapTypePanelProps {
   mapType: 'topo' | 'satellite'
   onMapTypeChange: (mapType: 'topo' | 'satellite') => void
+  poiRenderMode: POIRenderMode
+  onPOIRenderModeChange: (mode: POIRenderMode) => void
+  terrain: TerrainSettings
+  onTerrainChange: (terrain: TerrainSettings) => void
+}
+
+const checkboxLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'flex-start',
+  gap: '8px',
+  marginTop: '12px',
+  fontSize: '13px',
+  color: '#334155',
+  cursor: 'pointer'
 }
 
 /**
- * MapTypePanel - Collapsible panel for selecting map type (Topo/Satellite)
+ * MapTypePanel - Collapsible panel for selecting map type (Topo/Satellite),
+ * terrain relief and how POIs are drawn on the map
  * Follows the same design pattern as other collapsible panels
  */
-export function MapTypePanel({ mapType, onMapTypeChange }: MapTypePanelProps) {
+export function MapTypePanel({
+  mapType,
+  onMapTypeChange,
+  poiRenderMode,
+  onPOIRenderModeChange,
+  terrain,
+  onTerrainChange
+}: MapTypePanelProps) {
   const [isExpanded, setIsExpanded] = useState(false)
 
   return (
@@ -137,6 +161,66 @@ export function MapTypePanel({ mapType, onMapTypeChange }: MapTypePanelProps) {
               Satellitt
             </button>
           </div>
+
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={terrain.enabled}
+              onChange={(e) => onTerrainChange({ ...terrain, enabled: e.target.checked })}
+              style={{ marginTop: '2px', cursor: 'pointer' }}
+            />
+            <span>
+              3D-terreng
+              <span style={{ display: 'block', fontSize: '12px', color: '#64748b', marginTop: '2px' }}>
+                Vipp kartet for å se fjell, rygger og skar i relieff.
+              </span>
+            </span>
+          </label>
+
+          {terrain.enabled && (
+            <label style={{ display: 'block', margin: '8px 0 0 24px', fontSize: '12px', color: '#64748b' }}>
+              Overdriv høyder: {terrain.exaggeration.toLocaleString('nb-NO', { minimumFractionDigits: 1, maximumFractionDigits: 1 })}×
+              <input
+                type="range"
+                min={TERRAIN_EXAGGERATION_RANGE.min}
+                max={TERRAIN_EXAGGERATION_RANGE.max}
+                step={TERRAIN_EXAGGERATION_RANGE.step}
+                value={terrain.exaggeration}
+                onChange={(e) => onTerrainChange({ ...terrain, exaggeration: Number(e.target.value) })}
+                style={{ display: 'block', width: '100%', marginTop: '4px', accentColor: '#3e4533' }}
+              />
+            </label>
+          )}
+
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={terrain.hillshade}
+              onChange={(e) => onTerrainChange({ ...terrain, hillshade: e.target.checked })}
+              style={{ marginTop: '2px', cursor: 'pointer' }}
+            />
+            <span>
+              Relieffskygge
+              <span style={{ display: 'block', fontSize: '12px', color: '#64748b', marginTop: '2px' }}>
+                Skyggelegger terrenget, også når kartet ikke er vippet.
+              </span>
+            </span>
+          </label>
+
+          <label style={checkboxLabelStyle}>
+            <input
+              type="checkbox"
+              checked={poiRenderMode === 'symbols'}
+              onChange={(e) => onPOIRenderModeChange(e.target.checked ? 'symbols' : 'dom')}
+              style={{ marginTop: '2px', cursor: 'pointer' }}
+            />
+            <span>
+              Rask visning av interessepunkter
+              <span style={{ display: 'block', fontSize: '12px', color: '#64748b', marginTop: '2px' }}>
+                Eksperimentell. Tegner punktene direkte i kartet, uten gruppering.
+              </span>
+            </span>
+          </label>
         </div>
       )}
     </div>
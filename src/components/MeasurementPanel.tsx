@@ -0,0 +1,269 @@
+import React, { useState } from 'react'
+import type { ElevationPoint } from '../data/trails'
+import { DistanceMeasurement, MEASUREMENT_COLORS, formatDistance } from '../services/distanceService'
+import { ElevationService } from '../services/elevationService'
+import { TravelTimeService, TravelTimeSettings } from '../services/travelTimeService'
+import { ElevationProfileChart } from './ElevationProfileChart'
+import { TravelTimeSelector } from './TravelTimeSelector'
+
+interface MeasurementPanelProps {
+  measurements: DistanceMeasurement[]
+  onChange: (id: string, changes: Partial<Pick<DistanceMeasurement, 'name' | 'color'>>) => void
+  onDelete: (id: string) => void
+  onShow: (measurement: DistanceMeasurement) => void
+  onRetryProfile: (id: string) => void
+  onProfileHover: (point: (ElevationPoint & { color: string }) | null) => void
+  travelTime: TravelTimeSettings
+  onTravelTimeChange: (settings: TravelTimeSettings) => void
+}
+
+export function MeasurementPanel({
+  measurements,
+  onChange,
+  onDelete,
+  onShow,
+  onRetryProfile,
+  onProfileHover,
+  travelTime,
+  onTravelTimeChange
+}: MeasurementPanelProps) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  if (measurements.length === 0) return null
+
+  const nextColor = (color: string) =>
+    MEASUREMENT_COLORS[(MEASUREMENT_COLORS.indexOf(color) + 1) % MEASUREMENT_COLORS.length]
+
+  const renderProfile = (measurement: DistanceMeasurement) => {
+    const profile = measurement.elevationProfile
+
+    if (!profile) {
+      return (
+        <p style={{ margin: '8px 0 2px', fontSize: '12px', color: '#6b7280' }}>
+          Henter høydeprofil...
+        </p>
+      )
+    }
+
+    const stats = ElevationService.getProfileStats(profile)
+    if (!stats) {
+      return (
+        <p style={{ margin: '8px 0 2px', fontSize: '12px', color: '#6b7280' }}>
+          Ingen høydedata tilgjengelig.{' '}
+          <button
+            onClick={() => onRetryProfile(measurement.id)}
+            style={{
+              background: 'none',
+              border: 'none',
+              padding: 0,
+              color: '#3e4533',
+              fontSize: '12px',
+              textDecoration: 'underline',
+              cursor: 'pointer'
+            }}
+          >
+            Prøv igjen
+          </button>
+        </p>
+      )
+    }
+
+    const estimatedTime = TravelTimeService.estimate({
+      distance: measurement.totalDistance,
+      elevationProfile: profile
+    }, travelTime)
+
+    const statItems = [
+      { label: 'Estimert tid', value: TravelTimeService.formatDuration(estimatedTime) },
+      { label: 'Avstand', value: formatDistance(measurement.totalDistance) },
+      { label: 'Stigning', value: `${Math.round(stats.ascent)} m` },
+      { label: 'Nedstigning', value: `${Math.round(stats.descent)} m` },
+      { label: 'Høyeste punkt', value: `${Math.round(stats.highest.elevation)} moh` },
+      { label: 'Laveste punkt', value: `${Math.round(stats.lowest.elevation)} moh` }
+    ]
+
+    return (
+      <div style={{ marginTop: '8px' }}>
+        <ElevationProfileChart
+          profile={profile}
+          color={measurement.color}
+          highlightRange={stats.steepest ? [stats.steepest.start.distance, stats.steepest.end.distance] : undefined}
+          onHover={(point) => onProfileHover(point ? { ...point, color: measurement.color } : null)}
+        />
+        <div style={{
+          display: 'grid',
+          gridTemplateColumns: '1fr 1fr',
+          gap: '4px 12px',
+          marginTop: '6px',
+          fontSize: '12px'
+        }}>
+          {statItems.map(item => (
+            <div key={item.label} style={{ display: 'flex', justifyContent: 'space-between' }}>
+              <span style={{ color: '#6b7280' }}>{item.label}</span>
+              <strong style={{ fontWeight: '600' }}>{item.value}</strong>
+            </div>
+          ))}
+        </div>
+        {stats.steepest && (
+          <div style={{ marginTop: '4px', fontSize: '12px', color: '#6b7280' }}>
+            Brattest: <strong style={{ color: '#334155', fontWeight: '600' }}>
+              {Math.abs(Math.round(stats.steepest.gradient))} % {stats.steepest.gradient >= 0 ? 'opp' : 'ned'}
+            </strong>{' '}
+            ved {formatDistance(stats.steepest.start.distance)}–{formatDistance(stats.steepest.end.distance)}
+          </div>
+        )}
+        <div style={{ marginTop: '8px' }}>
+          <TravelTimeSelector settings={travelTime} onChange={onTravelTimeChange} />
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '0 2px 6px',
+        fontSize: '13px',
+        fontWeight: '500',
+        color: '#334155'
+      }}>
+        <span style={{
+          fontFamily: 'Material Symbols Outlined',
+          fontSize: '16px',
+          color: '#64748b'
+        }}>
+          straighten
+        </span>
+        Avstandsmålinger
+      </div>
+
+      <ul style={{
+        listStyle: 'none',
+        margin: 0,
+        padding: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '4px'
+      }}>
+        {measurements.map(measurement => (
+          <li
+            key={measurement.id}
+            style={{
+              padding: '6px 10px',
+              backgroundColor: '#f8fafc',
+              borderRadius: '6px',
+              fontSize: '13px',
+              color: '#334155'
+            }}
+          >
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              <button
+                onClick={() => onChange(measurement.id, { color: nextColor(measurement.color) })}
+                aria-label={`Bytt farge på ${measurement.name}`}
+                title="Bytt farge"
+                style={{
+                  width: '14px',
+                  height: '14px',
+                  flexShrink: 0,
+                  borderRadius: '50%',
+                  border: '2px solid white',
+                  boxShadow: '0 0 0 1px #cbd5e1',
+                  backgroundColor: measurement.color,
+                  padding: 0,
+                  cursor: 'pointer'
+                }}
+              />
+              <input
+                type="text"
+                value={measurement.name}
+                onChange={(e) => onChange(measurement.id, { name: e.target.value })}
+                aria-label="Navn på måling"
+                style={{
+                  flex: 1,
+                  minWidth: 0,
+                  border: 'none',
+                  background: 'transparent',
+                  fontSize: '13px',
+                  color: '#334155',
+                  padding: '2px 0'
+                }}
+              />
+              <span style={{ fontSize: '12px', color: '#6b7280', whiteSpace: 'nowrap' }}>
+                {formatDistance(measurement.totalDistance)}
+              </span>
+              <button
+                onClick={() => setExpandedId(expandedId === measurement.id ? null : measurement.id)}
+                aria-label={`Høydeprofil for ${measurement.name}`}
+                aria-expanded={expandedId === measurement.id}
+                title="Høydeprofil"
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  padding: '2px',
+                  display: 'flex',
+                  alignItems: 'center'
+                }}
+              >
+                <span style={{
+                  fontFamily: 'Material Symbols Outlined',
+                  fontSize: '16px',
+                  color: expandedId === measurement.id ? '#3e4533' : '#64748b'
+                }}>
+                  landscape
+                </span>
+              </button>
+              <button
+                onClick={() => onShow(measurement)}
+                aria-label={`Vis ${measurement.name} på kartet`}
+                title="Vis på kartet"
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  padding: '2px',
+                  display: 'flex',
+                  alignItems: 'center'
+                }}
+              >
+                <span style={{
+                  fontFamily: 'Material Symbols Outlined',
+                  fontSize: '16px',
+                  color: '#64748b'
+                }}>
+                  center_focus_strong
+                </span>
+              </button>
+              <button
+                onClick={() => onDelete(measurement.id)}
+                aria-label={`Slett ${measurement.name}`}
+                title="Slett"
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  cursor: 'pointer',
+                  padding: '2px',
+                  display: 'flex',
+                  alignItems: 'center'
+                }}
+              >
+                <span style={{
+                  fontFamily: 'Material Symbols Outlined',
+                  fontSize: '16px',
+                  color: '#64748b'
+                }}>
+                  delete
+                </span>
+              </button>
+            </div>
+
+            {expandedId === measurement.id && renderProfile(measurement)}
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,506 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react'
+import type { BoundingBox } from '../data/trails'
+import {
+  OfflineMapService,
+  OfflinePackage,
+  OfflineTileSource,
+  OfflineDownloadProgress,
+  OfflineStorageStatus
+} from '../services/offlineMapService'
+
+interface OfflineAreaPanelProps {
+  selectedBounds: BoundingBox | null
+  sources: OfflineTileSource[] // Basemap plus the overlays active on the map
+  currentZoom: number
+  onSelectArea: () => void
+  onClearSelection: () => void
+  onShowPackage: (pkg: OfflinePackage) => void
+}
+
+const zoomOptions = Array.from(
+  { length: OfflineMapService.MAX_ZOOM - OfflineMapService.MIN_ZOOM + 1 },
+  (_, i) => OfflineMapService.MIN_ZOOM + i
+)
+
+export function OfflineAreaPanel({
+  selectedBounds,
+  sources,
+  currentZoom,
+  onSelectArea,
+  onClearSelection,
+  onShowPackage
+}: OfflineAreaPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const [packages, setPackages] = useState<OfflinePackage[]>(() => OfflineMapService.getPackages())
+  const [name, setName] = useState('')
+  const [minZoom, setMinZoom] = useState(8)
+  const [maxZoom, setMaxZoom] = useState(15)
+  const [includeOverlays, setIncludeOverlays] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null) // 'new' or the id of a package being refreshed
+  const [progress, setProgress] = useState<OfflineDownloadProgress | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [storage, setStorage] = useState<OfflineStorageStatus | null>(null)
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  const refreshStorage = useCallback(() => {
+    void OfflineMapService.getStorageStatus().then(setStorage)
+  }, [])
+
+  useEffect(() => {
+    if (isExpanded) refreshStorage()
+  }, [isExpanded, refreshStorage])
+
+  const selectedSources = includeOverlays ? sources : sources.filter(source => source.kind === 'basemap')
+  const overlayCount = sources.filter(source => source.kind === 'overlay').length
+  const estimate = selectedBounds
+    ? OfflineMapService.estimate(selectedBounds, minZoom, maxZoom, selectedSources)
+    : null
+  const tooLarge = estimate !== null && estimate.tileCount > OfflineMapService.MAX_TILES
+
+  const runDownload = async (id: string, download: (signal: AbortSignal) => Promise<OfflinePackage>) => {
+    const controller = new AbortController()
+    abortControllerRef.current = controller
+    setBusyId(id)
+    setError(null)
+    setProgress(null)
+
+    try {
+      await download(controller.signal)
+      setPackages(OfflineMapService.getPackages())
+      return true
+    } catch (downloadError) {
+      if (!controller.signal.aborted) {
+        console.error('❌ Offline download failed:', downloadError)
+        setError(downloadError instanceof Error ? downloadError.message : 'Nedlastingen feilet')
+      }
+      return false
+    } finally {
+      abortControllerRef.current = null
+      setBusyId(null)
+      setProgress(null)
+      refreshStorage()
+    }
+  }
+
+  // Start the zoom range at the current view
+  const handleSelectArea = () => {
+    const zoom = Math.min(Math.max(Math.round(currentZoom), OfflineMapService.MIN_ZOOM), OfflineMapService.MAX_ZOOM)
+    setMinZoom(zoom)
+    setMaxZoom(prev => Math.max(prev, zoom))
+    setError(null)
+    onSelectArea()
+  }
+
+  const handleDownload = async () => {
+    if (!selectedBounds) return
+    const saved = await runDownload('new', signal => OfflineMapService.downloadPackage(
+      { name, bounds: selectedBounds, minZoom, maxZoom, sources: selectedSources },
+      setProgress,
+      signal
+    ))
+    if (saved) {
+      setName('')
+      onClearSelection()
+    }
+  }
+
+  const handleRefresh = (pkg: OfflinePackage) => {
+    void runDownload(pkg.id, signal => OfflineMapService.refreshPackage(pkg.id, setProgress, signal))
+  }
+
+  const handleDelete = async (pkg: OfflinePackage) => {
+    if (!window.confirm(`Slette offline-området «${pkg.name}»?`)) return
+    try {
+      await OfflineMapService.deletePackage(pkg.id)
+    } catch (deleteError) {
+      console.error('❌ Failed to delete offline package:', deleteError)
+    }
+    setPackages(OfflineMapService.getPackages())
+    refreshStorage()
+  }
+
+  const selectStyle: React.CSSProperties = {
+    flex: 1,
+    padding: '6px 8px',
+    border: '1px solid #e2e8f0',
+    borderRadius: '4px',
+    fontSize: '13px',
+    color: '#334155',
+    backgroundColor: '#ffffff'
+  }
+
+  const iconButtonStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    cursor: busyId ? 'default' : 'pointer',
+    padding: '2px',
+    display: 'flex',
+    alignItems: 'center',
+    opacity: busyId ? 0.4 : 1
+  }
+
+  const renderProgress = () => progress && (
+    <div style={{ marginTop: '8px' }}>
+      <div style={{
+        height: '6px',
+        backgroundColor: '#e2e8f0',
+        borderRadius: '3px',
+        overflow: 'hidden'
+      }}>
+        <div style={{
+          width: `${progress.total > 0 ? ((progress.completed + progress.failed) / progress.total) * 100 : 0}%`,
+          height: '100%',
+          backgroundColor: '#3e4533',
+          transition: 'width 0.2s ease'
+        }} />
+      </div>
+      <div style={{
+        display: 'flex',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginTop: '4px',
+        fontSize: '11px',
+        color: '#6b7280'
+      }}>
+        <span>
+          {progress.completed + progress.failed} av {progress.total} fliser
+          {progress.failed > 0 && ` (${progress.failed} feilet)`}
+        </span>
+        <button
+          onClick={() => abortControllerRef.current?.abort()}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: '#dc2626',
+            fontSize: '11px',
+            cursor: 'pointer',
+            padding: 0
+          }}
+        >
+          Avbryt
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="offline-area-panel" style={{ marginBottom: '16px' }}>
+      {/* Toggle Button */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          backgroundColor: isExpanded ? '#f1f5f9' : '#ffffff',
+          border: '1px solid #e2e8f0',
+          borderRadius: '6px',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: '500',
+          color: '#64748b',
+          transition: 'all 0.2s ease',
+          marginBottom: isExpanded ? '8px' : '0'
+        }}
+        onMouseEnter={(e) => {
+          if (!isExpanded) {
+            e.currentTarget.style.backgroundColor = '#f8fafc'
+            e.currentTarget.style.borderColor = '#cbd5e1'
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (!isExpanded) {
+            e.currentTarget.style.backgroundColor = '#ffffff'
+            e.currentTarget.style.borderColor = '#e2e8f0'
+          }
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '16px',
+            color: packages.length > 0 ? '#3e4533' : '#64748b'
+          }}>
+            download_for_offline
+          </span>
+          <span style={{
+            fontSize: '14px',
+            fontWeight: '500',
+            color: packages.length > 0 ? '#3e4533' : '#334155',
+            letterSpacing: '0.2px'
+          }}>
+            Offline-kart
+          </span>
+          {packages.length > 0 && (
+            <span style={{
+              fontSize: '11px',
+              backgroundColor: '#3e4533',
+              color: 'white',
+              borderRadius: '10px',
+              padding: '2px 6px',
+              fontWeight: '600',
+              minWidth: '16px',
+              textAlign: 'center'
+            }}>
+              {packages.length}
+            </span>
+          )}
+        </div>
+        <span
+          style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '16px',
+            color: '#64748b',
+            transform: isExpanded ? 'rotate(180deg)' : 'rotate(0deg)',
+            transition: 'transform 0.2s ease'
+          }}
+        >
+          keyboard_arrow_down
+        </span>
+      </button>
+
+      {/* Expanded Content */}
+      {isExpanded && (
+        <div style={{
+          backgroundColor: '#ffffff',
+          border: '1px solid #e2e8f0',
+          borderRadius: '6px',
+          padding: '12px',
+          boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)',
+          fontSize: '13px',
+          color: '#334155'
+        }}>
+          {!selectedBounds ? (
+            <>
+              <p style={{ margin: '0 0 10px 0', fontSize: '12px', color: '#6b7280', lineHeight: '1.4' }}>
+                Flytt kartet slik at det viser området du vil ha tilgjengelig uten nett, og velg kartutsnittet.
+              </p>
+              <button
+                onClick={handleSelectArea}
+                disabled={busyId !== null}
+                style={{
+                  width: '100%',
+                  padding: '8px 12px',
+                  backgroundColor: '#3e4533',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: '4px',
+                  fontSize: '13px',
+                  fontWeight: '500',
+                  cursor: busyId ? 'default' : 'pointer',
+                  opacity: busyId ? 0.6 : 1
+                }}
+              >
+                Velg kartutsnitt
+              </button>
+            </>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Navn, f.eks. Jotunheimen"
+                disabled={busyId !== null}
+                style={{
+                  width: '100%',
+                  boxSizing: 'border-box',
+                  padding: '6px 8px',
+                  border: '1px solid #e2e8f0',
+                  borderRadius: '4px',
+                  fontSize: '13px',
+                  marginBottom: '8px'
+                }}
+              />
+
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '8px' }}>
+                <span style={{ fontSize: '12px', color: '#6b7280' }}>Zoom</span>
+                <select
+                  value={minZoom}
+                  onChange={(e) => {
+                    const value = Number(e.target.value)
+                    setMinZoom(value)
+                    setMaxZoom(prev => Math.max(prev, value))
+                  }}
+                  disabled={busyId !== null}
+                  style={selectStyle}
+                  aria-label="Minste zoomnivå"
+                >
+                  {zoomOptions.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+                </select>
+                <span style={{ fontSize: '12px', color: '#6b7280' }}>–</span>
+                <select
+                  value={maxZoom}
+                  onChange={(e) => {
+                    const value = Number(e.target.value)
+                    setMaxZoom(value)
+                    setMinZoom(prev => Math.min(prev, value))
+                  }}
+                  disabled={busyId !== null}
+                  style={selectStyle}
+                  aria-label="Største zoomnivå"
+                >
+                  {zoomOptions.map(zoom => <option key={zoom} value={zoom}>{zoom}</option>)}
+                </select>
+              </div>
+
+              {overlayCount > 0 && (
+                <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', marginBottom: '8px', cursor: 'pointer' }}>
+                  <input
+                    type="checkbox"
+                    checked={includeOverlays}
+                    onChange={(e) => setIncludeOverlays(e.target.checked)}
+                    disabled={busyId !== null}
+                  />
+                  Ta med aktive kartlag ({sources.filter(source => source.kind === 'overlay').map(source => source.name).join(', ')})
+                </label>
+              )}
+
+              {estimate && (
+                <div style={{
+                  padding: '8px',
+                  backgroundColor: tooLarge ? '#fef2f2' : '#f8fafc',
+                  borderRadius: '4px',
+                  fontSize: '12px',
+                  color: tooLarge ? '#b91c1c' : '#475569',
+                  marginBottom: '8px',
+                  lineHeight: '1.4'
+                }}>
+                  Ca. {estimate.tileCount.toLocaleString('no-NO')} fliser, {OfflineMapService.formatBytes(estimate.estimatedBytes)}
+                  {tooLarge && (
+                    <div>For stort område – maks {OfflineMapService.MAX_TILES.toLocaleString('no-NO')} fliser. Velg færre zoomnivåer eller et mindre utsnitt.</div>
+                  )}
+                </div>
+              )}
+
+              <div style={{ display: 'flex', gap: '6px' }}>
+                <button
+                  onClick={() => { void handleDownload() }}
+                  disabled={busyId !== null || tooLarge}
+                  style={{
+                    flex: 1,
+                    padding: '8px 12px',
+                    backgroundColor: '#3e4533',
+                    color: 'white',
+                    border: 'none',
+                    borderRadius: '4px',
+                    fontSize: '13px',
+                    fontWeight: '500',
+                    cursor: busyId !== null || tooLarge ? 'default' : 'pointer',
+                    opacity: busyId !== null || tooLarge ? 0.6 : 1
+                  }}
+                >
+                  {busyId === 'new' ? 'Laster ned...' : 'Last ned'}
+                </button>
+                <button
+                  onClick={onClearSelection}
+                  disabled={busyId !== null}
+                  style={{
+                    padding: '8px 12px',
+                    backgroundColor: '#ffffff',
+                    color: '#334155',
+                    border: '1px solid #e2e8f0',
+                    borderRadius: '4px',
+                    fontSize: '13px',
+                    cursor: busyId ? 'default' : 'pointer'
+                  }}
+                >
+                  Avbryt
+                </button>
+              </div>
+
+              {busyId === 'new' && renderProgress()}
+            </>
+          )}
+
+          {error && (
+            <p style={{ margin: '8px 0 0 0', fontSize: '12px', color: '#b91c1c', lineHeight: '1.4' }}>
+              {error}
+            </p>
+          )}
+
+          {/* Saved packages */}
+          {packages.length > 0 && (
+            <ul style={{
+              listStyle: 'none',
+              margin: '12px 0 0 0',
+              padding: 0,
+              display: 'flex',
+              flexDirection: 'column',
+              gap: '4px'
+            }}>
+              {packages.map(pkg => (
+                <li
+                  key={pkg.id}
+                  style={{
+                    padding: '6px 10px',
+                    backgroundColor: '#f8fafc',
+                    borderRadius: '6px'
+                  }}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: '6px' }}>
+                    <button
+                      onClick={() => onShowPackage(pkg)}
+                      title="Vis på kartet"
+                      style={{
+                        flex: 1,
+                        minWidth: 0,
+                        background: 'none',
+                        border: 'none',
+                        padding: 0,
+                        textAlign: 'left',
+                        cursor: 'pointer',
+                        color: '#334155'
+                      }}
+                    >
+                      <div style={{ fontSize: '13px', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                        {pkg.name}
+                      </div>
+                      <div style={{ fontSize: '11px', color: '#6b7280' }}>
+                        {OfflineMapService.formatBytes(pkg.sizeBytes)} · zoom {pkg.minZoom}–{pkg.maxZoom} · {new Date(pkg.updatedAt).toLocaleDateString('no-NO')}
+                        {pkg.failedCount > 0 && ` · ${pkg.failedCount} fliser mangler`}
+                      </div>
+                    </button>
+                    <button
+                      onClick={() => handleRefresh(pkg)}
+                      disabled={busyId !== null}
+                      aria-label={`Oppdater ${pkg.name}`}
+                      title="Oppdater"
+                      style={iconButtonStyle}
+                    >
+                      <span style={{ fontFamily: 'Material Symbols Outlined', fontSize: '16px', color: '#64748b' }}>
+                        refresh
+                      </span>
+                    </button>
+                    <button
+                      onClick={() => { void handleDelete(pkg) }}
+                      disabled={busyId !== null}
+                      aria-label={`Slett ${pkg.name}`}
+                      title="Slett"
+                      style={iconButtonStyle}
+                    >
+                      <span style={{ fontFamily: 'Material Symbols Outlined', fontSize: '16px', color: '#64748b' }}>
+                        delete
+                      </span>
+                    </button>
+                  </div>
+                  {busyId === pkg.id && renderProgress()}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Storage budget */}
+          {storage && storage.quota > 0 && (
+            <p style={{ margin: '12px 0 0 0', fontSize: '11px', color: '#6b7280', lineHeight: '1.4' }}>
+              Lagring: {OfflineMapService.formatBytes(storage.usage)} av {OfflineMapService.formatBytes(storage.quota)} brukt
+              {!storage.persisted && packages.length > 0 && ' – nettleseren kan slette kartene ved lite lagringsplass'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
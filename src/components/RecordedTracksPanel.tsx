@@ -0,0 +1,135 @@
+import React from 'react'
+import { formatDistance } from '../services/distanceService'
+import { RecordedTrack, TrackRecordingService } from '../services/trackRecordingService'
+
+interface RecordedTracksPanelProps {
+  tracks: RecordedTrack[]
+  visibleTrackIds: string[]
+  onToggleVisible: (id: string) => void
+  onRename: (id: string, name: string) => void
+  onExport: (track: RecordedTrack) => void
+  onDelete: (id: string) => void
+}
+
+const iconButtonStyle: React.CSSProperties = {
+  background: 'none',
+  border: 'none',
+  cursor: 'pointer',
+  padding: '2px',
+  display: 'flex',
+  alignItems: 'center'
+}
+
+const iconStyle: React.CSSProperties = {
+  fontFamily: 'Material Symbols Outlined',
+  fontSize: '16px',
+  color: '#64748b'
+}
+
+export function RecordedTracksPanel({
+  tracks,
+  visibleTrackIds,
+  onToggleVisible,
+  onRename,
+  onExport,
+  onDelete
+}: RecordedTracksPanelProps) {
+  if (tracks.length === 0) return null
+
+  return (
+    <div style={{ marginBottom: '16px' }}>
+      <div style={{
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        padding: '0 2px 6px',
+        fontSize: '13px',
+        fontWeight: '500',
+        color: '#334155'
+      }}>
+        <span style={iconStyle}>
+          radio_button_checked
+        </span>
+        Mine opptak
+      </div>
+
+      <ul style={{
+        listStyle: 'none',
+        margin: 0,
+        padding: 0,
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '4px'
+      }}>
+        {tracks.map(track => {
+          const stats = TrackRecordingService.getStats(track)
+          const visible = visibleTrackIds.includes(track.id)
+
+          return (
+            <li
+              key={track.id}
+              style={{
+                padding: '6px 10px',
+                backgroundColor: '#f8fafc',
+                borderRadius: '6px',
+                fontSize: '13px',
+                color: '#334155'
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                <button
+                  onClick={() => onToggleVisible(track.id)}
+                  aria-label={visible ? `Skjul ${track.name}` : `Vis ${track.name} på kartet`}
+                  aria-pressed={visible}
+                  title={visible ? 'Skjul' : 'Vis på kartet'}
+                  style={iconButtonStyle}
+                >
+                  <span style={{ ...iconStyle, color: visible ? '#ea580c' : '#64748b' }}>
+                    {visible ? 'visibility' : 'visibility_off'}
+                  </span>
+                </button>
+                <input
+                  type="text"
+                  value={track.name}
+                  onChange={(e) => onRename(track.id, e.target.value)}
+                  aria-label="Navn på opptak"
+                  style={{
+                    flex: 1,
+                    minWidth: 0,
+                    border: 'none',
+                    background: 'transparent',
+                    fontSize: '13px',
+                    color: '#334155',
+                    padding: '2px 0'
+                  }}
+                />
+                <button
+                  onClick={() => onExport(track)}
+                  aria-label={`Last ned ${track.name} som GPX`}
+                  title="Last ned GPX"
+                  style={iconButtonStyle}
+                >
+                  <span style={iconStyle}>download</span>
+                </button>
+                <button
+                  onClick={() => onDelete(track.id)}
+                  aria-label={`Slett ${track.name}`}
+                  title="Slett"
+                  style={iconButtonStyle}
+                >
+                  <span style={iconStyle}>delete</span>
+                </button>
+              </div>
+              <div style={{ marginTop: '2px', fontSize: '12px', color: '#6b7280' }}>
+                {formatDistance(stats.distance)}
+                {' · '}{TrackRecordingService.formatClock(stats.movingTime)} i bevegelse
+                {' · '}{TrackRecordingService.formatSpeed(stats.averageSpeed)}
+                {stats.ascent > 0 && <>{' · '}↑ {Math.round(stats.ascent)} m</>}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -1,4 +1,5 @@
 import React, { useState } from 'react'
+import { deleteDatabase } from '../services/localDatabase'
 
 export function SlettDataButton() {
   const [showConfirmation, setShowConfirmation] = useState(false)
@@ -16,6 +17,11 @@ export function SlettDataButton() {
         )
       }
 
+      // Clear saved measurements and other IndexedDB data
+      if ('indexedDB' in window) {
+        await deleteDatabase()
+      }
+
       // Clear session storage as well
       sessionStorage.clear()
 
@@ -64,6 +70,9 @@ export function SlettDataButton() {
             <li>Kartvisningsinnstillinger</li>
             <li>Søkehistorikk</li>
             <li>Brukerpreferanser</li>
+            <li>Lagrede avstandsmålinger</li>
+            <li>Innspilte GPS-spor</li>
+            <li>Mellomlagrede interessepunkter</li>
             <li>Cache-data (offline-kart)</li>
           </ul>
           <div style={{
@@ -0,0 +1,175 @@
+import React, { useState } from 'react'
+import { SLOPE_CLASSES, SlopeOverlaySettings, SlopeService } from '../services/slopeService'
+
+interface SlopePanelProps {
+  settings: SlopeOverlaySettings
+  onChange: (settings: SlopeOverlaySettings) => void
+  zoom: number
+}
+
+export function SlopePanel({ settings, onChange, zoom }: SlopePanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const { enabled, opacity } = settings
+
+  return (
+    <div className="slope-panel" style={{ marginBottom: '16px' }}>
+      {/* Toggle Button */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          backgroundColor: isExpanded ? '#f1f5f9' : '#ffffff',
+          border: '1px solid #e2e8f0',
+          borderRadius: '6px',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: '500',
+          color: enabled ? '#3e4533' : '#64748b',
+          transition: 'all 0.2s ease',
+          marginBottom: isExpanded ? '8px' : '0'
+        }}
+        onMouseEnter={(e) => {
+          if (!isExpanded) {
+            e.currentTarget.style.backgroundColor = '#f8fafc'
+            e.currentTarget.style.borderColor = '#cbd5e1'
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (!isExpanded) {
+            e.currentTarget.style.backgroundColor = '#ffffff'
+            e.currentTarget.style.borderColor = '#e2e8f0'
+          }
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '16px',
+            color: enabled ? '#3e4533' : '#64748b'
+          }}>
+            landslide
+          </span>
+          <span style={{
+            fontSize: '14px',
+            fontWeight: '500',
+            color: enabled ? '#3e4533' : '#334155',
+            letterSpacing: '0.2px'
+          }}>
+            Bratthet
+          </span>
+        </div>
+        <span
+          style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '16px',
+            color: '#64748b',
+            transform: isExpanded ? 'rotate(180deg)' : 'rotate(0deg)',
+            transition: 'transform 0.2s ease'
+          }}
+        >
+          keyboard_arrow_down
+        </span>
+      </button>
+
+      {/* Expanded Content */}
+      {isExpanded && (
+        <div style={{
+          backgroundColor: '#ffffff',
+          border: '1px solid #e2e8f0',
+          borderRadius: '6px',
+          padding: '12px',
+          boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)'
+        }}>
+          <button
+            onClick={() => onChange({ ...settings, enabled: !enabled })}
+            aria-pressed={enabled}
+            style={{
+              width: '100%',
+              padding: '10px 12px',
+              backgroundColor: enabled ? '#f0fdf4' : 'transparent',
+              border: enabled ? '1px solid #3e4533' : '1px solid #e5e7eb',
+              borderRadius: '6px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+              textAlign: 'left'
+            }}
+          >
+            <span style={{
+              fontFamily: 'Material Symbols Outlined',
+              fontSize: '20px',
+              color: enabled ? '#dc2626' : '#9ca3af'
+            }}>
+              landslide
+            </span>
+            <div style={{ flex: 1 }}>
+              <div style={{
+                fontSize: '14px',
+                fontWeight: '500',
+                color: enabled ? '#3e4533' : '#374151',
+                marginBottom: '2px'
+              }}>
+                Bratt terreng
+              </div>
+              <div style={{
+                fontSize: '11px',
+                color: '#6b7280',
+                lineHeight: '1.3'
+              }}>
+                {SlopeService.isComputed()
+                  ? 'Helning over 27°, beregnet fra høydedata'
+                  : 'Helning over 27°, fra bratthetskart'}
+              </div>
+            </div>
+          </button>
+
+          {enabled && zoom < SlopeService.MIN_ZOOM && (
+            <div style={{ marginTop: '8px', fontSize: '12px', color: '#64748b' }}>
+              Zoom inn for å se bratthet
+            </div>
+          )}
+
+          <label style={{ display: 'block', marginTop: '12px', fontSize: '12px', color: '#64748b' }}>
+            Dekkevne: {Math.round(opacity * 100)} %
+            <input
+              type="range"
+              min={0.2}
+              max={1}
+              step={0.05}
+              value={opacity}
+              onChange={(e) => onChange({ ...settings, opacity: Number(e.target.value) })}
+              style={{ display: 'block', width: '100%', marginTop: '4px', accentColor: '#3e4533' }}
+            />
+          </label>
+
+          {/* Legend */}
+          <div style={{ display: 'flex', flexDirection: 'column', gap: '4px', marginTop: '12px' }}>
+            {SLOPE_CLASSES.map(slopeClass => (
+              <div key={slopeClass.min} style={{ display: 'flex', alignItems: 'center', gap: '8px', fontSize: '12px', color: '#374151' }}>
+                <span style={{
+                  width: '16px',
+                  height: '12px',
+                  borderRadius: '2px',
+                  backgroundColor: slopeClass.color,
+                  opacity
+                }} />
+                {slopeClass.label}
+              </div>
+            ))}
+          </div>
+
+          <div style={{ marginTop: '12px', fontSize: '11px', color: '#6b7280', lineHeight: '1.4' }}>
+            Skred kan løsne i heng fra 30° og nå langt ut i flatere terreng. Bratthetskartet er
+            ikke et skredvarsel – sjekk varsom.no før turen.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
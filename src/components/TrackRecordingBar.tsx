@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react'
+import { formatDistance } from '../services/distanceService'
+import { RecordedTrack, TrackRecordingService } from '../services/trackRecordingService'
+
+interface TrackRecordingBarProps {
+  track: RecordedTrack
+  bottomOffset: number
+  onPause: () => void
+  onResume: () => void
+  onStop: () => void
+}
+
+const barButtonStyle: React.CSSProperties = {
+  background: 'rgba(255, 255, 255, 0.15)',
+  border: 'none',
+  borderRadius: '4px',
+  padding: '2px',
+  cursor: 'pointer',
+  display: 'flex',
+  alignItems: 'center',
+  color: 'white'
+}
+
+export function TrackRecordingBar({ track, bottomOffset, onPause, onResume, onStop }: TrackRecordingBarProps) {
+  const [now, setNow] = useState(() => Date.now())
+  const recording = track.status === 'recording'
+
+  // Tick the elapsed time while recording
+  useEffect(() => {
+    if (!recording) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [recording])
+
+  const stats = TrackRecordingService.getStats(track, now)
+
+  return (
+    <div
+      role="status"
+      aria-live="off"
+      style={{
+        position: 'absolute',
+        bottom: `${bottomOffset}px`,
+        left: '50%',
+        transform: 'translateX(-50%)',
+        zIndex: 100,
+        backgroundColor: recording ? '#b91c1c' : '#3e4533',
+        color: 'white',
+        padding: '4px 6px',
+        borderRadius: '4px',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.15)',
+        fontSize: '12px',
+        fontWeight: '500',
+        display: 'flex',
+        alignItems: 'center',
+        gap: '8px',
+        animation: 'fadeIn 0.3s ease',
+        fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+        whiteSpace: 'nowrap',
+        fontVariantNumeric: 'tabular-nums'
+      }}
+    >
+      <span style={{
+        fontFamily: 'Material Symbols Outlined',
+        fontSize: '14px'
+      }}>
+        {recording ? 'radio_button_checked' : 'pause_circle'}
+      </span>
+      <span>{TrackRecordingService.formatClock(stats.elapsedTime)}</span>
+      <span>{formatDistance(stats.distance)}</span>
+      <span>{TrackRecordingService.formatSpeed(stats.averageSpeed)}</span>
+      {stats.ascent > 0 && <span>↑ {Math.round(stats.ascent)} m</span>}
+
+      <button
+        onClick={recording ? onPause : onResume}
+        aria-label={recording ? 'Pause opptak' : 'Fortsett opptak'}
+        title={recording ? 'Pause' : 'Fortsett'}
+        style={barButtonStyle}
+      >
+        <span style={{ fontFamily: 'Material Symbols Outlined', fontSize: '16px' }}>
+          {recording ? 'pause' : 'play_arrow'}
+        </span>
+      </button>
+      <button
+        onClick={onStop}
+        aria-label="Stopp og lagre opptak"
+        title="Stopp og lagre"
+        style={barButtonStyle}
+      >
+        <span style={{ fontFamily: 'Material Symbols Outlined', fontSize: '16px' }}>
+          stop
+        </span>
+      </button>
+    </div>
+  )
+}
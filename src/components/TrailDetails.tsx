@@ -1,13 +1,18 @@
 import React, { useState, useEffect } from 'react'
 import type { Trail, ElevationPoint } from '../data/trails'
 import { TurrutebasenService } from '../services/turrutebasenService'
+import { downloadGPX, serializeGPX, toGPXFilename, trailToGPX } from '../services/gpxService'
+import { TravelTimeService, TravelTimeSettings } from '../services/travelTimeService'
+import { TravelTimeSelector } from './TravelTimeSelector'
 
 interface TrailDetailsProps {
   trail: Trail | null
+  travelTime: TravelTimeSettings
+  onTravelTimeChange: (settings: TravelTimeSettings) => void
   onClose: () => void
 }
 
-export function TrailDetails({ trail, onClose }: TrailDetailsProps) {
+export function TrailDetails({ trail, travelTime, onTravelTimeChange, onClose }: TrailDetailsProps) {
   const [elevationProfile, setElevationProfile] = useState<ElevationPoint[]>([])
   const [loadingElevation, setLoadingElevation] = useState(false)
 
@@ -36,6 +41,10 @@ export function TrailDetails({ trail, onClose }: TrailDetailsProps) {
 
   if (!trail) return null
 
+  const handleExportGPX = () => {
+    downloadGPX(serializeGPX(trailToGPX(trail, elevationProfile)), toGPXFilename(trail.properties.name))
+  }
+
   const formatDistance = (meters: number): string => {
     if (meters >= 1000) {
       return `${(meters / 1000).toFixed(1)} km`
@@ -43,15 +52,11 @@ export function TrailDetails({ trail, onClose }: TrailDetailsProps) {
     return `${Math.round(meters)} m`
   }
 
-  const formatDuration = (minutes: number | undefined): string => {
-    if (!minutes) return 'Ukjent varighet'
-    const hours = Math.floor(minutes / 60)
-    const mins = minutes % 60
-    if (hours > 0) {
-      return `${hours}t ${mins}min`
-    }
-    return `${mins}min`
-  }
+  const estimatedTime = TravelTimeService.estimate({
+    distance: trail.properties.distance,
+    elevationProfile,
+    elevationGain: trail.properties.elevationGain
+  }, travelTime)
 
   const getDifficultyColor = (difficulty: string): string => {
     switch (difficulty) {
@@ -201,10 +206,10 @@ export function TrailDetails({ trail, onClose }: TrailDetailsProps) {
             <div style={{ fontSize: '12px', color: '#6b7280' }}>Avstand</div>
           </div>
 
-          {trail.properties.estimatedTime && (
+          {estimatedTime > 0 && (
             <div style={{ textAlign: 'center', padding: '12px', backgroundColor: '#f8fafc', borderRadius: '6px' }}>
               <div style={{ fontSize: '18px', fontWeight: '600', color: '#111827' }}>
-                {formatDuration(trail.properties.estimatedTime)}
+                {loadingElevation ? '...' : TravelTimeService.formatDuration(estimatedTime)}
               </div>
               <div style={{ fontSize: '12px', color: '#6b7280' }}>Estimert tid</div>
             </div>
@@ -220,6 +225,11 @@ export function TrailDetails({ trail, onClose }: TrailDetailsProps) {
           )}
         </div>
 
+        {/* Pace used for the time estimate */}
+        <div style={{ marginBottom: '20px' }}>
+          <TravelTimeSelector settings={travelTime} onChange={onTravelTimeChange} />
+        </div>
+
         {/* Description */}
         {trail.properties.description && (
           <div style={{ marginBottom: '20px' }}>
@@ -365,6 +375,36 @@ export function TrailDetails({ trail, onClose }: TrailDetailsProps) {
             </div>
           </div>
         </div>
+
+        {/* Export */}
+        <button
+          onClick={handleExportGPX}
+          disabled={loadingElevation}
+          style={{
+            width: '100%',
+            padding: '12px',
+            backgroundColor: '#3e4533',
+            color: 'white',
+            border: 'none',
+            borderRadius: '6px',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: '8px',
+            cursor: loadingElevation ? 'wait' : 'pointer',
+            fontSize: '14px',
+            fontWeight: '500',
+            opacity: loadingElevation ? 0.6 : 1
+          }}
+        >
+          <span style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '18px'
+          }}>
+            download
+          </span>
+          Last ned GPX
+        </button>
       </div>
     </div>
   )
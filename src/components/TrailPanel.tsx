@@ -3,10 +3,11 @@ import type { TrailType } from '../data/trails'
 
 interface TrailPanelProps {
   onTrailTypesChange: (activeTypes: TrailType[]) => void
+  defaultExpanded?: boolean // Opened from the "Turer" app shortcut
 }
 
-export function TrailPanel({ onTrailTypesChange }: TrailPanelProps) {
-  const [isExpanded, setIsExpanded] = useState(false)
+export function TrailPanel({ onTrailTypesChange, defaultExpanded = false }: TrailPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded)
   const [_activeTrailTypes, _setActiveTrailTypes] = useState<TrailType[]>([])
 
   const availableTrailTypes: Array<{ type: TrailType; name: string; icon: string; description: string }> = [
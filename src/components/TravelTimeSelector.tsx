@@ -0,0 +1,59 @@
+import React from 'react'
+import {
+  PACE_PROFILES,
+  PaceProfileId,
+  TRAVEL_TIME_METHODS,
+  TravelTimeMethod,
+  TravelTimeSettings
+} from '../services/travelTimeService'
+
+interface TravelTimeSelectorProps {
+  settings: TravelTimeSettings
+  onChange: (settings: TravelTimeSettings) => void
+}
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  minWidth: 0,
+  padding: '4px 6px',
+  border: '1px solid #e2e8f0',
+  borderRadius: '4px',
+  backgroundColor: 'white',
+  fontSize: '12px',
+  color: '#334155'
+}
+
+export function TravelTimeSelector({ settings, onChange }: TravelTimeSelectorProps) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+      <span style={{
+        fontFamily: 'Material Symbols Outlined',
+        fontSize: '16px',
+        color: '#64748b'
+      }}>
+        {PACE_PROFILES[settings.pace].icon}
+      </span>
+      <select
+        value={settings.pace}
+        onChange={(e) => onChange({ ...settings, pace: e.target.value as PaceProfileId })}
+        aria-label="Tempo"
+        style={selectStyle}
+      >
+        {Object.values(PACE_PROFILES).map(profile => (
+          <option key={profile.id} value={profile.id}>{profile.name}</option>
+        ))}
+      </select>
+      <select
+        value={settings.method}
+        onChange={(e) => onChange({ ...settings, method: e.target.value as TravelTimeMethod })}
+        aria-label="Beregningsmetode"
+        title="Naismith: fast tid per høydemeter. Tobler: farten avhenger av brattheten, også nedover."
+        style={selectStyle}
+      >
+        {Object.entries(TRAVEL_TIME_METHODS).map(([method, name]) => (
+          <option key={method} value={method}>{name}</option>
+        ))}
+      </select>
+    </div>
+  )
+}
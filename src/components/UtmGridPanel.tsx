@@ -0,0 +1,80 @@
+import React from 'react'
+import type { CoordinateFormat } from '../services/coordinateService'
+
+interface UtmGridPanelProps {
+  enabled: boolean
+  coordinateFormat: CoordinateFormat
+  onToggle: (enabled: boolean) => void
+}
+
+export function UtmGridPanel({ enabled, coordinateFormat, onToggle }: UtmGridPanelProps) {
+  const labelFormat = coordinateFormat === 'mgrs' ? 'MGRS' : 'UTM'
+
+  return (
+    <div className="utm-grid-panel" style={{ marginBottom: '16px' }}>
+      <button
+        onClick={() => onToggle(!enabled)}
+        aria-pressed={enabled}
+        style={{
+          width: '100%',
+          padding: '10px 12px',
+          backgroundColor: enabled ? '#f0fdf4' : '#ffffff',
+          border: enabled ? '1px solid #3e4533' : '1px solid #e2e8f0',
+          borderRadius: '6px',
+          display: 'flex',
+          alignItems: 'center',
+          gap: '10px',
+          cursor: 'pointer',
+          transition: 'all 0.2s ease',
+          textAlign: 'left'
+        }}
+        onMouseEnter={(e) => {
+          if (!enabled) {
+            e.currentTarget.style.backgroundColor = '#f8fafc'
+            e.currentTarget.style.borderColor = '#cbd5e1'
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (!enabled) {
+            e.currentTarget.style.backgroundColor = '#ffffff'
+            e.currentTarget.style.borderColor = '#e2e8f0'
+          }
+        }}
+      >
+        <span style={{
+          fontFamily: 'Material Symbols Outlined',
+          fontSize: '16px',
+          color: enabled ? '#3e4533' : '#64748b'
+        }}>
+          grid_4x4
+        </span>
+
+        <div style={{ flex: 1 }}>
+          <div style={{
+            fontSize: '14px',
+            fontWeight: '500',
+            color: enabled ? '#3e4533' : '#334155',
+            letterSpacing: '0.2px'
+          }}>
+            UTM/MGRS-rutenett
+          </div>
+          <div style={{
+            fontSize: '11px',
+            color: '#6b7280',
+            lineHeight: '1.3'
+          }}>
+            Ruter på 10 km, 1 km eller 100 m etter zoomnivå, merket i {labelFormat}
+          </div>
+        </div>
+
+        <span style={{
+          fontFamily: 'Material Symbols Outlined',
+          fontSize: '18px',
+          color: enabled ? '#3e4533' : '#cbd5e1'
+        }}>
+          {enabled ? 'toggle_on' : 'toggle_off'}
+        </span>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,270 @@
+import React, { useState } from 'react'
+import type { POI } from '../data/pois'
+import {
+  VIEWSHED_CLASSES,
+  VIEWSHED_OBSERVER_HEIGHT_RANGE,
+  VIEWSHED_RADIUS_RANGE,
+  Viewshed,
+  ViewshedOrigin,
+  ViewshedService,
+  ViewshedSettings
+} from '../services/viewshedService'
+
+export type ViewshedStatus = 'idle' | 'computing' | 'error'
+
+interface ViewshedPanelProps {
+  settings: ViewshedSettings
+  onSettingsChange: (settings: ViewshedSettings) => void
+  origin: ViewshedOrigin | null
+  viewshed: Viewshed | null
+  status: ViewshedStatus
+  isPicking: boolean
+  onPickToggle: (picking: boolean) => void
+  selectedViewpoint: POI | null // Selected Utsiktspunkt or Observasjonstårn POI
+  onViewpointSelect: (poi: POI) => void
+  onClear: () => void
+}
+
+export function ViewshedPanel({
+  settings,
+  onSettingsChange,
+  origin,
+  viewshed,
+  status,
+  isPicking,
+  onPickToggle,
+  selectedViewpoint,
+  onViewpointSelect,
+  onClear
+}: ViewshedPanelProps) {
+  const [isExpanded, setIsExpanded] = useState(false)
+  const active = origin !== null || isPicking
+  const radiusKm = (settings.radius / 1000).toLocaleString('nb-NO', { maximumFractionDigits: 1 })
+
+  return (
+    <div className="viewshed-panel" style={{ marginBottom: '16px' }}>
+      {/* Toggle Button */}
+      <button
+        onClick={() => setIsExpanded(!isExpanded)}
+        style={{
+          width: '100%',
+          padding: '8px 12px',
+          backgroundColor: isExpanded ? '#f1f5f9' : '#ffffff',
+          border: '1px solid #e2e8f0',
+          borderRadius: '6px',
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'space-between',
+          cursor: 'pointer',
+          fontSize: '13px',
+          fontWeight: '500',
+          color: active ? '#3e4533' : '#64748b',
+          transition: 'all 0.2s ease',
+          marginBottom: isExpanded ? '8px' : '0'
+        }}
+        onMouseEnter={(e) => {
+          if (!isExpanded) {
+            e.currentTarget.style.backgroundColor = '#f8fafc'
+            e.currentTarget.style.borderColor = '#cbd5e1'
+          }
+        }}
+        onMouseLeave={(e) => {
+          if (!isExpanded) {
+            e.currentTarget.style.backgroundColor = '#ffffff'
+            e.currentTarget.style.borderColor = '#e2e8f0'
+          }
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <span style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '16px',
+            color: active ? '#3e4533' : '#64748b'
+          }}>
+            visibility
+          </span>
+          <span style={{
+            fontSize: '14px',
+            fontWeight: '500',
+            color: active ? '#3e4533' : '#334155',
+            letterSpacing: '0.2px'
+          }}>
+            Siktanalyse
+          </span>
+        </div>
+        <span
+          style={{
+            fontFamily: 'Material Symbols Outlined',
+            fontSize: '16px',
+            color: '#64748b',
+            transform: isExpanded ? 'rotate(180deg)' : 'rotate(0deg)',
+            transition: 'transform 0.2s ease'
+          }}
+        >
+          keyboard_arrow_down
+        </span>
+      </button>
+
+      {/* Expanded Content */}
+      {isExpanded && (
+        <div style={{
+          backgroundColor: '#ffffff',
+          border: '1px solid #e2e8f0',
+          borderRadius: '6px',
+          padding: '12px',
+          boxShadow: '0 1px 3px rgba(0, 0, 0, 0.1)'
+        }}>
+          <button
+            onClick={() => onPickToggle(!isPicking)}
+            aria-pressed={isPicking}
+            style={{
+              width: '100%',
+              padding: '10px 12px',
+              backgroundColor: isPicking ? '#f0fdf4' : 'transparent',
+              border: isPicking ? '1px solid #3e4533' : '1px solid #e5e7eb',
+              borderRadius: '6px',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              cursor: 'pointer',
+              transition: 'all 0.2s ease',
+              textAlign: 'left'
+            }}
+          >
+            <span style={{
+              fontFamily: 'Material Symbols Outlined',
+              fontSize: '20px',
+              color: isPicking ? '#3e4533' : '#9ca3af'
+            }}>
+              ads_click
+            </span>
+            <div style={{ flex: 1 }}>
+              <div style={{
+                fontSize: '14px',
+                fontWeight: '500',
+                color: isPicking ? '#3e4533' : '#374151',
+                marginBottom: '2px'
+              }}>
+                {isPicking ? 'Klikk i kartet …' : 'Velg punkt i kartet'}
+              </div>
+              <div style={{
+                fontSize: '11px',
+                color: '#6b7280',
+                lineHeight: '1.3'
+              }}>
+                Se hvilket terreng som er synlig herfra
+              </div>
+            </div>
+          </button>
+
+          {selectedViewpoint && (
+            <button
+              onClick={() => onViewpointSelect(selectedViewpoint)}
+              style={{
+                width: '100%',
+                marginTop: '8px',
+                padding: '8px 12px',
+                backgroundColor: 'transparent',
+                border: '1px solid #e5e7eb',
+                borderRadius: '6px',
+                display: 'flex',
+                alignItems: 'center',
+                gap: '10px',
+                cursor: 'pointer',
+                fontSize: '13px',
+                color: '#374151',
+                textAlign: 'left'
+              }}
+            >
+              <span style={{ fontFamily: 'Material Symbols Outlined', fontSize: '18px', color: '#3e4533' }}>
+                landscape
+              </span>
+              Se utsikt fra {selectedViewpoint.name}
+            </button>
+          )}
+
+          <label style={{ display: 'block', marginTop: '12px', fontSize: '12px', color: '#64748b' }}>
+            Øyehøyde: {settings.observerHeight.toLocaleString('nb-NO')} m over bakken
+            <input
+              type="range"
+              min={VIEWSHED_OBSERVER_HEIGHT_RANGE.min}
+              max={VIEWSHED_OBSERVER_HEIGHT_RANGE.max}
+              step={VIEWSHED_OBSERVER_HEIGHT_RANGE.step}
+              value={settings.observerHeight}
+              onChange={(e) => onSettingsChange({ ...settings, observerHeight: Number(e.target.value) })}
+              style={{ display: 'block', width: '100%', marginTop: '4px', accentColor: '#3e4533' }}
+            />
+          </label>
+
+          <label style={{ display: 'block', marginTop: '8px', fontSize: '12px', color: '#64748b' }}>
+            Radius: {radiusKm} km
+            <input
+              type="range"
+              min={VIEWSHED_RADIUS_RANGE.min}
+              max={VIEWSHED_RADIUS_RANGE.max}
+              step={VIEWSHED_RADIUS_RANGE.step}
+              value={settings.radius}
+              onChange={(e) => onSettingsChange({ ...settings, radius: Number(e.target.value) })}
+              style={{ display: 'block', width: '100%', marginTop: '4px', accentColor: '#3e4533' }}
+            />
+          </label>
+
+          {origin && (
+            <div style={{ marginTop: '12px', fontSize: '12px', color: '#374151', lineHeight: '1.4' }}>
+              {status === 'computing' && 'Beregner utsikt …'}
+              {status === 'error' && (
+                <span style={{ color: '#dc2626' }}>Kunne ikke beregne utsikten. Sjekk nettforbindelsen og prøv igjen.</span>
+              )}
+              {status === 'idle' && viewshed && (
+                <>
+                  {origin.name ? `Fra ${origin.name}: ` : ''}
+                  {Math.round(viewshed.visibleShare * 100)} % av terrenget innen {radiusKm} km er synlig.
+                  Bakken ligger {Math.round(viewshed.observerElevation)} moh.
+                </>
+              )}
+            </div>
+          )}
+
+          {/* Legend */}
+          <div style={{ display: 'flex', gap: '12px', marginTop: '12px' }}>
+            {VIEWSHED_CLASSES.map(viewshedClass => (
+              <div key={viewshedClass.value} style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: '#374151' }}>
+                <span style={{
+                  width: '16px',
+                  height: '12px',
+                  borderRadius: '2px',
+                  backgroundColor: viewshedClass.color,
+                  opacity: ViewshedService.OPACITY
+                }} />
+                {viewshedClass.label}
+              </div>
+            ))}
+          </div>
+
+          {origin && (
+            <button
+              onClick={onClear}
+              style={{
+                marginTop: '12px',
+                padding: '6px 10px',
+                backgroundColor: 'transparent',
+                border: '1px solid #e5e7eb',
+                borderRadius: '6px',
+                cursor: 'pointer',
+                fontSize: '12px',
+                color: '#64748b'
+              }}
+            >
+              Fjern siktanalyse
+            </button>
+          )}
+
+          <div style={{ marginTop: '12px', fontSize: '11px', color: '#6b7280', lineHeight: '1.4' }}>
+            Beregnet fra terrengmodellen. Skog og bygninger er ikke med, så utsikten kan være mer
+            begrenset enn vist. For tårn: sett øyehøyden til plattformen.
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
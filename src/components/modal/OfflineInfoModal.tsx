@@ -41,7 +41,7 @@ export const OfflineInfoModal: React.FC<OfflineInfoModalProps> = ({ isOpen, onCl
                 <span className="list-icon">🗺️</span>
                 <div>
                   <strong>Kart</strong>
-                  <span className="list-detail">Tidligere besøkte områder er tilgjengelige</span>
+                  <span className="list-detail">Nedlastede offline-områder og tidligere besøkte områder</span>
                 </div>
               </li>
               <li>
@@ -51,6 +51,13 @@ export const OfflineInfoModal: React.FC<OfflineInfoModalProps> = ({ isOpen, onCl
                   <span className="list-detail">GPS-posisjon virker fortsatt</span>
                 </div>
               </li>
+              <li>
+                <span className="list-icon">📌</span>
+                <div>
+                  <strong>Interessepunkter (POI)</strong>
+                  <span className="list-detail">POI-er som er lastet tidligere i samme område</span>
+                </div>
+              </li>
               <li>
                 <span className="list-icon">📏</span>
                 <div>
@@ -82,13 +89,6 @@ export const OfflineInfoModal: React.FC<OfflineInfoModalProps> = ({ isOpen, onCl
                   <span className="list-detail">Stedssøk og koordinatsøk</span>
                 </div>
               </li>
-              <li>
-                <span className="list-icon">📌</span>
-                <div>
-                  <strong>Interessepunkter (POI)</strong>
-                  <span className="list-detail">Nye POI-er kan ikke lastes</span>
-                </div>
-              </li>
               <li>
                 <span className="list-icon">🥾</span>
                 <div>
@@ -107,7 +107,7 @@ export const OfflineInfoModal: React.FC<OfflineInfoModalProps> = ({ isOpen, onCl
                 <span className="list-icon">🗺️</span>
                 <div>
                   <strong>Nye kartområder</strong>
-                  <span className="list-detail">Kun allerede besøkte områder vises</span>
+                  <span className="list-detail">Kun nedlastede eller allerede besøkte områder vises</span>
                 </div>
               </li>
             </ul>
@@ -121,11 +121,12 @@ export const OfflineInfoModal: React.FC<OfflineInfoModalProps> = ({ isOpen, onCl
             </h3>
             <div className="offline-info-tip-content">
               <p>
-                <strong>Forbered deg:</strong> Besøk områdene du skal utforske mens du har nett.
-                Kartet vil da bli lagret lokalt for offline bruk.
+                <strong>Forbered deg:</strong> Last ned områdene du skal utforske under «Offline-kart»
+                i menyen mens du har nett. Aktive kartlag som turruter og naturskog kan lastes ned sammen med kartet.
               </p>
               <p>
-                <strong>Databruk:</strong> Kartflis lagres i 30 dager, så du kan utforske uten konstant tilkobling.
+                <strong>Databruk:</strong> Nedlastede områder beholdes til du sletter dem. Andre kartfliser
+                lagres i 30 dager, så du kan utforske uten konstant tilkobling.
               </p>
             </div>
           </div>
@@ -0,0 +1,347 @@
+// POI source registry - declares where each category in categoryTree gets its data
+// Adding an OpenStreetMap category is a data entry here, not a new fetcher
+
+import { categoryTree, POI, POIType } from './pois'
+import { krigsminneEnhancementService } from '../services/krigsminneEnhancementService'
+import { CabinService, CabinServiceLevel } from '../services/cabinService'
+import { WaterQualityService } from '../services/waterQualityService'
+
+type OSMTags = Record<string, string>
+
+export interface OverpassPOISource {
+  // Overpass QL tag filters, queried for both nodes and ways, e.g. '["tourism"="viewpoint"]'
+  filters: string[]
+  // Further narrows the elements matched by the filters, for classifications spanning several tags
+  accept?: (tags: OSMTags) => boolean
+  poiType: POIType
+  // Category name, used as fallback name and first sentence of the description
+  label: string
+  // Name for unnamed elements, derived from tags (falls back to label)
+  fallbackName?: (tags: OSMTags) => string | undefined
+  // Extra description sentences derived from tags
+  details?: (tags: OSMTags) => string[]
+  // Optional async enrichment (e.g. historical images)
+  enhance?: (poi: POI) => Promise<POI>
+  limit?: number
+  // Lowest map zoom the category is loaded and shown at (defaults to DEFAULT_MIN_ZOOM)
+  minZoom?: number
+}
+
+// Most categories are dense enough that they are only useful when zoomed in to a valley
+export const DEFAULT_MIN_ZOOM = 9
+
+// Categories fetched from other APIs than Overpass, with their minimum zoom
+const externalPOIMinZoom: Record<string, number> = {
+  tilfluktsrom: 9,
+  bussholdeplass: 10, // Thousands of stops - only when zoomed in
+  togstasjon: 8 // Few stations, useful from further out
+}
+
+export const externalPOICategories = Object.keys(externalPOIMinZoom)
+
+// Translate common OpenStreetMap tag values to Norwegian
+export function translateTagValue(tagValue: string): string {
+  const translations: Record<string, string> = {
+    // Access values
+    'private': 'privat',
+    'no': 'ingen tilgang',
+    'yes': 'offentlig tilgang',
+    'customers': 'kun for kunder',
+    'permit': 'kun med tillatelse',
+    'public': 'offentlig',
+    // Shelter types
+    'basic_hut': 'enkel hytte',
+    'weather_shelter': 'værbeskyttelse',
+    'rock_shelter': 'bergskjul',
+    'lavvu': 'lavvo',
+    // Fuel types (common ones)
+    'wood': 'ved',
+    'charcoal': 'kull',
+    'gas': 'gass',
+    'electric': 'elektrisk',
+    // General
+    'unknown': 'ukjent'
+  }
+
+  return translations[tagValue.toLowerCase()] ?? tagValue
+}
+
+const accessDetail = (tags: OSMTags): string[] =>
+  tags.access ? [`Tilgang: ${translateTagValue(tags.access)}`] : []
+
+// Facilities at bathing places and beaches
+const bathingDetails = (tags: OSMTags): string[] => {
+  const surfaces: Record<string, string> = {
+    'sand': 'Sandstrand',
+    'pebblestone': 'Steinstrand',
+    'gravel': 'Grusstrand',
+    'rock': 'Svaberg',
+    'grass': 'Gressplen'
+  }
+
+  return [
+    ...(tags.surface && surfaces[tags.surface] ? [surfaces[tags.surface]] : []),
+    ...(tags.toilets === 'yes' ? ['Toalett'] : []),
+    ...(tags.shower === 'yes' ? ['Dusj'] : []),
+    ...(tags.lifeguard === 'yes' || tags.supervised === 'yes' ? ['Livredder'] : []),
+    ...(tags.wheelchair === 'yes' ? ['♿ Tilgjengelig for rullestol'] : []),
+    ...(tags.wheelchair === 'limited' ? ['♿ Delvis tilgjengelig for rullestol'] : []),
+    ...(tags.drinking_water === 'yes' ? ['Drikkevann'] : []),
+    ...(tags.dog === 'no' ? ['Hunder ikke tillatt'] : [])
+  ]
+}
+
+const feeDetail = (tags: OSMTags): string[] => {
+  if (tags.fee === 'yes') return ['Avgift påkrevd']
+  if (tags.fee === 'no') return ['Gratis']
+  return []
+}
+
+// Cabins share their tags across categories, so they are split by DNT service level
+const cabinSource = (serviceLevel: CabinServiceLevel, filters: string[], poiType: POIType, label: string): OverpassPOISource => ({
+  filters,
+  accept: tags => CabinService.classifyOSMCabin(tags) === serviceLevel,
+  poiType,
+  label,
+  // Kept high as the query limit applies before the service level split
+  limit: 500,
+  minZoom: 7,
+  details: tags => CabinService.describe(CabinService.fromOSMTags(tags))
+})
+
+export const overpassPOISources: Record<string, OverpassPOISource> = {
+  // Aktivitet
+  bålplass: {
+    filters: ['["leisure"="firepit"]'],
+    poiType: 'fire_places',
+    label: 'Bål-/grillplass',
+    details: tags => [
+      ...(tags.fuel ? [`Brennstoff: ${translateTagValue(tags.fuel)}`] : []),
+      ...accessDetail(tags),
+      ...feeDetail(tags)
+    ]
+  },
+  fiskeplass: {
+    filters: ['["leisure"="fishing"]'],
+    poiType: 'fishing_spots',
+    label: 'Fiskeplass',
+    details: tags => [
+      ...(tags.fishing ? [`Fiske: ${translateTagValue(tags.fishing)}`] : []),
+      ...accessDetail(tags),
+      ...feeDetail(tags)
+    ]
+  },
+  kanopadling: {
+    filters: ['["canoe"="put_in"]', '["leisure"="slipway"]["canoe"="yes"]'],
+    poiType: 'canoeing',
+    label: 'Kanopadling',
+    fallbackName: () => 'Utsettingsplass for kano',
+    details: accessDetail
+  },
+
+  badeplass: {
+    filters: ['["leisure"="bathing_place"][!"beach"]', '["leisure"="bathing_place"]["beach"="no"]'],
+    poiType: 'swimming',
+    label: 'Badeplass',
+    limit: 300,
+    details: tags => [...bathingDetails(tags), ...accessDetail(tags), ...feeDetail(tags)],
+    enhance: poi => WaterQualityService.enhance(poi)
+  },
+  badeplass_med_strand: {
+    filters: ['["natural"="beach"]', '["leisure"="bathing_place"]["beach"="yes"]'],
+    poiType: 'beach',
+    label: 'Badeplass med strand',
+    fallbackName: () => 'Strand',
+    limit: 300,
+    details: tags => [...bathingDetails(tags), ...accessDetail(tags), ...feeDetail(tags)],
+    enhance: poi => WaterQualityService.enhance(poi)
+  },
+
+  // Naturperle
+  foss: {
+    filters: ['["waterway"="waterfall"]', '["natural"="waterfall"]'],
+    poiType: 'nature_gems',
+    label: 'Foss',
+    limit: 500,
+    minZoom: 7,
+    details: tags => [
+      ...(tags.height ? [`Høyde: ${tags.height}m`] : []),
+      ...(tags.intermittent === 'yes' ? ['Sesongavhengig'] : [])
+    ]
+  },
+  utsiktspunkt: {
+    filters: ['["tourism"="viewpoint"]'],
+    poiType: 'viewpoints',
+    label: 'Utsiktspunkt',
+    limit: 500,
+    minZoom: 8,
+    details: tags => [
+      ...(tags.ele ? [`Høyde: ${tags.ele}moh`] : []),
+      ...(tags.direction ? [`Retning: ${tags.direction}°`] : []),
+      ...accessDetail(tags)
+    ]
+  },
+
+  // Overnatte
+  gapahuk_vindskjul: {
+    filters: [
+      '["amenity"="shelter"]["shelter_type"~"^(basic_hut|weather_shelter|rock_shelter|lavvu)$"]',
+      '["amenity"="shelter"][!"shelter_type"]'
+    ],
+    poiType: 'wilderness_shelter',
+    label: 'Gapahuk/vindskjul',
+    details: tags => [
+      ...(tags.shelter_type ? [translateTagValue(tags.shelter_type)] : []),
+      ...(tags.capacity ? [`Kapasitet: ${tags.capacity} personer`] : []),
+      ...accessDetail(tags),
+      ...feeDetail(tags)
+    ]
+  },
+  hytte_turisthytte_betjent: cabinSource('staffed', ['["tourism"="alpine_hut"]'], 'staffed_huts', 'Betjent turisthytte'),
+  hytte_turisthytte_selvbetjent: cabinSource('self_service', ['["tourism"="alpine_hut"]'], 'self_service_huts', 'Selvbetjent turisthytte'),
+  hytte_turisthytte_ubetjent: cabinSource('no_service', ['["tourism"="wilderness_hut"]'], 'self_service_huts', 'Ubetjent turisthytte'),
+  hytte_utleie: cabinSource('rental', ['["tourism"="chalet"]', '["tourism"="alpine_hut"]["rental"="yes"]'], 'staffed_huts', 'Utleiehytte'),
+  teltplass: {
+    filters: ['["tourism"="camp_pitch"]', '["tourism"="camp_site"]["camp_site"="basic"]'],
+    poiType: 'tent_area',
+    label: 'Teltplass',
+    details: tags => [
+      ...(tags.capacity ? [`Plass til ${tags.capacity} telt`] : []),
+      ...(tags.drinking_water === 'yes' ? ['Drikkevann'] : []),
+      ...(tags.toilets === 'yes' ? ['Toalett'] : []),
+      ...feeDetail(tags)
+    ]
+  },
+
+  // På eventyr
+  hule: {
+    filters: ['["natural"="cave_entrance"]'],
+    poiType: 'nature_gems',
+    label: 'Hule',
+    details: tags => {
+      const details: string[] = []
+      if (tags.length) details.push(`Lengde: ${tags.length} m`)
+      if (tags.hazard) details.push(`⚠️ Fare: ${tags.hazard}`)
+      return [...details, ...accessDetail(tags)]
+    }
+  },
+  krigsminne: {
+    filters: [
+      '["historic"="memorial"]["memorial"="war_memorial"]',
+      '["historic"="fort"]',
+      '["military"="bunker"]["bunker_type"]',
+      '["historic"="battlefield"]'
+    ],
+    poiType: 'war_memorials',
+    label: 'Krigsminne',
+    fallbackName: tags => {
+      if (tags.historic === 'fort') return 'Fort'
+      if (tags.historic === 'battlefield') return 'Slagmark'
+      if (tags.memorial === 'war_memorial') return 'Krigsminne'
+      if (tags.military === 'bunker') return 'Bunker'
+      return undefined
+    },
+    details: tags => {
+      const details: string[] = []
+      if (tags.start_date) details.push(`Fra ${tags.start_date}`)
+      if (tags.heritage) details.push('Kulturminneobjekt')
+      return details
+    },
+    enhance: async poi => {
+      try {
+        const enhancedData = await krigsminneEnhancementService.enhancePOI(poi.lat, poi.lng, poi.name)
+        if (Object.keys(enhancedData).length > 0) {
+          return { ...poi, enhancedData }
+        }
+      } catch (enhancementError) {
+        console.warn(`⚠️ Could not enhance ${poi.name}:`, enhancementError)
+      }
+      return poi
+    }
+  },
+  observasjonstårn: {
+    filters: [
+      '["man_made"="tower"]["tower:type"~"^(observation|watchtower)$"]',
+      '["man_made"="tower"]["tourism"="viewpoint"]',
+      '["amenity"="hunting_stand"]'
+    ],
+    poiType: 'viewpoints',
+    label: 'Observasjonstårn',
+    fallbackName: tags => {
+      if (tags.amenity === 'hunting_stand') return 'Jakttårn'
+      if (tags['tower:type'] === 'observation') return 'Observasjonstårn'
+      if (tags['tower:type'] === 'watchtower') return 'Vakttårn'
+      if (tags.tourism === 'viewpoint') return 'Utsiktstårn'
+      return undefined
+    },
+    details: tags => [
+      ...(tags.amenity === 'hunting_stand' ? ['Jakttårn'] : []),
+      ...(tags.height ? [`Høyde: ${tags.height}m`] : []),
+      ...accessDetail(tags)
+    ]
+  },
+
+  // Service
+  drikkevann: {
+    filters: [
+      '["amenity"="drinking_water"]',
+      '["amenity"="water_point"]',
+      '["natural"="spring"]["drinking_water"="yes"]'
+    ],
+    poiType: 'drinking_water',
+    label: 'Drikkevann',
+    fallbackName: tags => tags.natural === 'spring' ? 'Kilde' : undefined,
+    details: tags => [
+      ...(tags.seasonal === 'yes' ? ['Sesongavhengig'] : []),
+      ...(tags.drinking_water === 'conditional' ? ['⚠️ Bør kokes før bruk'] : []),
+      ...accessDetail(tags)
+    ]
+  },
+  toalett: {
+    filters: ['["amenity"="toilets"]'],
+    poiType: 'toilets',
+    label: 'Toalett',
+    details: tags => [
+      ...(tags.wheelchair === 'yes' ? ['♿ Tilgjengelig for rullestol'] : []),
+      ...(tags.changing_table === 'yes' ? ['Stellebord'] : []),
+      ...(tags.opening_hours ? [`Åpningstider: ${tags.opening_hours}`] : []),
+      ...accessDetail(tags),
+      ...feeDetail(tags)
+    ]
+  },
+
+  // Transport
+  taubane: {
+    filters: ['["aerialway"~"^(cable_car|gondola|goods)$"]'],
+    poiType: 'cable_cars',
+    label: 'Taubane',
+    limit: 500,
+    minZoom: 7,
+    details: tags => {
+      const aerialwayTypes: Record<string, string> = {
+        'cable_car': 'Kabelbane',
+        'gondola': 'Gondol',
+        'goods': 'Godsbane'
+      }
+      return [
+        ...(aerialwayTypes[tags.aerialway] ? [aerialwayTypes[tags.aerialway]] : []),
+        ...accessDetail(tags),
+        ...(tags.capacity ? [`Kapasitet: ${tags.capacity}`] : [])
+      ]
+    }
+  }
+}
+
+export function hasPOISource(categoryId: string): boolean {
+  return categoryId in overpassPOISources || externalPOICategories.includes(categoryId)
+}
+
+export function getCategoryMinZoom(categoryId: string): number {
+  return overpassPOISources[categoryId]?.minZoom ?? externalPOIMinZoom[categoryId] ?? DEFAULT_MIN_ZOOM
+}
+
+// Marker colour is the colour of the main category the node belongs to
+export function getCategoryColor(categoryId: string): string | undefined {
+  const parent = categoryTree.find(main => main.children?.some(child => child.id === categoryId))
+  return parent?.color
+}
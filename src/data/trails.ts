@@ -112,6 +112,7 @@ export interface PlannedRoute {
   id: string
   name?: string
   trails: Trail[]                   // Ordered list of connected trails
+  geometry?: GeoJSON.LineString     // Full path walked along the trail network
   waypoints: Array<{
     lat: number
     lng: number
@@ -125,6 +126,7 @@ export interface PlannedRoute {
     estimatedTime: number
     difficulty: TrailDifficulty     // Overall route difficulty
     surface: TrailSurface[]         // All surface types encountered
+    elevationWeighted: boolean      // False when elevation data was missing and only distance counted
   }
   elevationProfile: ElevationPoint[]
   warnings: string[]                // Route-specific warnings
@@ -0,0 +1,189 @@
+import React, { useState } from 'react'
+import type maplibregl from 'maplibre-gl'
+import { Modal } from '../../components/modal/Modal'
+import type { POI } from '../../data/pois'
+import {
+  EXPORT_SCALES,
+  ExportFormat,
+  MapExportService,
+  PaperOrientation,
+  PaperSize
+} from '../../services/mapExportService'
+
+interface UtskriftModalProps {
+  isOpen: boolean
+  onClose: () => void
+  getMap: () => maplibregl.Map | null
+  pois: POI[]
+}
+
+const labelStyle: React.CSSProperties = {
+  display: 'block',
+  fontSize: '13px',
+  fontWeight: '500',
+  color: '#334155',
+  marginBottom: '4px'
+}
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  padding: '8px',
+  border: '1px solid #e2e8f0',
+  borderRadius: '4px',
+  fontSize: '14px',
+  color: '#334155',
+  backgroundColor: '#ffffff',
+  marginBottom: '12px'
+}
+
+export const UtskriftModal: React.FC<UtskriftModalProps> = ({ isOpen, onClose, getMap, pois }) => {
+  const [paperSize, setPaperSize] = useState<PaperSize>('A4')
+  const [orientation, setOrientation] = useState<PaperOrientation>('portrait')
+  const [scale, setScale] = useState(EXPORT_SCALES[0])
+  const [format, setFormat] = useState<ExportFormat>('pdf')
+  const [title, setTitle] = useState('')
+  const [isExporting, setIsExporting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const coverage = MapExportService.getCoverage({ paperSize, orientation, scale })
+
+  const handleExport = async () => {
+    const map = getMap()
+    if (!map) return
+
+    setIsExporting(true)
+    setError(null)
+    try {
+      const options = { paperSize, orientation, scale, format, title }
+      const blob = await MapExportService.export(map, pois, options)
+      MapExportService.download(blob, MapExportService.getFilename(options))
+    } catch (exportError) {
+      console.error('❌ Error exporting map:', exportError)
+      setError('Kunne ikke lage kartet. Sjekk nettforbindelsen og prøv igjen.')
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Skriv ut kart"
+      ariaLabelledBy="utskrift-title"
+    >
+      <p style={{ margin: '0 0 16px', fontSize: '14px', color: '#64748b', lineHeight: 1.5 }}>
+        Kartet lages rundt midten av kartvisningen, nordorientert og i riktig målestokk når
+        det skrives ut i full størrelse (uten tilpassing til siden).
+      </p>
+
+      <label style={labelStyle} htmlFor="utskrift-tittel">Tittel</label>
+      <input
+        id="utskrift-tittel"
+        type="text"
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="F.eks. Tur til Gaustatoppen"
+        disabled={isExporting}
+        style={selectStyle}
+      />
+
+      <div style={{ display: 'flex', gap: '12px' }}>
+        <div style={{ flex: 1 }}>
+          <label style={labelStyle} htmlFor="utskrift-papir">Papir</label>
+          <select
+            id="utskrift-papir"
+            value={paperSize}
+            onChange={(e) => setPaperSize(e.target.value as PaperSize)}
+            disabled={isExporting}
+            style={selectStyle}
+          >
+            <option value="A4">A4</option>
+            <option value="A3">A3</option>
+          </select>
+        </div>
+        <div style={{ flex: 1 }}>
+          <label style={labelStyle} htmlFor="utskrift-retning">Retning</label>
+          <select
+            id="utskrift-retning"
+            value={orientation}
+            onChange={(e) => setOrientation(e.target.value as PaperOrientation)}
+            disabled={isExporting}
+            style={selectStyle}
+          >
+            <option value="portrait">Stående</option>
+            <option value="landscape">Liggende</option>
+          </select>
+        </div>
+      </div>
+
+      <div style={{ display: 'flex', gap: '12px' }}>
+        <div style={{ flex: 1 }}>
+          <label style={labelStyle} htmlFor="utskrift-malestokk">Målestokk</label>
+          <select
+            id="utskrift-malestokk"
+            value={scale}
+            onChange={(e) => setScale(Number(e.target.value))}
+            disabled={isExporting}
+            style={selectStyle}
+          >
+            {EXPORT_SCALES.map(value => (
+              <option key={value} value={value}>{MapExportService.formatScale(value)}</option>
+            ))}
+          </select>
+        </div>
+        <div style={{ flex: 1 }}>
+          <label style={labelStyle} htmlFor="utskrift-format">Format</label>
+          <select
+            id="utskrift-format"
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            disabled={isExporting}
+            style={selectStyle}
+          >
+            <option value="pdf">PDF</option>
+            <option value="png">PNG-bilde</option>
+          </select>
+        </div>
+      </div>
+
+      <p style={{ margin: '0 0 16px', fontSize: '13px', color: '#64748b' }}>
+        Dekker {coverage.width.toLocaleString('nb-NO', { maximumFractionDigits: 1 })} × {coverage.height.toLocaleString('nb-NO', { maximumFractionDigits: 1 })} km
+        med UTM-rutenett, nordpil, målestokk og tegnforklaring.
+      </p>
+
+      {error && (
+        <p role="alert" style={{ margin: '0 0 12px', fontSize: '13px', color: '#dc2626' }}>
+          {error}
+        </p>
+      )}
+
+      <button
+        onClick={() => void handleExport()}
+        disabled={isExporting}
+        style={{
+          width: '100%',
+          padding: '10px 12px',
+          backgroundColor: '#3e4533',
+          color: 'white',
+          border: 'none',
+          borderRadius: '4px',
+          fontSize: '14px',
+          fontWeight: '500',
+          cursor: isExporting ? 'default' : 'pointer',
+          opacity: isExporting ? 0.6 : 1,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          gap: '8px'
+        }}
+      >
+        <span style={{ fontFamily: 'Material Symbols Outlined', fontSize: '18px' }}>
+          {isExporting ? 'hourglass_empty' : 'download'}
+        </span>
+        {isExporting ? 'Lager kart …' : `Last ned ${format.toUpperCase()}`}
+      </button>
+    </Modal>
+  )
+}
@@ -19,6 +19,7 @@ export const HURTIGTASTER: ShortcutItem[] = [
   { action: "Naviger søkeresultater", tokens: ["↑", "↓"] },
   { action: "Velg søkeresultat",      tokens: ["Enter"] },
   { action: "Fullfør søk",            tokens: ["Tab"] },
+  { action: "Angre siste målepunkt",  tokens: ["Ctrl", "Z"] },
   { action: "Panorér kart",           tokens: ["Skyv"],              isGesture: true },
   { action: "Zoom inn/ut",            tokens: ["Rullehjul"],         isGesture: true },
   { action: "Zoom inn/ut (presis)",   tokens: ["Shift + rullehjul"], isGesture: true },
@@ -26,4 +27,6 @@ export const HURTIGTASTER: ShortcutItem[] = [
   { action: "Vipp og roter kart",     tokens: ["Ctrl + skyv"],       isGesture: true },
   { action: "Zoom til punkt",         tokens: ["Dobbeltklikk"],      isGesture: true },
   { action: "Kopier koordinater fra kart", tokens: ["Ctrl + klikk"], isGesture: true },
+  { action: "Flytt målepunkt",        tokens: ["Dra punktet"],       isGesture: true },
+  { action: "Fjern målepunkt",        tokens: ["Dobbeltklikk punktet"], isGesture: true },
 ]
\ No newline at end of file
@@ -0,0 +1,272 @@
+/**
+ * Service for cabin data (DNT and other tourist cabins) for the Overnatte categories
+ *
+ * Cabins come from OpenStreetMap (tourism=alpine_hut/wilderness_hut/chalet, loaded through the
+ * POI source registry) and, when VITE_UT_NO_CABINS_URL is set, from a UT.no-compatible endpoint.
+ * Both are classified by service level the way DNT does: betjent, selvbetjent, ubetjent, utleie.
+ *
+ * UT.no: https://ut.no (Den Norske Turistforening / Nasjonal turbase)
+ */
+
+import { CachedTile, PoiTileCache } from './poiTileCache'
+import type { POI } from '../data/pois'
+
+export type CabinServiceLevel = 'staffed' | 'self_service' | 'no_service' | 'rental'
+
+export interface Cabin {
+  id: string
+  name: string
+  lat: number
+  lng: number
+  serviceLevel: CabinServiceLevel
+  beds?: number
+  requiresDNTKey: boolean
+  operator?: string
+  season?: string
+  url?: string
+}
+
+export interface CabinBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+// Cabin record in the UT.no / Nasjonal turbase format
+interface UtNoCabin {
+  id: number | string
+  name: string
+  serviceLevel?: string | null // e.g. 'staffed', 'SELF_SERVICE', 'no_service_no_beds', 'closed'
+  geometry?: { type: string; coordinates: [number, number] } | null
+  bedsStaffed?: number | null
+  bedsSelfService?: number | null
+  bedsNoService?: number | null
+  bedsWinter?: number | null
+  dntCabin?: boolean | null
+  owner?: { name?: string } | null
+  maintainer?: { name?: string } | null
+  openingPeriods?: { from?: string; to?: string }[] | null
+  url?: string | null
+}
+
+// POI categories in categoryTree for each service level
+export const cabinCategories: Record<CabinServiceLevel, string> = {
+  staffed: 'hytte_turisthytte_betjent',
+  self_service: 'hytte_turisthytte_selvbetjent',
+  no_service: 'hytte_turisthytte_ubetjent',
+  rental: 'hytte_utleie'
+}
+
+const DNT_PATTERN = /\bDNT\b|turistforening|turlag/i
+
+export class CabinService {
+  private static readonly UT_NO_URL = import.meta.env.VITE_UT_NO_CABINS_URL as string | undefined
+  private static readonly DATASET = 'utno:cabins'
+  private static readonly TILE_TTL = 24 * 60 * 60 * 1000 // 24 hours - opening periods change
+  // OSM cabins this close to a UT.no cabin are taken to be the same cabin
+  private static readonly DUPLICATE_DISTANCE = 150 // meters
+
+  static isCabinCategory(categoryId: string): boolean {
+    return Object.values(cabinCategories).includes(categoryId)
+  }
+
+  static isUtNoEnabled(): boolean {
+    return Boolean(this.UT_NO_URL)
+  }
+
+  /**
+   * Classify an OpenStreetMap cabin by DNT service level, or null if it is not a cabin
+   *
+   * OSM has no single service level tag: alpine huts are staffed unless tagged as
+   * self-service or locked, wilderness huts are unstaffed, chalets are for rent.
+   */
+  static classifyOSMCabin(tags: Record<string, string>): CabinServiceLevel | null {
+    if (tags.tourism === 'chalet' || tags.rental === 'yes') return 'rental'
+    if (tags.tourism === 'wilderness_hut') return 'no_service'
+    if (tags.tourism !== 'alpine_hut') return null
+
+    if (tags.self_service === 'yes') return 'self_service'
+    if (tags.staffed === 'yes' || tags.catering === 'yes') return 'staffed'
+    if (tags.lock === 'yes' || tags.locked === 'yes') return 'self_service'
+    return 'staffed'
+  }
+
+  static fromOSMTags(tags: Record<string, string>): Omit<Cabin, 'id' | 'name' | 'lat' | 'lng' | 'serviceLevel'> {
+    const beds = parseInt(tags.beds ?? tags.capacity ?? '', 10)
+    const operator = tags.operator ?? tags.owner
+    const isLocked = tags.lock === 'yes' || tags.locked === 'yes'
+
+    return {
+      beds: isNaN(beds) ? undefined : beds,
+      requiresDNTKey: DNT_PATTERN.test(tags.key ?? '') || (isLocked && DNT_PATTERN.test(operator ?? '')),
+      operator,
+      season: tags.opening_hours ?? this.translateSeason(tags.seasonal),
+      url: tags.website
+    }
+  }
+
+  /**
+   * Description sentences for a cabin: beds, key, operator and season
+   */
+  static describe(cabin: Omit<Cabin, 'id' | 'name' | 'lat' | 'lng' | 'serviceLevel'>): string[] {
+    return [
+      ...(cabin.beds ? [`${cabin.beds} sengeplasser`] : []),
+      ...(cabin.requiresDNTKey ? ['Krever DNT-nøkkel'] : []),
+      ...(cabin.operator ? [`Drives av ${cabin.operator}`] : []),
+      ...(cabin.season ? [`Sesong: ${cabin.season}`] : [])
+    ]
+  }
+
+  /**
+   * Fetch cabins from the UT.no-compatible endpoint, tile cached like the other POI sources
+   * Returns null when the endpoint is not configured or could not be reached
+   */
+  static async fetchUtNoCabins(bounds: CabinBounds, signal?: AbortSignal): Promise<Cabin[] | null> {
+    if (!this.UT_NO_URL) return null
+
+    const tileKeys = PoiTileCache.getTileKeys(bounds)
+    const cachedTiles = tileKeys ? await PoiTileCache.read<Cabin>(this.DATASET, tileKeys) : new Map<string, CachedTile<Cabin>>()
+
+    const now = Date.now()
+    const missingTiles = tileKeys?.filter(tileKey => {
+      const tile = cachedTiles.get(tileKey)
+      return !tile || now - tile.fetched > this.TILE_TTL
+    }) ?? []
+
+    const cabins = new Map<string, Cabin>()
+    let refreshedTiles: string[] = []
+
+    if (!tileKeys || missingTiles.length > 0) {
+      const fetchBounds = tileKeys ? PoiTileCache.getEnclosingBounds(missingTiles) : bounds
+      const fetched = await this.requestCabins(fetchBounds, signal)
+
+      if (fetched) {
+        fetched.forEach(cabin => cabins.set(cabin.id, cabin))
+        if (tileKeys) {
+          refreshedTiles = missingTiles
+          void PoiTileCache.write(this.DATASET, missingTiles, fetched)
+        }
+      } else if (cachedTiles.size === 0) {
+        return null
+      }
+    }
+
+    // Stale tiles are used as a fallback when the refresh failed
+    cachedTiles.forEach((tile, tileKey) => {
+      if (!refreshedTiles.includes(tileKey)) {
+        tile.items.forEach(cabin => cabins.set(cabin.id, cabin))
+      }
+    })
+
+    return Array.from(cabins.values()).filter(cabin =>
+      cabin.lat <= bounds.north && cabin.lat >= bounds.south &&
+      cabin.lng <= bounds.east && cabin.lng >= bounds.west
+    )
+  }
+
+  /**
+   * Leave out OSM cabins that UT.no also has - UT.no is maintained by the cabin operators
+   */
+  static withoutUtNoDuplicates(osmPOIs: POI[], utNoCabins: Cabin[]): POI[] {
+    return osmPOIs.filter(poi => !utNoCabins.some(cabin =>
+      this.distanceMeters(poi.lat, poi.lng, cabin.lat, cabin.lng) < this.DUPLICATE_DISTANCE
+    ))
+  }
+
+  private static async requestCabins(bounds: CabinBounds, signal?: AbortSignal): Promise<Cabin[] | null> {
+    try {
+      const url = new URL(this.UT_NO_URL ?? '', window.location.href)
+      url.searchParams.set('bbox', [bounds.west, bounds.south, bounds.east, bounds.north].join(','))
+
+      const response = await fetch(url.toString(), {
+        headers: { 'Accept': 'application/json' },
+        signal
+      })
+
+      if (!response.ok) {
+        throw new Error(`UT.no API error: ${response.status} ${response.statusText}`)
+      }
+
+      const data = await response.json() as UtNoCabin[] | { cabins?: UtNoCabin[] }
+      const records = Array.isArray(data) ? data : data.cabins ?? []
+
+      return records
+        .map(record => this.fromUtNo(record))
+        .filter((cabin): cabin is Cabin => cabin !== null)
+    } catch (error) {
+      if (signal?.aborted) throw error
+
+      console.error('❌ Error fetching cabins from UT.no:', error)
+      return null
+    }
+  }
+
+  private static fromUtNo(record: UtNoCabin): Cabin | null {
+    const coordinates = record.geometry?.coordinates
+    const serviceLevel = this.translateServiceLevel(record.serviceLevel)
+    if (!coordinates || !serviceLevel) return null
+
+    const beds = [record.bedsStaffed, record.bedsSelfService, record.bedsNoService]
+      .reduce<number>((max, count) => Math.max(max, count ?? 0), 0)
+    const periods = (record.openingPeriods ?? [])
+      .filter(period => period.from && period.to)
+      .map(period => `${this.formatDate(period.from ?? '')}–${this.formatDate(period.to ?? '')}`)
+
+    return {
+      id: `utno_${record.id}`,
+      name: record.name,
+      lat: coordinates[1],
+      lng: coordinates[0],
+      serviceLevel,
+      beds: beds || undefined,
+      // DNT cabins without staff are locked with the standard DNT key
+      requiresDNTKey: Boolean(record.dntCabin) && (serviceLevel === 'self_service' || serviceLevel === 'no_service'),
+      operator: record.maintainer?.name ?? record.owner?.name,
+      season: periods.length > 0 ? periods.join(', ') : undefined,
+      url: record.url ?? undefined
+    }
+  }
+
+  private static translateServiceLevel(level: string | null | undefined): CabinServiceLevel | null {
+    switch (level?.toLowerCase()) {
+      case 'staffed':
+      case 'food_service':
+        return 'staffed'
+      case 'self_service':
+        return 'self_service'
+      case 'no_service':
+      case 'no_service_no_beds':
+      case 'emergency_shelter':
+        return 'no_service'
+      case 'rental':
+        return 'rental'
+      default:
+        // Closed or unknown cabins are not shown
+        return null
+    }
+  }
+
+  private static translateSeason(seasonal: string | undefined): string | undefined {
+    const seasons: Record<string, string> = {
+      'summer': 'sommer',
+      'winter': 'vinter',
+      'no': 'hele året',
+      'yes': 'sesongåpen'
+    }
+    return seasonal ? seasons[seasonal] ?? seasonal : undefined
+  }
+
+  private static formatDate(isoDate: string): string {
+    const date = new Date(isoDate)
+    return isNaN(date.getTime())
+      ? isoDate
+      : date.toLocaleDateString('nb-NO', { day: 'numeric', month: 'short' })
+  }
+
+  private static distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = (lat2 - lat1) * 111320
+    const dLng = (lng2 - lng1) * 111320 * Math.cos(lat1 * Math.PI / 180)
+    return Math.hypot(dLat, dLng)
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Compass service - device heading from DeviceOrientation events
+ *
+ * Chrome on Android fires deviceorientationabsolute (alpha counter-clockwise from north).
+ * Safari on iOS fires deviceorientation with webkitCompassHeading, and only after
+ * permission has been requested from a user gesture.
+ */
+
+interface CompassOrientationEvent extends DeviceOrientationEvent {
+  webkitCompassHeading?: number
+}
+
+type OrientationEventWithPermission = typeof DeviceOrientationEvent & {
+  requestPermission?: () => Promise<'granted' | 'denied'>
+}
+
+export class CompassService {
+  // Smaller changes are sensor noise and not worth a re-render
+  private static readonly MIN_CHANGE = 3
+
+  static isSupported(): boolean {
+    return 'DeviceOrientationEvent' in window
+  }
+
+  /**
+   * Ask for sensor access where the browser requires it (iOS). Must be called from a user gesture.
+   */
+  static async requestPermission(): Promise<boolean> {
+    if (!this.isSupported()) return false
+
+    const requestPermission = (DeviceOrientationEvent as OrientationEventWithPermission).requestPermission
+    if (!requestPermission) return true
+
+    try {
+      return (await requestPermission()) === 'granted'
+    } catch (error) {
+      console.error('❌ Compass permission request failed:', error)
+      return false
+    }
+  }
+
+  /**
+   * Report the heading in degrees clockwise from north. Returns an unsubscribe function.
+   */
+  static watchHeading(onHeading: (heading: number) => void): () => void {
+    if (!this.isSupported()) return () => {}
+
+    let lastHeading: number | null = null
+
+    const handleOrientation = (event: Event) => {
+      const orientation = event as CompassOrientationEvent
+      let heading: number
+
+      if (orientation.webkitCompassHeading !== undefined) {
+        heading = orientation.webkitCompassHeading
+      } else if (orientation.absolute && orientation.alpha !== null) {
+        heading = 360 - orientation.alpha
+      } else {
+        return
+      }
+
+      // The sensor reports relative to the device; correct for landscape screens
+      // (screen.orientation is missing in older Safari)
+      heading = (heading + (window.screen.orientation?.angle ?? 0) + 360) % 360
+
+      if (lastHeading !== null) {
+        const change = Math.abs(((heading - lastHeading + 540) % 360) - 180)
+        if (change < this.MIN_CHANGE) return
+      }
+
+      lastHeading = heading
+      onHeading(Math.round(heading))
+    }
+
+    const eventName = 'ondeviceorientationabsolute' in window ? 'deviceorientationabsolute' : 'deviceorientation'
+    window.addEventListener(eventName, handleOrientation)
+    return () => window.removeEventListener(eventName, handleOrientation)
+  }
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { getUTMZone, latLngToMGRS, latLngToUTM, mgrsToLatLng } from './coordinateService'
+import { parseCoordinates } from './searchService'
+
+// Oslo rådhus
+const OSLO = { lat: 59.9139, lng: 10.7522 }
+
+describe('latLngToUTM', () => {
+  it('puts the central meridian at the false easting', () => {
+    const utm = latLngToUTM(60, 9)
+    expect(utm.zone).toBe(32)
+    expect(utm.band).toBe('V')
+    expect(utm.easting).toBeCloseTo(500000, 3)
+    expect(utm.northing).toBeCloseTo(6651411.19, 1)
+  })
+
+  it('uses the Norwegian and Svalbard zone exceptions', () => {
+    expect(getUTMZone(60, 5)).toBe(32)
+    expect(getUTMZone(78, 15)).toBe(33)
+  })
+})
+
+describe('latLngToMGRS', () => {
+  it('formats a reference with 1 m precision', () => {
+    expect(latLngToMGRS(60, 9)).toBe('32VNM 00000 51411')
+    expect(latLngToMGRS(OSLO.lat, OSLO.lng)).toBe('32VNM 97979 43118')
+  })
+
+  it('truncates to the requested precision', () => {
+    expect(latLngToMGRS(OSLO.lat, OSLO.lng, 3)).toBe('32VNM 979 431')
+  })
+
+  it('round-trips through mgrsToLatLng to within a square', () => {
+    const position = mgrsToLatLng(32, 'V', 'N', 'M', '97979', '43118')
+    expect(position?.lat).toBeCloseTo(OSLO.lat, 4)
+    expect(position?.lng).toBeCloseTo(OSLO.lng, 4)
+  })
+
+  it('rejects invalid letters', () => {
+    expect(mgrsToLatLng(32, 'V', 'I', 'M', '979', '431')).toBeNull()
+  })
+})
+
+describe('parseCoordinates', () => {
+  it.each([
+    ['59.9139°N, 10.7522°E', 'decimal'],
+    ['59.9139, 10.7522', 'decimal'],
+    ['59.9139 10.7522', 'decimal'],
+    ['N59.9139 E10.7522', 'decimal'],
+    ["59°54.834'N 10°45.132'E", 'ddm'],
+    ['59°54\'50.0"N 10°45\'07.9"E', 'dms'],
+    ['32VNM 97979 43118', 'mgrs'],
+    ['32VNM9797943118', 'mgrs'],
+    ['32V 597980 6643119', 'utm'],
+    ['UTM 32N 597980E 6643119N', 'utm']
+  ])('parses %s', (input, format) => {
+    const result = parseCoordinates(input)
+    expect(result?.format).toBe(format)
+    expect(result?.lat).toBeCloseTo(OSLO.lat, 3)
+    expect(result?.lng).toBeCloseTo(OSLO.lng, 3)
+  })
+
+  it('ignores positions outside Norway', () => {
+    expect(parseCoordinates('40.7128, -74.0060')).toBeNull()
+  })
+
+  it('ignores text', () => {
+    expect(parseCoordinates('Galdhøpiggen')).toBeNull()
+  })
+})
@@ -0,0 +1,300 @@
+/**
+ * Coordinate formatting and conversion
+ * Decimal degrees, degrees/minutes/seconds, degrees/decimal minutes, UTM and MGRS.
+ *
+ * UTM uses the WGS84 ellipsoid. EUREF89, which Kartverket and Norwegian paper maps use,
+ * differs from WGS84 by well under a metre, so the two are treated as the same.
+ */
+
+export type CoordinateFormat = 'dd' | 'dms' | 'ddm' | 'utm' | 'mgrs'
+
+export const COORDINATE_FORMATS: Record<CoordinateFormat, string> = {
+  dd: 'DD',
+  dms: 'DMS',
+  ddm: 'DDM',
+  utm: 'UTM',
+  mgrs: 'MGRS'
+}
+
+export interface UTMCoordinate {
+  zone: number
+  band: string        // Latitude band letter (C–X)
+  hemisphere: 'N' | 'S'
+  easting: number
+  northing: number
+}
+
+const FORMAT_STORAGE_KEY = 'trakke_coordinate_format'
+
+// WGS84 ellipsoid and UTM constants
+const SEMI_MAJOR_AXIS = 6378137
+const FLATTENING = 1 / 298.257223563
+const SCALE_FACTOR = 0.9996
+const FALSE_EASTING = 500000
+const FALSE_NORTHING_SOUTH = 10000000
+const ECC_SQUARED = FLATTENING * (2 - FLATTENING)
+const ECC_PRIME_SQUARED = ECC_SQUARED / (1 - ECC_SQUARED)
+
+const BAND_LETTERS = 'CDEFGHJKLMNPQRSTUVWX'
+const MGRS_COLUMN_SETS = ['ABCDEFGH', 'JKLMNPQR', 'STUVWXYZ']
+const MGRS_ROW_LETTERS = 'ABCDEFGHJKLMNPQRSTUV'
+
+/**
+ * UTM zone for a position, including the Norway (32V) and Svalbard (31X–37X) exceptions
+ */
+export function getUTMZone(lat: number, lng: number): number {
+  if (lat >= 56 && lat < 64 && lng >= 3 && lng < 12) return 32
+
+  if (lat >= 72 && lat < 84) {
+    if (lng >= 0 && lng < 9) return 31
+    if (lng >= 9 && lng < 21) return 33
+    if (lng >= 21 && lng < 33) return 35
+    if (lng >= 33 && lng < 42) return 37
+  }
+
+  return Math.min(60, Math.floor((lng + 180) / 6) + 1)
+}
+
+export function getLatitudeBand(lat: number): string {
+  if (lat >= 72) return 'X' // X spans 72–84°
+  return BAND_LETTERS[Math.max(0, Math.floor((lat + 80) / 8))]
+}
+
+/**
+ * Convert latitude/longitude to UTM, in the position's own zone unless one is given
+ */
+export function latLngToUTM(lat: number, lng: number, zone: number = getUTMZone(lat, lng)): UTMCoordinate {
+  const phi = toRadians(lat)
+  const lambda = toRadians(lng)
+  const lambda0 = toRadians((zone - 1) * 6 - 180 + 3)
+
+  const sinPhi = Math.sin(phi)
+  const cosPhi = Math.cos(phi)
+  const tanPhi = Math.tan(phi)
+
+  const n = SEMI_MAJOR_AXIS / Math.sqrt(1 - ECC_SQUARED * sinPhi * sinPhi)
+  const t = tanPhi * tanPhi
+  const c = ECC_PRIME_SQUARED * cosPhi * cosPhi
+  const a = cosPhi * (lambda - lambda0)
+  const m = meridianArc(phi)
+
+  const easting = SCALE_FACTOR * n * (
+    a +
+    (1 - t + c) * Math.pow(a, 3) / 6 +
+    (5 - 18 * t + t * t + 72 * c - 58 * ECC_PRIME_SQUARED) * Math.pow(a, 5) / 120
+  ) + FALSE_EASTING
+
+  let northing = SCALE_FACTOR * (
+    m + n * tanPhi * (
+      a * a / 2 +
+      (5 - t + 9 * c + 4 * c * c) * Math.pow(a, 4) / 24 +
+      (61 - 58 * t + t * t + 600 * c - 330 * ECC_PRIME_SQUARED) * Math.pow(a, 6) / 720
+    )
+  )
+
+  if (lat < 0) northing += FALSE_NORTHING_SOUTH
+
+  return {
+    zone,
+    band: getLatitudeBand(lat),
+    hemisphere: lat < 0 ? 'S' : 'N',
+    easting,
+    northing
+  }
+}
+
+/**
+ * Convert UTM to latitude/longitude
+ */
+export function utmToLatLng(zone: number, hemisphere: 'N' | 'S', easting: number, northing: number): { lat: number; lng: number } {
+  const x = easting - FALSE_EASTING
+  const y = hemisphere === 'S' ? northing - FALSE_NORTHING_SOUTH : northing
+
+  const e1 = (1 - Math.sqrt(1 - ECC_SQUARED)) / (1 + Math.sqrt(1 - ECC_SQUARED))
+  const m = y / SCALE_FACTOR
+  const mu = m / (SEMI_MAJOR_AXIS * (1 - ECC_SQUARED / 4 - 3 * ECC_SQUARED * ECC_SQUARED / 64 - 5 * Math.pow(ECC_SQUARED, 3) / 256))
+
+  // Footpoint latitude
+  const phi1 = mu +
+    (3 * e1 / 2 - 27 * Math.pow(e1, 3) / 32) * Math.sin(2 * mu) +
+    (21 * e1 * e1 / 16 - 55 * Math.pow(e1, 4) / 32) * Math.sin(4 * mu) +
+    (151 * Math.pow(e1, 3) / 96) * Math.sin(6 * mu) +
+    (1097 * Math.pow(e1, 4) / 512) * Math.sin(8 * mu)
+
+  const sinPhi1 = Math.sin(phi1)
+  const cosPhi1 = Math.cos(phi1)
+  const tanPhi1 = Math.tan(phi1)
+
+  const n1 = SEMI_MAJOR_AXIS / Math.sqrt(1 - ECC_SQUARED * sinPhi1 * sinPhi1)
+  const t1 = tanPhi1 * tanPhi1
+  const c1 = ECC_PRIME_SQUARED * cosPhi1 * cosPhi1
+  const r1 = SEMI_MAJOR_AXIS * (1 - ECC_SQUARED) / Math.pow(1 - ECC_SQUARED * sinPhi1 * sinPhi1, 1.5)
+  const d = x / (n1 * SCALE_FACTOR)
+
+  const lat = phi1 - (n1 * tanPhi1 / r1) * (
+    d * d / 2 -
+    (5 + 3 * t1 + 10 * c1 - 4 * c1 * c1 - 9 * ECC_PRIME_SQUARED) * Math.pow(d, 4) / 24 +
+    (61 + 90 * t1 + 298 * c1 + 45 * t1 * t1 - 252 * ECC_PRIME_SQUARED - 3 * c1 * c1) * Math.pow(d, 6) / 720
+  )
+
+  const lng = toRadians((zone - 1) * 6 - 180 + 3) + (
+    d -
+    (1 + 2 * t1 + c1) * Math.pow(d, 3) / 6 +
+    (5 - 2 * c1 + 28 * t1 - 3 * c1 * c1 + 8 * ECC_PRIME_SQUARED + 24 * t1 * t1) * Math.pow(d, 5) / 120
+  ) / cosPhi1
+
+  return { lat: toDegrees(lat), lng: toDegrees(lng) }
+}
+
+/**
+ * Convert latitude/longitude to an MGRS reference, e.g. "32VNM 97500 43000"
+ * precision is digits per axis: 5 = 1 m, 4 = 10 m, 3 = 100 m
+ */
+export function latLngToMGRS(lat: number, lng: number, precision: number = 5): string {
+  const utm = latLngToUTM(lat, lng)
+  const set = (utm.zone - 1) % 3
+  const column = MGRS_COLUMN_SETS[set][Math.floor(utm.easting / 100000) - 1]
+  // Even zones shift the row letters by five
+  const rowOffset = utm.zone % 2 === 0 ? 5 : 0
+  const row = MGRS_ROW_LETTERS[(Math.floor(utm.northing / 100000) + rowOffset) % 20]
+
+  const divisor = Math.pow(10, 5 - precision)
+  const easting = Math.floor((utm.easting % 100000) / divisor).toString().padStart(precision, '0')
+  const northing = Math.floor((utm.northing % 100000) / divisor).toString().padStart(precision, '0')
+
+  return `${utm.zone}${utm.band}${column}${row} ${easting} ${northing}`
+}
+
+/**
+ * Convert an MGRS reference to latitude/longitude (the south-west corner of the referenced square)
+ */
+export function mgrsToLatLng(
+  zone: number,
+  band: string,
+  column: string,
+  row: string,
+  easting: string,
+  northing: string
+): { lat: number; lng: number } | null {
+  const bandIndex = BAND_LETTERS.indexOf(band.toUpperCase())
+  const columnIndex = MGRS_COLUMN_SETS[(zone - 1) % 3].indexOf(column.toUpperCase())
+  const rowIndex = MGRS_ROW_LETTERS.indexOf(row.toUpperCase())
+
+  if (zone < 1 || zone > 60 || bandIndex < 0 || columnIndex < 0 || rowIndex < 0) return null
+  if (easting.length !== northing.length || easting.length > 5) return null
+
+  const scale = Math.pow(10, 5 - easting.length)
+  const utmEasting = (columnIndex + 1) * 100000 + (easting ? parseInt(easting, 10) * scale : 0)
+
+  const rowOffset = zone % 2 === 0 ? 5 : 0
+  let utmNorthing = ((rowIndex - rowOffset + 20) % 20) * 100000 + (northing ? parseInt(northing, 10) * scale : 0)
+
+  // Row letters repeat every 2000 km; pick the cycle that falls inside the latitude band
+  const hemisphere = bandIndex >= BAND_LETTERS.indexOf('N') ? 'N' : 'S'
+  const bandSouth = -80 + bandIndex * 8
+  const minNorthing = latLngToUTM(bandSouth, (zone - 1) * 6 - 180 + 3, zone).northing
+  while (utmNorthing < minNorthing - 1) {
+    utmNorthing += 2000000
+  }
+
+  return utmToLatLng(zone, hemisphere, utmEasting, utmNorthing)
+}
+
+/**
+ * Format a position in the given format
+ */
+export function formatCoordinates(lat: number, lng: number, format: CoordinateFormat): string {
+  const latDir = lat >= 0 ? 'N' : 'S'
+  const lngDir = lng >= 0 ? 'E' : 'W'
+  const absLat = Math.abs(lat)
+  const absLng = Math.abs(lng)
+
+  switch (format) {
+    case 'dd':
+      return `${absLat.toFixed(5)}°${latDir}, ${absLng.toFixed(5)}°${lngDir}`
+    case 'dms':
+      return `${formatDMS(absLat)}${latDir} ${formatDMS(absLng)}${lngDir}`
+    case 'ddm':
+      return `${formatDDM(absLat)}${latDir} ${formatDDM(absLng)}${lngDir}`
+    case 'utm': {
+      const utm = latLngToUTM(lat, lng)
+      return `${utm.zone}${utm.band} ${Math.round(utm.easting)} ${Math.round(utm.northing)}`
+    }
+    case 'mgrs':
+      return latLngToMGRS(lat, lng)
+  }
+}
+
+/**
+ * The format chosen in the coordinate display (decimal degrees by default)
+ */
+export function getSavedCoordinateFormat(): CoordinateFormat {
+  try {
+    const saved = localStorage.getItem(FORMAT_STORAGE_KEY)
+    return saved && saved in COORDINATE_FORMATS ? saved as CoordinateFormat : 'dd'
+  } catch {
+    return 'dd'
+  }
+}
+
+export function saveCoordinateFormat(format: CoordinateFormat): void {
+  try {
+    localStorage.setItem(FORMAT_STORAGE_KEY, format)
+  } catch (error) {
+    console.error('❌ Error saving coordinate format:', error)
+  }
+}
+
+// Private helpers
+
+function formatDMS(value: number): string {
+  let degrees = Math.floor(value)
+  let minutes = Math.floor((value - degrees) * 60)
+  let seconds = Math.round(((value - degrees) * 60 - minutes) * 600) / 10
+
+  // Carry rounding up, e.g. 59.9999'' → 1'
+  if (seconds >= 60) {
+    seconds = 0
+    minutes += 1
+  }
+  if (minutes >= 60) {
+    minutes = 0
+    degrees += 1
+  }
+
+  return `${degrees}°${minutes.toString().padStart(2, '0')}'${seconds.toFixed(1).padStart(4, '0')}"`
+}
+
+function formatDDM(value: number): string {
+  let degrees = Math.floor(value)
+  let minutes = Math.round((value - degrees) * 60 * 1000) / 1000
+
+  if (minutes >= 60) {
+    minutes = 0
+    degrees += 1
+  }
+
+  return `${degrees}°${minutes.toFixed(3).padStart(6, '0')}'`
+}
+
+// Distance along the meridian from the equator to latitude phi
+function meridianArc(phi: number): number {
+  const e2 = ECC_SQUARED
+  const e4 = e2 * e2
+  const e6 = e4 * e2
+
+  return SEMI_MAJOR_AXIS * (
+    (1 - e2 / 4 - 3 * e4 / 64 - 5 * e6 / 256) * phi -
+    (3 * e2 / 8 + 3 * e4 / 32 + 45 * e6 / 1024) * Math.sin(2 * phi) +
+    (15 * e4 / 256 + 45 * e6 / 1024) * Math.sin(4 * phi) -
+    (35 * e6 / 3072) * Math.sin(6 * phi)
+  )
+}
+
+function toRadians(degrees: number): number {
+  return degrees * Math.PI / 180
+}
+
+function toDegrees(radians: number): number {
+  return radians * 180 / Math.PI
+}
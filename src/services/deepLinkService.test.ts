@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { formatMapLinkHash, getLinkAction, MapLink, parseMapLink } from './deepLinkService'
+
+const url = (hash: string) => new URL(`https://example.com/trakke-react/${hash}`)
+
+describe('parseMapLink', () => {
+  it('reads the view, map type, categories and POI', () => {
+    expect(parseMapLink(url('#map=12.50/61.63640/8.31250/45/30&type=satellite&cat=foss,b%C3%A5lplass&poi=osm_node_1'))).toEqual({
+      view: { lat: 61.6364, lng: 8.3125, zoom: 12.5, bearing: 45, pitch: 30 },
+      mapType: 'satellite',
+      categories: ['foss', 'bålplass'],
+      poiId: 'osm_node_1'
+    })
+  })
+
+  it('defaults bearing and pitch to zero', () => {
+    expect(parseMapLink(url('#map=10.00/60.00/9.00')).view).toEqual({ lat: 60, lng: 9, zoom: 10, bearing: 0, pitch: 0 })
+  })
+
+  it('clamps zoom and pitch and wraps the bearing', () => {
+    expect(parseMapLink(url('#map=25/60/9/270/80')).view).toEqual({ lat: 60, lng: 9, zoom: 18, bearing: -90, pitch: 60 })
+  })
+
+  it('ignores invalid values', () => {
+    expect(parseMapLink(url('#map=10/95/9&type=hybrid'))).toEqual({})
+    expect(parseMapLink(url('#map=abc'))).toEqual({})
+    expect(parseMapLink(url(''))).toEqual({})
+  })
+})
+
+describe('formatMapLinkHash', () => {
+  it('rounds the position to the zoom', () => {
+    expect(formatMapLinkHash({ view: { lat: 61.636412, lng: 8.312534, zoom: 6, bearing: 0, pitch: 0 } }))
+      .toBe('#map=6.00/61.64/8.31')
+    expect(formatMapLinkHash({ view: { lat: 61.636412, lng: 8.312534, zoom: 15, bearing: 0, pitch: 0 } }))
+      .toBe('#map=15.00/61.63641/8.31253')
+  })
+
+  it('adds bearing and pitch only when the map is rotated or tilted', () => {
+    expect(formatMapLinkHash({ view: { lat: 60, lng: 9, zoom: 9, bearing: 44.6, pitch: 0 } }))
+      .toBe('#map=9.00/60.000/9.000/45/0')
+  })
+
+  it('leaves out the default map type and empty state', () => {
+    expect(formatMapLinkHash({ mapType: 'topo', categories: [] })).toBe('')
+  })
+
+  it('round-trips through parseMapLink', () => {
+    const link: MapLink = {
+      view: { lat: 59.91389, lng: 10.75225, zoom: 14.25, bearing: -30, pitch: 45 },
+      mapType: 'satellite',
+      categories: ['bålplass', 'gapahuk'],
+      poiId: 'ut_no_cabin&1'
+    }
+    expect(parseMapLink(url(formatMapLinkHash(link)))).toEqual(link)
+  })
+})
+
+describe('getLinkAction', () => {
+  it('reads known manifest shortcut actions only', () => {
+    expect(getLinkAction(new URL('https://example.com/?action=search'))).toBe('search')
+    expect(getLinkAction(new URL('https://example.com/?action=delete'))).toBeNull()
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Deep links - map state in the URL, so a view can be shared and restored
+ *
+ * The hash holds the view in the same form as openstreetmap.org, followed by the app state:
+ *   #map=<zoom>/<lat>/<lng>[/<bearing>/<pitch>]&type=satellite&cat=foss,bålplass&poi=<id>
+ * The query holds one-off actions from the PWA manifest shortcuts: ?action=search|location|trails
+ */
+
+export type LinkAction = 'search' | 'location' | 'trails'
+
+export interface MapView {
+  lat: number
+  lng: number
+  zoom: number
+  bearing: number
+  pitch: number
+}
+
+export interface MapLink {
+  view?: MapView
+  mapType?: 'topo' | 'satellite'
+  categories?: string[]
+  poiId?: string
+}
+
+const LINK_ACTIONS: LinkAction[] = ['search', 'location', 'trails']
+
+export function parseMapLink(location: Location | URL = window.location): MapLink {
+  const params = new URLSearchParams(location.hash.replace(/^#/, ''))
+  const link: MapLink = {}
+
+  const [zoom, lat, lng, bearing = 0, pitch = 0] = (params.get('map') ?? '').split('/').map(Number)
+  if ([zoom, lat, lng, bearing, pitch].every(Number.isFinite) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180) {
+    link.view = {
+      lat,
+      lng,
+      zoom: Math.min(Math.max(zoom, 3), 18),
+      bearing: ((bearing + 540) % 360) - 180,
+      pitch: Math.min(Math.max(pitch, 0), 60)
+    }
+  }
+
+  const mapType = params.get('type')
+  if (mapType === 'topo' || mapType === 'satellite') link.mapType = mapType
+
+  const categories = params.get('cat')
+  if (categories) link.categories = categories.split(',').filter(Boolean)
+
+  const poiId = params.get('poi')
+  if (poiId) link.poiId = poiId
+
+  return link
+}
+
+export function getLinkAction(location: Location | URL = window.location): LinkAction | null {
+  const action = new URLSearchParams(location.search).get('action')
+  return LINK_ACTIONS.find(linkAction => linkAction === action) ?? null
+}
+
+export function formatMapLinkHash(link: MapLink): string {
+  const parts: string[] = []
+
+  if (link.view) {
+    const { lat, lng, zoom, bearing, pitch } = link.view
+    // About 1 m precision at street zoom, less when zoomed out
+    const decimals = Math.min(Math.max(Math.ceil(zoom / 3), 2), 5)
+    const view = [zoom.toFixed(2), lat.toFixed(decimals), lng.toFixed(decimals)]
+    if (Math.round(bearing) !== 0 || Math.round(pitch) !== 0) {
+      view.push(String(Math.round(bearing)), String(Math.round(pitch)))
+    }
+    parts.push(`map=${view.join('/')}`)
+  }
+
+  if (link.mapType && link.mapType !== 'topo') parts.push(`type=${link.mapType}`)
+  if (link.categories?.length) parts.push(`cat=${link.categories.map(encodeURIComponent).join(',')}`)
+  if (link.poiId) parts.push(`poi=${encodeURIComponent(link.poiId)}`)
+
+  return parts.length > 0 ? `#${parts.join('&')}` : ''
+}
+
+/**
+ * Replace the URL with the current map state, without adding history entries.
+ * One-off actions are dropped, so reloading does not repeat them.
+ */
+export function replaceMapLink(link: MapLink): void {
+  const url = new URL(window.location.href)
+  url.searchParams.delete('action')
+  url.hash = formatMapLinkHash(link)
+
+  if (url.href !== window.location.href) {
+    try {
+      window.history.replaceState(window.history.state, '', url.href)
+    } catch (error) {
+      console.error('❌ Error updating map link:', error)
+    }
+  }
+}
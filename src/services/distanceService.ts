@@ -3,6 +3,8 @@
  * Supports both Haversine (great circle) and planar distance calculations
  */
 
+import type { ElevationPoint } from '../data/trails'
+
 export interface Coordinate {
   lat: number
   lng: number
@@ -10,12 +12,19 @@ export interface Coordinate {
 
 export interface DistanceMeasurement {
   id: string
+  name: string
+  color: string
   points: Coordinate[]
   totalDistance: number
   segments: number[]
   created: Date
+  updated?: Date
+  elevationProfile?: ElevationPoint[] // Fetched once the measurement is finished; cleared when points change
 }
 
+// Colours handed out to new measurements in turn
+export const MEASUREMENT_COLORS = ['#ff4444', '#2563eb', '#16a34a', '#d97706', '#9333ea', '#0891b2']
+
 /**
  * Calculate distance between two coordinates using Haversine formula
  * Returns distance in meters
@@ -114,4 +123,54 @@ export function formatBearing(bearing: number): string {
  */
 export function generateMeasurementId(): string {
   return `dist_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-}
\ No newline at end of file
+}
+
+/**
+ * Create a named measurement from points, picking the next colour in the palette
+ */
+export function createMeasurement(points: Coordinate[], existing: DistanceMeasurement[]): DistanceMeasurement {
+  const { totalDistance, segments } = calculatePolylineDistance(points)
+  return {
+    id: generateMeasurementId(),
+    name: `Måling ${existing.length + 1}`,
+    color: MEASUREMENT_COLORS[existing.length % MEASUREMENT_COLORS.length],
+    points: [...points],
+    totalDistance,
+    segments,
+    created: new Date()
+  }
+}
+
+/**
+ * Replace the points of a measurement and recalculate its distances
+ */
+export function updateMeasurementPoints(measurement: DistanceMeasurement, points: Coordinate[]): DistanceMeasurement {
+  const { totalDistance, segments } = calculatePolylineDistance(points)
+  return { ...measurement, points, totalDistance, segments, updated: new Date(), elevationProfile: undefined }
+}
+
+/**
+ * Insert a point after the given segment start index (defaults to the segment midpoint)
+ */
+export function insertMeasurementPoint(
+  measurement: DistanceMeasurement,
+  segmentIndex: number,
+  point?: Coordinate
+): DistanceMeasurement {
+  const start = measurement.points[segmentIndex]
+  const end = measurement.points[segmentIndex + 1]
+  if (!start || !end) return measurement
+
+  const newPoint = point ?? { lat: (start.lat + end.lat) / 2, lng: (start.lng + end.lng) / 2 }
+  const points = [...measurement.points]
+  points.splice(segmentIndex + 1, 0, newPoint)
+  return updateMeasurementPoints(measurement, points)
+}
+
+/**
+ * Remove a point, keeping at least two so the measurement stays a line
+ */
+export function removeMeasurementPoint(measurement: DistanceMeasurement, index: number): DistanceMeasurement {
+  if (measurement.points.length <= 2) return measurement
+  return updateMeasurementPoints(measurement, measurement.points.filter((_, i) => i !== index))
+}
@@ -15,6 +15,15 @@ interface ElevationApiResponse {
   }>
 }
 
+export interface ElevationProfileStats {
+  ascent: number
+  descent: number
+  highest: ElevationPoint
+  lowest: ElevationPoint
+  // Steepest stretch of at least STEEPEST_MIN_LENGTH; gradient in percent, negative downhill
+  steepest: { start: ElevationPoint; end: ElevationPoint; gradient: number } | null
+}
+
 interface _ElevationQueryPoint {
   lat: number
   lng: number
@@ -26,6 +35,8 @@ export class ElevationService {
   private static readonly API_BASE_URL = 'https://ws.geonorge.no/hoydedata/v1'
   private static readonly COORDINATE_SYSTEM = 'EPSG:4326' // WGS84
   private static readonly MAX_POINTS_PER_REQUEST = 50
+  private static readonly CONCURRENT_REQUESTS = 4
+  private static readonly STEEPEST_MIN_LENGTH = 50 // meters
 
   /**
    * Get elevation for a single point
@@ -70,7 +81,7 @@ export class ElevationService {
   }
 
   /**
-   * Get elevation for multiple points (batch request)
+   * Get elevation for multiple points (batch requests, a few at a time)
    */
   static async getElevations(points: Array<{ lat: number; lng: number }>): Promise<Array<number | null>> {
     if (points.length === 0) return []
@@ -78,14 +89,18 @@ export class ElevationService {
     try {
       // Split into batches if necessary
       const batches = this.chunkArray(points, this.MAX_POINTS_PER_REQUEST)
-      const results: Array<number | null> = []
+      const batchResults: Array<Array<number | null>> = []
+      let next = 0
 
-      for (const batch of batches) {
-        const batchResults = await this.fetchElevationBatch(batch)
-        results.push(...batchResults)
+      const worker = async () => {
+        while (next < batches.length) {
+          const index = next++
+          batchResults[index] = await this.fetchElevationBatch(batches[index])
+        }
       }
+      await Promise.all(Array.from({ length: Math.min(this.CONCURRENT_REQUESTS, batches.length) }, worker))
 
-      return results
+      return batchResults.flat()
     } catch (error) {
       console.error('❌ Failed to get batch elevations:', error)
       return points.map(() => null)
@@ -150,6 +165,94 @@ export class ElevationService {
     }
   }
 
+  /**
+   * Generate an elevation profile sampled at even distances along a line.
+   * Unlike generateElevationProfile, this adds points between vertices, so it
+   * also works for sparse lines such as hand-drawn measurements.
+   */
+  static async generateLineProfile(
+    coordinates: number[][],
+    sampleCount: number = 100
+  ): Promise<ElevationPoint[]> {
+    if (!coordinates || coordinates.length < 2) {
+      console.warn('⚠️ Invalid coordinates for elevation profile')
+      return []
+    }
+
+    const cumulative = [0]
+    for (let i = 1; i < coordinates.length; i++) {
+      const [prevLng, prevLat] = coordinates[i - 1]
+      const [lng, lat] = coordinates[i]
+      cumulative.push(cumulative[i - 1] + this.haversineDistance(prevLat, prevLng, lat, lng))
+    }
+
+    const totalDistance = cumulative[cumulative.length - 1]
+    if (totalDistance === 0) return []
+
+    // No point sampling much closer than the terrain model resolution
+    const count = Math.min(sampleCount, Math.max(2, Math.ceil(totalDistance / 10) + 1))
+
+    const samples: number[][] = []
+    let segment = 0
+    for (let i = 0; i < count; i++) {
+      const target = (totalDistance * i) / (count - 1)
+      while (segment < coordinates.length - 2 && cumulative[segment + 1] < target) {
+        segment++
+      }
+
+      const segmentLength = cumulative[segment + 1] - cumulative[segment]
+      const ratio = segmentLength > 0 ? Math.min(1, (target - cumulative[segment]) / segmentLength) : 0
+      const [startLng, startLat] = coordinates[segment]
+      const [endLng, endLat] = coordinates[segment + 1]
+      samples.push([
+        startLng + (endLng - startLng) * ratio,
+        startLat + (endLat - startLat) * ratio
+      ])
+    }
+
+    return this.generateElevationProfile(samples, count)
+  }
+
+  /**
+   * Total ascent/descent, highest/lowest point and steepest stretch of a profile
+   */
+  static getProfileStats(profile: ElevationPoint[]): ElevationProfileStats | null {
+    if (profile.length < 2) return null
+
+    let ascent = 0
+    let descent = 0
+    let highest = profile[0]
+    let lowest = profile[0]
+
+    for (let i = 1; i < profile.length; i++) {
+      const delta = profile[i].elevation - profile[i - 1].elevation
+      if (delta > 0) ascent += delta
+      else descent -= delta
+
+      if (profile[i].elevation > highest.elevation) highest = profile[i]
+      if (profile[i].elevation < lowest.elevation) lowest = profile[i]
+    }
+
+    // Compare each point with the first point at least STEEPEST_MIN_LENGTH further on,
+    // so a single noisy sample can't produce an extreme gradient
+    let steepest: ElevationProfileStats['steepest'] = null
+    let end = 0
+    for (let start = 0; start < profile.length; start++) {
+      while (end < profile.length && profile[end].distance - profile[start].distance < this.STEEPEST_MIN_LENGTH) {
+        end++
+      }
+      if (end >= profile.length) break
+
+      const gradient = ((profile[end].elevation - profile[start].elevation) /
+        (profile[end].distance - profile[start].distance)) * 100
+      if (!steepest || Math.abs(gradient) > Math.abs(steepest.gradient)) {
+        steepest = { start: profile[start], end: profile[end], gradient }
+      }
+    }
+
+    return { ascent, descent, highest, lowest, steepest }
+  }
+
   /**
    * Get available data sources from Kartverket
    */
@@ -6,6 +6,8 @@
  * License: NLOD (Norwegian License for Open Government Data)
  */
 
+import { CachedTile, PoiTileCache } from './poiTileCache'
+
 export interface EnturStop {
   id: string // NSR:StopPlace:XXXXX
   name: string
@@ -23,6 +25,11 @@ export interface StopBounds {
   west: number
 }
 
+export interface EnturStopsResult {
+  stops: EnturStop[]
+  failed: boolean // A search failed, so only cached stops (if any) are included
+}
+
 interface EnturFeature {
   type: string
   geometry: {
@@ -47,13 +54,12 @@ interface EnturResponse {
 export class EnturService {
   private static readonly GEOCODER_URL = 'https://api.entur.io/geocoder/v1'
   private static readonly CLIENT_NAME = 'trakke-norwegian-outdoor-app'
-  private static readonly CACHE_DURATION = 15 * 60 * 1000 // 15 minutes
-  private static cache = new Map<string, { data: EnturStop[], timestamp: number }>()
+  private static readonly TILE_TTL = 24 * 60 * 60 * 1000 // 24 hours
 
   /**
    * Fetch bus stops within bounds
    */
-  static async fetchBusStops(bounds: StopBounds): Promise<EnturStop[]> {
+  static async fetchBusStops(bounds: StopBounds): Promise<EnturStopsResult> {
     // Use multiple search terms to get comprehensive coverage
     return this.fetchStopsMultipleSearches(bounds, ['venue'], ['onstreetBus', 'busStation'])
   }
@@ -61,7 +67,7 @@ export class EnturService {
   /**
    * Fetch train stations within bounds
    */
-  static async fetchTrainStations(bounds: StopBounds): Promise<EnturStop[]> {
+  static async fetchTrainStations(bounds: StopBounds): Promise<EnturStopsResult> {
     return this.fetchStopsMultipleSearches(bounds, ['venue'], ['railStation'])
   }
 
@@ -70,51 +76,72 @@ export class EnturService {
    * This overcomes the limitation that Entur requires a search text
    *
    * Optimizations:
+   * - Viewport assembled from cached tiles, only missing or expired tiles are fetched
    * - Parallel requests for speed
-   * - Combined cache key for all searches
    * - Deduplication by stop ID
+   *
+   * If a search fails, the cached stops are returned and the result is marked as failed
    */
   private static async fetchStopsMultipleSearches(
     bounds: StopBounds,
     layers: string[],
     stopTypes: string[]
-  ): Promise<EnturStop[]> {
-    // Check combined cache first
-    const combinedCacheKey = `combined_${stopTypes.join(',')}_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-    const cached = this.cache.get(combinedCacheKey)
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data
-    }
+  ): Promise<EnturStopsResult> {
+    const dataset = `entur:${stopTypes.join(',')}`
+    const tileKeys = PoiTileCache.getTileKeys(bounds)
+    const cachedTiles = tileKeys ? await PoiTileCache.read<EnturStop>(dataset, tileKeys) : new Map<string, CachedTile<EnturStop>>()
 
-    // Use common Norwegian letters/terms to get good coverage
-    const searchTerms = ['a', 'b', 's', 'o', 'e']
+    const now = Date.now()
+    const missingTiles = tileKeys?.filter(tileKey => {
+      const tile = cachedTiles.get(tileKey)
+      return !tile || now - tile.fetched > this.TILE_TTL
+    }) ?? []
 
-    // **OPTIMIZATION: Run all searches in parallel instead of sequential**
-    const searchPromises = searchTerms.map(term =>
-      this.fetchStops(bounds, layers, stopTypes, term)
-    )
+    const allStops = new Map<string, EnturStop>()
+    let refreshedTiles: string[] = []
+    let failed = false
+
+    if (!tileKeys || missingTiles.length > 0) {
+      const fetchBounds = tileKeys ? PoiTileCache.getEnclosingBounds(missingTiles) : bounds
+
+      // Use common Norwegian letters/terms to get good coverage
+      const searchTerms = ['a', 'b', 's', 'o', 'e']
+
+      // **OPTIMIZATION: Run all searches in parallel instead of sequential**
+      const searchPromises = searchTerms.map(term =>
+        this.fetchStops(fetchBounds, layers, stopTypes, term)
+      )
 
-    try {
       const results = await Promise.all(searchPromises)
 
-      // Deduplicate by ID across all results
-      const allStops = new Map<string, EnturStop>()
-      results.forEach(stops => {
-        stops.forEach(stop => {
-          allStops.set(stop.id, stop)
+      // A failed search leaves the result incomplete - keep using the cached tiles then
+      if (results.every(stops => stops !== null)) {
+        results.forEach(stops => {
+          stops?.forEach(stop => {
+            allStops.set(stop.id, stop)
+          })
         })
-      })
 
-      const uniqueStops = Array.from(allStops.values())
+        if (tileKeys) {
+          refreshedTiles = missingTiles
+          void PoiTileCache.write(dataset, missingTiles, Array.from(allStops.values()))
+        }
+      } else {
+        failed = true
+      }
+    }
 
-      // Cache the combined result
-      this.cache.set(combinedCacheKey, { data: uniqueStops, timestamp: Date.now() })
+    cachedTiles.forEach((tile, tileKey) => {
+      if (!refreshedTiles.includes(tileKey)) {
+        tile.items.forEach(stop => allStops.set(stop.id, stop))
+      }
+    })
 
-      return uniqueStops
-    } catch (error) {
-      console.error('❌ Error in parallel searches:', error)
-      return []
-    }
+    const stops = Array.from(allStops.values()).filter(stop =>
+      stop.lat <= bounds.north && stop.lat >= bounds.south &&
+      stop.lng <= bounds.east && stop.lng >= bounds.west
+    )
+    return { stops, failed }
   }
 
   /**
@@ -126,15 +153,7 @@ export class EnturService {
     layers: string[],
     stopTypes: string[],
     searchTerm: string
-  ): Promise<EnturStop[]> {
-    const cacheKey = `${searchTerm}_${stopTypes.join(',')}_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-
-    // Check cache
-    const cached = this.cache.get(cacheKey)
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data
-    }
-
+  ): Promise<EnturStop[] | null> {
     try {
       // Use center point of bounds for reverse geocoding
       const centerLat = (bounds.north + bounds.south) / 2
@@ -175,17 +194,12 @@ export class EnturService {
       }
 
       const data: EnturResponse = await response.json()
-      const stops = this.parseEnturResponse(data, stopTypes)
-
-      // Cache the results
-      this.cache.set(cacheKey, { data: stops, timestamp: Date.now() })
-
-      return stops
+      return this.parseEnturResponse(data, stopTypes)
 
     } catch (error) {
       console.error('❌ Error fetching Entur stops:', error)
-      // Return empty array on error - don't break the app
-      return []
+      // Return null on error - don't break the app
+      return null
     }
   }
 
@@ -245,11 +259,4 @@ export class EnturService {
 
     return stops
   }
-
-  /**
-   * Clear cache (useful for debugging)
-   */
-  static clearCache(): void {
-    this.cache.clear()
-  }
 }
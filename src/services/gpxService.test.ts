@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { GPXData, parseGPX, serializeGPX } from './gpxService'
+
+const gpx = (body: string, version = '1.1') =>
+  `<?xml version="1.0" encoding="UTF-8"?><gpx version="${version}" xmlns="http://www.topografix.com/GPX/${version.replace('.', '/')}">${body}</gpx>`
+
+// Leave out the generated ids
+const content = (data: GPXData) => ({
+  name: data.name,
+  tracks: data.tracks.map(({ name, kind, points }) => ({ name, kind, points })),
+  waypoints: data.waypoints
+})
+
+describe('serializeGPX and parseGPX', () => {
+  it('round-trip tracks, routes and waypoints', () => {
+    const data: GPXData = {
+      id: 'gpx_1',
+      name: 'Tur til Skåla & <Loen>',
+      tracks: [
+        {
+          id: 'trk',
+          name: 'Opp',
+          kind: 'track',
+          points: [
+            { lat: 61.8526, lng: 6.9311, ele: 12.5, time: '2026-06-01T08:00:00.000Z' },
+            { lat: 61.8601, lng: 6.9452, ele: 1848, time: '2026-06-01T12:30:00.000Z' }
+          ]
+        },
+        {
+          id: 'rte',
+          name: 'Ned',
+          kind: 'route',
+          points: [{ lat: 61.8601, lng: 6.9452 }, { lat: 61.8526, lng: 6.9311 }]
+        }
+      ],
+      waypoints: [{ lat: 61.8601, lng: 6.9452, ele: 1848, name: 'Skålatårnet', description: 'Steinbu "på toppen"' }]
+    }
+
+    expect(content(parseGPX(serializeGPX(data)))).toEqual(content(data))
+  })
+})
+
+describe('parseGPX', () => {
+  it('splits tracks with several segments', () => {
+    const data = parseGPX(gpx(`
+      <trk><name>Dagstur</name>
+        <trkseg><trkpt lat="60" lon="9"/><trkpt lat="60.1" lon="9.1"/></trkseg>
+        <trkseg><trkpt lat="60.2" lon="9.2"/><trkpt lat="60.3" lon="9.3"/></trkseg>
+      </trk>`))
+
+    expect(data.tracks.map(track => track.name)).toEqual(['Dagstur (1)', 'Dagstur (2)'])
+    expect(data.tracks[1].points[0]).toEqual({ lat: 60.2, lng: 9.2, ele: undefined, time: undefined })
+  })
+
+  it('reads GPX 1.0 routes, and names unnamed ones', () => {
+    const data = parseGPX(gpx('<rte><rtept lat="60" lon="9"><ele>120</ele></rtept><rtept lat="60.1" lon="9.1"/></rte>', '1.0'))
+
+    expect(data.tracks).toHaveLength(1)
+    expect(data.tracks[0]).toMatchObject({ name: 'Rute 1', kind: 'route' })
+    expect(data.tracks[0].points.map(point => point.ele)).toEqual([120, undefined])
+  })
+
+  it('reads waypoints on their own', () => {
+    const data = parseGPX(gpx('<wpt lat="61.6364" lon="8.3125"><name>Galdhøpiggen</name></wpt>'), 'topp.gpx')
+
+    expect(data.name).toBe('topp.gpx')
+    expect(data.tracks).toEqual([])
+    expect(data.waypoints).toEqual([{ lat: 61.6364, lng: 8.3125, ele: undefined, name: 'Galdhøpiggen', description: undefined }])
+  })
+
+  it('leaves out points without a position and segments with fewer than two points', () => {
+    const data = parseGPX(gpx(`
+      <trk><trkseg><trkpt lat="60" lon="9"/><trkpt lon="9.1"/></trkseg></trk>
+      <trk><trkseg><trkpt lat="60" lon="9"/><trkpt lat="x" lon="9.1"/><trkpt lat="60.1" lon="9.1"><ele>høy</ele></trkpt></trkseg></trk>`))
+
+    expect(data.tracks).toHaveLength(1)
+    expect(data.tracks[0].points).toEqual([
+      { lat: 60, lng: 9, ele: undefined, time: undefined },
+      { lat: 60.1, lng: 9.1, ele: undefined, time: undefined }
+    ])
+  })
+
+  it('rejects malformed XML, other documents and empty GPX', () => {
+    expect(() => parseGPX('<gpx><trk></gpx>')).toThrow('Filen er ikke gyldig XML')
+    expect(() => parseGPX('<kml xmlns="http://www.opengis.net/kml/2.2"/>')).toThrow('Filen er ikke en GPX-fil')
+    expect(() => parseGPX(gpx('<trk><trkseg><trkpt lat="60" lon="9"/></trkseg></trk>'))).toThrow('GPX-filen inneholder ingen spor')
+  })
+})
@@ -0,0 +1,385 @@
+/**
+ * GPX 1.1 import and export
+ *
+ * Serializes distance measurements, trails, planned routes and recorded tracks to GPX,
+ * and parses GPX tracks, routes and waypoints into user tracks for the map.
+ */
+
+import type { Trail, ElevationPoint, PlannedRoute } from '../data/trails'
+import type { DistanceMeasurement } from './distanceService'
+import type { RecordedTrack } from './trackRecordingService'
+import { calculateHaversineDistance } from './distanceService'
+
+export interface GPXPoint {
+  lat: number
+  lng: number
+  ele?: number
+  time?: string // ISO date string
+}
+
+export interface GPXTrack {
+  id: string
+  name: string
+  kind: 'track' | 'route'
+  points: GPXPoint[]
+}
+
+export interface GPXWaypoint {
+  lat: number
+  lng: number
+  name?: string
+  description?: string
+  ele?: number
+}
+
+export interface GPXData {
+  id: string
+  name: string
+  tracks: GPXTrack[]
+  waypoints: GPXWaypoint[]
+}
+
+const GPX_NAMESPACE = 'http://www.topografix.com/GPX/1/1'
+const GPX_CREATOR = 'Tråkke (https://github.com/elzacka/trakke-react)'
+
+/**
+ * Serialize GPX data to a GPX 1.1 XML document
+ */
+export function serializeGPX(data: GPXData): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${escapeXml(GPX_CREATOR)}" xmlns="${GPX_NAMESPACE}" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xsi:schemaLocation="${GPX_NAMESPACE} ${GPX_NAMESPACE}/gpx.xsd">`,
+    '  <metadata>',
+    `    <name>${escapeXml(data.name)}</name>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '  </metadata>'
+  ]
+
+  data.waypoints.forEach(waypoint => {
+    lines.push(`  <wpt lat="${waypoint.lat.toFixed(7)}" lon="${waypoint.lng.toFixed(7)}">`)
+    if (waypoint.ele !== undefined) lines.push(`    <ele>${waypoint.ele.toFixed(1)}</ele>`)
+    if (waypoint.name) lines.push(`    <name>${escapeXml(waypoint.name)}</name>`)
+    if (waypoint.description) lines.push(`    <desc>${escapeXml(waypoint.description)}</desc>`)
+    lines.push('  </wpt>')
+  })
+
+  data.tracks.forEach(track => {
+    if (track.kind === 'route') {
+      lines.push('  <rte>', `    <name>${escapeXml(track.name)}</name>`)
+      track.points.forEach(point => lines.push(serializePoint('rtept', point, '    ')))
+      lines.push('  </rte>')
+    } else {
+      lines.push('  <trk>', `    <name>${escapeXml(track.name)}</name>`, '    <trkseg>')
+      track.points.forEach(point => lines.push(serializePoint('trkpt', point, '      ')))
+      lines.push('    </trkseg>', '  </trk>')
+    }
+  })
+
+  lines.push('</gpx>')
+  return lines.join('\n')
+}
+
+/**
+ * Parse a GPX document (1.0 or 1.1) into tracks, routes and waypoints
+ * Throws if the document is not valid GPX
+ */
+export function parseGPX(xmlText: string, fallbackName = 'Importert GPX'): GPXData {
+  const xmlDoc = new DOMParser().parseFromString(xmlText, 'application/xml')
+
+  if (xmlDoc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Filen er ikke gyldig XML')
+  }
+
+  const root = xmlDoc.documentElement
+  if (root.localName !== 'gpx') {
+    throw new Error('Filen er ikke en GPX-fil')
+  }
+
+  const metadataName = childText(root.getElementsByTagNameNS('*', 'metadata')[0], 'name')
+  const name = metadataName ?? childText(root, 'name') ?? fallbackName
+  const idBase = generateGPXId()
+
+  const tracks: GPXTrack[] = []
+
+  Array.from(root.getElementsByTagNameNS('*', 'trk')).forEach((trk, trackIndex) => {
+    const trackName = childText(trk, 'name') ?? `Spor ${trackIndex + 1}`
+    const segments = Array.from(trk.getElementsByTagNameNS('*', 'trkseg'))
+
+    segments.forEach((segment, segmentIndex) => {
+      const points = Array.from(segment.getElementsByTagNameNS('*', 'trkpt'))
+        .map(parsePoint)
+        .filter((point): point is GPXPoint => point !== null)
+
+      if (points.length >= 2) {
+        tracks.push({
+          id: `${idBase}_trk_${trackIndex}_${segmentIndex}`,
+          name: segments.length > 1 ? `${trackName} (${segmentIndex + 1})` : trackName,
+          kind: 'track',
+          points
+        })
+      }
+    })
+  })
+
+  Array.from(root.getElementsByTagNameNS('*', 'rte')).forEach((rte, routeIndex) => {
+    const points = Array.from(rte.getElementsByTagNameNS('*', 'rtept'))
+      .map(parsePoint)
+      .filter((point): point is GPXPoint => point !== null)
+
+    if (points.length >= 2) {
+      tracks.push({
+        id: `${idBase}_rte_${routeIndex}`,
+        name: childText(rte, 'name') ?? `Rute ${routeIndex + 1}`,
+        kind: 'route',
+        points
+      })
+    }
+  })
+
+  const waypoints: GPXWaypoint[] = Array.from(root.getElementsByTagNameNS('*', 'wpt'))
+    .map((wpt): GPXWaypoint | null => {
+      const point = parsePoint(wpt)
+      if (!point) return null
+      return {
+        lat: point.lat,
+        lng: point.lng,
+        ele: point.ele,
+        name: childText(wpt, 'name'),
+        description: childText(wpt, 'desc')
+      }
+    })
+    .filter((waypoint): waypoint is GPXWaypoint => waypoint !== null)
+
+  if (tracks.length === 0 && waypoints.length === 0) {
+    throw new Error('GPX-filen inneholder ingen spor, ruter eller veipunkter')
+  }
+
+  return { id: idBase, name, tracks, waypoints }
+}
+
+/**
+ * Convert distance measurements to GPX data, one track per measurement.
+ * Elevation profiles (keyed by measurement id) are interpolated onto the points.
+ */
+export function measurementsToGPX(
+  measurements: DistanceMeasurement[],
+  elevationProfiles: Record<string, ElevationPoint[]> = {}
+): GPXData {
+  return {
+    id: generateGPXId(),
+    name: 'Tråkke avstandsmålinger',
+    tracks: measurements.map(measurement => ({
+      id: measurement.id,
+      name: measurement.name,
+      kind: 'track',
+      points: withElevation(
+        measurement.points.map(point => [point.lng, point.lat]),
+        elevationProfiles[measurement.id]
+      )
+    })),
+    waypoints: []
+  }
+}
+
+/**
+ * Convert a trail to GPX data, with elevation from its profile if available
+ */
+export function trailToGPX(trail: Trail, elevationProfile?: ElevationPoint[]): GPXData {
+  return {
+    id: generateGPXId(),
+    name: trail.properties.name,
+    tracks: [{
+      id: trail.id,
+      name: trail.properties.name,
+      kind: 'track',
+      points: withElevation(trail.geometry.coordinates, elevationProfile ?? trail.elevationProfile)
+    }],
+    waypoints: []
+  }
+}
+
+/**
+ * Convert a planned route to GPX data: the path as a track, start/junctions/end as waypoints
+ */
+export function plannedRouteToGPX(route: PlannedRoute): GPXData {
+  const name = route.name ?? 'Planlagt rute'
+  const coordinates = route.geometry?.coordinates
+    ?? (route.elevationProfile.length >= 2
+      ? route.elevationProfile.map(point => [point.lng, point.lat])
+      : route.waypoints.map(point => [point.lng, point.lat]))
+
+  return {
+    id: generateGPXId(),
+    name,
+    tracks: [{
+      id: route.id,
+      name,
+      kind: 'track',
+      points: withElevation(coordinates, route.elevationProfile)
+    }],
+    waypoints: route.waypoints.map(waypoint => ({
+      lat: waypoint.lat,
+      lng: waypoint.lng,
+      name: waypoint.name ?? waypointTypeName(waypoint.type)
+    }))
+  }
+}
+
+/**
+ * Convert a recorded GPS track to GPX data with times and GPS altitude,
+ * one track per recording segment (segments are split at pauses)
+ */
+export function recordedTrackToGPX(track: RecordedTrack): GPXData {
+  const segments = track.segments.filter(segment => segment.length >= 2)
+
+  return {
+    id: generateGPXId(),
+    name: track.name,
+    tracks: segments.map((segment, index) => ({
+      id: `${track.id}_${index}`,
+      name: segments.length > 1 ? `${track.name} (${index + 1})` : track.name,
+      kind: 'track',
+      points: segment.map(point => ({
+        lat: point.lat,
+        lng: point.lng,
+        ele: point.elevation,
+        time: new Date(point.timestamp).toISOString()
+      }))
+    })),
+    waypoints: []
+  }
+}
+
+/**
+ * Trigger a browser download of a GPX document
+ */
+export function downloadGPX(gpx: string, filename: string): void {
+  const blob = new Blob([gpx], { type: 'application/gpx+xml' })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename.endsWith('.gpx') ? filename : `${filename}.gpx`
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Make a safe filename from a track or trail name
+ */
+export function toGPXFilename(name: string): string {
+  const safe = name
+    .toLowerCase()
+    .replace(/[^a-z0-9æøå]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+  return `${safe || 'trakke'}.gpx`
+}
+
+/**
+ * Bounding box of all points in GPX data, as [[west, south], [east, north]]
+ */
+export function getGPXBounds(data: GPXData): [[number, number], [number, number]] | null {
+  const points = [...data.tracks.flatMap(track => track.points), ...data.waypoints]
+  if (points.length === 0) return null
+
+  let north = -90, south = 90, east = -180, west = 180
+  points.forEach(({ lat, lng }) => {
+    north = Math.max(north, lat)
+    south = Math.min(south, lat)
+    east = Math.max(east, lng)
+    west = Math.min(west, lng)
+  })
+
+  return [[west, south], [east, north]]
+}
+
+// Private helpers
+
+function generateGPXId(): string {
+  return `gpx_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+function serializePoint(tag: 'trkpt' | 'rtept', point: GPXPoint, indent: string): string {
+  const children: string[] = []
+  if (point.ele !== undefined) children.push(`<ele>${point.ele.toFixed(1)}</ele>`)
+  if (point.time) children.push(`<time>${point.time}</time>`)
+
+  const open = `${indent}<${tag} lat="${point.lat.toFixed(7)}" lon="${point.lng.toFixed(7)}"`
+  return children.length > 0 ? `${open}>${children.join('')}</${tag}>` : `${open}/>`
+}
+
+function parsePoint(element: Element): GPXPoint | null {
+  const lat = parseFloat(element.getAttribute('lat') ?? '')
+  const lng = parseFloat(element.getAttribute('lon') ?? '')
+  if (isNaN(lat) || isNaN(lng)) return null
+
+  const eleText = childText(element, 'ele')
+  const ele = eleText !== undefined ? parseFloat(eleText) : NaN
+
+  return {
+    lat,
+    lng,
+    ele: isNaN(ele) ? undefined : ele,
+    time: childText(element, 'time')
+  }
+}
+
+/**
+ * Text of a direct child element (ignores nested elements with the same name)
+ */
+function childText(parent: Element | undefined, localName: string): string | undefined {
+  if (!parent) return undefined
+  const child = Array.from(parent.children).find(el => el.localName === localName)
+  const text = child?.textContent?.trim()
+  return text === '' ? undefined : text
+}
+
+/**
+ * Attach elevations to [lng, lat] coordinates by interpolating a sampled
+ * elevation profile over the cumulative distance along the line
+ */
+function withElevation(coordinates: number[][], profile?: ElevationPoint[]): GPXPoint[] {
+  const points: GPXPoint[] = coordinates.map(([lng, lat]) => ({ lat, lng }))
+  if (!profile || profile.length === 0) return points
+
+  let distance = 0
+  let profileIndex = 0
+
+  points.forEach((point, i) => {
+    if (i > 0) distance += calculateHaversineDistance(points[i - 1], point)
+
+    while (profileIndex < profile.length - 1 && profile[profileIndex + 1].distance < distance) {
+      profileIndex++
+    }
+
+    const current = profile[profileIndex]
+    const next = profile[profileIndex + 1]
+    if (!next || distance <= current.distance) {
+      point.ele = current.elevation
+    } else {
+      const ratio = (distance - current.distance) / Math.max(next.distance - current.distance, 1)
+      point.ele = current.elevation + (next.elevation - current.elevation) * Math.min(ratio, 1)
+    }
+  })
+
+  return points
+}
+
+function waypointTypeName(type: PlannedRoute['waypoints'][number]['type']): string {
+  switch (type) {
+    case 'start': return 'Start'
+    case 'end': return 'Mål'
+    case 'junction': return 'Veikryss'
+    default: return 'Punkt'
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Local database - the app's IndexedDB database for data kept on the device
+ *
+ * Each store is created in the upgrade handler; bump DB_VERSION when adding one.
+ */
+
+const DB_NAME = 'trakke'
+const DB_VERSION = 3
+
+export const DB_STORES = {
+  measurements: 'measurements',
+  tracks: 'tracks',
+  poiTiles: 'poiTiles'
+} as const
+
+let databasePromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Open (and create or upgrade) the database. The connection is shared.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (databasePromise) return databasePromise
+
+  databasePromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not supported'))
+      return
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(DB_STORES.measurements)) {
+        db.createObjectStore(DB_STORES.measurements, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(DB_STORES.tracks)) {
+        db.createObjectStore(DB_STORES.tracks, { keyPath: 'id' })
+      }
+      if (!db.objectStoreNames.contains(DB_STORES.poiTiles)) {
+        db.createObjectStore(DB_STORES.poiTiles, { keyPath: 'key' })
+      }
+    }
+
+    request.onsuccess = () => {
+      const db = request.result
+      // Let other tabs upgrade (or delete) the database
+      db.onversionchange = () => {
+        db.close()
+        databasePromise = null
+      }
+      resolve(db)
+    }
+
+    request.onerror = () => {
+      databasePromise = null
+      reject(request.error ?? new Error('Could not open database'))
+    }
+  })
+
+  return databasePromise
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'))
+  })
+}
+
+/**
+ * Resolve when a transaction has committed
+ */
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB transaction failed'))
+    transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB transaction aborted'))
+  })
+}
+
+/**
+ * Delete the whole database (used when the user deletes all local data)
+ */
+export async function deleteDatabase(): Promise<void> {
+  if (databasePromise) {
+    const db = await databasePromise.catch(() => null)
+    db?.close()
+    databasePromise = null
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME)
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error ?? new Error('Could not delete database'))
+    // Blocked by another tab - the deletion completes once it closes
+    request.onblocked = () => resolve()
+  })
+}
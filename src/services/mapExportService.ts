@@ -0,0 +1,680 @@
+/**
+ * Map export - renders the current map as a printable PDF or PNG at a true paper scale
+ *
+ * The map is drawn again in a hidden MapLibre map sized to the paper, at the zoom where one
+ * paper millimetre covers the chosen scale in the terrain (true at the centre of the map;
+ * Web Mercator stretches a fraction of a percent towards the edges). The UTM grid, north arrow,
+ * scale bar, legend and attribution are drawn on top, in paper millimetres.
+ */
+
+import maplibregl from 'maplibre-gl'
+import { categoryConfig, POI } from '../data/pois'
+import { getSymbolById, MapSymbol } from '../data/symbols'
+import { getLatitudeBand, getUTMZone, latLngToUTM, utmToLatLng } from './coordinateService'
+import { PoiSymbolService } from './poiSymbolService'
+
+export type PaperSize = 'A4' | 'A3'
+export type PaperOrientation = 'portrait' | 'landscape'
+export type ExportFormat = 'pdf' | 'png'
+
+export interface MapExportOptions {
+  paperSize: PaperSize
+  orientation: PaperOrientation
+  scale: number // Scale denominator, e.g. 25000 for 1:25 000
+  format: ExportFormat
+  title?: string
+}
+
+// Paper sizes in millimetres, portrait
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> = {
+  A4: { width: 210, height: 297 },
+  A3: { width: 297, height: 420 }
+}
+
+export const EXPORT_SCALES = [25000, 50000]
+
+// Kartverket symbols shown in the legend of topographic exports, in this order
+const LEGEND_SYMBOL_IDS = [
+  'merket_sti_gang_sykkelvei',
+  'sti_gangvei',
+  'traktorvei',
+  'privat_vei_skogsbilvei',
+  'turisthytte',
+  'kraftlinje_enkelinje',
+  'elv_bekk',
+  'myr',
+  'skog',
+  'dyrka_mark',
+  'fjell_berg',
+  'terrenglinjer'
+]
+
+// Layers that only make sense on screen
+const SCREEN_ONLY_LAYERS = [
+  'pois-circles',
+  'pois-icons',
+  'offline-area-fill',
+  'offline-area-outline',
+  'user-location-accuracy-fill',
+  'user-location-accuracy-outline',
+  // The export draws its own grid for the whole sheet
+  'utm-grid-lines',
+  'utm-grid-zones'
+]
+
+interface LegendItem {
+  label: string
+  symbol?: MapSymbol
+  color?: string
+  icon?: string
+}
+
+interface PaperLayout {
+  width: number
+  height: number
+  frame: { x: number; y: number; width: number; height: number }
+}
+
+const EARTH_CIRCUMFERENCE = 40075016.686 // meters
+const MM_PER_CSS_PX = 25.4 / 96
+const FONT = 'system-ui, -apple-system, sans-serif'
+const ICON_FONT = 'Material Symbols Outlined'
+
+export class MapExportService {
+  static readonly DPI = 150
+  private static readonly MARGIN = 10 // mm
+  private static readonly FOOTER_HEIGHT = 33 // mm, below the map frame
+  private static readonly GRID_INTERVAL = 1000 // meters
+  private static readonly RENDER_TIMEOUT = 60000 // ms
+
+  static getLayout(paperSize: PaperSize, orientation: PaperOrientation): PaperLayout {
+    const paper = PAPER_SIZES[paperSize]
+    const width = orientation === 'portrait' ? paper.width : paper.height
+    const height = orientation === 'portrait' ? paper.height : paper.width
+
+    return {
+      width,
+      height,
+      frame: {
+        x: this.MARGIN,
+        y: this.MARGIN,
+        width: width - 2 * this.MARGIN,
+        height: height - 2 * this.MARGIN - this.FOOTER_HEIGHT
+      }
+    }
+  }
+
+  /**
+   * Terrain covered by the map frame, in kilometres
+   */
+  static getCoverage(options: Pick<MapExportOptions, 'paperSize' | 'orientation' | 'scale'>): { width: number; height: number } {
+    const { frame } = this.getLayout(options.paperSize, options.orientation)
+    return {
+      width: frame.width * options.scale / 1e6,
+      height: frame.height * options.scale / 1e6
+    }
+  }
+
+  /**
+   * Map zoom where one CSS pixel covers the given distance at the latitude
+   * MapLibre tiles are 512 px wide at zoom 0
+   */
+  static getZoomForScale(scale: number, latitude: number): number {
+    const metersPerCssPixel = scale * MM_PER_CSS_PX / 1000
+    return Math.log2(EARTH_CIRCUMFERENCE * Math.cos(latitude * Math.PI / 180) / (512 * metersPerCssPixel))
+  }
+
+  static formatScale(scale: number): string {
+    return `1:${scale.toLocaleString('nb-NO')}`
+  }
+
+  /**
+   * Render the map around its current centre to a PDF or PNG file
+   */
+  static async export(map: maplibregl.Map, pois: POI[], options: MapExportOptions): Promise<Blob> {
+    const layout = this.getLayout(options.paperSize, options.orientation)
+    const pxPerMm = this.DPI / 25.4
+
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(layout.width * pxPerMm)
+    canvas.height = Math.round(layout.height * pxPerMm)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas 2D is not available')
+
+    const exportMap = await this.renderMap(map, layout, options.scale)
+    try {
+      const { frame } = layout
+      const mmPerMapPixel = frame.width / exportMap.getContainer().clientWidth
+      const toPaper = (lat: number, lng: number) => {
+        const point = exportMap.project([lng, lat])
+        return { x: frame.x + point.x * mmPerMapPixel, y: frame.y + point.y * mmPerMapPixel }
+      }
+      const visiblePOIs = pois.filter(poi => {
+        const { x, y } = toPaper(poi.lat, poi.lng)
+        return x >= frame.x && x <= frame.x + frame.width && y >= frame.y && y <= frame.y + frame.height
+      })
+
+      context.setTransform(pxPerMm, 0, 0, pxPerMm, 0, 0)
+      context.fillStyle = '#ffffff'
+      context.fillRect(0, 0, layout.width, layout.height)
+      context.drawImage(exportMap.getCanvas(), frame.x, frame.y, frame.width, frame.height)
+
+      context.save()
+      context.beginPath()
+      context.rect(frame.x, frame.y, frame.width, frame.height)
+      context.clip()
+      const zone = this.drawGrid(context, exportMap, layout, toPaper)
+      await this.drawPOIs(context, visiblePOIs, toPaper)
+      this.drawNorthArrow(context, frame.x + frame.width - 12, frame.y + 8)
+      context.restore()
+
+      context.strokeStyle = '#000000'
+      context.lineWidth = 0.3
+      context.strokeRect(frame.x, frame.y, frame.width, frame.height)
+
+      this.drawFooter(context, layout, options, {
+        zone,
+        legend: this.getLegendItems(map, visiblePOIs),
+        attribution: this.getAttribution(map, visiblePOIs.length > 0)
+      })
+    } finally {
+      exportMap.remove()
+      exportMap.getContainer().remove()
+    }
+
+    if (options.format === 'png') {
+      return this.toBlob(canvas, 'image/png')
+    }
+
+    const jpeg = await this.toBlob(canvas, 'image/jpeg', 0.92)
+    const pointsPerMm = 72 / 25.4
+    return this.buildPDF(
+      new Uint8Array(await jpeg.arrayBuffer()),
+      canvas.width,
+      canvas.height,
+      layout.width * pointsPerMm,
+      layout.height * pointsPerMm,
+      options.title
+    )
+  }
+
+  static download(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(url)
+  }
+
+  static getFilename(options: MapExportOptions): string {
+    const date = new Date().toISOString().slice(0, 10)
+    return `trakke-kart-1-${options.scale}-${options.paperSize}-${date}.${options.format}`
+  }
+
+  /**
+   * Draw the map's current style north up in a hidden map the size of the map frame,
+   * and wait until all tiles are loaded
+   */
+  private static async renderMap(map: maplibregl.Map, layout: PaperLayout, scale: number): Promise<maplibregl.Map> {
+    const center = map.getCenter()
+    // The export is flat and north up: 3D terrain is left out, as its DEM source has no layers
+    // and would be dropped with the other unused sources
+    const { terrain: _terrain, ...style } = map.getStyle()
+    const layers = style.layers.filter(layer => !SCREEN_ONLY_LAYERS.includes(layer.id))
+    const usedSources = new Set(layers.map(layer => 'source' in layer ? layer.source : undefined))
+
+    const container = document.createElement('div')
+    Object.assign(container.style, {
+      position: 'fixed',
+      left: '-100000px',
+      top: '0',
+      width: `${Math.round(layout.frame.width / MM_PER_CSS_PX)}px`,
+      height: `${Math.round(layout.frame.height / MM_PER_CSS_PX)}px`,
+      visibility: 'hidden'
+    })
+    document.body.appendChild(container)
+
+    const exportMap = new maplibregl.Map({
+      container,
+      style: {
+        ...style,
+        sources: Object.fromEntries(Object.entries(style.sources).filter(([id]) => usedSources.has(id))),
+        layers
+      },
+      center,
+      zoom: this.getZoomForScale(scale, center.lat),
+      bearing: 0,
+      pitch: 0,
+      pixelRatio: this.DPI / 96,
+      interactive: false,
+      attributionControl: false,
+      fadeDuration: 0,
+      canvasContextAttributes: { preserveDrawingBuffer: true }
+    })
+
+    let timeout = 0
+    try {
+      await Promise.race([
+        exportMap.once('idle'),
+        new Promise((_, reject) => {
+          timeout = window.setTimeout(() => reject(new Error('Map tiles did not load in time')), this.RENDER_TIMEOUT)
+        })
+      ])
+    } catch (error) {
+      exportMap.remove()
+      container.remove()
+      throw error
+    } finally {
+      window.clearTimeout(timeout)
+    }
+
+    return exportMap
+  }
+
+  /**
+   * UTM grid lines every kilometre in the zone of the map centre, labelled with
+   * the two kilometre digits as on Kartverket's paper maps. Returns the zone name.
+   */
+  private static drawGrid(
+    context: CanvasRenderingContext2D,
+    exportMap: maplibregl.Map,
+    layout: PaperLayout,
+    toPaper: (lat: number, lng: number) => { x: number; y: number }
+  ): string {
+    const center = exportMap.getCenter()
+    const zone = getUTMZone(center.lat, center.lng)
+    const bounds = exportMap.getBounds()
+    const corners = [bounds.getNorthWest(), bounds.getNorthEast(), bounds.getSouthWest(), bounds.getSouthEast()]
+      .map(corner => latLngToUTM(corner.lat, corner.lng, zone))
+    const eastings = corners.map(corner => corner.easting)
+    const northings = corners.map(corner => corner.northing)
+    const minE = Math.min(...eastings)
+    const maxE = Math.max(...eastings)
+    const minN = Math.min(...northings)
+    const maxN = Math.max(...northings)
+    const interval = this.GRID_INTERVAL
+    const steps = 20
+    const { frame } = layout
+
+    const toPaperUTM = (easting: number, northing: number) => {
+      const { lat, lng } = utmToLatLng(zone, 'N', easting, northing)
+      return toPaper(lat, lng)
+    }
+    const label = (value: number) => String(Math.floor(value / 1000) % 100).padStart(2, '0')
+    const lines: { points: { x: number; y: number }[]; text: string; vertical: boolean }[] = []
+
+    for (let easting = Math.ceil(minE / interval) * interval; easting <= maxE; easting += interval) {
+      lines.push({
+        points: Array.from({ length: steps + 1 }, (_, i) => toPaperUTM(easting, minN + (maxN - minN) * i / steps)),
+        text: label(easting),
+        vertical: true
+      })
+    }
+    for (let northing = Math.ceil(minN / interval) * interval; northing <= maxN; northing += interval) {
+      lines.push({
+        points: Array.from({ length: steps + 1 }, (_, i) => toPaperUTM(minE + (maxE - minE) * i / steps, northing)),
+        text: label(northing),
+        vertical: false
+      })
+    }
+
+    context.strokeStyle = 'rgba(0, 70, 160, 0.7)'
+    context.lineWidth = 0.15
+    lines.forEach(({ points }) => {
+      context.beginPath()
+      points.forEach(({ x, y }, i) => i === 0 ? context.moveTo(x, y) : context.lineTo(x, y))
+      context.stroke()
+    })
+
+    context.font = `600 2.4px ${FONT}`
+    context.textBaseline = 'middle'
+    lines.forEach(({ points, text, vertical }) => {
+      // Label where the line crosses the top or left edge of the frame
+      const position = vertical
+        ? this.crossing(points, point => point.y - frame.y - 2.5)
+        : this.crossing(points, point => point.x - frame.x - 2.5)
+      if (!position) return
+
+      context.textAlign = vertical ? 'center' : 'left'
+      this.drawHaloText(context, text, position.x + (vertical ? 0 : 0.5), position.y, 'rgb(0, 70, 160)')
+    })
+
+    return `${zone}${getLatitudeBand(center.lat)}`
+  }
+
+  /**
+   * Point on a polyline where the distance function changes sign
+   */
+  private static crossing(
+    points: { x: number; y: number }[],
+    distance: (point: { x: number; y: number }) => number
+  ): { x: number; y: number } | null {
+    for (let i = 1; i < points.length; i++) {
+      const a = distance(points[i - 1])
+      const b = distance(points[i])
+      if ((a <= 0 && b >= 0) || (a >= 0 && b <= 0)) {
+        const t = a === b ? 0 : a / (a - b)
+        return {
+          x: points[i - 1].x + (points[i].x - points[i - 1].x) * t,
+          y: points[i - 1].y + (points[i].y - points[i - 1].y) * t
+        }
+      }
+    }
+    return null
+  }
+
+  private static async drawPOIs(
+    context: CanvasRenderingContext2D,
+    pois: POI[],
+    toPaper: (lat: number, lng: number) => { x: number; y: number }
+  ): Promise<void> {
+    if (pois.length === 0) return
+
+    try {
+      await document.fonts.load(`2px "${ICON_FONT}"`)
+    } catch (error) {
+      console.warn('⚠️ Material Symbols font not loaded, exported POI icons may be missing:', error)
+    }
+
+    const radius = 1.8
+    pois.forEach(poi => {
+      const { x, y } = toPaper(poi.lat, poi.lng)
+
+      context.beginPath()
+      context.arc(x, y, radius, 0, Math.PI * 2)
+      context.fillStyle = poi.color ?? '#7c3aed'
+      context.fill()
+      context.strokeStyle = '#ffffff'
+      context.lineWidth = 0.3
+      context.stroke()
+
+      context.font = `2.6px "${ICON_FONT}"`
+      context.fillStyle = '#ffffff'
+      context.textAlign = 'center'
+      context.textBaseline = 'middle'
+      context.fillText(PoiSymbolService.getIconName(poi), x, y)
+    })
+  }
+
+  private static drawNorthArrow(context: CanvasRenderingContext2D, x: number, y: number): void {
+    context.fillStyle = 'rgba(255, 255, 255, 0.85)'
+    context.beginPath()
+    context.arc(x, y + 1.5, 6, 0, Math.PI * 2)
+    context.fill()
+
+    context.fillStyle = '#111827'
+    context.beginPath()
+    context.moveTo(x, y - 3)
+    context.lineTo(x + 2.2, y + 4)
+    context.lineTo(x, y + 2.6)
+    context.lineTo(x - 2.2, y + 4)
+    context.closePath()
+    context.fill()
+
+    context.font = `700 2.8px ${FONT}`
+    context.textAlign = 'center'
+    context.textBaseline = 'bottom'
+    context.fillText('N', x, y - 3.2)
+  }
+
+  private static drawFooter(
+    context: CanvasRenderingContext2D,
+    layout: PaperLayout,
+    options: MapExportOptions,
+    details: { zone: string; legend: LegendItem[]; attribution: string }
+  ): void {
+    const x = layout.frame.x
+    const top = layout.frame.y + layout.frame.height + 4
+    const right = layout.frame.x + layout.frame.width
+
+    context.fillStyle = '#111827'
+    context.textAlign = 'left'
+    context.textBaseline = 'top'
+    context.font = `600 4.2px ${FONT}`
+    context.fillText(options.title?.trim() ? options.title.trim() : 'Tråkke', x, top, 65)
+    context.font = `500 3px ${FONT}`
+    context.fillText(`Målestokk ${this.formatScale(options.scale)}`, x, top + 6)
+
+    this.drawScaleBar(context, x, top + 13, options.scale)
+
+    context.fillStyle = '#374151'
+    context.font = `2.2px ${FONT}`
+    context.fillText(`UTM-rutenett ${this.GRID_INTERVAL / 1000} km, sone ${details.zone}`, x, top + 20)
+    context.fillText('EUREF89 (WGS84). Kartet er nordorientert.', x, top + 23)
+
+    this.drawLegend(context, details.legend, x + 72, top, right)
+
+    context.fillStyle = '#6b7280'
+    context.font = `2px ${FONT}`
+    context.textAlign = 'right'
+    context.textBaseline = 'bottom'
+    context.fillText(
+      `${details.attribution} · Utskrevet ${new Date().toLocaleDateString('nb-NO')} fra Tråkke`,
+      right,
+      layout.height - this.MARGIN,
+      right - x
+    )
+  }
+
+  /**
+   * Scale bar 40 mm long, in four alternating segments
+   */
+  private static drawScaleBar(context: CanvasRenderingContext2D, x: number, y: number, scale: number): void {
+    const length = 40 // mm
+    const segments = 4
+    const totalMeters = length * scale / 1000
+    const formatMeters = (meters: number) =>
+      meters >= 1000 ? `${(meters / 1000).toLocaleString('nb-NO')} km` : `${meters} m`
+
+    for (let i = 0; i < segments; i++) {
+      context.fillStyle = i % 2 === 0 ? '#111827' : '#ffffff'
+      context.fillRect(x + i * length / segments, y, length / segments, 1.2)
+    }
+    context.strokeStyle = '#111827'
+    context.lineWidth = 0.2
+    context.strokeRect(x, y, length, 1.2)
+
+    context.fillStyle = '#111827'
+    context.font = `2.2px ${FONT}`
+    context.textBaseline = 'top'
+    context.textAlign = 'left'
+    context.fillText('0', x, y + 1.8)
+    context.textAlign = 'center'
+    context.fillText(formatMeters(totalMeters / 2), x + length / 2, y + 1.8)
+    context.fillText(formatMeters(totalMeters), x + length, y + 1.8)
+  }
+
+  /**
+   * Legend items in columns of four rows, as many columns as fit
+   */
+  private static drawLegend(context: CanvasRenderingContext2D, items: LegendItem[], left: number, top: number, right: number): void {
+    const rowHeight = 5
+    const rows = 4
+    const columnWidth = 42
+
+    context.fillStyle = '#111827'
+    context.font = `600 2.6px ${FONT}`
+    context.textAlign = 'left'
+    context.textBaseline = 'top'
+    context.fillText('Tegnforklaring', left, top)
+
+    const maxItems = Math.floor((right - left) / columnWidth) * rows
+    items.slice(0, maxItems).forEach((item, index) => {
+      const x = left + Math.floor(index / rows) * columnWidth
+      const y = top + 4 + (index % rows) * rowHeight
+
+      if (item.symbol) {
+        this.drawSymbol(context, item.symbol, x, y, 6, 3.2)
+      } else {
+        context.beginPath()
+        context.arc(x + 3, y + 1.6, 1.6, 0, Math.PI * 2)
+        context.fillStyle = item.color ?? '#7c3aed'
+        context.fill()
+        if (item.icon) {
+          context.font = `2.2px "${ICON_FONT}"`
+          context.fillStyle = '#ffffff'
+          context.textAlign = 'center'
+          context.textBaseline = 'middle'
+          context.fillText(item.icon, x + 3, y + 1.6)
+        }
+      }
+
+      context.fillStyle = '#111827'
+      context.font = `2.3px ${FONT}`
+      context.textAlign = 'left'
+      context.textBaseline = 'middle'
+      context.fillText(item.label, x + 8, y + 1.6, columnWidth - 9)
+    })
+  }
+
+  /**
+   * Draw a symbol from the Kartverket legend in the same simplified form as the
+   * Tegnforklaring dialog
+   */
+  private static drawSymbol(context: CanvasRenderingContext2D, symbol: MapSymbol, x: number, y: number, width: number, height: number): void {
+    const { visual } = symbol
+    const color = visual.rgb ? `rgb(${visual.rgb.join(',')})` : '#000000'
+    const background = visual.backgroundColor ? `rgb(${visual.backgroundColor.join(',')})` : undefined
+
+    context.save()
+    switch (visual.type) {
+      case 'line':
+        context.strokeStyle = color
+        context.lineWidth = visual.lineWidth ? Math.max(0.2, parseFloat(visual.lineWidth) * 0.15) : 0.3
+        context.setLineDash(visual.style === 'dashed' ? [1, 0.6] : visual.style === 'dotted' ? [0.3, 0.5] : [])
+        context.beginPath()
+        context.moveTo(x, y + height / 2)
+        context.lineTo(x + width, y + height / 2)
+        context.stroke()
+        break
+
+      case 'fill':
+        context.fillStyle = background ?? '#dddddd'
+        context.fillRect(x, y, width, height)
+        context.strokeStyle = visual.rgb ? color : '#999999'
+        context.lineWidth = 0.15
+        context.strokeRect(x, y, width, height)
+        break
+
+      default:
+        context.fillStyle = background ?? color
+        context.strokeStyle = color
+        context.lineWidth = 0.15
+        context.beginPath()
+        if (visual.shape === 'circle') {
+          context.arc(x + width / 2, y + height / 2, 1, 0, Math.PI * 2)
+        } else if (visual.shape === 'triangle') {
+          context.moveTo(x + width / 2, y + height / 2 - 1.1)
+          context.lineTo(x + width / 2 + 1.1, y + height / 2 + 0.9)
+          context.lineTo(x + width / 2 - 1.1, y + height / 2 + 0.9)
+          context.closePath()
+        } else {
+          context.rect(x + width / 2 - 1, y + height / 2 - 1, 2, 2)
+        }
+        context.fill()
+        if (background) context.stroke()
+    }
+    context.restore()
+  }
+
+  private static drawHaloText(context: CanvasRenderingContext2D, text: string, x: number, y: number, color: string): void {
+    context.strokeStyle = 'rgba(255, 255, 255, 0.9)'
+    context.lineWidth = 0.6
+    context.lineJoin = 'round'
+    context.strokeText(text, x, y)
+    context.fillStyle = color
+    context.fillText(text, x, y)
+  }
+
+  /**
+   * POI categories on the map first, then the Kartverket symbols for topographic maps
+   */
+  private static getLegendItems(map: maplibregl.Map, pois: POI[]): LegendItem[] {
+    const poiItems = Array.from(new Set(pois.map(poi => poi.type))).map(type => ({
+      label: categoryConfig[type].name,
+      color: categoryConfig[type].color,
+      icon: categoryConfig[type].icon
+    }))
+
+    const isTopo = Boolean(map.getSource('kartverket-topo'))
+    const symbolItems = isTopo
+      ? LEGEND_SYMBOL_IDS
+        .map(id => getSymbolById(id))
+        .filter((symbol): symbol is MapSymbol => symbol !== undefined)
+        .map(symbol => ({ label: symbol.name, symbol }))
+      : []
+
+    return [...poiItems, ...symbolItems]
+  }
+
+  /**
+   * Attribution from the map sources, plus OpenStreetMap for the POIs
+   */
+  private static getAttribution(map: maplibregl.Map, hasPOIs: boolean): string {
+    const attributions = Object.values(map.getStyle().sources)
+      .map(source => 'attribution' in source ? source.attribution?.replace(/<[^>]*>/g, '').trim() : undefined)
+      .filter((attribution): attribution is string => Boolean(attribution))
+
+    if (hasPOIs) attributions.push('© OpenStreetMap-bidragsytere')
+    return Array.from(new Set(attributions)).join(' · ')
+  }
+
+  private static toBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => {
+        if (blob) resolve(blob)
+        else reject(new Error(`Could not encode the map as ${type}`))
+      }, type, quality)
+    })
+  }
+
+  /**
+   * Single page PDF with the map as a full page JPEG image
+   */
+  private static buildPDF(jpeg: Uint8Array, imageWidth: number, imageHeight: number, pageWidth: number, pageHeight: number, title?: string): Blob {
+    const encoder = new TextEncoder()
+    const chunks: Uint8Array[] = []
+    const offsets: number[] = []
+    let length = 0
+
+    const write = (data: string | Uint8Array) => {
+      const bytes = typeof data === 'string' ? encoder.encode(data) : data
+      chunks.push(bytes)
+      length += bytes.length
+    }
+    const writeObject = (body: string, stream?: Uint8Array) => {
+      offsets.push(length)
+      write(`${offsets.length} 0 obj\n${body}\n`)
+      if (stream) {
+        write('stream\n')
+        write(stream)
+        write('\nendstream\n')
+      }
+      write('endobj\n')
+    }
+
+    const width = pageWidth.toFixed(2)
+    const height = pageHeight.toFixed(2)
+    const content = encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`)
+    // PDF strings only need backslashes and parentheses escaped; keep titles ASCII-safe
+    const pdfTitle = (title?.trim() ? title.trim() : 'Trakke kart').replace(/[\\()]/g, '\\$&').replace(/[^\x20-\x7e]/g, '?')
+
+    write('%PDF-1.4\n')
+    writeObject('<< /Type /Catalog /Pages 2 0 R >>')
+    writeObject('<< /Type /Pages /Kids [3 0 R] /Count 1 >>')
+    writeObject(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 4 0 R >> >> /Contents 5 0 R >>`)
+    writeObject(`<< /Type /XObject /Subtype /Image /Width ${imageWidth} /Height ${imageHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${jpeg.length} >>`, jpeg)
+    writeObject(`<< /Length ${content.length} >>`, content)
+    writeObject(`<< /Title (${pdfTitle}) /Producer (Trakke) >>`)
+
+    const xrefOffset = length
+    write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`)
+    offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`))
+    write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info ${offsets.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+    return new Blob(chunks as BlobPart[], { type: 'application/pdf' })
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Measurement store - persists distance measurements in IndexedDB
+ */
+
+import type { DistanceMeasurement } from './distanceService'
+import { DB_STORES, openDatabase, requestToPromise, transactionDone } from './localDatabase'
+
+export class MeasurementStore {
+  /**
+   * All saved measurements, oldest first
+   */
+  static async getAll(): Promise<DistanceMeasurement[]> {
+    try {
+      const db = await openDatabase()
+      const store = db.transaction(DB_STORES.measurements, 'readonly').objectStore(DB_STORES.measurements)
+      const measurements = await requestToPromise(store.getAll() as IDBRequest<DistanceMeasurement[]>)
+
+      return measurements.sort((a, b) => a.created.getTime() - b.created.getTime())
+    } catch (error) {
+      console.error('❌ Error loading measurements:', error)
+      return []
+    }
+  }
+
+  /**
+   * Replace the stored measurements with the given list
+   */
+  static async saveAll(measurements: DistanceMeasurement[]): Promise<void> {
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction(DB_STORES.measurements, 'readwrite')
+      const store = transaction.objectStore(DB_STORES.measurements)
+
+      store.clear()
+      measurements.forEach(measurement => store.put(measurement))
+
+      await transactionDone(transaction)
+    } catch (error) {
+      console.error('❌ Error saving measurements:', error)
+    }
+  }
+}
@@ -0,0 +1,401 @@
+// Offline Map Service - Downloadable map areas for use without coverage
+// Tiles are stored in one Cache Storage cache per package; the service worker
+// falls back to these caches when a tile is missing from its runtime caches.
+
+import type { BoundingBox, TrailType } from '../data/trails'
+import { NaturskogLayerType, NaturskogService, NATURSKOG_LAYERS } from './naturskogService'
+import { TurrutebasenService } from './turrutebasenService'
+
+export const KARTVERKET_TOPO_TILE_URL = 'https://cache.kartverket.no/v1/wmts/1.0.0/topo/default/webmercator/{z}/{y}/{x}.png'
+
+export interface OfflineTileSource {
+  id: string
+  name: string
+  url: string // Tile URL template with {z}/{x}/{y} or {bbox-epsg-3857}
+  kind: 'basemap' | 'overlay'
+}
+
+export interface OfflinePackage {
+  id: string
+  name: string
+  bounds: BoundingBox
+  minZoom: number
+  maxZoom: number
+  sources: OfflineTileSource[]
+  tileCount: number   // Tiles stored (all sources)
+  failedCount: number // Tiles that could not be downloaded
+  sizeBytes: number
+  createdAt: number
+  updatedAt: number
+}
+
+export interface OfflineDownloadProgress {
+  completed: number
+  failed: number
+  total: number
+}
+
+export interface OfflineEstimate {
+  tileCount: number
+  estimatedBytes: number
+}
+
+export interface OfflineStorageStatus {
+  usage: number
+  quota: number
+  persisted: boolean
+}
+
+const STORAGE_KEY = 'trakke_offline_packages_v1'
+
+export class OfflineMapService {
+  // Must match the prefix the service worker fallback looks for (vite.config.ts)
+  private static readonly CACHE_PREFIX = 'trakke-offline-'
+  private static readonly CONCURRENCY = 6
+  private static readonly REQUEST_TIMEOUT = 15000
+  // Typical tile sizes, used for estimates before anything is downloaded
+  private static readonly AVERAGE_TILE_BYTES: Record<OfflineTileSource['kind'], number> = {
+    basemap: 25000,
+    overlay: 6000
+  }
+
+  static readonly MIN_ZOOM = 5
+  static readonly MAX_ZOOM = 17
+  static readonly MAX_TILES = 20000
+
+  /**
+   * Tile sources for a package: the topo basemap plus the overlays that are active on the map
+   */
+  static getTileSources(options: {
+    naturskogLayers?: Iterable<NaturskogLayerType>
+    trailTypes?: TrailType[]
+  } = {}): OfflineTileSource[] {
+    const sources: OfflineTileSource[] = [{
+      id: 'kartverket-topo',
+      name: 'Topografisk kart',
+      url: KARTVERKET_TOPO_TILE_URL,
+      kind: 'basemap'
+    }]
+
+    const naturskogSources = NaturskogService.getWMSLayerSources()
+    for (const layerType of options.naturskogLayers ?? []) {
+      const layer = NATURSKOG_LAYERS.find(l => l.type === layerType)
+      const source = naturskogSources[`naturskog-${layerType}`]
+      if (layer && source) {
+        sources.push({ id: `naturskog-${layerType}`, name: layer.name, url: source.tiles[0], kind: 'overlay' })
+      }
+    }
+
+    const trailNames: Record<'hiking' | 'skiing' | 'cycling' | 'other', string> = {
+      hiking: 'Fotruter',
+      skiing: 'Skiløyper',
+      cycling: 'Sykkelruter',
+      other: 'Andre turruter'
+    }
+    const trailTypes = new Set((options.trailTypes ?? []).map(type => type === 'mixed' ? 'other' : type))
+    trailTypes.forEach(type => {
+      sources.push({
+        id: `turrutebasen-${type}`,
+        name: trailNames[type],
+        url: TurrutebasenService.getWMSTileURL(type),
+        kind: 'overlay'
+      })
+    })
+
+    return sources
+  }
+
+  /**
+   * Estimate tile count and download size for an area
+   */
+  static estimate(bounds: BoundingBox, minZoom: number, maxZoom: number, sources: OfflineTileSource[]): OfflineEstimate {
+    const tilesPerSource = this.countTiles(bounds, minZoom, maxZoom)
+    return {
+      tileCount: tilesPerSource * sources.length,
+      estimatedBytes: sources.reduce((sum, source) => sum + tilesPerSource * this.AVERAGE_TILE_BYTES[source.kind], 0)
+    }
+  }
+
+  /**
+   * All saved packages, newest first
+   */
+  static getPackages(): OfflinePackage[] {
+    try {
+      const data = localStorage.getItem(STORAGE_KEY)
+      if (!data) return []
+      const packages = JSON.parse(data) as OfflinePackage[]
+      return Array.isArray(packages) ? packages.sort((a, b) => b.createdAt - a.createdAt) : []
+    } catch (error) {
+      console.error('❌ Error reading offline packages:', error)
+      return []
+    }
+  }
+
+  /**
+   * Download an area into a new named package
+   */
+  static async downloadPackage(
+    options: {
+      name: string
+      bounds: BoundingBox
+      minZoom: number
+      maxZoom: number
+      sources: OfflineTileSource[]
+    },
+    onProgress?: (progress: OfflineDownloadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<OfflinePackage> {
+    const { tileCount, estimatedBytes } = this.estimate(options.bounds, options.minZoom, options.maxZoom, options.sources)
+    if (tileCount > this.MAX_TILES) {
+      throw new Error(`Området er for stort (${tileCount} fliser, maks ${this.MAX_TILES}). Velg et mindre område eller færre zoomnivåer.`)
+    }
+
+    await this.ensureStorage(estimatedBytes)
+
+    const now = Date.now()
+    const pkg: OfflinePackage = {
+      id: `offline_${now.toString(36)}_${Math.random().toString(36).substring(2, 8)}`,
+      name: options.name.trim() || 'Offline-område',
+      bounds: options.bounds,
+      minZoom: options.minZoom,
+      maxZoom: options.maxZoom,
+      sources: options.sources,
+      tileCount: 0,
+      failedCount: 0,
+      sizeBytes: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+
+    try {
+      const result = await this.fetchTiles(pkg, onProgress, signal)
+      Object.assign(pkg, result)
+    } catch (error) {
+      // Don't leave half-downloaded caches behind
+      await caches.delete(this.cacheName(pkg.id))
+      throw error
+    }
+
+    this.savePackages([pkg, ...this.getPackages()])
+    console.log(`✅ Offline package "${pkg.name}" saved: ${pkg.tileCount} tiles, ${this.formatBytes(pkg.sizeBytes)}`)
+    return pkg
+  }
+
+  /**
+   * Download all tiles of a package again, replacing the stored copies
+   */
+  static async refreshPackage(
+    id: string,
+    onProgress?: (progress: OfflineDownloadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<OfflinePackage> {
+    const pkg = this.getPackages().find(p => p.id === id)
+    if (!pkg) {
+      throw new Error('Fant ikke offline-området')
+    }
+
+    const result = await this.fetchTiles(pkg, onProgress, signal)
+    const updated: OfflinePackage = { ...pkg, ...result, updatedAt: Date.now() }
+
+    this.savePackages(this.getPackages().map(p => p.id === id ? updated : p))
+    return updated
+  }
+
+  /**
+   * Delete a package and its stored tiles
+   */
+  static async deletePackage(id: string): Promise<void> {
+    if ('caches' in window) {
+      await caches.delete(this.cacheName(id))
+    }
+    this.savePackages(this.getPackages().filter(p => p.id !== id))
+  }
+
+  /**
+   * Storage usage and quota for the origin, and whether storage is persistent
+   */
+  static async getStorageStatus(): Promise<OfflineStorageStatus | null> {
+    if (!navigator.storage?.estimate) return null
+
+    try {
+      const [estimate, persisted] = await Promise.all([
+        navigator.storage.estimate(),
+        navigator.storage.persisted ? navigator.storage.persisted() : Promise.resolve(false)
+      ])
+      return {
+        usage: estimate.usage ?? 0,
+        quota: estimate.quota ?? 0,
+        persisted
+      }
+    } catch (error) {
+      console.warn('⚠️ Could not read storage estimate:', error)
+      return null
+    }
+  }
+
+  static formatBytes(bytes: number): string {
+    if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+    if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+    return `${Math.max(1, Math.round(bytes / 1024))} kB`
+  }
+
+  // Private helpers
+
+  private static cacheName(id: string): string {
+    return `${this.CACHE_PREFIX}${id}`
+  }
+
+  private static savePackages(packages: OfflinePackage[]): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(packages))
+    } catch (error) {
+      console.error('❌ Error saving offline packages:', error)
+      throw new Error('Kunne ikke lagre offline-området')
+    }
+  }
+
+  /**
+   * Ask for persistent storage (so the browser won't evict packages under
+   * storage pressure) and check that the download fits in the remaining quota
+   */
+  private static async ensureStorage(requiredBytes: number): Promise<void> {
+    if (!('caches' in window)) {
+      throw new Error('Nettleseren støtter ikke lagring av kart for offline bruk')
+    }
+
+    if (navigator.storage?.persist) {
+      const persisted = await navigator.storage.persist()
+      if (!persisted) {
+        console.warn('⚠️ Persistent storage not granted - offline packages may be evicted')
+      }
+    }
+
+    const status = await this.getStorageStatus()
+    if (status && status.quota > 0 && requiredBytes > status.quota - status.usage) {
+      throw new Error(`Ikke nok lagringsplass: trenger ca. ${this.formatBytes(requiredBytes)}, ${this.formatBytes(Math.max(0, status.quota - status.usage))} ledig`)
+    }
+  }
+
+  /**
+   * Download every tile of a package into its cache, with a small worker pool
+   */
+  private static async fetchTiles(
+    pkg: OfflinePackage,
+    onProgress?: (progress: OfflineDownloadProgress) => void,
+    signal?: AbortSignal
+  ): Promise<Pick<OfflinePackage, 'tileCount' | 'failedCount' | 'sizeBytes'>> {
+    const urls: string[] = []
+    for (const tile of this.tilesInBounds(pkg.bounds, pkg.minZoom, pkg.maxZoom)) {
+      pkg.sources.forEach(source => urls.push(this.tileUrl(source.url, tile.x, tile.y, tile.z)))
+    }
+
+    const cache = await caches.open(this.cacheName(pkg.id))
+    const progress: OfflineDownloadProgress = { completed: 0, failed: 0, total: urls.length }
+    let sizeBytes = 0
+    let next = 0
+
+    onProgress?.({ ...progress })
+
+    const worker = async () => {
+      while (next < urls.length) {
+        signal?.throwIfAborted()
+        const url = urls[next++]
+
+        try {
+          // no-store routes the request past the service worker's tile caches (see vite.config.ts),
+          // so a refresh stores fresh tiles and downloads do not churn the runtime cache
+          const response = await fetch(url, { cache: 'no-store', signal: AbortSignal.timeout(this.REQUEST_TIMEOUT) })
+          if (!response.ok) {
+            throw new Error(`HTTP ${response.status}`)
+          }
+          const blob = await response.clone().blob()
+          await cache.put(url, response)
+          sizeBytes += blob.size
+          progress.completed++
+        } catch {
+          progress.failed++
+        }
+
+        onProgress?.({ ...progress })
+      }
+    }
+
+    await Promise.all(Array.from({ length: this.CONCURRENCY }, worker))
+
+    if (progress.completed === 0 && progress.total > 0) {
+      throw new Error('Ingen kartfliser kunne lastes ned. Sjekk nettilkoblingen.')
+    }
+
+    return { tileCount: progress.completed, failedCount: progress.failed, sizeBytes }
+  }
+
+  private static countTiles(bounds: BoundingBox, minZoom: number, maxZoom: number): number {
+    let count = 0
+    for (let z = minZoom; z <= maxZoom; z++) {
+      const range = this.tileRange(bounds, z)
+      count += (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1)
+    }
+    return count
+  }
+
+  private static *tilesInBounds(bounds: BoundingBox, minZoom: number, maxZoom: number): Generator<{ x: number; y: number; z: number }> {
+    for (let z = minZoom; z <= maxZoom; z++) {
+      const range = this.tileRange(bounds, z)
+      for (let x = range.minX; x <= range.maxX; x++) {
+        for (let y = range.minY; y <= range.maxY; y++) {
+          yield { x, y, z }
+        }
+      }
+    }
+  }
+
+  /**
+   * Web Mercator (XYZ) tile range covering the bounds at a zoom level
+   */
+  private static tileRange(bounds: BoundingBox, z: number): { minX: number; maxX: number; minY: number; maxY: number } {
+    const n = Math.pow(2, z)
+    const clamp = (value: number) => Math.min(n - 1, Math.max(0, value))
+    const tileX = (lng: number) => clamp(Math.floor((lng + 180) / 360 * n))
+    const tileY = (lat: number) => {
+      const latRad = Math.max(-85.0511, Math.min(85.0511, lat)) * Math.PI / 180
+      return clamp(Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * n))
+    }
+
+    return {
+      minX: tileX(bounds.west),
+      maxX: tileX(bounds.east),
+      minY: tileY(bounds.north),
+      maxY: tileY(bounds.south)
+    }
+  }
+
+  /**
+   * Expand a tile URL template the same way MapLibre does, so that cached
+   * URLs match the requests the map makes
+   */
+  private static tileUrl(template: string, x: number, y: number, z: number): string {
+    return template
+      .replace(/{z}/g, String(z))
+      .replace(/{x}/g, String(x))
+      .replace(/{y}/g, String(y))
+      .replace(/{bbox-epsg-3857}/g, this.tileBBox(x, y, z))
+  }
+
+  /**
+   * EPSG:3857 bbox of an XYZ tile, computed exactly like MapLibre's getTileBBox
+   */
+  private static tileBBox(x: number, y: number, z: number): string {
+    const flippedY = Math.pow(2, z) - y - 1
+    const mercCoords = (px: number, py: number): [number, number] => {
+      const resolution = (2 * Math.PI * 6378137 / 256) / Math.pow(2, z)
+      return [
+        px * resolution - 2 * Math.PI * 6378137 / 2.0,
+        py * resolution - 2 * Math.PI * 6378137 / 2.0
+      ]
+    }
+
+    const min = mercCoords(x * 256, flippedY * 256)
+    const max = mercCoords((x + 1) * 256, (flippedY + 1) * 256)
+    return `${min[0]},${min[1]},${max[0]},${max[1]}`
+  }
+}
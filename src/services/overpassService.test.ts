@@ -0,0 +1,158 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+// The service keeps endpoint health between requests, so each test loads a fresh copy
+let OverpassService: typeof import('./overpassService').OverpassService
+let PoiTileCache: typeof import('./poiTileCache').PoiTileCache
+
+const BOUNDS = { north: 60.6, south: 60.5, east: 7.6, west: 7.4 }
+
+const overpassResponse = (elements: object[]) =>
+  new Response(JSON.stringify({ version: 0.6, generator: 'Overpass API', elements }))
+
+const count = (total: number) => ({ type: 'count', id: 0, tags: { nodes: String(total), ways: '0', relations: '0', total: String(total) } })
+
+beforeEach(async () => {
+  vi.resetModules()
+  ;({ OverpassService } = await import('./overpassService'))
+  ;({ PoiTileCache } = await import('./poiTileCache'))
+  vi.spyOn(PoiTileCache, 'read').mockResolvedValue(new Map())
+  vi.spyOn(PoiTileCache, 'write').mockResolvedValue()
+  vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  vi.spyOn(console, 'error').mockImplementation(() => undefined)
+})
+
+describe('OverpassService.fetchCategoryPOIs', () => {
+  it('queries each category in its own block, followed by its count', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(overpassResponse([count(0), count(0)]))
+
+    await OverpassService.fetchCategoryPOIs(['foss', 'gapahuk_vindskjul'], BOUNDS)
+
+    const query = String(fetchMock.mock.calls[0][1]?.body).replace(/\([-\d.,]+\);/g, '(bbox);')
+    expect(query).toBe([
+      '[out:json][timeout:25];',
+      '(',
+      '  nw["waterway"="waterfall"](bbox);',
+      '  nw["natural"="waterfall"](bbox);',
+      ');',
+      'out center body 500;',
+      'out count;',
+      '(',
+      '  nw["amenity"="shelter"]["shelter_type"~"^(basic_hut|weather_shelter|rock_shelter|lavvu)$"](bbox);',
+      '  nw["amenity"="shelter"][!"shelter_type"](bbox);',
+      ');',
+      'out center body 100;',
+      'out count;'
+    ].join('\n'))
+  })
+
+  it('splits the elements into categories by their filters', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(overpassResponse([
+      { type: 'node', id: 1, lat: 60.55, lon: 7.5, tags: { waterway: 'waterfall', name: 'Vøringsfossen' } },
+      { type: 'way', id: 2, center: { lat: 60.56, lon: 7.51 }, tags: { natural: 'waterfall' } },
+      count(2),
+      { type: 'node', id: 3, lat: 60.57, lon: 7.52, tags: { amenity: 'shelter', shelter_type: 'basic_hut' } },
+      { type: 'node', id: 4, lat: 60.57, lon: 7.53, tags: { amenity: 'shelter', shelter_type: 'picnic_shelter' } },
+      { type: 'node', id: 5, lat: 60.58, lon: 7.54, tags: { amenity: 'shelter' } },
+      // Outside the requested bounds
+      { type: 'node', id: 6, lat: 60.7, lon: 7.5, tags: { amenity: 'shelter' } },
+      count(4)
+    ]))
+
+    const result = await OverpassService.fetchCategoryPOIs(['foss', 'gapahuk_vindskjul'], BOUNDS)
+
+    expect(result.pois.foss.map(poi => poi.id)).toEqual(['osm_node_1', 'osm_way_2'])
+    expect(result.pois.foss[0]).toMatchObject({ name: 'Vøringsfossen', lat: 60.55, lng: 7.5, category: 'foss' })
+    expect(result.pois.gapahuk_vindskjul.map(poi => poi.id)).toEqual(['osm_node_3', 'osm_node_5'])
+    expect(result.truncated).toEqual([])
+    expect(result.failed).toEqual([])
+  })
+
+  it('flags categories whose block hit its limit, and does not cache them', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(overpassResponse([
+      { type: 'node', id: 1, lat: 60.55, lon: 7.5, tags: { waterway: 'waterfall' } },
+      count(1),
+      // The limit counts elements before filtering: these are all left out, but the block is still full
+      ...Array.from({ length: 100 }, (_, i) =>
+        ({ type: 'node', id: 100 + i, lat: 60.55, lon: 7.5, tags: { amenity: 'shelter', shelter_type: 'picnic_shelter' } })),
+      count(140)
+    ]))
+
+    const result = await OverpassService.fetchCategoryPOIs(['foss', 'gapahuk_vindskjul'], BOUNDS)
+
+    expect(result.truncated).toEqual(['gapahuk_vindskjul'])
+    expect(result.pois.gapahuk_vindskjul).toEqual([])
+    expect(vi.mocked(PoiTileCache.write).mock.calls.map(([dataset]) => dataset)).toEqual(['overpass:foss'])
+  })
+})
+
+describe('OverpassService endpoint failover', () => {
+  const ENDPOINTS = [
+    'https://overpass-api.de/api/interpreter',
+    'https://overpass.kumi.systems/api/interpreter',
+    'https://overpass.private.coffee/api/interpreter'
+  ]
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    return () => vi.useRealTimers()
+  })
+
+  const endpointsCalled = (fetchMock: { mock: { calls: unknown[][] } }) => fetchMock.mock.calls.map(([url]) => url)
+
+  it('fails over to the next endpoint on 504', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('', { status: 504 }))
+      .mockResolvedValueOnce(overpassResponse([count(0)]))
+
+    const result = await OverpassService.fetchCategoryPOIs(['foss'], BOUNDS)
+
+    expect(endpointsCalled(fetchMock)).toEqual(ENDPOINTS.slice(0, 2))
+    expect(result.failed).toEqual([])
+    expect(OverpassService.getStatus()).toBe('degraded')
+  })
+
+  it('waits for Retry-After when every endpoint is rate limited', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '5' } }))
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '8' } }))
+      .mockResolvedValueOnce(new Response('', { status: 429, headers: { 'Retry-After': '10' } }))
+      .mockResolvedValueOnce(overpassResponse([count(0)]))
+
+    const request = OverpassService.fetchCategoryPOIs(['foss'], BOUNDS)
+    await vi.advanceTimersByTimeAsync(4900)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+
+    await vi.advanceTimersByTimeAsync(100)
+    const result = await request
+
+    // The endpoint that asked for the shortest wait is retried
+    expect(endpointsCalled(fetchMock)).toEqual([...ENDPOINTS, ENDPOINTS[0]])
+    expect(result.failed).toEqual([])
+  })
+
+  it('gives up without waiting when Retry-After is too long', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValue(new Response('', { status: 429, headers: { 'Retry-After': '120' } }))
+
+    const result = await OverpassService.fetchCategoryPOIs(['foss'], BOUNDS)
+
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+    expect(result.failed).toEqual(['foss'])
+  })
+
+  it('reports the categories as failed when every endpoint fails', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockRejectedValue(new TypeError('Failed to fetch'))
+    const statuses: string[] = []
+    OverpassService.onStatusChange(status => statuses.push(status))
+
+    const request = OverpassService.fetchCategoryPOIs(['foss', 'gapahuk_vindskjul'], BOUNDS)
+    // Backs off 2 s before retrying the first endpoint
+    await vi.advanceTimersByTimeAsync(2000)
+    const result = await request
+
+    expect(endpointsCalled(fetchMock)).toEqual([...ENDPOINTS, ENDPOINTS[0]])
+    expect(result).toEqual({ pois: { foss: [], gapahuk_vindskjul: [] }, truncated: [], failed: ['foss', 'gapahuk_vindskjul'] })
+    expect(statuses).toEqual(['unavailable'])
+    expect(PoiTileCache.write).not.toHaveBeenCalled()
+  })
+})
@@ -1,8 +1,11 @@
 /**
  * Service for fetching POI data from OpenStreetMap using Overpass API
- * Specializes in Norwegian historic and military sites
+ * What to query for each category is declared in data/poiSources.ts
  */
 
+import { overpassPOISources, OverpassPOISource } from '../data/poiSources'
+import { CachedTile, PoiTileCache } from './poiTileCache'
+
 export interface OverpassPOI {
   id: string
   name: string
@@ -22,7 +25,7 @@ export interface POIBounds {
 }
 
 interface OverpassElement {
-  type: 'node' | 'way' | 'relation'
+  type: 'node' | 'way' | 'relation' | 'count'
   id: number
   lat?: number
   lon?: number
@@ -36,1353 +39,419 @@ interface OverpassResponse {
   elements: OverpassElement[]
 }
 
-export class OverpassService {
-  private static readonly BASE_URL = 'https://overpass-api.de/api/interpreter'
-  private static readonly CACHE_DURATION = 10 * 60 * 1000 // 10 minutes
-  private static cache = new Map<string, { data: OverpassPOI[], timestamp: number }>()
-
-  /**
-   * Fetch Krigsminne (war memorial) POIs from OpenStreetMap
-   * Queries for historic=fort, historic=castle, and military tags
-   */
-  static async fetchKrigsminnePOIs(bounds: POIBounds): Promise<OverpassPOI[]> {
-    const cacheKey = `krigsminner_norway_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-    
-    // Check cache first (temporarily disabled for testing)
-    // const cached = this.cache.get(cacheKey)
-    // if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-    //   return cached.data
-    // }
-
-    try {
-      
-      // Constrain bounds to Norway's geographic limits
-      const norwayBounds = {
-        north: Math.min(bounds.north, 72.0),  // Norway's northernmost point
-        south: Math.max(bounds.south, 57.5),  // Norway's southernmost point  
-        east: Math.min(bounds.east, 32.0),    // Norway's easternmost point
-        west: Math.max(bounds.west, 4.0)      // Norway's westernmost point
-      }
-
-      // Debug the Overpass query by logging the bounds and query
-      
-      // Specific query for war memorials/Krigsminne only
-      const overpassQuery = `
-        [out:json][timeout:25];
-        (
-          // War memorials specifically
-          node["historic"="memorial"]["memorial"="war_memorial"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["historic"="memorial"]["memorial"="war_memorial"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // Historic forts (defensive structures)
-          node["historic"="fort"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["historic"="fort"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // WWII bunkers (actual war sites)
-          node["military"="bunker"]["bunker_type"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // Historic battlefields
-          node["historic"="battlefield"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-        );
-        out center body 100;
-      `.trim()
-      
-
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
-
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
-      }
-
-      // Ensure proper UTF-8 decoding
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-      
-      // Debug: Check for Norwegian characters in response
-      const sampleElements = data.elements?.slice(0, 3) || []
-      sampleElements.forEach((element: { tags?: { name?: string } }, _index: number) => {
-        if (element.tags?.name) {
-          // Character encoding check removed - now handled by UTF-8 decoding above
-        }
-      })
+export interface OverpassCategoryPOIs {
+  pois: Record<string, OverpassPOI[]>
+  truncated: string[] // Categories that hit their result limit, so parts of the area are missing
+  failed: string[] // Categories whose request failed, so only cached POIs (if any) are included
+}
 
-      const pois = this.transformOverpassDataToPOIs(data)
+// 'degraded' - the last request needed retries or a fallback endpoint
+// 'unavailable' - the last request failed, only cached POIs are shown
+export type OverpassStatus = 'ok' | 'degraded' | 'unavailable'
 
-      // Cache the results
-      this.cache.set(cacheKey, { data: pois, timestamp: Date.now() })
-      
-      return pois
+interface EndpointHealth {
+  failures: number
+  blockedUntil: number
+}
 
-    } catch (error) {
-      console.error('❌ Error fetching Krigsminne from Overpass API:', error)
-      return []
-    }
+class RetryableError extends Error {
+  constructor(message: string, readonly retryAfter?: number) {
+    super(message)
+    this.name = 'RetryableError'
   }
+}
 
-  /**
-   * Fetch cave entrance POIs from OpenStreetMap
-   * Queries for natural=cave_entrance tags
-   */
-  static async fetchCaveEntrancePOIs(bounds: POIBounds): Promise<OverpassPOI[]> {
-    const cacheKey = `caves_norway_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-    
-    try {
-      
-      // Constrain bounds to Norway's geographic limits
-      const norwayBounds = {
-        north: Math.min(bounds.north, 72.0),  // Norway's northernmost point
-        south: Math.max(bounds.south, 57.5),  // Norway's southernmost point  
-        east: Math.min(bounds.east, 32.0),    // Norway's easternmost point
-        west: Math.max(bounds.west, 4.0)      // Norway's westernmost point
-      }
-
-      
-      // Specific query for cave entrances only
-      const overpassQuery = `
-        [out:json][timeout:25];
-        (
-          // Natural cave entrances
-          node["natural"="cave_entrance"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["natural"="cave_entrance"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-        );
-        out center body 100;
-      `.trim()
-      
-
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
-
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
-      }
-
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-      
-      const pois = this.transformCaveEntranceDataToPOIs(data)
-
-      // Cache the results
-      this.cache.set(cacheKey, { data: pois, timestamp: Date.now() })
-      
-      return pois
-
-    } catch (error) {
-      console.error('❌ Error fetching cave entrances from Overpass API:', error)
-      return []
-    }
+export class OverpassService {
+  // Public Overpass instances, tried in order of health. Override with VITE_OVERPASS_ENDPOINTS (comma separated)
+  private static readonly ENDPOINTS = (import.meta.env.VITE_OVERPASS_ENDPOINTS as string | undefined)
+    ?.split(',').map(url => url.trim()).filter(Boolean) ?? [
+      'https://overpass-api.de/api/interpreter',
+      'https://overpass.kumi.systems/api/interpreter',
+      'https://overpass.private.coffee/api/interpreter'
+    ]
+  private static readonly REQUEST_TIMEOUT = 30 * 1000 // The query itself asks for 25 s
+  private static readonly MAX_ATTEMPTS = 4
+  private static readonly BACKOFF_BASE = 2 * 1000
+  private static readonly BACKOFF_MAX = 60 * 1000
+  // Longest we wait for a rate-limited endpoint before giving up
+  private static readonly MAX_WAIT = 15 * 1000
+  private static readonly TILE_TTL = 7 * 24 * 60 * 60 * 1000 // 7 days - OSM data changes slowly
+  private static health = new Map<string, EndpointHealth>()
+  private static status: OverpassStatus = 'ok'
+  private static statusListeners = new Set<(status: OverpassStatus) => void>()
+
+  static getStatus(): OverpassStatus {
+    return this.status
   }
 
   /**
-   * Fetch observation towers and watchtowers from OpenStreetMap
-   * Queries for man_made=tower with tower:type=observation or tower:type=watchtower
+   * Report status changes. Returns an unsubscribe function.
    */
-  static async fetchObservationTowerPOIs(bounds: POIBounds): Promise<OverpassPOI[]> {
-    const cacheKey = `towers_norway_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-    
-    try {
-      
-      // Constrain bounds to Norway's geographic limits
-      const norwayBounds = {
-        north: Math.min(bounds.north, 72.0),  // Norway's northernmost point
-        south: Math.max(bounds.south, 57.5),  // Norway's southernmost point  
-        east: Math.min(bounds.east, 32.0),    // Norway's easternmost point
-        west: Math.max(bounds.west, 4.0)      // Norway's westernmost point
-      }
-
-      
-      // Specific query for observation towers and watchtowers
-      const overpassQuery = `
-        [out:json][timeout:25];
-        (
-          // Observation towers
-          node["man_made"="tower"]["tower:type"="observation"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["man_made"="tower"]["tower:type"="observation"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // Watchtowers (for fire observation, military observation, etc.)
-          node["man_made"="tower"]["tower:type"="watchtower"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["man_made"="tower"]["tower:type"="watchtower"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // General observation towers (some may not have tower:type tag)
-          node["man_made"="tower"]["tourism"="viewpoint"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-        );
-        out center body 100;
-      `.trim()
-      
-
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
-
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
-      }
-
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-      
-      const pois = this.transformObservationTowerDataToPOIs(data)
-
-      // Cache the results
-      this.cache.set(cacheKey, { data: pois, timestamp: Date.now() })
-      
-      return pois
-
-    } catch (error) {
-      console.error('❌ Error fetching observation towers from Overpass API:', error)
-      return []
-    }
+  static onStatusChange(listener: (status: OverpassStatus) => void): () => void {
+    this.statusListeners.add(listener)
+    return () => this.statusListeners.delete(listener)
   }
 
   /**
-   * Transform Overpass API response to our POI format
+   * Fetch POIs for categories declared in the POI source registry
+   * The viewport is assembled from cached tiles; categories with missing or expired tiles are
+   * fetched together in one union query, and the response is split back into categories.
+   * If the request fails, expired tiles are used instead (e.g. when offline), and the categories
+   * are reported as failed. Categories that hit their result limit are reported as truncated and not cached.
+   * Rejects with an AbortError if the signal is aborted (the viewport was superseded).
    */
-  private static transformOverpassDataToPOIs(overpassData: OverpassResponse): OverpassPOI[] {
-    if (!overpassData.elements) {
-      return []
-    }
+  static async fetchCategoryPOIs(categoryIds: string[], bounds: POIBounds, signal?: AbortSignal): Promise<OverpassCategoryPOIs> {
+    const queryBounds = this.constrainToNorway(bounds)
+    const tileKeys = PoiTileCache.getTileKeys(queryBounds)
+    const now = Date.now()
 
-    const pois: OverpassPOI[] = []
-    
-    overpassData.elements.forEach((element: OverpassElement) => {
-      try {
-        let lat: number, lng: number
-
-        // Handle different OSM element types
-        if (element.type === 'node') {
-          if (element.lat === undefined || element.lon === undefined) {
-            return
-          }
-          lat = element.lat
-          lng = element.lon
-        } else if (element.type === 'way' || element.type === 'relation') {
-          // For ways and relations, we need to use center coordinates
-          if (element.center) {
-            lat = element.center.lat
-            lng = element.center.lon
-          } else {
-            // Skip if no coordinates available
-            return
-          }
-        } else {
-          return
-        }
-
-        // Validate coordinates and ensure they're within Norway's boundaries
-        if (!lat || !lng || isNaN(lat) || isNaN(lng)) {
-          return
-        }
-        
-        // Additional Norway boundary check to exclude neighboring countries
-        if (lat < 57.5 || lat > 72.0 || lng < 4.0 || lng > 32.0) {
-          return
-        }
+    const cachedTiles = new Map<string, Map<string, CachedTile<OverpassPOI>>>()
+    const missingTiles = new Map<string, string[]>()
 
-        const tags = element.tags || {}
-        
-        // Generate Norwegian name
-        const name = this.extractName(tags)
-        
-        // Generate description
-        const _description = this.generateDescription(tags)
-        
-        // Determine type
-        const type = this.determineType(tags)
-
-        const poi: OverpassPOI = {
-          id: `osm_${element.type}_${element.id}`,
-          name,
-          type,
-          lat,
-          lng,
-          category: 'war_memorials', // All are categorized as war memorials
-          tags,
-          lastUpdated: new Date().toISOString()
-        }
+    for (const categoryId of categoryIds) {
+      if (!overpassPOISources[categoryId]) continue
 
-        pois.push(poi)
-      } catch (error) {
-        console.error(`❌ Failed to process Overpass element:`, error)
+      // Too large an area to cache - fetch it directly
+      if (!tileKeys) {
+        missingTiles.set(categoryId, [])
+        continue
       }
-    })
 
-    return pois
-  }
+      const tiles = await PoiTileCache.read<OverpassPOI>(`overpass:${categoryId}`, tileKeys)
+      cachedTiles.set(categoryId, tiles)
 
-  /**
-   * Transform cave entrance Overpass API response to our POI format
-   */
-  private static transformCaveEntranceDataToPOIs(overpassData: OverpassResponse): OverpassPOI[] {
-    if (!overpassData.elements) {
-      return []
+      const missing = tileKeys.filter(tileKey => {
+        const tile = tiles.get(tileKey)
+        return !tile || now - tile.fetched > this.TILE_TTL
+      })
+      if (missing.length > 0) missingTiles.set(categoryId, missing)
     }
 
-    const pois: OverpassPOI[] = []
-    
-    overpassData.elements.forEach((element: OverpassElement) => {
-      try {
-        let lat: number, lng: number
-
-        // Handle different OSM element types
-        if (element.type === 'node') {
-          if (element.lat === undefined || element.lon === undefined) {
-            return
-          }
-          lat = element.lat
-          lng = element.lon
-        } else if (element.type === 'way' || element.type === 'relation') {
-          // For ways and relations, we need to use center coordinates
-          if (element.center) {
-            lat = element.center.lat
-            lng = element.center.lon
-          } else {
-            // Skip if no coordinates available
-            return
-          }
-        } else {
-          return
-        }
+    let fetched: OverpassCategoryPOIs | null = { pois: {}, truncated: [], failed: [] }
+    if (missingTiles.size > 0) {
+      const fetchBounds = tileKeys
+        ? this.constrainToNorway(PoiTileCache.getEnclosingBounds(Array.from(new Set(Array.from(missingTiles.values()).flat()))))
+        : queryBounds
+      fetched = await this.fetchFromOverpass(Array.from(missingTiles.keys()), fetchBounds, signal)
 
-        // Validate coordinates and ensure they're within Norway's boundaries
-        if (!lat || !lng || isNaN(lat) || isNaN(lng)) {
-          return
-        }
-        
-        // Additional Norway boundary check to exclude neighboring countries
-        if (lat < 57.5 || lat > 72.0 || lng < 4.0 || lng > 32.0) {
-          return
+      // Truncated results would leave holes in the cache, so only complete ones are stored
+      missingTiles.forEach((tiles, categoryId) => {
+        const pois = fetched?.pois[categoryId]
+        if (tileKeys && pois && !fetched?.truncated.includes(categoryId)) {
+          void PoiTileCache.write(`overpass:${categoryId}`, tiles, pois)
         }
-
-        const tags = element.tags || {}
-        
-        // Generate Norwegian name for cave
-        const name = this.extractCaveName(tags)
-        
-        // Generate cave description
-        const _description = this.generateCaveDescription(tags)
-        
-        // Determine cave type
-        const type = this.determineCaveType(tags)
-
-        const poi: OverpassPOI = {
-          id: `osm_${element.type}_${element.id}`,
-          name,
-          type,
-          lat,
-          lng,
-          category: 'caves', // All are categorized as caves
-          tags,
-          lastUpdated: new Date().toISOString()
-        }
-
-        pois.push(poi)
-      } catch (error) {
-        console.error(`❌ Failed to process cave entrance element:`, error)
-      }
-    })
-
-    return pois
-  }
-
-  /**
-   * Transform observation tower Overpass API response to our POI format
-   */
-  private static transformObservationTowerDataToPOIs(overpassData: OverpassResponse): OverpassPOI[] {
-    if (!overpassData.elements) {
-      return []
+      })
     }
 
-    const pois: OverpassPOI[] = []
-    
-    overpassData.elements.forEach((element: OverpassElement) => {
-      try {
-        let lat: number, lng: number
-
-        // Handle different OSM element types
-        if (element.type === 'node') {
-          if (element.lat === undefined || element.lon === undefined) {
-            return
-          }
-          lat = element.lat
-          lng = element.lon
-        } else if (element.type === 'way' || element.type === 'relation') {
-          // For ways and relations, we need to use center coordinates
-          if (element.center) {
-            lat = element.center.lat
-            lng = element.center.lon
-          } else {
-            // Skip if no coordinates available
-            return
-          }
-        } else {
-          return
-        }
+    const result: Record<string, OverpassPOI[]> = {}
+    for (const categoryId of new Set([...cachedTiles.keys(), ...missingTiles.keys()])) {
+      const refreshed = fetched?.pois[categoryId]
+      const refreshedTiles = refreshed ? missingTiles.get(categoryId) ?? [] : []
+      const pois = new Map<string, OverpassPOI>()
 
-        // Validate coordinates and ensure they're within Norway's boundaries
-        if (!lat || !lng || isNaN(lat) || isNaN(lng)) {
-          return
-        }
-        
-        // Additional Norway boundary check to exclude neighboring countries
-        if (lat < 57.5 || lat > 72.0 || lng < 4.0 || lng > 32.0) {
-          return
+      cachedTiles.get(categoryId)?.forEach((tile, tileKey) => {
+        if (!refreshedTiles.includes(tileKey)) {
+          tile.items.forEach(poi => pois.set(poi.id, poi))
         }
+      })
+      refreshed?.forEach(poi => pois.set(poi.id, poi))
 
-        const tags = element.tags || {}
-        
-        // Generate Norwegian name for tower
-        const name = this.extractTowerName(tags)
-        
-        // Generate tower description
-        const _description = this.generateTowerDescription(tags)
-        
-        // Determine tower type
-        const type = this.determineTowerType(tags)
-
-        const poi: OverpassPOI = {
-          id: `osm_${element.type}_${element.id}`,
-          name,
-          type,
-          lat,
-          lng,
-          category: 'towers', // All are categorized as towers
-          tags,
-          lastUpdated: new Date().toISOString()
-        }
-
-        pois.push(poi)
-      } catch (error) {
-        console.error(`❌ Failed to process observation tower element:`, error)
-      }
-    })
-
-    return pois
-  }
+      result[categoryId] = Array.from(pois.values()).filter(poi => this.isInBounds(poi, bounds))
+    }
 
-  /**
-   * Ensure proper UTF-8 encoding for Norwegian characters
-   */
-  private static ensureUTF8(text: string): string {
-    // If text contains encoded characters like "?" instead of æøå, try to fix
-    if (typeof text !== 'string') return text
-    
-    // Ensure the text is properly decoded
-    try {
-      // Double-check UTF-8 encoding
-      const encoded = encodeURIComponent(text)
-      const decoded = decodeURIComponent(encoded)
-      return decoded
-    } catch {
-      console.warn('UTF-8 encoding issue with text:', text)
-      return text
+    return {
+      pois: result,
+      truncated: fetched?.truncated ?? [],
+      failed: fetched ? [] : Array.from(missingTiles.keys())
     }
   }
 
   /**
-   * Extract meaningful name from OSM tags with Norwegian fallbacks
+   * Run one union query for several categories and split the response into categories
+   * Returns null if the request failed
    */
-  private static extractName(tags: Record<string, string>): string {
-    // Try Norwegian names first
-    const norwegianName = tags['name:no'] || tags['name:nb'] || tags['name:nn']
-    if (norwegianName) return this.ensureUTF8(norwegianName)
+  private static async fetchFromOverpass(categoryIds: string[], bounds: POIBounds, signal?: AbortSignal): Promise<OverpassCategoryPOIs | null> {
+    try {
+      const data = await this.requestWithFailover(this.buildQuery(categoryIds, bounds), signal)
 
-    // Try general name
-    if (tags.name) return this.ensureUTF8(tags.name)
+      const pois: Record<string, OverpassPOI[]> = {}
+      categoryIds.forEach(categoryId => {
+        pois[categoryId] = this.transformElements(data, categoryId, overpassPOISources[categoryId])
+      })
 
-    // Try English name as fallback
-    if (tags['name:en']) return this.ensureUTF8(tags['name:en'])
+      // Each block ends with a count of everything it matched, before the limit and our own filtering
+      const counts = (data.elements ?? []).filter(element => element.type === 'count')
+      const truncated = categoryIds.filter((categoryId, index) => {
+        const total = Number(counts[index]?.tags.total)
+        return isNaN(total) || total > (overpassPOISources[categoryId].limit ?? 100)
+      })
+      return { pois, truncated, failed: [] }
+    } catch (error) {
+      if (signal?.aborted) throw error
 
-    // Generate Norwegian name based on type
-    if (tags.historic === 'fort') return 'Fort'
-    if (tags.historic === 'castle') return 'Slott'
-    if (tags.historic === 'battlefield') return 'Slagmark'
-    if (tags.historic === 'memorial') return 'Minnesmerke'
-    if (tags.memorial === 'war_memorial') return 'Krigsminne'
-    if (tags.memorial === 'stolperstein') return 'Snublestein'
-    if (tags.military === 'bunker') return 'Bunker'
-    if (tags.military === 'naval_mine') return 'Sjømine'
-    if (tags.military === 'trench') return 'Skyttergraver'
-    if (tags.military) return `Militært anlegg`
-
-    return 'Historisk sted'
+      console.error(`❌ Error fetching ${categoryIds.join(', ')} from Overpass API:`, error)
+      this.setStatus('unavailable')
+      return null
+    }
   }
 
   /**
-   * Generate Norwegian description based on OSM tags
+   * Send a query to the healthiest endpoint, failing over to the others
+   * Rate limits (429) and overload (503/504) back off exponentially, honouring Retry-After
    */
-  private static generateDescription(tags: Record<string, string>): string {
-    const parts: string[] = []
-
-    // Add historic type with enhanced details
-    if (tags.historic === 'fort') {
-      let fortDesc = 'Historisk fort'
-      if (tags.ruins === 'yes') {
-        fortDesc += ' (ruiner)'
-      }
-      parts.push(fortDesc)
-    } else if (tags.historic === 'castle') {
-      let castleDesc = 'Slott eller borg'
-      if (tags.ruins === 'yes') {
-        castleDesc += ' (ruiner)'
-      }
-      parts.push(castleDesc)
-    } else if (tags.historic === 'battlefield') {
-      parts.push('Historisk slagmark')
-    } else if (tags.historic === 'memorial') {
-      parts.push('Minnesmerke')
-    }
+  private static async requestWithFailover(query: string, signal?: AbortSignal): Promise<OverpassResponse> {
+    let lastError: unknown = null
 
-    // Add construction date
-    if (tags.start_date) {
-      const year = tags.start_date.substring(0, 4) // Extract year from date
-      if (year && !isNaN(Number(year))) {
-        parts.push(`Bygget ${year}`)
-      }
-    }
+    for (let attempt = 0; attempt < this.MAX_ATTEMPTS; attempt++) {
+      signal?.throwIfAborted()
+      const endpoint = this.pickEndpoint()
+      const wait = this.getHealth(endpoint).blockedUntil - Date.now()
 
-    // Add architect information
-    if (tags.architect) {
-      parts.push(`Arkitekt: ${this.ensureUTF8(tags.architect)}`)
-    }
+      if (wait > this.MAX_WAIT) break
+      if (wait > 0) await this.sleep(wait, signal)
 
-    // Add heritage status
-    if (tags.heritage) {
-      if (tags.heritage.includes('unesco')) {
-        parts.push('UNESCO-verdensarvsted')
-      } else if (tags.heritage.includes('national')) {
-        parts.push('Nasjonalt kulturminne')
-      } else {
-        parts.push('Verneverdig kulturminne')
-      }
-    }
+      try {
+        const data = await this.request(endpoint, query, signal)
+        this.health.set(endpoint, { failures: 0, blockedUntil: 0 })
+        this.setStatus(attempt === 0 ? 'ok' : 'degraded')
+        return data
+      } catch (error) {
+        if (signal?.aborted) throw error
 
-    // Add military type
-    if (tags.military) {
-      const militaryTypes: Record<string, string> = {
-        'bunker': 'militær bunker',
-        'airfield': 'militært flyplassområde',
-        'barracks': 'militær kaserne',
-        'naval_base': 'marineanlegg',
-        'range': 'skyte- og øvingsområde',
-        'training_area': 'militært treningsområde',
-        'danger_area': 'militært fareområde',
-        'naval_mine': 'sjømine',
-        'checkpoint': 'kontrollpost',
-        'trench': 'skyttergraver',
-        'office': 'militærkontor',
-        'depot': 'militærdepot'
-      }
-      parts.push(militaryTypes[tags.military] || `militært anlegg (${tags.military})`)
-    }
+        lastError = error
+        const health = this.getHealth(endpoint)
+        const backoff = Math.min(this.BACKOFF_BASE * 2 ** health.failures, this.BACKOFF_MAX)
+        const retryAfter = error instanceof RetryableError ? error.retryAfter : undefined
+        this.health.set(endpoint, {
+          failures: health.failures + 1,
+          blockedUntil: Date.now() + (retryAfter ?? backoff)
+        })
 
-    // Add memorial details
-    if (tags.memorial) {
-      const memorialTypes: Record<string, string> = {
-        'war_memorial': 'krigsminne',
-        'stolperstein': 'snublestein',
-        'statue': 'minnesmerke-statue',
-        'plaque': 'minneplakett',
-        'stone': 'minnestein',
-        'cross': 'minnekors',
-        'obelisk': 'minnesmerke-obelisk',
-        'monument': 'monument'
+        if (!(error instanceof RetryableError)) break
+        console.warn(`⚠️ Overpass endpoint ${endpoint} failed, trying another:`, error.message)
       }
-      parts.push(memorialTypes[tags.memorial] || `minnesmerke (${tags.memorial})`)
-    }
-
-    // Add time period if available
-    if (tags.start_date) {
-      parts.push(`fra ${tags.start_date}`)
-    }
-
-    // Add heritage status
-    if (tags.heritage) {
-      parts.push('kulturminneobjekt')
-    }
-
-    // Add accessibility information  
-    if (tags.wheelchair === 'yes') {
-      parts.push('♿ Tilgjengelig for rullestol')
-    } else if (tags.wheelchair === 'limited') {
-      parts.push('♿ Delvis tilgjengelig for rullestol')
-    }
-
-    // Add access information
-    if (tags.access === 'private') {
-      parts.push('⚠️ Privat eiendom')
-    } else if (tags.access === 'no') {
-      parts.push('❌ Stengt for allmennheten')
-    } else if (tags.access === 'customers') {
-      parts.push('🎫 Kun for kunder/besøkende')
-    }
-
-    // Add opening hours if available
-    if (tags.opening_hours) {
-      parts.push(`🕒 Åpningstider: ${tags.opening_hours}`)
-    }
-
-    // Add fee information
-    if (tags.fee === 'yes') {
-      parts.push('💰 Inngang/avgift påkrevd')
-    } else if (tags.fee === 'no') {
-      parts.push('🆓 Gratis inngang')
-    }
-
-    // Add Wikipedia link for more information
-    if (tags.wikipedia) {
-      const wikiUrl = tags.wikipedia.includes('http') 
-        ? tags.wikipedia 
-        : `https://no.wikipedia.org/wiki/${encodeURIComponent(tags.wikipedia.replace('no:', ''))}`
-      parts.push(`📖 Les mer: ${wikiUrl}`)
-    } else if (tags.wikidata) {
-      parts.push(`📖 Wikidata: https://www.wikidata.org/wiki/${tags.wikidata}`)
     }
 
-    // Add description from OSM if available
-    if (tags.description) {
-      parts.push(this.ensureUTF8(tags.description))
-    }
-
-    return parts.length > 0 
-      ? parts.join('. ').charAt(0).toUpperCase() + parts.join('. ').slice(1) + '.'
-      : 'Historisk eller militært anlegg i Norge.'
+    throw lastError ?? new Error('All Overpass endpoints are rate limited')
   }
 
-  /**
-   * Determine POI type based on OSM tags (Norwegian terms)
-   */
-  private static determineType(tags: Record<string, string>): string {
-    if (tags.historic === 'fort') return 'Fort'
-    if (tags.historic === 'castle') return 'Slott'
-    if (tags.historic === 'battlefield') return 'Slagmark'
-    if (tags.historic === 'memorial') return 'Minnesmerke'
-    if (tags.memorial === 'war_memorial') return 'Krigsminne'
-    if (tags.memorial === 'stolperstein') return 'Snublestein'
-    if (tags.military === 'bunker') return 'Bunker'
-    if (tags.military === 'naval_mine') return 'Sjømine'
-    if (tags.military === 'trench') return 'Skyttergraver'
-    if (tags.military === 'naval_base') return 'Marineanlegg'
-    if (tags.military) return 'Militæranlegg'
-    
-    return 'Historisk sted'
-  }
+  private static async request(endpoint: string, query: string, signal?: AbortSignal): Promise<OverpassResponse> {
+    const controller = new AbortController()
+    const abort = () => controller.abort()
+    signal?.addEventListener('abort', abort)
+    const timeoutId = setTimeout(abort, this.REQUEST_TIMEOUT)
 
-  /**
-   * Extract meaningful name from OSM tags for caves with Norwegian fallbacks
-   */
-  private static extractCaveName(tags: Record<string, string>): string {
-    // Try Norwegian names first
-    const norwegianName = tags['name:no'] || tags['name:nb'] || tags['name:nn']
-    if (norwegianName) return this.ensureUTF8(norwegianName)
-
-    // Try general name
-    if (tags.name) return this.ensureUTF8(tags.name)
-
-    // Try English name as fallback
-    if (tags['name:en']) return this.ensureUTF8(tags['name:en'])
-
-    // Generate Norwegian name based on location or features
-    if (tags.cave_entrance === 'yes') return 'Huleinngang'
-    if (tags.natural === 'cave_entrance') return 'Hule'
-    
-    return 'Hule'
-  }
-
-  /**
-   * Generate Norwegian description for caves based on OSM tags
-   */
-  private static generateCaveDescription(tags: Record<string, string>): string {
-    const parts: string[] = []
-
-    // Add cave type
-    if (tags.natural === 'cave_entrance') {
-      parts.push('Naturlig huleinngang')
-    }
-
-    // Add cave system information
-    if (tags.cave) {
-      if (tags.cave === 'system') {
-        parts.push('del av hulesystem')
-      } else if (tags.cave === 'single') {
-        parts.push('enkeltstående hule')
-      }
-    }
-
-    // Add geological information
-    if (tags.geological === 'limestone') {
-      parts.push('kalksteinhule')
-    } else if (tags.geological === 'sandstone') {
-      parts.push('sandsteinhule')
-    } else if (tags.geological === 'granite') {
-      parts.push('granitthule')
-    }
-
-    // Add length information
-    if (tags.length) {
-      const length = parseFloat(tags.length)
-      if (!isNaN(length)) {
-        if (length >= 1000) {
-          parts.push(`lengde: ${(length / 1000).toFixed(1)} km`)
-        } else {
-          parts.push(`lengde: ${length} meter`)
-        }
-      }
-    }
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Accept': 'application/json; charset=utf-8',
+          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
+        },
+        body: query,
+        signal: controller.signal
+      })
 
-    // Add depth information
-    if (tags.depth) {
-      const depth = parseFloat(tags.depth)
-      if (!isNaN(depth)) {
-        parts.push(`dybde: ${depth} meter`)
+      if (response.status === 429 || response.status === 502 || response.status === 503 || response.status === 504) {
+        throw new RetryableError(`Overpass API request failed: ${response.status}`, this.parseRetryAfter(response.headers.get('Retry-After')))
       }
-    }
-
-    // Add difficulty/access information
-    if (tags.difficulty) {
-      const difficulties: Record<string, string> = {
-        'easy': 'lett tilgjengelig',
-        'moderate': 'moderat vanskelighetsgrad',
-        'difficult': 'vanskelig tilgang',
-        'expert': 'kun for erfarne huleutforskere'
+      if (!response.ok) {
+        throw new Error(`Overpass API request failed: ${response.status}`)
       }
-      parts.push(difficulties[tags.difficulty] || `vanskelighetsgrad: ${tags.difficulty}`)
-    }
 
-    // Add equipment requirements
-    if (tags.equipment) {
-      const equipmentTypes: Record<string, string> = {
-        'helmet': 'hjelm påkrevd',
-        'light': 'lommelykt påkrevd',
-        'rope': 'tau påkrevd',
-        'wetsuit': 'våtdrakt påkrevd'
+      // Ensure proper UTF-8 decoding
+      const responseText = await response.text()
+      return JSON.parse(responseText) as OverpassResponse
+    } catch (error) {
+      // Network errors and timeouts are worth retrying elsewhere; a caller abort is not
+      if (!signal?.aborted && !(error instanceof RetryableError)) {
+        if (controller.signal.aborted) throw new RetryableError('Overpass API request timed out')
+        if (error instanceof TypeError) throw new RetryableError(error.message)
       }
-      parts.push(equipmentTypes[tags.equipment] || `utstyr: ${tags.equipment}`)
+      throw error
+    } finally {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', abort)
     }
+  }
 
-    // Add safety warnings
-    if (tags.hazard) {
-      parts.push(`⚠️ Fare: ${tags.hazard}`)
-    }
+  // Healthy endpoints in configured order, then the one that recovers first
+  private static pickEndpoint(): string {
+    const now = Date.now()
+    const available = this.ENDPOINTS.find(endpoint => this.getHealth(endpoint).blockedUntil <= now)
+    if (available) return available
 
-    if (tags.access === 'private') {
-      parts.push('⚠️ Privat eiendom')
-    } else if (tags.access === 'no') {
-      parts.push('❌ Stengt for allmennheten')
-    } else if (tags.access === 'permit') {
-      parts.push('🎫 Tilgang krever tillatelse')
-    }
+    return this.ENDPOINTS.reduce((best, endpoint) =>
+      this.getHealth(endpoint).blockedUntil < this.getHealth(best).blockedUntil ? endpoint : best
+    )
+  }
 
-    // Add opening hours if available
-    if (tags.opening_hours) {
-      parts.push(`🕒 Åpningstider: ${tags.opening_hours}`)
-    }
+  private static getHealth(endpoint: string): EndpointHealth {
+    return this.health.get(endpoint) ?? { failures: 0, blockedUntil: 0 }
+  }
 
-    // Add fee information
-    if (tags.fee === 'yes') {
-      parts.push('💰 Avgift påkrevd')
-    } else if (tags.fee === 'no') {
-      parts.push('🆓 Gratis tilgang')
-    }
+  // Retry-After is either seconds or an HTTP date
+  private static parseRetryAfter(value: string | null): number | undefined {
+    if (!value) return undefined
 
-    // Add Wikipedia link for more information
-    if (tags.wikipedia) {
-      const wikiUrl = tags.wikipedia.includes('http') 
-        ? tags.wikipedia 
-        : `https://no.wikipedia.org/wiki/${encodeURIComponent(tags.wikipedia.replace('no:', ''))}`
-      parts.push(`📖 Les mer: ${wikiUrl}`)
-    } else if (tags.wikidata) {
-      parts.push(`📖 Wikidata: https://www.wikidata.org/wiki/${tags.wikidata}`)
-    }
+    const seconds = Number(value)
+    if (!isNaN(seconds)) return seconds * 1000
 
-    // Add description from OSM if available
-    if (tags.description) {
-      parts.push(this.ensureUTF8(tags.description))
-    }
+    const date = Date.parse(value)
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0)
+  }
 
-    return parts.length > 0 
-      ? parts.join('. ').charAt(0).toUpperCase() + parts.join('. ').slice(1) + '.'
-      : 'Naturlig hule i Norge.'
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timeoutId = setTimeout(resolve, ms)
+      signal?.addEventListener('abort', () => {
+        clearTimeout(timeoutId)
+        reject(new DOMException('Aborted', 'AbortError'))
+      }, { once: true })
+    })
   }
 
-  /**
-   * Determine cave POI type based on OSM tags (Norwegian terms)
-   */
-  private static determineCaveType(tags: Record<string, string>): string {
-    if (tags.cave === 'system') return 'Hulesystem'
-    if (tags.cave === 'single') return 'Enkelthule'
-    if (tags.natural === 'cave_entrance') return 'Huleinngang'
-    
-    return 'Hule'
+  private static setStatus(status: OverpassStatus): void {
+    if (status === this.status) return
+    this.status = status
+    this.statusListeners.forEach(listener => listener(status))
   }
 
   /**
-   * Extract meaningful name from OSM tags for towers with Norwegian fallbacks
+   * Build one Overpass QL query for several categories
+   * Each category gets its own output statement so its result limit is kept separately,
+   * followed by a count of the block's full result to tell whether the limit was hit
    */
-  private static extractTowerName(tags: Record<string, string>): string {
-    // Try Norwegian names first
-    const norwegianName = tags['name:no'] || tags['name:nb'] || tags['name:nn']
-    if (norwegianName) return this.ensureUTF8(norwegianName)
-
-    // Try general name
-    if (tags.name) return this.ensureUTF8(tags.name)
-
-    // Try English name as fallback
-    if (tags['name:en']) return this.ensureUTF8(tags['name:en'])
-
-    // Generate Norwegian name based on tower type
-    if (tags['tower:type'] === 'observation') return 'Observasjonstårn'
-    if (tags['tower:type'] === 'watchtower') return 'Vakttårn'
-    if (tags['tower:type'] === 'fire_observation') return 'Brannvakttårn'
-    if (tags.tourism === 'viewpoint') return 'Utsiktstårn'
-    if (tags.man_made === 'tower') return 'Tårn'
-    
-    return 'Observasjonstårn'
+  private static buildQuery(categoryIds: string[], bounds: POIBounds): string {
+    const bbox = `${bounds.south},${bounds.west},${bounds.north},${bounds.east}`
+
+    const blocks = categoryIds.map(categoryId => {
+      const source = overpassPOISources[categoryId]
+      const statements = source.filters.map(filter => `  nw${filter}(${bbox});`)
+      return ['(', ...statements, ');', `out center body ${source.limit ?? 100};`, 'out count;'].join('\n')
+    })
+
+    return ['[out:json][timeout:25];', ...blocks].join('\n')
   }
 
   /**
-   * Generate Norwegian description for towers based on OSM tags
+   * Check an element's tags against an Overpass tag filter such as
+   * ["amenity"="shelter"][!"shelter_type"] or ["aerialway"~"^(gondola|goods)$"]
    */
-  private static generateTowerDescription(tags: Record<string, string>): string {
-    const parts: string[] = []
-
-    // Add tower type
-    if (tags['tower:type']) {
-      const towerTypes: Record<string, string> = {
-        'observation': 'observasjonstårn for utsikt',
-        'watchtower': 'vakttårn for overvåking',
-        'fire_observation': 'brannvakttårn',
-        'communication': 'kommunikasjonstårn',
-        'water': 'vanntårn',
-        'bell_tower': 'klokketårn'
-      }
-      parts.push(towerTypes[tags['tower:type']] || `tårn av type ${tags['tower:type']}`)
-    } else if (tags.man_made === 'tower') {
-      parts.push('byggetårn')
-    }
-
-    // Add height information
-    if (tags.height) {
-      const height = parseFloat(tags.height)
-      if (!isNaN(height)) {
-        parts.push(`høyde: ${height} meter`)
-      }
-    } else if (tags.ele) {
-      const elevation = parseFloat(tags.ele)
-      if (!isNaN(elevation)) {
-        parts.push(`høyde over havet: ${elevation} meter`)
-      }
-    }
+  private static matchesFilter(tags: Record<string, string>, filter: string): boolean {
+    const conditions = filter.matchAll(/\[(!?)"([^"]+)"(?:(!=|=|~)"([^"]*)")?\]/g)
 
-    // Add construction information
-    if (tags.start_date) {
-      const year = tags.start_date.substring(0, 4)
-      if (year && !isNaN(Number(year))) {
-        parts.push(`bygget ${year}`)
-      }
-    }
+    for (const [, negated, key, operator, value] of conditions) {
+      const tagValue = tags[key] as string | undefined
 
-    // Add material information
-    if (tags.material) {
-      const materials: Record<string, string> = {
-        'wood': 'bygget av tre',
-        'concrete': 'bygget av betong',
-        'steel': 'bygget av stål',
-        'stone': 'bygget av stein',
-        'brick': 'bygget av murstein'
+      if (negated) {
+        if (tagValue !== undefined) return false
+      } else if (tagValue === undefined) {
+        return false
+      } else if (operator === '=' && tagValue !== value) {
+        return false
+      } else if (operator === '!=' && tagValue === value) {
+        return false
+      } else if (operator === '~' && !new RegExp(value).test(tagValue)) {
+        return false
       }
-      parts.push(materials[tags.material] || `bygget av ${tags.material}`)
-    }
-
-    // Add viewpoint information
-    if (tags.tourism === 'viewpoint') {
-      parts.push('utsiktspunkt for besøkende')
-    }
-
-    // Add operator information
-    if (tags.operator) {
-      parts.push(`drift: ${this.ensureUTF8(tags.operator)}`)
-    }
-
-    // Add access information
-    if (tags.access === 'private') {
-      parts.push('⚠️ Privat eiendom')
-    } else if (tags.access === 'no') {
-      parts.push('❌ Stengt for allmennheten')
-    } else if (tags.access === 'customers') {
-      parts.push('🎫 Kun for besøkende/kunder')
-    } else if (tags.access === 'yes') {
-      parts.push('🆓 Offentlig tilgjengelig')
-    }
-
-    // Add opening hours if available
-    if (tags.opening_hours) {
-      parts.push(`🕒 Åpningstider: ${tags.opening_hours}`)
     }
 
-    // Add fee information
-    if (tags.fee === 'yes') {
-      parts.push('💰 Inngang/avgift påkrevd')
-    } else if (tags.fee === 'no') {
-      parts.push('🆓 Gratis adgang')
-    }
-
-    // Add climbing information
-    if (tags.climbing === 'yes') {
-      parts.push('🧗 Klatring tillatt')
-    } else if (tags.climbing === 'no') {
-      parts.push('⛔ Klatring forbudt')
-    }
-
-    // Add safety warnings
-    if (tags.hazard) {
-      parts.push(`⚠️ Fare: ${tags.hazard}`)
-    }
-
-    // Add Wikipedia link for more information
-    if (tags.wikipedia) {
-      const wikiUrl = tags.wikipedia.includes('http') 
-        ? tags.wikipedia 
-        : `https://no.wikipedia.org/wiki/${encodeURIComponent(tags.wikipedia.replace('no:', ''))}`
-      parts.push(`📖 Les mer: ${wikiUrl}`)
-    } else if (tags.wikidata) {
-      parts.push(`📖 Wikidata: https://www.wikidata.org/wiki/${tags.wikidata}`)
-    }
-
-    // Add description from OSM if available
-    if (tags.description) {
-      parts.push(this.ensureUTF8(tags.description))
-    }
-
-    return parts.length > 0 
-      ? parts.join('. ').charAt(0).toUpperCase() + parts.join('. ').slice(1) + '.'
-      : 'Observasjonstårn eller vakttårn i Norge.'
+    return true
   }
 
-  /**
-   * Determine tower POI type based on OSM tags (Norwegian terms)
-   */
-  private static determineTowerType(tags: Record<string, string>): string {
-    if (tags['tower:type'] === 'observation') return 'Observasjonstårn'
-    if (tags['tower:type'] === 'watchtower') return 'Vakttårn'
-    if (tags['tower:type'] === 'fire_observation') return 'Brannvakttårn'
-    if (tags.tourism === 'viewpoint') return 'Utsiktstårn'
-    if (tags['tower:type'] === 'communication') return 'Kommunikasjonstårn'
-    if (tags.man_made === 'tower') return 'Tårn'
-    
-    return 'Observasjonstårn'
+  // Constrain bounds to Norway's geographic limits
+  private static constrainToNorway(bounds: POIBounds): POIBounds {
+    return {
+      north: Math.min(bounds.north, 72.0),
+      south: Math.max(bounds.south, 57.5),
+      east: Math.min(bounds.east, 32.0),
+      west: Math.max(bounds.west, 4.0)
+    }
   }
 
-  /**
-   * Clear cache (useful for development)
-   */
-  static clearCache(): void {
-    this.cache.clear()
+  private static isInBounds(poi: OverpassPOI, bounds: POIBounds): boolean {
+    return poi.lat <= bounds.north && poi.lat >= bounds.south &&
+      poi.lng <= bounds.east && poi.lng >= bounds.west
   }
 
   /**
-   * Fetch hunting stands (observasjonstårn) from OpenStreetMap
+   * Transform the elements of an Overpass API response that belong to a category
    */
-  static async fetchHuntingStandPOIs(bounds: POIBounds): Promise<OverpassPOI[]> {
-    const cacheKey = `hunting_stands_norway_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-    
-    try {
-      
-      // Constrain bounds to Norway's geographic limits
-      const norwayBounds = {
-        north: Math.min(bounds.north, 72.0),
-        south: Math.max(bounds.south, 57.5),
-        east: Math.min(bounds.east, 32.0),
-        west: Math.max(bounds.west, 4.0)
-      }
-
-      const overpassQuery = `
-        [out:json][timeout:25];
-        (
-          // Hunting stands - amenity=hunting_stand
-          node["amenity"="hunting_stand"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-        );
-        out center body 100;
-      `.trim()
-      
-
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
-
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
-      }
-
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-      
-      // Return raw POI data without generic transformation - let the app handle specific transformation
-      const rawPois = data.elements?.map((element: OverpassElement) => ({
-        id: element.id || `${element.type}-${element.lat}-${element.lon}`,
-        type: element.type || 'node',
-        lat: element.lat || element.center?.lat,
-        lng: element.lon || element.center?.lon,
-        name: element.tags?.name || element.tags?.['name:no'] || element.tags?.['name:nb'] || 'Jakttårn',
-        tags: element.tags || {}
-      })) || []
-      
-
-      // Cache the results
-      this.cache.set(cacheKey, { data: rawPois, timestamp: Date.now() })
-      
-      return rawPois
-    } catch (error) {
-      console.error('❌ Error fetching hunting stands:', error)
+  private static transformElements(overpassData: OverpassResponse, categoryId: string, source: OverpassPOISource): OverpassPOI[] {
+    if (!overpassData.elements) {
       return []
     }
-  }
 
-  /**
-   * Fetch fire pits (bålplass) from OpenStreetMap
-   */
-  static async fetchFirepitPOIs(bounds: POIBounds): Promise<OverpassPOI[]> {
-    const cacheKey = `firepits_norway_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-    
-    try {
-      
-      // Constrain bounds to Norway's geographic limits
-      const norwayBounds = {
-        north: Math.min(bounds.north, 72.0),
-        south: Math.max(bounds.south, 57.5),
-        east: Math.min(bounds.east, 32.0),
-        west: Math.max(bounds.west, 4.0)
-      }
+    const pois = new Map<string, OverpassPOI>()
 
-      const overpassQuery = `
-        [out:json][timeout:25];
-        (
-          // Fire pits - leisure=firepit
-          node["leisure"="firepit"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["leisure"="firepit"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-        );
-        out center body 100;
-      `.trim()
-      
-
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
+    overpassData.elements.forEach((element: OverpassElement) => {
+      if (element.type === 'count') return
 
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
+      const tags = element.tags ?? {}
+      if (!source.filters.some(filter => this.matchesFilter(tags, filter)) || source.accept?.(tags) === false) {
+        return
       }
 
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-      
-      // Return raw POI data without generic transformation - let the app handle specific transformation
-      const rawPois = data.elements?.map((element: OverpassElement) => ({
-        id: element.id || `${element.type}-${element.lat}-${element.lon}`,
-        type: element.type || 'node',
-        lat: element.lat || element.center?.lat,
-        lng: element.lon || element.center?.lon,
-        name: element.tags?.name || element.tags?.['name:no'] || element.tags?.['name:nb'] || 'Bål-/grillplass',
-        tags: element.tags || {}
-      })) || []
-      
-
-      // Cache the results
-      this.cache.set(cacheKey, { data: rawPois, timestamp: Date.now() })
-      
-      return rawPois
-    } catch (error) {
-      console.error('❌ Error fetching fire pits:', error)
-      return []
-    }
-  }
+      // Ways and relations carry their position in center
+      const lat = element.type === 'node' ? element.lat : element.center?.lat
+      const lng = element.type === 'node' ? element.lon : element.center?.lon
 
-  /**
-   * Fetch shelters (gapahuk/vindskjul) from OpenStreetMap
-   */
-  static async fetchShelterPOIs(bounds: POIBounds): Promise<OverpassPOI[]> {
-    const cacheKey = `shelters_norway_${bounds.north},${bounds.south},${bounds.east},${bounds.west}`
-    
-    try {
-      
-      // Constrain bounds to Norway's geographic limits
-      const norwayBounds = {
-        north: Math.min(bounds.north, 72.0),
-        south: Math.max(bounds.south, 57.5),
-        east: Math.min(bounds.east, 32.0),
-        west: Math.max(bounds.west, 4.0)
+      if (lat === undefined || lng === undefined || isNaN(lat) || isNaN(lng)) {
+        return
       }
 
-      const overpassQuery = `
-        [out:json][timeout:25];
-        (
-          // Basic huts - amenity=shelter with shelter_type=basic_hut
-          node["amenity"="shelter"]["shelter_type"="basic_hut"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["amenity"="shelter"]["shelter_type"="basic_hut"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // Weather shelters - amenity=shelter with shelter_type=weather_shelter
-          node["amenity"="shelter"]["shelter_type"="weather_shelter"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["amenity"="shelter"]["shelter_type"="weather_shelter"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // Rock shelters - amenity=shelter with shelter_type=rock_shelter
-          node["amenity"="shelter"]["shelter_type"="rock_shelter"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["amenity"="shelter"]["shelter_type"="rock_shelter"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // Lavvu shelters - amenity=shelter with shelter_type=lavvu
-          node["amenity"="shelter"]["shelter_type"="lavvu"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["amenity"="shelter"]["shelter_type"="lavvu"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          
-          // Generic shelters without specific shelter_type - amenity=shelter
-          node["amenity"="shelter"][!"shelter_type"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-          way["amenity"="shelter"][!"shelter_type"](${norwayBounds.south},${norwayBounds.west},${norwayBounds.north},${norwayBounds.east});
-        );
-        out center body 100;
-      `.trim()
-      
-
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
-
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
+      // Additional Norway boundary check to exclude neighboring countries
+      if (lat < 57.5 || lat > 72.0 || lng < 4.0 || lng > 32.0) {
+        return
       }
 
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-      
-      // Return raw POI data without generic transformation - let the app handle specific transformation
-      const rawPois = data.elements?.map((element: OverpassElement) => ({
-        id: element.id || `${element.type}-${element.lat}-${element.lon}`,
-        type: element.type || 'node',
-        lat: element.lat || element.center?.lat,
-        lng: element.lon || element.center?.lon,
-        name: element.tags?.name || element.tags?.['name:no'] || element.tags?.['name:nb'] || 'Gapahuk/vindskjul',
-        tags: element.tags || {}
-      })) || []
-      
-
-      // Cache the results
-      this.cache.set(cacheKey, { data: rawPois, timestamp: Date.now() })
-      
-      return rawPois
-    } catch (error) {
-      console.error('❌ Error fetching shelters:', error)
-      return []
-    }
-  }
-
-  /**
-   * Fetch cable car / gondola POIs within bounds (Taubane)
-   * OSM tags: aerialway=cable_car, aerialway=gondola, aerialway=goods
-   */
-  static async fetchCableCarPOIs(bounds: { north: number; south: number; east: number; west: number }): Promise<OverpassPOI[]> {
-    const { south, west, north, east } = bounds
-    const cacheKey = `cablecars_${south}_${west}_${north}_${east}`
-
-    const cached = this.cache.get(cacheKey)
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data
-    }
-
-    const overpassQuery = `
-      [out:json][timeout:25];
-      (
-        node["aerialway"="cable_car"](${south},${west},${north},${east});
-        way["aerialway"="cable_car"](${south},${west},${north},${east});
-        node["aerialway"="gondola"](${south},${west},${north},${east});
-        way["aerialway"="gondola"](${south},${west},${north},${east});
-        node["aerialway"="goods"](${south},${west},${north},${east});
-        way["aerialway"="goods"](${south},${west},${north},${east});
-      );
-      out center body 500;
-    `.trim()
-
-    try {
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
+      // An element matching several categories is output once per category
+      const id = `osm_${element.type}_${element.id}`
+      pois.set(id, {
+        id,
+        name: this.extractName(tags, source),
+        type: element.type,
+        lat,
+        lng,
+        category: categoryId,
+        tags,
+        lastUpdated: new Date().toISOString()
       })
+    })
 
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
-      }
-
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-
-      const rawPois: OverpassPOI[] = data.elements?.map((element: OverpassElement) => ({
-        id: element.id?.toString() || `cablecar_${element.lat}_${element.lon}`,
-        type: element.type || 'node',
-        lat: element.lat || element.center?.lat,
-        lng: element.lon || element.center?.lon,
-        name: element.tags?.name || element.tags?.['name:no'] || element.tags?.['name:nb'] || 'Taubane',
-        tags: element.tags || {}
-      })) || []
-
-      this.cache.set(cacheKey, { data: rawPois, timestamp: Date.now() })
-      return rawPois
-    } catch (error) {
-      console.error('❌ Error fetching cable cars:', error)
-      return []
-    }
+    return Array.from(pois.values())
   }
 
   /**
-   * Fetch waterfall POIs within bounds (Foss)
-   * OSM tags: waterway=waterfall, natural=waterfall
+   * Ensure proper UTF-8 encoding for Norwegian characters
    */
-  static async fetchWaterfallPOIs(bounds: { north: number; south: number; east: number; west: number }): Promise<OverpassPOI[]> {
-    const { south, west, north, east } = bounds
-    const cacheKey = `waterfalls_${south}_${west}_${north}_${east}`
-
-    const cached = this.cache.get(cacheKey)
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data
-    }
-
-    const overpassQuery = `
-      [out:json][timeout:25];
-      (
-        node["waterway"="waterfall"](${south},${west},${north},${east});
-        way["waterway"="waterfall"](${south},${west},${north},${east});
-        node["natural"="waterfall"](${south},${west},${north},${east});
-        way["natural"="waterfall"](${south},${west},${north},${east});
-      );
-      out center body 500;
-    `.trim()
-
+  private static ensureUTF8(text: string): string {
+    // If text contains encoded characters like "?" instead of æøå, try to fix
+    if (typeof text !== 'string') return text
+    
+    // Ensure the text is properly decoded
     try {
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
-
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
-      }
-
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-
-      const rawPois: OverpassPOI[] = data.elements?.map((element: OverpassElement) => ({
-        id: element.id?.toString() || `waterfall_${element.lat}_${element.lon}`,
-        type: element.type || 'node',
-        lat: element.lat || element.center?.lat,
-        lng: element.lon || element.center?.lon,
-        name: element.tags?.name || element.tags?.['name:no'] || element.tags?.['name:nb'] || 'Foss',
-        tags: element.tags || {}
-      })) || []
-
-      this.cache.set(cacheKey, { data: rawPois, timestamp: Date.now() })
-      return rawPois
-    } catch (error) {
-      console.error('❌ Error fetching waterfalls:', error)
-      return []
+      // Double-check UTF-8 encoding
+      const encoded = encodeURIComponent(text)
+      const decoded = decodeURIComponent(encoded)
+      return decoded
+    } catch {
+      console.warn('UTF-8 encoding issue with text:', text)
+      return text
     }
   }
 
   /**
-   * Fetch viewpoint POIs within bounds (Utsiktspunkt)
-   * OSM tags: tourism=viewpoint
+   * Extract meaningful name from OSM tags with Norwegian fallbacks
    */
-  static async fetchViewpointPOIs(bounds: { north: number; south: number; east: number; west: number }): Promise<OverpassPOI[]> {
-    const { south, west, north, east } = bounds
-    const cacheKey = `viewpoints_${south}_${west}_${north}_${east}`
+  private static extractName(tags: Record<string, string>, source: OverpassPOISource): string {
+    // Try Norwegian names first, then general and English names
+    const name = tags['name:no'] || tags['name:nb'] || tags['name:nn'] || tags.name || tags['name:en']
+    if (name) return this.ensureUTF8(name)
 
-    const cached = this.cache.get(cacheKey)
-    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
-      return cached.data
-    }
-
-    const overpassQuery = `
-      [out:json][timeout:25];
-      (
-        node["tourism"="viewpoint"](${south},${west},${north},${east});
-        way["tourism"="viewpoint"](${south},${west},${north},${east});
-      );
-      out center body 500;
-    `.trim()
-
-    try {
-      const response = await fetch(this.BASE_URL, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'text/plain; charset=utf-8',
-          'Accept': 'application/json; charset=utf-8',
-          'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)'
-        },
-        body: overpassQuery
-      })
-
-      if (!response.ok) {
-        throw new Error(`Overpass API request failed: ${response.status}`)
-      }
-
-      const responseText = await response.text()
-      const data = JSON.parse(responseText)
-
-      const rawPois: OverpassPOI[] = data.elements?.map((element: OverpassElement) => ({
-        id: element.id?.toString() || `viewpoint_${element.lat}_${element.lon}`,
-        type: element.type || 'node',
-        lat: element.lat || element.center?.lat,
-        lng: element.lon || element.center?.lon,
-        name: element.tags?.name || element.tags?.['name:no'] || element.tags?.['name:nb'] || 'Utsiktspunkt',
-        tags: element.tags || {}
-      })) || []
-
-      this.cache.set(cacheKey, { data: rawPois, timestamp: Date.now() })
-      return rawPois
-    } catch (error) {
-      console.error('❌ Error fetching viewpoints:', error)
-      return []
-    }
+    // Generate Norwegian name based on type
+    return source.fallbackName?.(tags) ?? source.label
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest'
+import type { POI } from '../data/pois'
+import { PoiClusterService } from './poiClusterService'
+
+const poi = (id: string, lat: number, lng: number, color?: string): POI => ({
+  id,
+  name: id,
+  description: '',
+  type: 'mountain_peaks',
+  lat,
+  lng,
+  color
+})
+
+// At zoom 10 a degree of longitude is about 1456 px
+describe('PoiClusterService.cluster', () => {
+  it('groups POIs within the radius around their centre', () => {
+    const clusters = PoiClusterService.cluster([poi('a', 60, 9), poi('b', 60, 9.01)], 10)
+
+    expect(clusters).toHaveLength(1)
+    expect(clusters[0].pois.map(p => p.id)).toEqual(['a', 'b'])
+    expect(clusters[0].lat).toBeCloseTo(60)
+    expect(clusters[0].lng).toBeCloseTo(9.005)
+  })
+
+  it('keeps POIs outside the radius apart', () => {
+    const clusters = PoiClusterService.cluster([poi('a', 60, 9), poi('b', 60, 9.05), poi('c', 61, 9)], 10)
+    expect(clusters.map(cluster => cluster.pois.map(p => p.id))).toEqual([['a'], ['b'], ['c']])
+  })
+
+  it('finds neighbours across grid cells', () => {
+    // 40 px apart, in neighbouring grid cells
+    const clusters = PoiClusterService.cluster([poi('a', 60, 9.0299), poi('b', 60, 9.0574)], 10)
+    expect(clusters).toHaveLength(1)
+  })
+
+  it('counts category colours, largest first', () => {
+    const clusters = PoiClusterService.cluster([
+      poi('a', 60, 9, '#111111'),
+      poi('b', 60, 9.001, '#222222'),
+      poi('c', 60, 9.002, '#222222'),
+      poi('d', 60, 9.003)
+    ], 10)
+
+    expect(clusters[0].colors).toEqual([
+      { color: '#222222', count: 2 },
+      { color: '#111111', count: 1 },
+      { color: '#7c3aed', count: 1 }
+    ])
+  })
+
+  it('only groups co-located POIs above the maximum cluster zoom', () => {
+    const pois = [poi('a', 60, 9), poi('b', 60, 9.00001), poi('c', 60, 9.0001)]
+
+    expect(PoiClusterService.cluster(pois, PoiClusterService.MAX_CLUSTER_ZOOM)).toHaveLength(1)
+    expect(PoiClusterService.cluster(pois, PoiClusterService.MAX_CLUSTER_ZOOM + 1).map(cluster => cluster.pois.length))
+      .toEqual([2, 1])
+  })
+
+  it('returns no clusters for no POIs', () => {
+    expect(PoiClusterService.cluster([], 10)).toEqual([])
+  })
+})
+
+describe('PoiClusterService.canExpand', () => {
+  it('is false for POIs at the same spot', () => {
+    const [cluster] = PoiClusterService.cluster([poi('a', 60, 9), poi('b', 60, 9)], 10)
+    expect(PoiClusterService.canExpand(cluster)).toBe(false)
+  })
+
+  it('is true when zooming in separates the POIs', () => {
+    const [cluster] = PoiClusterService.cluster([poi('a', 60, 9), poi('b', 60, 9.001)], 10)
+    expect(PoiClusterService.canExpand(cluster)).toBe(true)
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * POI clustering - groups POIs that would overlap on screen at a given zoom
+ *
+ * Points are projected to Web Mercator pixels (512 px tiles, like MapLibre) and grouped
+ * greedily within a pixel radius, using a grid so large POI sets stay fast. Above
+ * MAX_CLUSTER_ZOOM only points at (almost) the same spot are grouped, to be spiderfied.
+ */
+
+import type { POI } from '../data/pois'
+
+export interface POICluster {
+  lat: number
+  lng: number
+  pois: POI[]
+  // Category colours and how many POIs have each, largest first
+  colors: { color: string; count: number }[]
+}
+
+interface ProjectedPOI {
+  poi: POI
+  x: number
+  y: number
+}
+
+const DEFAULT_COLOR = '#7c3aed'
+
+export class PoiClusterService {
+  static readonly RADIUS = 48 // px
+  static readonly MAX_CLUSTER_ZOOM = 16
+  // Points closer than this at any zoom are treated as the same spot
+  static readonly COLOCATED_RADIUS = 6 // px
+
+  static cluster(pois: POI[], zoom: number): POICluster[] {
+    const radius = zoom > this.MAX_CLUSTER_ZOOM ? this.COLOCATED_RADIUS : this.RADIUS
+    const points = pois.map(poi => ({ poi, ...this.project(poi.lat, poi.lng, zoom) }))
+
+    const grid = new Map<string, number[]>()
+    points.forEach((point, index) => {
+      const key = `${Math.floor(point.x / radius)}:${Math.floor(point.y / radius)}`
+      const cell = grid.get(key)
+      if (cell) {
+        cell.push(index)
+      } else {
+        grid.set(key, [index])
+      }
+    })
+
+    const clustered = new Array<boolean>(points.length).fill(false)
+    const clusters: POICluster[] = []
+
+    points.forEach((point, index) => {
+      if (clustered[index]) return
+
+      const members: ProjectedPOI[] = []
+      const cellX = Math.floor(point.x / radius)
+      const cellY = Math.floor(point.y / radius)
+
+      for (let dx = -1; dx <= 1; dx++) {
+        for (let dy = -1; dy <= 1; dy++) {
+          grid.get(`${cellX + dx}:${cellY + dy}`)?.forEach(candidate => {
+            if (clustered[candidate]) return
+            const other = points[candidate]
+            if (Math.hypot(other.x - point.x, other.y - point.y) <= radius) {
+              clustered[candidate] = true
+              members.push(other)
+            }
+          })
+        }
+      }
+
+      clusters.push(this.createCluster(members))
+    })
+
+    return clusters
+  }
+
+  /**
+   * Whether zooming in can separate the cluster's POIs
+   */
+  static canExpand(cluster: POICluster): boolean {
+    const zoom = this.MAX_CLUSTER_ZOOM + 1
+    const points = cluster.pois.map(poi => this.project(poi.lat, poi.lng, zoom))
+    const width = Math.max(...points.map(p => p.x)) - Math.min(...points.map(p => p.x))
+    const height = Math.max(...points.map(p => p.y)) - Math.min(...points.map(p => p.y))
+
+    return Math.hypot(width, height) > this.COLOCATED_RADIUS
+  }
+
+  static getBounds(pois: POI[]): [[number, number], [number, number]] {
+    const lngs = pois.map(poi => poi.lng)
+    const lats = pois.map(poi => poi.lat)
+    return [[Math.min(...lngs), Math.min(...lats)], [Math.max(...lngs), Math.max(...lats)]]
+  }
+
+  /**
+   * Pixel offsets for spreading co-located POIs around their centre:
+   * a circle for a few, a spiral for many
+   */
+  static getSpiderOffsets(count: number): { x: number; y: number }[] {
+    if (count <= 8) {
+      const radius = Math.max(32, count * 7)
+      return Array.from({ length: count }, (_, i) => {
+        const angle = (i / count) * 2 * Math.PI - Math.PI / 2
+        return { x: Math.cos(angle) * radius, y: Math.sin(angle) * radius }
+      })
+    }
+
+    // Archimedean spiral with roughly 28 px between neighbouring markers
+    const offsets: { x: number; y: number }[] = []
+    let legLength = 22
+    let angle = 0
+    for (let i = count; i >= 0; i--) {
+      if (i < count) offsets[i] = { x: Math.cos(angle) * legLength, y: Math.sin(angle) * legLength }
+      angle += 28 / legLength + i * 0.0005
+      legLength += (2 * Math.PI * 5) / angle
+    }
+    return offsets
+  }
+
+  private static createCluster(members: ProjectedPOI[]): POICluster {
+    const pois = members.map(member => member.poi)
+    const colorCounts = new Map<string, number>()
+    pois.forEach(poi => {
+      const color = poi.color ?? DEFAULT_COLOR
+      colorCounts.set(color, (colorCounts.get(color) ?? 0) + 1)
+    })
+
+    return {
+      lat: pois.reduce((sum, poi) => sum + poi.lat, 0) / pois.length,
+      lng: pois.reduce((sum, poi) => sum + poi.lng, 0) / pois.length,
+      pois,
+      colors: Array.from(colorCounts, ([color, count]) => ({ color, count }))
+        .sort((a, b) => b.count - a.count)
+    }
+  }
+
+  private static project(lat: number, lng: number, zoom: number): { x: number; y: number } {
+    const scale = 512 * 2 ** zoom
+    const sinLat = Math.sin(lat * Math.PI / 180)
+    return {
+      x: (lng + 180) / 360 * scale,
+      y: (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale
+    }
+  }
+}
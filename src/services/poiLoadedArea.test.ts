@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import type { POI } from '../data/pois'
+import { PoiLoadedArea } from './poiLoadedArea'
+import { PoiTileCache } from './poiTileCache'
+
+const poi = (id: string, lat: number, lng: number): POI => ({ id, name: id, description: '', type: 'mountain_peaks', lat, lng })
+
+// The zoom 10 tiles around 60°N 9°E
+const VIEWPORT = { north: 60.2, south: 59.8, east: 9.2, west: 8.8 }
+const TILES = PoiTileCache.getTileKeys(VIEWPORT) as string[]
+
+describe('PoiLoadedArea.addLoad', () => {
+  it('marks the tiles of complete categories as loaded', () => {
+    const area = new PoiLoadedArea()
+    const partial = area.addLoad(new Map([['foss', [poi('a', 60, 9)]]]), TILES, [])
+
+    expect(TILES.length).toBeGreaterThan(1)
+    expect(partial).toEqual([])
+    expect(area.getMissingTiles('foss', TILES)).toEqual([])
+    expect(area.getPOIs().map(p => p.id)).toEqual(['a'])
+  })
+
+  it('returns the POIs of a failed category without marking its tiles as loaded', () => {
+    const area = new PoiLoadedArea()
+    const loaded = new Map([
+      ['foss', [poi('a', 60, 9)]],
+      ['bussholdeplass', [poi('cached stop', 60.01, 9.01)]]
+    ])
+
+    const partial = area.addLoad(loaded, TILES, ['bussholdeplass'])
+
+    expect(partial.map(p => p.id)).toEqual(['cached stop'])
+    expect(area.getMissingTiles('bussholdeplass', TILES)).toEqual(TILES)
+    expect(area.getMissingTiles('foss', TILES)).toEqual([])
+    expect(area.getPOIs().map(p => p.id)).toEqual(['a'])
+  })
+
+  it('stores the category once a later load succeeds', () => {
+    const area = new PoiLoadedArea()
+    area.addLoad(new Map([['bussholdeplass', []]]), TILES, ['bussholdeplass'])
+    area.addLoad(new Map([['bussholdeplass', [poi('stop', 60.01, 9.01)]]]), TILES, [])
+
+    expect(area.getMissingTiles('bussholdeplass', TILES)).toEqual([])
+    expect(area.getPOIs().map(p => p.id)).toEqual(['stop'])
+  })
+
+  it('leaves out partial POIs that are already stored', () => {
+    const area = new PoiLoadedArea()
+    area.addLoad(new Map([['foss', [poi('a', 60, 9)]]]), TILES, [])
+
+    expect(area.addLoad(new Map([['foss', [poi('a', 60, 9), poi('b', 60.01, 9)]]]), TILES, ['foss']).map(p => p.id))
+      .toEqual(['b'])
+  })
+})
@@ -0,0 +1,127 @@
+/**
+ * Loaded POI area - the POIs currently held for the map, per category and map tile
+ *
+ * Uses the same tiles as the POI tile cache, so after a pan only the newly exposed tiles
+ * need loading. Tiles far from the viewport are evicted to keep memory bounded.
+ */
+
+import type { POI } from '../data/pois'
+import { PoiTileCache, TileBounds } from './poiTileCache'
+
+// Key for POIs of a viewport too large to track by tile
+const WHOLE_VIEWPORT = '*'
+
+export class PoiLoadedArea {
+  // Tiles kept on each side of the viewport before their POIs are evicted
+  static readonly KEEP_MARGIN = 2
+
+  private tiles = new Map<string, Map<string, POI[]>>()
+
+  /**
+   * Bounds covering exactly the given tiles. Inset slightly, so the tiles next to them
+   * are not counted as covered.
+   */
+  static getFetchBounds(tileKeys: string[]): TileBounds {
+    const bounds = PoiTileCache.getEnclosingBounds(tileKeys)
+    const inset = 1e-7
+    return {
+      north: bounds.north - inset,
+      south: bounds.south + inset,
+      east: bounds.east - inset,
+      west: bounds.west + inset
+    }
+  }
+
+  /**
+   * Drop categories that are no longer shown, and tiles outside the margin around the viewport
+   * (all tiles if the viewport is too large to track by tile)
+   */
+  retain(categoryIds: string[], viewportTileKeys: string[] | null): void {
+    Array.from(this.tiles.keys())
+      .filter(categoryId => !categoryIds.includes(categoryId))
+      .forEach(categoryId => this.tiles.delete(categoryId))
+
+    if (!viewportTileKeys) {
+      this.tiles.clear()
+      return
+    }
+
+    const coords = viewportTileKeys.map(key => key.split('/').map(Number))
+    const xs = coords.map(([x]) => x)
+    const ys = coords.map(([, y]) => y)
+    const minX = Math.min(...xs) - PoiLoadedArea.KEEP_MARGIN
+    const maxX = Math.max(...xs) + PoiLoadedArea.KEEP_MARGIN
+    const minY = Math.min(...ys) - PoiLoadedArea.KEEP_MARGIN
+    const maxY = Math.max(...ys) + PoiLoadedArea.KEEP_MARGIN
+
+    this.tiles.forEach(categoryTiles => {
+      Array.from(categoryTiles.keys()).forEach(tileKey => {
+        const [x, y] = tileKey.split('/').map(Number)
+        if (tileKey === WHOLE_VIEWPORT || x < minX || x > maxX || y < minY || y > maxY) {
+          categoryTiles.delete(tileKey)
+        }
+      })
+    })
+  }
+
+  /**
+   * Viewport tiles the category has not loaded yet
+   */
+  getMissingTiles(categoryId: string, viewportTileKeys: string[]): string[] {
+    const categoryTiles = this.tiles.get(categoryId)
+    return categoryTiles
+      ? viewportTileKeys.filter(tileKey => !categoryTiles.has(tileKey))
+      : viewportTileKeys
+  }
+
+  /**
+   * Store the POIs loaded for a category over the given tiles, replacing what they held.
+   * Without tiles the POIs replace everything loaded for the category.
+   */
+  add(categoryId: string, tileKeys: string[] | null, pois: POI[]): void {
+    if (!tileKeys) {
+      this.tiles.set(categoryId, new Map([[WHOLE_VIEWPORT, pois]]))
+      return
+    }
+
+    let categoryTiles = this.tiles.get(categoryId)
+    if (!categoryTiles) {
+      categoryTiles = new Map()
+      this.tiles.set(categoryId, categoryTiles)
+    }
+
+    const byTile = new Map<string, POI[]>(tileKeys.map(tileKey => [tileKey, []]))
+    pois.forEach(poi => byTile.get(PoiTileCache.getTileKey(poi))?.push(poi))
+    byTile.forEach((tilePOIs, tileKey) => categoryTiles.set(tileKey, tilePOIs))
+  }
+
+  /**
+   * Store the POIs of a load over the given tiles. Incomplete categories (a failed request, or a
+   * result cut off at its limit) are not stored, so their tiles are loaded again next time; their
+   * POIs are returned instead, to be shown until then.
+   */
+  addLoad(loaded: Map<string, POI[]>, tileKeys: string[] | null, incomplete: string[]): POI[] {
+    const partial: POI[] = []
+    loaded.forEach((pois, categoryId) => {
+      if (incomplete.includes(categoryId)) {
+        partial.push(...pois)
+      } else {
+        this.add(categoryId, tileKeys, pois)
+      }
+    })
+
+    const stored = new Set(this.getPOIs().map(poi => poi.id))
+    return partial.filter(poi => !stored.has(poi.id))
+  }
+
+  /**
+   * All loaded POIs, without duplicates
+   */
+  getPOIs(): POI[] {
+    const pois = new Map<string, POI>()
+    this.tiles.forEach(categoryTiles => {
+      categoryTiles.forEach(tilePOIs => tilePOIs.forEach(poi => pois.set(poi.id, poi)))
+    })
+    return Array.from(pois.values())
+  }
+}
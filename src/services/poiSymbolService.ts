@@ -0,0 +1,107 @@
+/**
+ * POI symbol rendering - draws POIs as MapLibre layers instead of DOM overlays
+ *
+ * Category icons come from the bundled Material Symbols font: each glyph is drawn once
+ * onto a canvas and registered as a map image. Opt-in through the POI render mode setting.
+ */
+
+import type maplibregl from 'maplibre-gl'
+import { categoryConfig, POI } from '../data/pois'
+
+export type POIRenderMode = 'dom' | 'symbols'
+
+const RENDER_MODE_KEY = 'trakke_poi_render_mode'
+const ICON_FONT = 'Material Symbols Outlined'
+const ICON_SIZE = 14 // px, drawn inside the category circle
+const PIXEL_RATIO = 2
+
+export function getSavedPOIRenderMode(): POIRenderMode {
+  try {
+    return localStorage.getItem(RENDER_MODE_KEY) === 'symbols' ? 'symbols' : 'dom'
+  } catch {
+    return 'dom'
+  }
+}
+
+export function savePOIRenderMode(mode: POIRenderMode): void {
+  try {
+    localStorage.setItem(RENDER_MODE_KEY, mode)
+  } catch (error) {
+    console.error('❌ Error saving POI render mode:', error)
+  }
+}
+
+export class PoiSymbolService {
+  static getIconName(poi: POI): string {
+    return categoryConfig[poi.type].icon
+  }
+
+  static getImageId(iconName: string): string {
+    return `poi-icon-${iconName}`
+  }
+
+  /**
+   * Point features for the POIs. The source promotes the POI id to the feature id, so
+   * hover and selection state survive reloads of the same POIs.
+   */
+  static toFeatureCollection(pois: POI[]) {
+    return {
+      type: 'FeatureCollection' as const,
+      features: pois.map(poi => ({
+        type: 'Feature' as const,
+        geometry: {
+          type: 'Point' as const,
+          coordinates: [poi.lng, poi.lat]
+        },
+        properties: {
+          id: poi.id,
+          color: poi.color ?? '#7c3aed',
+          image: this.getImageId(this.getIconName(poi))
+        }
+      }))
+    }
+  }
+
+  /**
+   * Register white category glyphs as map images (once per style, as style changes drop images)
+   */
+  static async addIcons(map: maplibregl.Map, iconNames: string[]): Promise<void> {
+    const missing = Array.from(new Set(iconNames)).filter(name => !map.hasImage(this.getImageId(name)))
+    if (missing.length === 0) return
+
+    // Ligatures only resolve once the web font is loaded
+    try {
+      await document.fonts.load(`${ICON_SIZE * PIXEL_RATIO}px "${ICON_FONT}"`)
+    } catch (error) {
+      console.warn('⚠️ Material Symbols font not loaded, POI icons may be missing:', error)
+    }
+
+    missing.forEach(name => {
+      const imageId = this.getImageId(name)
+      if (map.hasImage(imageId)) return
+
+      const image = this.drawGlyph(name)
+      if (image) {
+        map.addImage(imageId, image, { pixelRatio: PIXEL_RATIO })
+      }
+    })
+  }
+
+  private static drawGlyph(name: string): ImageData | null {
+    const size = ICON_SIZE * PIXEL_RATIO
+    const canvas = document.createElement('canvas')
+    canvas.width = size
+    canvas.height = size
+
+    const context = canvas.getContext('2d')
+    if (!context) return null
+
+    context.font = `${size}px "${ICON_FONT}"`
+    context.fillStyle = '#ffffff'
+    context.textAlign = 'center'
+    context.textBaseline = 'middle'
+    context.fillText(name, size / 2, size / 2)
+
+    return context.getImageData(0, 0, size, size)
+  }
+}
@@ -0,0 +1,85 @@
+import 'fake-indexeddb/auto'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { deleteDatabase } from './localDatabase'
+import { PoiTileCache } from './poiTileCache'
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Oslo sentrum
+const OSLO = { lat: 59.91, lng: 10.75 }
+
+describe('PoiTileCache tile keys', () => {
+  it('keys a location by its zoom 10 tile', () => {
+    expect(PoiTileCache.getTileKey(OSLO)).toBe('542/297')
+  })
+
+  it('covers bounds with every tile they touch', () => {
+    const keys = PoiTileCache.getTileKeys({ north: 60.0, south: 59.8, east: 11.0, west: 10.5 })
+
+    expect(keys).toEqual(['541/297', '541/298', '542/297', '542/298', '543/297', '543/298'])
+  })
+
+  it('encloses the tiles it was given', () => {
+    const bounds = PoiTileCache.getEnclosingBounds(['541/297', '543/298'])
+
+    expect(PoiTileCache.getTileKeys(bounds)).toContain('542/297')
+    expect(bounds.west).toBeLessThanOrEqual(10.5)
+    expect(bounds.east).toBeGreaterThanOrEqual(11.0)
+    expect(bounds.north).toBeGreaterThanOrEqual(60.0)
+    expect(bounds.south).toBeLessThanOrEqual(59.8)
+  })
+
+  it('refuses bounds spanning too many tiles', () => {
+    expect(PoiTileCache.getTileKeys({ north: 71, south: 58, east: 31, west: 4 })).toBeNull()
+  })
+})
+
+describe('PoiTileCache storage', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2026-06-01T12:00:00Z'))
+  })
+
+  afterEach(async () => {
+    vi.useRealTimers()
+    await deleteDatabase()
+  })
+
+  it('reads back the tiles of a bounds range, grouped by tile', async () => {
+    const keys = PoiTileCache.getTileKeys({ north: 60.0, south: 59.8, east: 11.0, west: 10.5 })!
+    const near = { id: 'a', ...OSLO }
+    const east = { id: 'b', lat: 59.85, lng: 10.95 }
+    await PoiTileCache.write('overpass:foss', keys, [near, east])
+
+    const tiles = await PoiTileCache.read<typeof near>('overpass:foss', keys)
+
+    // Tiles without items are stored empty, so the whole range counts as loaded
+    expect([...tiles.keys()].sort()).toEqual([...keys].sort())
+    expect(tiles.get('542/297')?.items).toEqual([near])
+    expect(tiles.get('543/298')?.items).toEqual([east])
+    expect(tiles.get('541/297')?.items).toEqual([])
+    expect(tiles.get('542/297')?.fetched).toBe(Date.now())
+  })
+
+  it('keeps datasets apart and leaves out missing tiles', async () => {
+    await PoiTileCache.write('overpass:foss', ['542/297'], [{ id: 'a', ...OSLO }])
+
+    const tiles = await PoiTileCache.read('overpass:gapahuk_vindskjul', ['542/297'])
+    const partial = await PoiTileCache.read('overpass:foss', ['542/297', '542/296'])
+
+    expect(tiles.size).toBe(0)
+    expect([...partial.keys()]).toEqual(['542/297'])
+  })
+
+  it('prunes tiles older than 30 days', async () => {
+    await PoiTileCache.write('overpass:foss', ['542/297'], [])
+    vi.setSystemTime(Date.now() + 20 * DAY)
+    await PoiTileCache.write('overpass:foss', ['542/296'], [])
+    vi.setSystemTime(Date.now() + 11 * DAY)
+
+    await PoiTileCache.prune()
+    const tiles = await PoiTileCache.read('overpass:foss', ['542/297', '542/296'])
+
+    expect([...tiles.keys()]).toEqual(['542/296'])
+  })
+})
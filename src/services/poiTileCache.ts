@@ -0,0 +1,164 @@
+/**
+ * POI tile cache - persists fetched POIs in IndexedDB, keyed by fixed map tiles
+ *
+ * Tiles are slippy-map tiles at one zoom level, so a viewport is assembled from whatever
+ * tiles are already stored, and only the missing ones need to be fetched. Expired tiles are
+ * kept as an offline fallback until they are pruned.
+ */
+
+import { DB_STORES, openDatabase, requestToPromise, transactionDone } from './localDatabase'
+
+export interface TileBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+export interface CachedTile<T> {
+  key: string
+  items: T[]
+  fetched: number
+}
+
+interface CachedLocation {
+  lat: number
+  lng: number
+}
+
+export class PoiTileCache {
+  // Zoom 10 tiles are roughly 20 x 20 km in southern Norway
+  static readonly TILE_ZOOM = 10
+  // Viewports spanning more tiles than this are fetched without the cache
+  static readonly MAX_TILES = 256
+  private static readonly MAX_AGE = 30 * 24 * 60 * 60 * 1000 // 30 days
+  private static pruned = false
+
+  /**
+   * Keys of the tiles covering the bounds, or null if there are too many to cache
+   */
+  static getTileKeys(bounds: TileBounds): string[] | null {
+    const minX = this.lngToTileX(bounds.west)
+    const maxX = this.lngToTileX(bounds.east)
+    const minY = this.latToTileY(bounds.north)
+    const maxY = this.latToTileY(bounds.south)
+
+    if ((maxX - minX + 1) * (maxY - minY + 1) > this.MAX_TILES) return null
+
+    const keys: string[] = []
+    for (let x = minX; x <= maxX; x++) {
+      for (let y = minY; y <= maxY; y++) {
+        keys.push(`${x}/${y}`)
+      }
+    }
+    return keys
+  }
+
+  /**
+   * The smallest bounds enclosing all the given tiles
+   */
+  static getEnclosingBounds(tileKeys: string[]): TileBounds {
+    const coords = tileKeys.map(key => key.split('/').map(Number))
+    const xs = coords.map(([x]) => x)
+    const ys = coords.map(([, y]) => y)
+
+    return {
+      north: this.tileYToLat(Math.min(...ys)),
+      south: this.tileYToLat(Math.max(...ys) + 1),
+      east: this.tileXToLng(Math.max(...xs) + 1),
+      west: this.tileXToLng(Math.min(...xs))
+    }
+  }
+
+  static getTileKey(location: CachedLocation): string {
+    return `${this.lngToTileX(location.lng)}/${this.latToTileY(location.lat)}`
+  }
+
+  /**
+   * Stored tiles for a dataset (e.g. 'overpass:foss'), keyed by tile key. Missing tiles are left out.
+   */
+  static async read<T>(dataset: string, tileKeys: string[]): Promise<Map<string, CachedTile<T>>> {
+    const tiles = new Map<string, CachedTile<T>>()
+
+    try {
+      const db = await openDatabase()
+      const store = db.transaction(DB_STORES.poiTiles, 'readonly').objectStore(DB_STORES.poiTiles)
+      const records = await Promise.all(tileKeys.map(tileKey =>
+        requestToPromise(store.get(`${dataset}:${tileKey}`) as IDBRequest<CachedTile<T> | undefined>)
+      ))
+
+      records.forEach((record, index) => {
+        if (record) tiles.set(tileKeys[index], record)
+      })
+    } catch (error) {
+      console.error('❌ Error reading POI tile cache:', error)
+    }
+
+    return tiles
+  }
+
+  /**
+   * Store items for each of the given tiles. Tiles without items are stored empty,
+   * so they count as loaded.
+   */
+  static async write<T extends CachedLocation>(dataset: string, tileKeys: string[], items: T[]): Promise<void> {
+    const fetched = Date.now()
+    const byTile = new Map<string, T[]>(tileKeys.map(tileKey => [tileKey, []]))
+    items.forEach(item => byTile.get(this.getTileKey(item))?.push(item))
+
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction(DB_STORES.poiTiles, 'readwrite')
+      const store = transaction.objectStore(DB_STORES.poiTiles)
+      byTile.forEach((tileItems, tileKey) => {
+        store.put({ key: `${dataset}:${tileKey}`, items: tileItems, fetched })
+      })
+      await transactionDone(transaction)
+    } catch (error) {
+      console.error('❌ Error writing POI tile cache:', error)
+    }
+
+    if (!this.pruned) {
+      this.pruned = true
+      void this.prune()
+    }
+  }
+
+  /**
+   * Remove tiles older than MAX_AGE
+   */
+  static async prune(): Promise<void> {
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction(DB_STORES.poiTiles, 'readwrite')
+      const store = transaction.objectStore(DB_STORES.poiTiles)
+      const tiles = await requestToPromise(store.getAll() as IDBRequest<CachedTile<unknown>[]>)
+
+      const cutoff = Date.now() - this.MAX_AGE
+      tiles.filter(tile => tile.fetched < cutoff).forEach(tile => store.delete(tile.key))
+      await transactionDone(transaction)
+    } catch (error) {
+      console.error('❌ Error pruning POI tile cache:', error)
+    }
+  }
+
+  private static lngToTileX(lng: number): number {
+    const x = Math.floor((lng + 180) / 360 * 2 ** this.TILE_ZOOM)
+    return Math.min(Math.max(x, 0), 2 ** this.TILE_ZOOM - 1)
+  }
+
+  private static latToTileY(lat: number): number {
+    const latRad = lat * Math.PI / 180
+    const y = Math.floor((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2 * 2 ** this.TILE_ZOOM)
+    return Math.min(Math.max(y, 0), 2 ** this.TILE_ZOOM - 1)
+  }
+
+  private static tileXToLng(x: number): number {
+    return x / 2 ** this.TILE_ZOOM * 360 - 180
+  }
+
+  private static tileYToLat(y: number): number {
+    const n = Math.PI - 2 * Math.PI * y / 2 ** this.TILE_ZOOM
+    return 180 / Math.PI * Math.atan(Math.sinh(n))
+  }
+}
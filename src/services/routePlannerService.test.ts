@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Trail, TrailDifficulty, TrailType } from '../data/trails'
+import { ElevationService } from './elevationService'
+import { RoutePlannerService } from './routePlannerService'
+
+// About 540 m per 0.01° of longitude and 1110 m per 0.01° of latitude at 61°N
+const START = { lat: 61, lng: 9 }
+const END = { lat: 61, lng: 9.02 }
+
+const trail = (name: string, coordinates: number[][], type: TrailType = 'hiking', difficulty: TrailDifficulty = 'easy'): Trail => ({
+  id: name,
+  geometry: { type: 'LineString', coordinates },
+  properties: { name, difficulty, type, distance: 0, municipality: '', county: '' },
+  metadata: { source: 'local', lastUpdated: '2026-01-01', dataQuality: 1, verified: true }
+})
+
+// Two ways from START to END: straight along the parallel, or a longer bend north
+const direct = trail('Direkte', [[9, 61], [9.01, 61], [9.02, 61]])
+const detour = trail('Omvei', [[9, 61], [9.01, 61.003], [9.02, 61]], 'skiing')
+// Side trails make START and END junctions, where elevation is looked up
+const spurs = [trail('Vest', [[8.995, 61], [9, 61]]), trail('Øst', [[9.02, 61], [9.025, 61]])]
+// A side trail to a hilltop halfway along the direct way
+const hillSpur = trail('Topp', [[9.01, 61], [9.01, 60.997]])
+
+const names = (trails: Trail[]) => trails.map(t => t.properties.name)
+
+const mockElevations = (elevation: (point: { lat: number; lng: number }) => number | null) =>
+  vi.spyOn(ElevationService, 'getElevations').mockImplementation(points => Promise.resolve(points.map(elevation)))
+
+describe('RoutePlannerService.planRoute', () => {
+  beforeEach(() => {
+    vi.spyOn(ElevationService, 'generateElevationProfile').mockResolvedValue([])
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+  })
+
+  it('follows the trails and marks where the route changes trail', async () => {
+    mockElevations(() => 100)
+    const first = trail('Første', [[9, 61], [9.01, 61]])
+    const second = trail('Andre', [[9.01, 61], [9.02, 61]])
+
+    const route = await RoutePlannerService.planRoute([first, second], START, END)
+
+    expect(names(route?.trails ?? [])).toEqual(['Første', 'Andre'])
+    expect(route?.geometry?.coordinates).toEqual([[9, 61], [9.01, 61], [9.02, 61]])
+    expect(route?.properties.totalDistance).toBeCloseTo(1078, -1)
+    expect(route?.waypoints).toEqual([
+      { ...START, type: 'start' },
+      { lat: 61, lng: 9.01, name: 'Andre', type: 'junction' },
+      { ...END, type: 'end' }
+    ])
+  })
+
+  it('favours preferred trail types without excluding the others', async () => {
+    mockElevations(() => 100)
+    const trails = [direct, detour, ...spurs]
+
+    expect(names((await RoutePlannerService.planRoute(trails, START, END))?.trails ?? [])).toEqual(['Direkte'])
+    expect(names((await RoutePlannerService.planRoute(trails, START, END, { preferredTypes: ['skiing'] }))?.trails ?? []))
+      .toEqual(['Omvei'])
+    expect(names((await RoutePlannerService.planRoute(trails, START, END, { preferredTypes: ['cycling'] }))?.trails ?? []))
+      .toEqual(['Direkte'])
+  })
+
+  it('goes around a hill when elevation is available', async () => {
+    mockElevations(point => point.lat < 61.0001 && point.lat > 60.9999 && Math.abs(point.lng - 9.01) < 0.0001 ? 250 : 100)
+
+    const route = await RoutePlannerService.planRoute([direct, detour, hillSpur, ...spurs], START, END)
+
+    expect(names(route?.trails ?? [])).toEqual(['Omvei'])
+    expect(route?.properties.elevationWeighted).toBe(true)
+  })
+
+  it('plans by distance alone when elevation is missing', async () => {
+    mockElevations(() => null)
+
+    const route = await RoutePlannerService.planRoute([direct, detour, hillSpur, ...spurs], START, END)
+
+    expect(names(route?.trails ?? [])).toEqual(['Direkte'])
+    expect(route?.properties.elevationWeighted).toBe(false)
+    expect(route?.warnings).toContain('Høydedata mangler - ruten er beregnet kun etter avstand')
+  })
+
+  it('thins the elevation lookups on large trail networks', async () => {
+    const getElevations = mockElevations(() => 100)
+    // 1600 trail ends, far enough apart not to be joined
+    const scattered = Array.from({ length: 800 }, (_, i) =>
+      trail(`Sti ${i}`, [[10 + (i % 40) * 0.002, 62 + Math.floor(i / 40) * 0.002], [10.0005 + (i % 40) * 0.002, 62 + Math.floor(i / 40) * 0.002]]))
+
+    const route = await RoutePlannerService.planRoute([direct, ...spurs, ...scattered], START, END)
+
+    expect(names(route?.trails ?? [])).toEqual(['Direkte'])
+    expect(getElevations).toHaveBeenCalledTimes(1)
+    expect(getElevations.mock.calls[0][0].length).toBeLessThanOrEqual(1500)
+    expect(route?.properties.elevationWeighted).toBe(true)
+    expect(route?.warnings).toContain('Stort stinett - stigningen er beregnet fra forenklede høydedata')
+  })
+
+  it('returns by another way on circular routes', async () => {
+    mockElevations(() => 100)
+
+    const route = await RoutePlannerService.planRoute([direct, detour, ...spurs], START, END, { circularRoute: true })
+
+    expect(names(route?.trails ?? [])).toEqual(['Direkte', 'Omvei'])
+    expect(route?.waypoints[route.waypoints.length - 1]).toEqual({ ...START, type: 'end' })
+    expect(route?.warnings).not.toContain('Rundturen går delvis samme vei tilbake')
+  })
+
+  it('leaves out trails above the maximum difficulty', async () => {
+    mockElevations(() => 100)
+    const hard = trail('Bratt', [[9, 61], [9.02, 61]], 'hiking', 'hard')
+
+    expect(await RoutePlannerService.planRoute([hard], START, END, { maxDifficulty: 'medium' })).toBeNull()
+    expect(await RoutePlannerService.planRoute([hard], START, END, { maxDifficulty: 'hard' })).not.toBeNull()
+  })
+
+  it('returns null when a point is far from the trails', async () => {
+    mockElevations(() => 100)
+    expect(await RoutePlannerService.planRoute([direct], START, { lat: 61.1, lng: 9.02 })).toBeNull()
+  })
+})
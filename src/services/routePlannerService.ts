@@ -0,0 +1,496 @@
+/**
+ * Route planner over loaded trail geometries
+ *
+ * Builds a graph from Trail LineStrings (vertices snapped together where trails meet),
+ * then finds the cheapest path with A* weighted by distance and ascent.
+ */
+
+import type {
+  Trail,
+  TrailDifficulty,
+  TrailSurface,
+  PlannedRoute,
+  RoutePreferences
+} from '../data/trails'
+import { ElevationService } from './elevationService'
+import { TravelTimeService } from './travelTimeService'
+import { calculateHaversineDistance, type Coordinate } from './distanceService'
+
+interface GraphEdge {
+  to: number
+  distance: number
+  trailIndex: number
+}
+
+interface GraphNode {
+  lat: number
+  lng: number
+  elevation?: number
+  edges: GraphEdge[]
+}
+
+interface RouteGraph {
+  nodes: GraphNode[]
+  trails: Trail[]
+}
+
+interface PathResult {
+  nodes: number[]
+  edges: GraphEdge[]
+}
+
+const DIFFICULTY_ORDER: TrailDifficulty[] = ['easy', 'medium', 'hard', 'expert']
+
+export class RoutePlannerService {
+  private static readonly JUNCTION_TOLERANCE = 10 // meters - vertices closer than this are the same node
+  private static readonly SNAP_TOLERANCE = 500 // meters - max distance from start/end to the trail network
+  private static readonly GRID_SIZE = 0.001 // degrees - spatial index cell size (~110 m north-south)
+  private static readonly ASCENT_WEIGHT = 8 // 1 m of climbing costs as much as 8 m of walking
+  // Junctions and trail ends looked up directly; larger networks are thinned to this many
+  private static readonly MAX_ELEVATION_NODES = 1500
+  private static readonly NON_PREFERRED_PENALTY = 1.5
+  private static readonly REUSE_PENALTY = 4 // Cost multiplier for retracing the outbound leg on circular routes
+
+  /**
+   * Plan a route between two points over the given trails
+   * Returns null when either point is too far from the trail network or no path exists
+   */
+  static async planRoute(
+    trails: Trail[],
+    start: Coordinate,
+    end: Coordinate,
+    preferences: RoutePreferences = {}
+  ): Promise<PlannedRoute | null> {
+    const warnings: string[] = []
+    const usableTrails = this.filterTrails(trails, preferences)
+
+    if (usableTrails.length === 0) {
+      console.warn('⚠️ No trails match the route preferences')
+      return null
+    }
+
+    const graph = this.buildGraph(usableTrails)
+
+    const startSnap = this.snapToGraph(graph, start)
+    const endSnap = this.snapToGraph(graph, end)
+    if (!startSnap || !endSnap) {
+      console.warn('⚠️ Start or end point is too far from the trail network')
+      return null
+    }
+    if (startSnap.distance > 50) warnings.push(`Startpunktet ligger ${Math.round(startSnap.distance)} m fra nærmeste sti`)
+    if (endSnap.distance > 50) warnings.push(`Sluttpunktet ligger ${Math.round(endSnap.distance)} m fra nærmeste sti`)
+
+    const elevation = await this.assignElevations(graph)
+    if (elevation === 'none') {
+      warnings.push('Høydedata mangler - ruten er beregnet kun etter avstand')
+    } else if (elevation === 'sampled') {
+      warnings.push('Stort stinett - stigningen er beregnet fra forenklede høydedata')
+    }
+
+    // Increase the ascent penalty until the route satisfies maxElevationGain (or we give up)
+    const ascentWeights = preferences.maxElevationGain !== undefined
+      ? [this.ASCENT_WEIGHT, this.ASCENT_WEIGHT * 4, this.ASCENT_WEIGHT * 16]
+      : [this.ASCENT_WEIGHT]
+
+    let path: PathResult | null = null
+    for (const ascentWeight of ascentWeights) {
+      path = this.findRoute(graph, startSnap.node, endSnap.node, preferences, ascentWeight)
+      if (!path || preferences.maxElevationGain === undefined) break
+      if (this.pathAscent(graph, path) <= preferences.maxElevationGain) break
+    }
+
+    if (!path) {
+      console.warn('⚠️ No connected trail path between start and end')
+      return null
+    }
+
+    const coordinates = path.nodes.map(index => [graph.nodes[index].lng, graph.nodes[index].lat])
+    const totalDistance = path.edges.reduce((sum, edge) => sum + edge.distance, 0)
+
+    const elevationProfile = await ElevationService.generateElevationProfile(coordinates, 100)
+    const elevationStats = ElevationService.getProfileStats(elevationProfile)
+    const totalElevationGain = elevationStats?.ascent ?? 0
+    const totalElevationLoss = elevationStats?.descent ?? 0
+
+    if (preferences.maxElevationGain !== undefined && totalElevationGain > preferences.maxElevationGain) {
+      warnings.push(`Ruten har ${Math.round(totalElevationGain)} høydemeter stigning, mer enn ønsket maks ${preferences.maxElevationGain} m`)
+    }
+    if (preferences.maxDistance !== undefined && totalDistance > preferences.maxDistance) {
+      warnings.push(`Ruten er ${(totalDistance / 1000).toFixed(1)} km, lengre enn ønsket maks ${(preferences.maxDistance / 1000).toFixed(1)} km`)
+    }
+
+    if (preferences.circularRoute && this.hasRetracedEdges(path)) {
+      warnings.push('Rundturen går delvis samme vei tilbake')
+    }
+
+    const routeTrails = this.orderedTrails(graph, path)
+    routeTrails.forEach(trail => trail.properties.warnings?.forEach(warning => {
+      if (!warnings.includes(warning)) warnings.push(warning)
+    }))
+
+    const difficulty = routeTrails.reduce<TrailDifficulty>((hardest, trail) =>
+      DIFFICULTY_ORDER.indexOf(trail.properties.difficulty) > DIFFICULTY_ORDER.indexOf(hardest) ? trail.properties.difficulty : hardest,
+    'easy')
+
+    const surface = Array.from(new Set(routeTrails
+      .map(trail => trail.properties.surface)
+      .filter((s): s is TrailSurface => s !== undefined)))
+
+    return {
+      id: `route_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`,
+      trails: routeTrails,
+      geometry: { type: 'LineString', coordinates },
+      waypoints: this.buildWaypoints(graph, path, start, end, preferences.circularRoute === true),
+      properties: {
+        totalDistance,
+        totalElevationGain,
+        totalElevationLoss,
+        // With the user's saved pace profile and method
+        estimatedTime: TravelTimeService.estimate({ distance: totalDistance, elevationProfile, elevationGain: totalElevationGain }),
+        difficulty,
+        surface,
+        elevationWeighted: elevation !== 'none'
+      },
+      elevationProfile,
+      warnings,
+      created: new Date().toISOString()
+    }
+  }
+
+  /**
+   * Drop trails that break hard preferences (difficulty, surface)
+   */
+  private static filterTrails(trails: Trail[], preferences: RoutePreferences): Trail[] {
+    const maxDifficultyIndex = preferences.maxDifficulty
+      ? DIFFICULTY_ORDER.indexOf(preferences.maxDifficulty)
+      : DIFFICULTY_ORDER.length - 1
+
+    return trails.filter(trail => {
+      if (trail.geometry.coordinates.length < 2) return false
+      if (DIFFICULTY_ORDER.indexOf(trail.properties.difficulty) > maxDifficultyIndex) return false
+      if (preferences.avoidSurfaces && trail.properties.surface && preferences.avoidSurfaces.includes(trail.properties.surface)) return false
+      if (preferences.requireFacilities && !preferences.requireFacilities.every(f => trail.properties.facilities?.includes(f))) return false
+      return true
+    })
+  }
+
+  /**
+   * Build the trail graph. Vertices from different trails within JUNCTION_TOLERANCE
+   * are merged into one node, which is how junctions between trails are detected.
+   */
+  private static buildGraph(trails: Trail[]): RouteGraph {
+    const nodes: GraphNode[] = []
+    const grid = new Map<string, number[]>()
+
+    const cellKey = (lat: number, lng: number) =>
+      `${Math.floor(lat / this.GRID_SIZE)}:${Math.floor(lng / this.GRID_SIZE)}`
+
+    const findOrCreateNode = (lat: number, lng: number): number => {
+      const cellLat = Math.floor(lat / this.GRID_SIZE)
+      const cellLng = Math.floor(lng / this.GRID_SIZE)
+
+      for (let dLat = -1; dLat <= 1; dLat++) {
+        for (let dLng = -1; dLng <= 1; dLng++) {
+          const candidates = grid.get(`${cellLat + dLat}:${cellLng + dLng}`) ?? []
+          for (const index of candidates) {
+            if (calculateHaversineDistance(nodes[index], { lat, lng }) <= this.JUNCTION_TOLERANCE) {
+              return index
+            }
+          }
+        }
+      }
+
+      const index = nodes.push({ lat, lng, edges: [] }) - 1
+      const key = cellKey(lat, lng)
+      grid.set(key, [...(grid.get(key) ?? []), index])
+      return index
+    }
+
+    trails.forEach((trail, trailIndex) => {
+      let previous: number | null = null
+      trail.geometry.coordinates.forEach(([lng, lat]) => {
+        const current = findOrCreateNode(lat, lng)
+        if (previous !== null && previous !== current) {
+          const distance = calculateHaversineDistance(nodes[previous], nodes[current])
+          nodes[previous].edges.push({ to: current, distance, trailIndex })
+          nodes[current].edges.push({ to: previous, distance, trailIndex })
+        }
+        previous = current
+      })
+    })
+
+    return { nodes, trails }
+  }
+
+  /**
+   * Find the graph node nearest to a coordinate, within SNAP_TOLERANCE
+   */
+  private static snapToGraph(graph: RouteGraph, point: Coordinate): { node: number; distance: number } | null {
+    let best: { node: number; distance: number } | null = null
+
+    for (let index = 0; index < graph.nodes.length; index++) {
+      const node = graph.nodes[index]
+      if (node.edges.length === 0) continue
+      const distance = calculateHaversineDistance(node, point)
+      if (!best || distance < best.distance) {
+        best = { node: index, distance }
+      }
+    }
+
+    return best && best.distance <= this.SNAP_TOLERANCE ? best : null
+  }
+
+  /**
+   * Fetch elevations for junctions and trail ends, then interpolate along the chains of
+   * vertices between them. Beyond MAX_ELEVATION_NODES key nodes, one per grid cell is looked up
+   * and shared by the others in its cell. Returns 'none' if elevation is unavailable.
+   */
+  private static async assignElevations(graph: RouteGraph): Promise<'full' | 'sampled' | 'none'> {
+    const keyNodes = graph.nodes
+      .map((node, index) => ({ node, index }))
+      .filter(({ node }) => node.edges.length !== 2)
+
+    if (keyNodes.length === 0) return 'none'
+
+    // Representative key node for each key node: itself, or the first one in its grid cell
+    let representatives = keyNodes.map(({ node }) => node)
+    let cellSize = this.GRID_SIZE
+    while (new Set(representatives).size > this.MAX_ELEVATION_NODES) {
+      const cells = new Map<string, GraphNode>()
+      representatives = keyNodes.map(({ node }) => {
+        const key = `${Math.floor(node.lat / cellSize)}:${Math.floor(node.lng / cellSize)}`
+        if (!cells.has(key)) cells.set(key, node)
+        return cells.get(key) as GraphNode
+      })
+      cellSize *= 2
+    }
+
+    const lookups = Array.from(new Set(representatives))
+    const elevations = await ElevationService.getElevations(lookups)
+    const elevationByNode = new Map(lookups.map((node, i) => [node, elevations[i]]))
+    keyNodes.forEach(({ node }, i) => {
+      const elevation = elevationByNode.get(representatives[i])
+      if (elevation !== null && elevation !== undefined) node.elevation = elevation
+    })
+
+    if (keyNodes.every(({ node }) => node.elevation === undefined)) {
+      return 'none'
+    }
+
+    // Walk each chain of degree-2 vertices from a key node and interpolate linearly
+    keyNodes.forEach(({ node: startNode, index: startIndex }) => {
+      startNode.edges.forEach(firstEdge => {
+        const chain: Array<{ index: number; distance: number }> = []
+        let previous = startIndex
+        let current = firstEdge.to
+        let distance = firstEdge.distance
+
+        while (graph.nodes[current].edges.length === 2) {
+          chain.push({ index: current, distance })
+          const next = graph.nodes[current].edges.find(edge => edge.to !== previous)
+          if (!next || next.to === startIndex) break
+          distance += next.distance
+          previous = current
+          current = next.to
+        }
+
+        const endNode = graph.nodes[current]
+        const startElevation = startNode.elevation ?? endNode.elevation
+        const endElevation = endNode.elevation ?? startNode.elevation
+        if (startElevation === undefined || endElevation === undefined) return
+
+        chain.forEach(({ index, distance: along }) => {
+          graph.nodes[index].elevation ??= startElevation + (endElevation - startElevation) * (along / Math.max(distance, 1))
+        })
+      })
+    })
+
+    return lookups.length < keyNodes.length ? 'sampled' : 'full'
+  }
+
+  /**
+   * Outbound path, plus a return leg that avoids the outbound edges when a circular route is requested
+   */
+  private static findRoute(
+    graph: RouteGraph,
+    startNode: number,
+    endNode: number,
+    preferences: RoutePreferences,
+    ascentWeight: number
+  ): PathResult | null {
+    const outbound = this.aStar(graph, startNode, endNode, preferences, ascentWeight)
+    if (!outbound || !preferences.circularRoute) return outbound
+
+    const usedEdges = new Set(outbound.nodes.slice(1).map((node, i) => this.edgeKey(outbound.nodes[i], node)))
+    const inbound = this.aStar(graph, endNode, startNode, preferences, ascentWeight, usedEdges)
+    if (!inbound) return outbound
+
+    return {
+      nodes: [...outbound.nodes, ...inbound.nodes.slice(1)],
+      edges: [...outbound.edges, ...inbound.edges]
+    }
+  }
+
+  private static aStar(
+    graph: RouteGraph,
+    startNode: number,
+    endNode: number,
+    preferences: RoutePreferences,
+    ascentWeight: number,
+    penalizedEdges?: Set<string>
+  ): PathResult | null {
+    const target = graph.nodes[endNode]
+    const cost = new Map<number, number>([[startNode, 0]])
+    const cameFrom = new Map<number, { node: number; edge: GraphEdge }>()
+    const open = new MinHeap()
+    open.push(startNode, calculateHaversineDistance(graph.nodes[startNode], target))
+
+    while (open.size > 0) {
+      const current = open.pop()
+      if (current === endNode) {
+        const nodes = [endNode]
+        const edges: GraphEdge[] = []
+        let step = cameFrom.get(endNode)
+        while (step) {
+          nodes.unshift(step.node)
+          edges.unshift(step.edge)
+          step = cameFrom.get(step.node)
+        }
+        return { nodes, edges }
+      }
+
+      const currentNode = graph.nodes[current]
+      const currentCost = cost.get(current) ?? Infinity
+
+      for (const edge of currentNode.edges) {
+        const nextNode = graph.nodes[edge.to]
+        let edgeCost = edge.distance
+
+        if (currentNode.elevation !== undefined && nextNode.elevation !== undefined) {
+          edgeCost += Math.max(0, nextNode.elevation - currentNode.elevation) * ascentWeight
+        }
+        const trailType = graph.trails[edge.trailIndex].properties.type
+        if (preferences.preferredTypes && !preferences.preferredTypes.includes(trailType)) {
+          edgeCost *= this.NON_PREFERRED_PENALTY
+        }
+        if (penalizedEdges?.has(this.edgeKey(current, edge.to))) {
+          edgeCost *= this.REUSE_PENALTY
+        }
+
+        const nextCost = currentCost + edgeCost
+        if (nextCost < (cost.get(edge.to) ?? Infinity)) {
+          cost.set(edge.to, nextCost)
+          cameFrom.set(edge.to, { node: current, edge })
+          open.push(edge.to, nextCost + calculateHaversineDistance(nextNode, target))
+        }
+      }
+    }
+
+    return null
+  }
+
+  private static edgeKey(a: number, b: number): string {
+    return a < b ? `${a}-${b}` : `${b}-${a}`
+  }
+
+  private static hasRetracedEdges(path: PathResult): boolean {
+    const seen = new Set<string>()
+    for (let i = 1; i < path.nodes.length; i++) {
+      const key = this.edgeKey(path.nodes[i - 1], path.nodes[i])
+      if (seen.has(key)) return true
+      seen.add(key)
+    }
+    return false
+  }
+
+  private static pathAscent(graph: RouteGraph, path: PathResult): number {
+    let ascent = 0
+    for (let i = 1; i < path.nodes.length; i++) {
+      const from = graph.nodes[path.nodes[i - 1]].elevation
+      const to = graph.nodes[path.nodes[i]].elevation
+      if (from !== undefined && to !== undefined && to > from) ascent += to - from
+    }
+    return ascent
+  }
+
+  /**
+   * Trails in the order they are walked (a trail may appear again after another one)
+   */
+  private static orderedTrails(graph: RouteGraph, path: PathResult): Trail[] {
+    const ordered: Trail[] = []
+    path.edges.forEach(edge => {
+      const trail = graph.trails[edge.trailIndex]
+      if (ordered[ordered.length - 1] !== trail) ordered.push(trail)
+    })
+    return ordered
+  }
+
+  private static buildWaypoints(
+    graph: RouteGraph,
+    path: PathResult,
+    start: Coordinate,
+    end: Coordinate,
+    circular: boolean
+  ): PlannedRoute['waypoints'] {
+    const waypoints: PlannedRoute['waypoints'] = [{ lat: start.lat, lng: start.lng, type: 'start' }]
+
+    // A junction waypoint wherever the route switches from one trail to another
+    for (let i = 1; i < path.edges.length; i++) {
+      if (path.edges[i].trailIndex !== path.edges[i - 1].trailIndex) {
+        const node = graph.nodes[path.nodes[i]]
+        waypoints.push({
+          lat: node.lat,
+          lng: node.lng,
+          name: graph.trails[path.edges[i].trailIndex].properties.name,
+          type: 'junction'
+        })
+      }
+    }
+
+    const finish = circular ? start : end
+    waypoints.push({ lat: finish.lat, lng: finish.lng, type: 'end' })
+    return waypoints
+  }
+}
+
+/**
+ * Minimal binary min-heap keyed by priority, used as the A* open set
+ */
+class MinHeap {
+  private items: Array<{ value: number; priority: number }> = []
+
+  get size(): number {
+    return this.items.length
+  }
+
+  push(value: number, priority: number): void {
+    this.items.push({ value, priority })
+    let i = this.items.length - 1
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (this.items[parent].priority <= this.items[i].priority) break
+      ;[this.items[parent], this.items[i]] = [this.items[i], this.items[parent]]
+      i = parent
+    }
+  }
+
+  pop(): number {
+    const top = this.items[0]
+    const last = this.items.pop()!
+    if (this.items.length > 0) {
+      this.items[0] = last
+      let i = 0
+      for (;;) {
+        const left = 2 * i + 1
+        const right = left + 1
+        let smallest = i
+        if (left < this.items.length && this.items[left].priority < this.items[smallest].priority) smallest = left
+        if (right < this.items.length && this.items[right].priority < this.items[smallest].priority) smallest = right
+        if (smallest === i) break
+        ;[this.items[smallest], this.items[i]] = [this.items[i], this.items[smallest]]
+        i = smallest
+      }
+    }
+    return top.value
+  }
+}
@@ -2,6 +2,8 @@
 // Replaces Nominatim for better Norwegian coverage and accuracy
 // Updated: Fixed any potential duplicate key warnings
 
+import { mgrsToLatLng, utmToLatLng } from './coordinateService'
+
 export interface SearchResult {
   id: string
   name: string
@@ -19,7 +21,7 @@ export interface SearchResult {
 export interface CoordinateParseResult {
   lat: number
   lng: number
-  format: 'decimal' | 'dms' | 'utm'
+  format: 'decimal' | 'dms' | 'ddm' | 'utm' | 'mgrs'
 }
 
 interface POILike {
@@ -203,7 +205,7 @@ async function reverseGeocode(lat: number, lng: number): Promise<string | null>
 }
 
 // Enhanced coordinate parsing supporting multiple formats
-function parseCoordinates(input: string): CoordinateParseResult | null {
+export function parseCoordinates(input: string): CoordinateParseResult | null {
   const trimmed = input.trim()
 
   // Format 1: "59.90391°N, 10.89720°E" (PRIORITY - most important format)
@@ -223,8 +225,8 @@ function parseCoordinates(input: string): CoordinateParseResult | null {
     }
   }
 
-  // Clean input for other formats (remove various symbols but preserve structure)
-  const cleaned = input.replace(/['"′″]/g, '').trim()
+  // Clean input for other formats (minute/second marks become spaces so the numbers stay apart)
+  const cleaned = input.replace(/['"′″]/g, ' ').replace(/\s+/g, ' ').trim()
 
   // Format 2: Simple decimal "59.123, 7.456" or "59.123 7.456"
   const decimalMatch = cleaned.match(/^(-?\d+\.?\d*)[,\s]+(-?\d+\.?\d*)$/)
@@ -253,7 +255,21 @@ function parseCoordinates(input: string): CoordinateParseResult | null {
     }
   }
 
-  // Format 4: DMS format "59°12'34.5\"N 7°25'42.1\"E" or "59 12 34.5 N 7 25 42.1 E"
+  // Format 4a: Degrees and decimal minutes "59°54.834'N 10°45.132'E"
+  const ddmMatch = cleaned.match(/^(\d+)[°\s]+(\d+\.\d+)\s*([NS])[,\s]*(\d+)[°\s]+(\d+\.\d+)\s*([EW])$/i)
+  if (ddmMatch) {
+    let lat = parseInt(ddmMatch[1], 10) + parseFloat(ddmMatch[2]) / 60
+    let lng = parseInt(ddmMatch[4], 10) + parseFloat(ddmMatch[5]) / 60
+
+    if (ddmMatch[3].toUpperCase() === 'S') lat = -lat
+    if (ddmMatch[6].toUpperCase() === 'W') lng = -lng
+
+    if (isValidNumber(lat) && isValidNumber(lng) && isValidNorwegianCoordinate(lat, lng)) {
+      return { lat, lng, format: 'ddm' }
+    }
+  }
+
+  // Format 4b: DMS format "59°12'34.5\"N 7°25'42.1\"E" or "59 12 34.5 N 7 25 42.1 E"
   const dmsPattern = /(\d+)[°\s]*(\d+)?['\s]*(\d+\.?\d*)?["\s]*([NS])\s*[,\s]*(\d+)[°\s]*(\d+)?['\s]*(\d+\.?\d*)?["\s]*([EW])/i
   const dmsMatch = cleaned.match(dmsPattern)
   if (dmsMatch) {
@@ -278,6 +294,38 @@ function parseCoordinates(input: string): CoordinateParseResult | null {
     }
   }
 
+  // Format 5: MGRS "32VNM 97979 43118" or "32VNM9797943118"
+  const mgrsMatch = trimmed.match(/^(\d{1,2})\s*([C-HJ-NP-X])\s*([A-HJ-NP-Z])([A-HJ-NP-V])\s*(\d{0,10})\s*(\d{0,5})$/i)
+  if (mgrsMatch) {
+    const digits = mgrsMatch[5]
+    const [easting, northing] = mgrsMatch[6]
+      ? [digits, mgrsMatch[6]]
+      : [digits.slice(0, digits.length / 2), digits.slice(digits.length / 2)]
+
+    if (easting.length === northing.length) {
+      const position = mgrsToLatLng(parseInt(mgrsMatch[1], 10), mgrsMatch[2], mgrsMatch[3], mgrsMatch[4], easting, northing)
+      if (position && isValidNorwegianCoordinate(position.lat, position.lng)) {
+        return { ...position, format: 'mgrs' }
+      }
+    }
+  }
+
+  // Format 6: UTM "32V 597980 6643119", "UTM 33N 262000E 6650000N" or "33 262000 6650000"
+  // A single N/S after the zone is read as the hemisphere, other letters as the latitude band
+  const utmMatch = trimmed.match(/^(?:UTM\s*)?(\d{1,2})\s*([C-HJ-NP-X])?[\s,]+(\d{6})(?:\.\d+)?\s*[EØ]?[\s,]+(\d{7})(?:\.\d+)?\s*N?$/i)
+  if (utmMatch) {
+    const zone = parseInt(utmMatch[1], 10)
+    const letter = utmMatch[2]?.toUpperCase()
+    const hemisphere = letter === 'S' || (letter !== undefined && letter !== 'N' && letter < 'N') ? 'S' : 'N'
+
+    if (zone >= 1 && zone <= 60) {
+      const position = utmToLatLng(zone, hemisphere, parseInt(utmMatch[3], 10), parseInt(utmMatch[4], 10))
+      if (isValidNorwegianCoordinate(position.lat, position.lng)) {
+        return { ...position, format: 'utm' }
+      }
+    }
+  }
+
   return null
 }
 
@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest'
+import { SlopeService } from './slopeService'
+import { DemTile, TerrainService } from './terrainService'
+
+// Ground size of a pixel at the equator for a 4-pixel tile at zoom 13
+const EQUATOR_CELL_SIZE = 40075016.686 / (4 * Math.pow(2, 13))
+const EQUATOR_TILE_Y = Math.pow(2, 12)
+
+/**
+ * DEM of a 4-pixel tile with its 1-pixel border, from a function of the padded row and column
+ */
+const dem = (elevation: (row: number, column: number) => number): DemTile => {
+  const size = 6
+  const elevations = new Float32Array(size * size)
+  for (let row = 0; row < size; row++) {
+    for (let column = 0; column < size; column++) {
+      elevations[row * size + column] = elevation(row, column)
+    }
+  }
+  return { size, elevations }
+}
+
+describe('SlopeService.computeSlopes', () => {
+  it('is flat for level ground', () => {
+    const slopes = SlopeService.computeSlopes(dem(() => 1200), 13, EQUATOR_TILE_Y)
+    expect(slopes).toHaveLength(16)
+    slopes.forEach(slope => expect(slope).toBe(0))
+  })
+
+  it('measures a uniform slope on every pixel, edges included', () => {
+    const eastward = SlopeService.computeSlopes(dem((_row, column) => column * EQUATOR_CELL_SIZE), 13, EQUATOR_TILE_Y)
+    const southward = SlopeService.computeSlopes(dem(row => 500 - row * EQUATOR_CELL_SIZE), 13, EQUATOR_TILE_Y)
+
+    eastward.forEach(slope => expect(slope).toBeCloseTo(45, 2))
+    southward.forEach(slope => expect(slope).toBeCloseTo(45, 2))
+  })
+
+  it('combines the gradients in both directions', () => {
+    const slopes = SlopeService.computeSlopes(dem((row, column) => (row + column) * EQUATOR_CELL_SIZE), 13, EQUATOR_TILE_Y)
+    slopes.forEach(slope => expect(slope).toBeCloseTo(Math.atan(Math.SQRT2) * 180 / Math.PI, 2))
+  })
+
+  it('accounts for pixels shrinking with latitude', () => {
+    // Tile row at about 60°N, where pixels are half as wide on the ground
+    const y = Math.floor((1 - Math.log(Math.tan(Math.PI / 3) + 2) / Math.PI) / 2 * Math.pow(2, 13))
+    const slopes = SlopeService.computeSlopes(dem((_row, column) => column * EQUATOR_CELL_SIZE), 13, y)
+    slopes.forEach(slope => expect(slope).toBeCloseTo(Math.atan(2) * 180 / Math.PI, 0))
+  })
+})
+
+describe('SlopeService.fetchDemBlock', () => {
+  // Tiles of 2 pixels whose elevation encodes the world pixel position
+  const tile = (z: number, x: number, y: number): Promise<DemTile> => Promise.resolve({
+    size: 2,
+    elevations: Float32Array.from([0, 1, 2, 3], i => 1000 * (y * 2 + Math.floor(i / 2)) + x * 2 + i % 2)
+  })
+
+  it('reads the border from the neighbouring tiles', async () => {
+    vi.spyOn(TerrainService, 'fetchDemTile').mockImplementation(tile)
+    const block = await SlopeService.fetchDemBlock(3, 2, 2, 1)
+
+    expect(block.size).toBe(4)
+    expect(Array.from(block.elevations)).toEqual([
+      3003, 3004, 3005, 3006,
+      4003, 4004, 4005, 4006,
+      5003, 5004, 5005, 5006,
+      6003, 6004, 6005, 6006
+    ])
+  })
+
+  it('wraps around the antimeridian and repeats edge pixels where there is no neighbour', async () => {
+    vi.spyOn(TerrainService, 'fetchDemTile').mockImplementation(tile)
+    const block = await SlopeService.fetchDemBlock(1, 0, 0, 1)
+
+    // No tiles north of the top row: the border above repeats the block's first row
+    expect(Array.from(block.elevations)).toEqual([
+      0, 0, 1, 1,
+      3, 0, 1, 2,
+      1003, 1000, 1001, 1002,
+      2003, 2000, 2001, 2002
+    ])
+  })
+
+  it('repeats edge pixels where a neighbour fails to load', async () => {
+    vi.spyOn(TerrainService, 'fetchDemTile').mockImplementation((z, x, y) =>
+      x === 3 ? Promise.reject(new Error('Not found')) : tile(z, x, y))
+    const block = await SlopeService.fetchDemBlock(3, 2, 2, 1)
+
+    // The right border, corners included, repeats the block's last column
+    expect(Array.from(block.elevations).filter((_, i) => i % 4 === 3)).toEqual([4005, 4005, 5005, 5005])
+  })
+})
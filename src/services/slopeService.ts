@@ -0,0 +1,229 @@
+/**
+ * Slope steepness overlay - terrain steeper than 27°, classed for avalanche and off-trail use
+ *
+ * Slope tiles are computed in the browser from the DEM tiles (see terrainService), through a
+ * custom `slope://` tile protocol, so the overlay is an ordinary raster layer like the Naturskog
+ * WMS layers. When VITE_SLOPE_WMS_URL is set, a steepness WMS is used instead.
+ *
+ * Slopes are always computed from the DEM at DEM_ZOOM (about 10 m cells in Norway), so the classes
+ * do not change with the map zoom; at lower zooms each pixel shows the steepest slope it covers.
+ * Slope from elevation models follows the ground at the model's resolution: short steep sections
+ * such as cliff bands and gullies can be steeper than shown.
+ */
+
+import maplibregl from 'maplibre-gl'
+import { DemTile, TerrainService } from './terrainService'
+
+export interface SlopeClass {
+  min: number // degrees
+  label: string
+  color: string
+  rgb: [number, number, number]
+}
+
+export interface SlopeOverlaySettings {
+  enabled: boolean
+  opacity: number // 0–1
+}
+
+// Classes from 27°: below that, slab avalanches rarely release
+export const SLOPE_CLASSES: SlopeClass[] = [
+  { min: 27, label: '27–30°', color: '#facc15', rgb: [250, 204, 21] },
+  { min: 30, label: '30–35°', color: '#f97316', rgb: [249, 115, 22] },
+  { min: 35, label: '35–40°', color: '#dc2626', rgb: [220, 38, 38] },
+  { min: 40, label: 'Over 40°', color: '#7e22ce', rgb: [126, 34, 206] }
+]
+
+export const DEFAULT_SLOPE_OVERLAY: SlopeOverlaySettings = {
+  enabled: false,
+  opacity: 0.6
+}
+
+const EARTH_CIRCUMFERENCE = 40075016.686 // meters
+
+export class SlopeService {
+  static readonly SOURCE_ID = 'slope'
+  static readonly LAYER_ID = 'slope-overlay'
+  // Zoom of the DEM tiles slopes are computed from; detailed enough for 10 m terrain models
+  static readonly DEM_ZOOM = Math.min(13, TerrainService.DEM_MAX_ZOOM)
+  // Each slope tile further out would need 16 or more DEM tiles
+  static readonly MIN_ZOOM = SlopeService.DEM_ZOOM - 1
+  private static readonly WMS_URL = import.meta.env.VITE_SLOPE_WMS_URL as string | undefined
+  private static readonly PROTOCOL = 'slope'
+  private static protocolRegistered = false
+
+  static isComputed(): boolean {
+    return !this.WMS_URL
+  }
+
+  static getSource(): maplibregl.RasterSourceSpecification {
+    if (this.WMS_URL) {
+      return {
+        type: 'raster',
+        tiles: [this.WMS_URL],
+        tileSize: 256,
+        minzoom: this.MIN_ZOOM
+      }
+    }
+
+    this.registerProtocol()
+    return {
+      type: 'raster',
+      tiles: [`${this.PROTOCOL}://{z}/{x}/{y}`],
+      tileSize: 256,
+      minzoom: this.MIN_ZOOM,
+      // Slopes are computed at the DEM's resolution and scaled up beyond it
+      maxzoom: this.DEM_ZOOM
+    }
+  }
+
+  static getMapLayer(opacity: number): maplibregl.RasterLayerSpecification {
+    return {
+      id: this.LAYER_ID,
+      type: 'raster',
+      source: this.SOURCE_ID,
+      minzoom: this.MIN_ZOOM,
+      paint: {
+        'raster-opacity': opacity,
+        // Class edges stay sharp when tiles are scaled up
+        'raster-resampling': 'nearest'
+      }
+    }
+  }
+
+  /**
+   * Slope class for a slope angle, or undefined for gentler terrain
+   */
+  static classify(degrees: number): SlopeClass | undefined {
+    for (let i = SLOPE_CLASSES.length - 1; i >= 0; i--) {
+      if (degrees >= SLOPE_CLASSES[i].min) return SLOPE_CLASSES[i]
+    }
+    return undefined
+  }
+
+  /**
+   * Slope angle in degrees for every pixel of tile row y at zoom z (Horn's method). The DEM has a
+   * 1-pixel border around the tile (see fetchDemBlock), so edge pixels get full neighbourhoods.
+   */
+  static computeSlopes(dem: DemTile, z: number, y: number): Float32Array {
+    const paddedSize = dem.size
+    const size = paddedSize - 2
+    const slopes = new Float32Array(size * size)
+    const worldSize = size * Math.pow(2, z)
+    const at = (row: number, column: number) => dem.elevations[(row + 1) * paddedSize + column + 1]
+
+    for (let row = 0; row < size; row++) {
+      // Ground size of a pixel shrinks with latitude in Web Mercator
+      const mercatorY = Math.PI * (1 - 2 * (y * size + row + 0.5) / worldSize)
+      const latitude = Math.atan(Math.sinh(mercatorY))
+      const cellSize = EARTH_CIRCUMFERENCE * Math.cos(latitude) / worldSize
+
+      for (let column = 0; column < size; column++) {
+        const a = at(row - 1, column - 1), b = at(row - 1, column), c = at(row - 1, column + 1)
+        const d = at(row, column - 1), f = at(row, column + 1)
+        const g = at(row + 1, column - 1), h = at(row + 1, column), i = at(row + 1, column + 1)
+
+        const dzdx = ((c + 2 * f + i) - (a + 2 * d + g)) / (8 * cellSize)
+        const dzdy = ((g + 2 * h + i) - (a + 2 * b + c)) / (8 * cellSize)
+        slopes[row * size + column] = Math.atan(Math.hypot(dzdx, dzdy)) * 180 / Math.PI
+      }
+    }
+
+    return slopes
+  }
+
+  /**
+   * Register the slope:// protocol, which draws slope tiles from DEM tiles at the same zoom
+   */
+  private static registerProtocol(): void {
+    if (this.protocolRegistered) return
+    this.protocolRegistered = true
+
+    maplibregl.addProtocol(this.PROTOCOL, async (params, abortController) => {
+      const [z, x, y] = params.url.slice(`${this.PROTOCOL}://`.length).split('/').map(Number)
+      return { data: await this.renderTile(z, x, y, abortController.signal) }
+    })
+  }
+
+  /**
+   * Elevations of a square block of DEM tiles, with a 1-pixel border read from the tiles around
+   * it. Where a neighbour is missing (the edge of the world or a failed request) the border
+   * repeats the block's edge pixels.
+   */
+  static async fetchDemBlock(z: number, x: number, y: number, count: number, signal?: AbortSignal): Promise<DemTile> {
+    const tileCount = Math.pow(2, z)
+    const tiles = new Map<string, DemTile>()
+    const requests: Promise<void>[] = []
+
+    for (let tileY = y - 1; tileY <= y + count; tileY++) {
+      for (let tileX = x - 1; tileX <= x + count; tileX++) {
+        if (tileY < 0 || tileY >= tileCount) continue
+        const inner = tileX >= x && tileX < x + count && tileY >= y && tileY < y + count
+        const request = TerrainService.fetchDemTile(z, ((tileX % tileCount) + tileCount) % tileCount, tileY, signal)
+          .then(tile => { tiles.set(`${tileX}/${tileY}`, tile) })
+        // The block's own tiles are required, the border is best effort
+        requests.push(inner ? request : request.catch(() => undefined))
+      }
+    }
+    await Promise.all(requests)
+
+    const tileSize = (tiles.get(`${x}/${y}`) as DemTile).size
+    const size = count * tileSize
+    const paddedSize = size + 2
+    const elevations = new Float32Array(paddedSize * paddedSize)
+    const left = x * tileSize - 1
+    const top = y * tileSize - 1
+
+    for (let row = 0; row < paddedSize; row++) {
+      for (let column = 0; column < paddedSize; column++) {
+        let pixelY = top + row
+        let pixelX = left + column
+        let tile = tiles.get(`${Math.floor(pixelX / tileSize)}/${Math.floor(pixelY / tileSize)}`)
+        if (!tile) {
+          pixelY = Math.min(Math.max(pixelY, top + 1), top + size)
+          pixelX = Math.min(Math.max(pixelX, left + 1), left + size)
+          tile = tiles.get(`${Math.floor(pixelX / tileSize)}/${Math.floor(pixelY / tileSize)}`) as DemTile
+        }
+        const tileRow = pixelY - Math.floor(pixelY / tileSize) * tileSize
+        const tileColumn = pixelX - Math.floor(pixelX / tileSize) * tileSize
+        elevations[row * paddedSize + column] = tile.elevations[tileRow * tileSize + tileColumn]
+      }
+    }
+
+    return { size: paddedSize, elevations }
+  }
+
+  /**
+   * Draw a slope tile from the DEM tiles at DEM_ZOOM it covers. Where one tile pixel covers
+   * several DEM pixels it takes the steepest slope, so steep terrain is never averaged away.
+   */
+  private static async renderTile(z: number, x: number, y: number, signal?: AbortSignal): Promise<ImageBitmap> {
+    const factor = Math.pow(2, Math.max(this.DEM_ZOOM - z, 0))
+    const dem = await this.fetchDemBlock(this.DEM_ZOOM, x * factor, y * factor, factor, signal)
+    const slopes = this.computeSlopes(dem, z, y)
+    const demSize = dem.size - 2
+    const size = demSize / factor
+    const image = new ImageData(size, size)
+
+    for (let row = 0; row < size; row++) {
+      for (let column = 0; column < size; column++) {
+        let steepest = 0
+        for (let dy = 0; dy < factor; dy++) {
+          for (let dx = 0; dx < factor; dx++) {
+            steepest = Math.max(steepest, slopes[(row * factor + dy) * demSize + column * factor + dx])
+          }
+        }
+
+        const slopeClass = this.classify(steepest)
+        if (!slopeClass) continue
+        const index = (row * size + column) * 4
+        image.data[index] = slopeClass.rgb[0]
+        image.data[index + 1] = slopeClass.rgb[1]
+        image.data[index + 2] = slopeClass.rgb[2]
+        image.data[index + 3] = 255
+      }
+    }
+
+    return createImageBitmap(image)
+  }
+}
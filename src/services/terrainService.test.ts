@@ -0,0 +1,35 @@
+import { describe, expect, it, vi } from 'vitest'
+import { TerrainService } from './terrainService'
+
+const TILE = { size: 1, elevations: Float32Array.from([100]) }
+
+describe('TerrainService.fetchDemTile', () => {
+  it('shares one request between callers, and an abort only stops the caller that aborted', async () => {
+    let respond = (_response: Response) => {}
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(() => new Promise(resolve => { respond = resolve }))
+    vi.spyOn(TerrainService, 'decodeDemImage').mockResolvedValue(TILE)
+
+    const controller = new AbortController()
+    const aborted = TerrainService.fetchDemTile(13, 4301, 2380, controller.signal)
+    const other = TerrainService.fetchDemTile(13, 4301, 2380, new AbortController().signal)
+    controller.abort()
+    respond(new Response(''))
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(other).resolves.toBe(TILE)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('keeps the tile for later callers after an abort', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response(''))
+    vi.spyOn(TerrainService, 'decodeDemImage').mockResolvedValue(TILE)
+
+    const controller = new AbortController()
+    const aborted = TerrainService.fetchDemTile(13, 4302, 2380, controller.signal)
+    controller.abort()
+
+    await expect(aborted).rejects.toMatchObject({ name: 'AbortError' })
+    await expect(TerrainService.fetchDemTile(13, 4302, 2380)).resolves.toBe(TILE)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+})
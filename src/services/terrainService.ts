@@ -0,0 +1,203 @@
+/**
+ * Terrain - elevation (DEM) tiles for 3D terrain, hillshading and terrain analysis
+ *
+ * Tiles are terrain-RGB PNGs read from VITE_TERRAIN_DEM_URL, so a Kartverket-based tile server
+ * (or a local one) can be used. Without it the open Terrarium tiles from Mapzen/AWS are used,
+ * which include Kartverket's national elevation model for Norway.
+ */
+
+import type maplibregl from 'maplibre-gl'
+
+export type DemEncoding = 'mapbox' | 'terrarium'
+
+export interface DemTile {
+  size: number // pixels per side
+  elevations: Float32Array // meters, row by row from the north-west corner
+}
+
+export interface TerrainSettings {
+  enabled: boolean // 3D terrain
+  hillshade: boolean
+  exaggeration: number
+}
+
+const SETTINGS_KEY = 'trakke_terrain_settings'
+const DEFAULT_DEM_URL = 'https://s3.amazonaws.com/elevation-tiles-prod/terrarium/{z}/{x}/{y}.png'
+
+export const DEFAULT_TERRAIN_SETTINGS: TerrainSettings = {
+  enabled: false,
+  hillshade: false,
+  exaggeration: 1.5
+}
+
+export const TERRAIN_EXAGGERATION_RANGE = { min: 1, max: 3, step: 0.1 }
+
+export function getSavedTerrainSettings(): TerrainSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY)
+    return saved ? { ...DEFAULT_TERRAIN_SETTINGS, ...JSON.parse(saved) as Partial<TerrainSettings> } : DEFAULT_TERRAIN_SETTINGS
+  } catch {
+    return DEFAULT_TERRAIN_SETTINGS
+  }
+}
+
+export function saveTerrainSettings(settings: TerrainSettings): void {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('❌ Error saving terrain settings:', error)
+  }
+}
+
+export class TerrainService {
+  // Separate sources for terrain and hillshade, as MapLibre recommends: they load tiles at different zooms
+  static readonly TERRAIN_SOURCE_ID = 'terrain-dem'
+  static readonly HILLSHADE_SOURCE_ID = 'hillshade-dem'
+  static readonly HILLSHADE_LAYER_ID = 'terrain-hillshade'
+
+  static readonly DEM_URL = (import.meta.env.VITE_TERRAIN_DEM_URL as string | undefined) ?? DEFAULT_DEM_URL
+  static readonly DEM_ENCODING: DemEncoding =
+    (import.meta.env.VITE_TERRAIN_DEM_ENCODING as string | undefined) === 'mapbox' ? 'mapbox' : 'terrarium'
+  static readonly DEM_MAX_ZOOM = Number(import.meta.env.VITE_TERRAIN_DEM_MAXZOOM as string | undefined) || 15
+  static readonly DEM_TILE_SIZE = 256
+  private static readonly TILE_CACHE_SIZE = 64
+  private static tileCache = new Map<string, Promise<DemTile>>()
+
+  static getDemSource(): maplibregl.RasterDEMSourceSpecification {
+    return {
+      type: 'raster-dem',
+      tiles: [this.DEM_URL],
+      tileSize: this.DEM_TILE_SIZE,
+      maxzoom: this.DEM_MAX_ZOOM,
+      encoding: this.DEM_ENCODING,
+      attribution: this.DEM_URL === DEFAULT_DEM_URL ? '© Mapzen, Kartverket' : undefined
+    }
+  }
+
+  static getHillshadeLayer(mapType: 'topo' | 'satellite'): maplibregl.HillshadeLayerSpecification {
+    return {
+      id: this.HILLSHADE_LAYER_ID,
+      type: 'hillshade',
+      source: this.HILLSHADE_SOURCE_ID,
+      paint: {
+        // Kartverket's topo map already has contour lines, so keep the shading subtle there
+        'hillshade-exaggeration': mapType === 'topo' ? 0.35 : 0.5,
+        'hillshade-shadow-color': '#3b3020',
+        'hillshade-highlight-color': '#ffffff',
+        'hillshade-illumination-direction': 315
+      }
+    }
+  }
+
+  /**
+   * Add or remove the DEM sources, hillshade layer and 3D terrain to match the settings.
+   * The hillshade goes directly above the base map, below trails, measurements and overlays.
+   */
+  static apply(map: maplibregl.Map, settings: TerrainSettings, mapType: 'topo' | 'satellite'): void {
+    if (settings.hillshade) {
+      if (!map.getSource(this.HILLSHADE_SOURCE_ID)) {
+        map.addSource(this.HILLSHADE_SOURCE_ID, this.getDemSource())
+      }
+      if (!map.getLayer(this.HILLSHADE_LAYER_ID)) {
+        const layers = map.getStyle().layers
+        const baseIndex = layers.findIndex(layer => layer.type === 'raster')
+        map.addLayer(this.getHillshadeLayer(mapType), layers[baseIndex + 1]?.id)
+      }
+    } else {
+      if (map.getLayer(this.HILLSHADE_LAYER_ID)) map.removeLayer(this.HILLSHADE_LAYER_ID)
+      if (map.getSource(this.HILLSHADE_SOURCE_ID)) map.removeSource(this.HILLSHADE_SOURCE_ID)
+    }
+
+    if (settings.enabled) {
+      if (!map.getSource(this.TERRAIN_SOURCE_ID)) {
+        map.addSource(this.TERRAIN_SOURCE_ID, this.getDemSource())
+      }
+      map.setTerrain({ source: this.TERRAIN_SOURCE_ID, exaggeration: settings.exaggeration })
+    } else {
+      if (map.getTerrain()) map.setTerrain(null)
+      if (map.getSource(this.TERRAIN_SOURCE_ID)) map.removeSource(this.TERRAIN_SOURCE_ID)
+    }
+  }
+
+  static getDemTileUrl(z: number, x: number, y: number): string {
+    return this.DEM_URL.replace('{z}', String(z)).replace('{x}', String(x)).replace('{y}', String(y))
+  }
+
+  /**
+   * Fetch and decode a DEM tile. Recent tiles are kept in memory, as neighbouring
+   * analysis tiles and repeated requests read the same ones. The signal only stops this caller
+   * waiting: the shared request carries on for the others, and fills the cache.
+   */
+  static fetchDemTile(z: number, x: number, y: number, signal?: AbortSignal): Promise<DemTile> {
+    const key = `${z}/${x}/${y}`
+    const cached = this.tileCache.get(key)
+    if (cached) {
+      // Move to the end, so the least recently used tile is evicted first
+      this.tileCache.delete(key)
+      this.tileCache.set(key, cached)
+      return this.untilAborted(cached, signal)
+    }
+
+    const request = this.loadDemTile(this.getDemTileUrl(z, x, y))
+    this.tileCache.set(key, request)
+    request.catch(() => this.tileCache.delete(key))
+
+    if (this.tileCache.size > this.TILE_CACHE_SIZE) {
+      const oldest = this.tileCache.keys().next().value
+      if (oldest !== undefined) this.tileCache.delete(oldest)
+    }
+
+    return this.untilAborted(request, signal)
+  }
+
+  /**
+   * Decode a terrain-RGB image to elevations. Uses OffscreenCanvas, so it also works in workers.
+   */
+  static async decodeDemImage(image: Blob, encoding: DemEncoding = this.DEM_ENCODING): Promise<DemTile> {
+    const bitmap = await createImageBitmap(image)
+    const canvas = new OffscreenCanvas(bitmap.width, bitmap.height)
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('OffscreenCanvas 2D is not available')
+
+    context.drawImage(bitmap, 0, 0)
+    bitmap.close()
+    const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data
+    const elevations = new Float32Array(canvas.width * canvas.height)
+    for (let i = 0; i < elevations.length; i++) {
+      elevations[i] = this.decodeElevation(pixels[i * 4], pixels[i * 4 + 1], pixels[i * 4 + 2], encoding)
+    }
+
+    return { size: canvas.width, elevations }
+  }
+
+  /**
+   * Elevation in meters from the red, green and blue values of a DEM tile pixel
+   */
+  static decodeElevation(red: number, green: number, blue: number, encoding: DemEncoding = this.DEM_ENCODING): number {
+    return encoding === 'terrarium'
+      ? red * 256 + green + blue / 256 - 32768
+      : -10000 + (red * 65536 + green * 256 + blue) * 0.1
+  }
+
+  /**
+   * The request's result, or a rejection as soon as the signal aborts
+   */
+  private static untilAborted<T>(request: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return request
+    if (signal.aborted) return Promise.reject(new DOMException('DEM tile request aborted', 'AbortError'))
+
+    return new Promise<T>((resolve, reject) => {
+      const abort = () => reject(new DOMException('DEM tile request aborted', 'AbortError'))
+      signal.addEventListener('abort', abort, { once: true })
+      void request.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort))
+    })
+  }
+
+  private static async loadDemTile(url: string): Promise<DemTile> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`DEM tile error: ${response.status} ${response.statusText}`)
+    }
+    return this.decodeDemImage(await response.blob())
+  }
+}
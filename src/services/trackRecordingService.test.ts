@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest'
+import { TrackRecordingService, type RecordedPoint, type RecordedTrack } from './trackRecordingService'
+
+const START = { lat: 61.0, lng: 9.0 }
+const METERS_PER_DEGREE = 6371000 * Math.PI / 180
+
+/**
+ * A fix the given distance north of START, at the given second
+ */
+function pointAt(meters: number, second: number, accuracy = 5, elevation?: number): RecordedPoint {
+  return {
+    lat: START.lat + meters / METERS_PER_DEGREE,
+    lng: START.lng,
+    elevation,
+    accuracy,
+    timestamp: second * 1000
+  }
+}
+
+function trackWith(...segments: RecordedPoint[][]): RecordedTrack {
+  return { id: 'track', name: 'Tur', status: 'recording', segments, started: 0 }
+}
+
+describe('TrackRecordingService.addPoint', () => {
+  it('adds the first fix of a segment', () => {
+    const track = TrackRecordingService.addPoint(trackWith([]), pointAt(0, 0))
+
+    expect(TrackRecordingService.pointCount(track)).toBe(1)
+  })
+
+  it('ignores fixes with poor accuracy', () => {
+    const track = trackWith([])
+
+    expect(TrackRecordingService.addPoint(track, pointAt(0, 0, 31))).toBe(track)
+    expect(TrackRecordingService.pointCount(TrackRecordingService.addPoint(track, pointAt(0, 0, 30)))).toBe(1)
+  })
+
+  it('ignores movement smaller than the minimum', () => {
+    const track = trackWith([pointAt(0, 0)])
+
+    expect(TrackRecordingService.addPoint(track, pointAt(2, 10, 2))).toBe(track)
+    expect(TrackRecordingService.pointCount(TrackRecordingService.addPoint(track, pointAt(4, 10, 2)))).toBe(2)
+  })
+
+  it('ignores movement within half the accuracy circle', () => {
+    const track = trackWith([pointAt(0, 0)])
+
+    expect(TrackRecordingService.addPoint(track, pointAt(10, 10, 24))).toBe(track)
+    expect(TrackRecordingService.pointCount(TrackRecordingService.addPoint(track, pointAt(13, 10, 24)))).toBe(2)
+  })
+
+  it('ignores jumps faster than the speed cap', () => {
+    const track = trackWith([pointAt(0, 0)])
+
+    expect(TrackRecordingService.addPoint(track, pointAt(350, 10))).toBe(track)
+    expect(TrackRecordingService.pointCount(TrackRecordingService.addPoint(track, pointAt(250, 10)))).toBe(2)
+  })
+
+  it('ignores fixes that are not newer than the previous one', () => {
+    const track = trackWith([pointAt(0, 10)])
+
+    expect(TrackRecordingService.addPoint(track, pointAt(20, 10))).toBe(track)
+  })
+
+  it('ignores fixes while paused', () => {
+    const track = TrackRecordingService.pause(trackWith([pointAt(0, 0)]))
+
+    expect(TrackRecordingService.addPoint(track, pointAt(20, 10))).toBe(track)
+  })
+
+  it('adds to a new segment after resuming', () => {
+    const paused = TrackRecordingService.pause(trackWith([pointAt(0, 0), pointAt(20, 10)]))
+    const track = TrackRecordingService.addPoint(TrackRecordingService.resume(paused), pointAt(500, 600))
+
+    expect(track.segments.map(segment => segment.length)).toEqual([2, 1])
+  })
+})
+
+describe('TrackRecordingService.getStats', () => {
+  it('counts only steps at walking pace or faster as moving time', () => {
+    const track = trackWith([
+      pointAt(0, 0),
+      pointAt(100, 60),   // 1.67 m/s
+      pointAt(110, 120),  // 0.17 m/s - standing still
+      pointAt(170, 150)   // 2 m/s
+    ])
+
+    const stats = TrackRecordingService.getStats(track, 200_000)
+
+    expect(stats.distance).toBeCloseTo(170, 6)
+    expect(stats.movingTime).toBeCloseTo(90, 6)
+    expect(stats.averageSpeed).toBeCloseTo(170 / 90, 6)
+    expect(stats.maxSpeed).toBeCloseTo(2, 6)
+    expect(stats.elapsedTime).toBe(200)
+  })
+
+  it('does not count the gap between segments', () => {
+    const track = trackWith(
+      [pointAt(0, 0), pointAt(60, 60)],
+      [pointAt(1000, 600), pointAt(1060, 660)]
+    )
+
+    const stats = TrackRecordingService.getStats(track)
+
+    expect(stats.distance).toBeCloseTo(120, 6)
+    expect(stats.movingTime).toBe(120)
+  })
+
+  it('ignores altitude changes below the threshold', () => {
+    const track = trackWith([
+      pointAt(0, 0, 5, 100),
+      pointAt(50, 30, 5, 103),
+      pointAt(100, 60, 5, 106),
+      pointAt(150, 90, 5, 102),
+      pointAt(200, 120, 5, 98)
+    ])
+
+    const stats = TrackRecordingService.getStats(track)
+
+    expect(stats.ascent).toBe(6)
+    expect(stats.descent).toBe(8)
+  })
+})
@@ -0,0 +1,192 @@
+/**
+ * Track recording service - GPS breadcrumb recording
+ *
+ * Positions from watchPosition are filtered for jitter (poor accuracy, standing
+ * still, impossible jumps) before being added. Pausing ends the current segment;
+ * resuming starts a new one, so the gap is not counted as distance or moving time.
+ */
+
+import { calculateHaversineDistance } from './distanceService'
+
+export interface RecordedPoint {
+  lat: number
+  lng: number
+  elevation?: number  // GPS altitude, when the device reports it
+  accuracy: number    // Meters
+  timestamp: number
+}
+
+export type RecordingStatus = 'recording' | 'paused' | 'finished'
+
+export interface RecordedTrack {
+  id: string
+  name: string
+  status: RecordingStatus
+  segments: RecordedPoint[][]
+  started: number
+  ended?: number
+}
+
+export interface TrackStats {
+  distance: number      // Meters
+  movingTime: number    // Seconds
+  elapsedTime: number   // Seconds, including pauses
+  averageSpeed: number  // m/s over moving time
+  maxSpeed: number      // m/s
+  ascent: number
+  descent: number
+}
+
+export class TrackRecordingService {
+  private static readonly MAX_ACCURACY = 30        // Ignore fixes worse than this (meters)
+  private static readonly MIN_MOVEMENT = 3         // Minimum movement between points (meters)
+  private static readonly MAX_SPEED = 30           // Anything faster is a GPS jump (m/s)
+  private static readonly MIN_MOVING_SPEED = 0.3   // Slower than this counts as standing still (m/s)
+  private static readonly ELEVATION_THRESHOLD = 5  // Ignore altitude changes smaller than this (meters)
+
+  /**
+   * New track, recording from now
+   */
+  static createTrack(): RecordedTrack {
+    const now = Date.now()
+    return {
+      id: `track_${now}_${Math.random().toString(36).substring(2, 11)}`,
+      name: `Tur ${new Date(now).toLocaleString('no-NO', { dateStyle: 'short', timeStyle: 'short' })}`,
+      status: 'recording',
+      segments: [[]],
+      started: now
+    }
+  }
+
+  static toPoint(position: GeolocationPosition): RecordedPoint {
+    return {
+      lat: position.coords.latitude,
+      lng: position.coords.longitude,
+      elevation: position.coords.altitude ?? undefined,
+      accuracy: position.coords.accuracy,
+      timestamp: position.timestamp
+    }
+  }
+
+  /**
+   * Add a position to the current segment. Returns the same track object
+   * when the point is filtered out, so React state updates can bail out.
+   */
+  static addPoint(track: RecordedTrack, point: RecordedPoint): RecordedTrack {
+    if (track.status !== 'recording' || point.accuracy > this.MAX_ACCURACY) return track
+
+    const segment = track.segments[track.segments.length - 1] ?? []
+    const previous = segment[segment.length - 1] as RecordedPoint | undefined
+
+    if (previous) {
+      const distance = calculateHaversineDistance(previous, point)
+      const seconds = (point.timestamp - previous.timestamp) / 1000
+
+      // Within the accuracy circle we can't tell movement from noise
+      if (seconds <= 0 || distance < Math.max(this.MIN_MOVEMENT, point.accuracy / 2)) return track
+      if (distance / seconds > this.MAX_SPEED) return track
+    }
+
+    return {
+      ...track,
+      segments: [...track.segments.slice(0, -1), [...segment, point]]
+    }
+  }
+
+  static pause(track: RecordedTrack): RecordedTrack {
+    return track.status === 'recording' ? { ...track, status: 'paused' } : track
+  }
+
+  static resume(track: RecordedTrack): RecordedTrack {
+    if (track.status === 'finished') return track
+    // Keep an empty current segment rather than stacking several
+    const segments = track.segments[track.segments.length - 1]?.length === 0
+      ? track.segments
+      : [...track.segments, []]
+    return { ...track, status: 'recording', segments }
+  }
+
+  static finish(track: RecordedTrack): RecordedTrack {
+    return {
+      ...track,
+      status: 'finished',
+      segments: track.segments.filter(segment => segment.length >= 2),
+      ended: Date.now()
+    }
+  }
+
+  static pointCount(track: RecordedTrack): number {
+    return track.segments.reduce((sum, segment) => sum + segment.length, 0)
+  }
+
+  static getStats(track: RecordedTrack, now: number = Date.now()): TrackStats {
+    let distance = 0
+    let movingTime = 0
+    let maxSpeed = 0
+    let ascent = 0
+    let descent = 0
+
+    track.segments.forEach(segment => {
+      let referenceElevation: number | undefined
+
+      for (let i = 0; i < segment.length; i++) {
+        const point = segment[i]
+
+        // Hysteresis: only count a climb once it exceeds the threshold
+        if (point.elevation !== undefined) {
+          if (referenceElevation === undefined) {
+            referenceElevation = point.elevation
+          } else if (Math.abs(point.elevation - referenceElevation) >= this.ELEVATION_THRESHOLD) {
+            const delta = point.elevation - referenceElevation
+            if (delta > 0) ascent += delta
+            else descent -= delta
+            referenceElevation = point.elevation
+          }
+        }
+
+        if (i === 0) continue
+
+        const step = calculateHaversineDistance(segment[i - 1], point)
+        const seconds = (point.timestamp - segment[i - 1].timestamp) / 1000
+        distance += step
+
+        if (seconds > 0) {
+          const speed = step / seconds
+          if (speed >= this.MIN_MOVING_SPEED) {
+            movingTime += seconds
+            maxSpeed = Math.max(maxSpeed, speed)
+          }
+        }
+      }
+    })
+
+    return {
+      distance,
+      movingTime,
+      elapsedTime: Math.max(0, ((track.ended ?? now) - track.started) / 1000),
+      averageSpeed: movingTime > 0 ? distance / movingTime : 0,
+      maxSpeed,
+      ascent,
+      descent
+    }
+  }
+
+  /**
+   * Format m/s as km/h, e.g. "4,2 km/t"
+   */
+  static formatSpeed(metersPerSecond: number): string {
+    return `${(metersPerSecond * 3.6).toFixed(1).replace('.', ',')} km/t`
+  }
+
+  /**
+   * Format seconds as a clock, e.g. "1:05:09" or "12:40"
+   */
+  static formatClock(seconds: number): string {
+    const total = Math.floor(seconds)
+    const hours = Math.floor(total / 3600)
+    const minutes = Math.floor((total % 3600) / 60)
+    const secs = total % 60
+    const pad = (value: number) => value.toString().padStart(2, '0')
+    return hours > 0 ? `${hours}:${pad(minutes)}:${pad(secs)}` : `${minutes}:${pad(secs)}`
+  }
+}
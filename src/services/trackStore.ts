@@ -0,0 +1,48 @@
+/**
+ * Track store - persists recorded GPS tracks in IndexedDB
+ *
+ * The active recording is written on every accepted point, so it survives reloads.
+ */
+
+import type { RecordedTrack } from './trackRecordingService'
+import { DB_STORES, openDatabase, requestToPromise, transactionDone } from './localDatabase'
+
+export class TrackStore {
+  /**
+   * All saved tracks (including an unfinished recording), oldest first
+   */
+  static async getAll(): Promise<RecordedTrack[]> {
+    try {
+      const db = await openDatabase()
+      const store = db.transaction(DB_STORES.tracks, 'readonly').objectStore(DB_STORES.tracks)
+      const tracks = await requestToPromise(store.getAll() as IDBRequest<RecordedTrack[]>)
+
+      return tracks.sort((a, b) => a.started - b.started)
+    } catch (error) {
+      console.error('❌ Error loading recorded tracks:', error)
+      return []
+    }
+  }
+
+  static async save(track: RecordedTrack): Promise<void> {
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction(DB_STORES.tracks, 'readwrite')
+      transaction.objectStore(DB_STORES.tracks).put(track)
+      await transactionDone(transaction)
+    } catch (error) {
+      console.error('❌ Error saving recorded track:', error)
+    }
+  }
+
+  static async delete(id: string): Promise<void> {
+    try {
+      const db = await openDatabase()
+      const transaction = db.transaction(DB_STORES.tracks, 'readwrite')
+      transaction.objectStore(DB_STORES.tracks).delete(id)
+      await transactionDone(transaction)
+    } catch (error) {
+      console.error('❌ Error deleting recorded track:', error)
+    }
+  }
+}
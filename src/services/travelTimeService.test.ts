@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import type { ElevationPoint } from '../data/trails'
+import { TravelTimeService } from './travelTimeService'
+
+/**
+ * Profile with a point every 100 m, rising by the given gradient
+ */
+const profile = (length: number, gradient: number): ElevationPoint[] =>
+  Array.from({ length: length / 100 + 1 }, (_, i) => ({ distance: i * 100, elevation: 500 + i * 100 * gradient, lat: 61, lng: 8 }))
+
+const NAISMITH_WALKING = { method: 'naismith', pace: 'walking' } as const
+const TOBLER_WALKING = { method: 'tobler', pace: 'walking' } as const
+
+describe('TravelTimeService.estimate', () => {
+  it('adds time for ascent with Naismith', () => {
+    expect(TravelTimeService.estimate({ distance: 10000 }, NAISMITH_WALKING)).toBe(120)
+    expect(TravelTimeService.estimate({ distance: 10000, elevationProfile: profile(10000, 0.06) }, NAISMITH_WALKING)).toBe(180)
+  })
+
+  it('uses the elevation gain when there is no profile', () => {
+    expect(TravelTimeService.estimate({ distance: 5000, elevationGain: 300 }, NAISMITH_WALKING)).toBe(90)
+    expect(TravelTimeService.estimate({ distance: 5000, elevationGain: 300, elevationProfile: [] }, NAISMITH_WALKING)).toBe(90)
+  })
+
+  it('scales with the pace profile', () => {
+    expect(TravelTimeService.estimate({ distance: 10000, elevationGain: 1000 }, { method: 'naismith', pace: 'running' })).toBe(120)
+    expect(TravelTimeService.estimate({ distance: 3000 }, { method: 'naismith', pace: 'child' })).toBe(60)
+  })
+
+  it('matches the flat speed on level ground with Tobler', () => {
+    expect(TravelTimeService.estimate({ distance: 10000, elevationProfile: profile(10000, 0) }, TOBLER_WALKING)).toBe(120)
+  })
+
+  it('is fastest on a gentle descent with Tobler, and slow on steep ones', () => {
+    const estimate = (gradient: number) =>
+      TravelTimeService.estimate({ distance: 5000, elevationProfile: profile(5000, gradient) }, TOBLER_WALKING)
+
+    expect(estimate(-0.05)).toBeLessThan(estimate(0))
+    expect(estimate(-0.3)).toBeGreaterThan(estimate(0))
+    expect(estimate(0.2)).toBeGreaterThan(estimate(-0.2))
+  })
+
+  it('scales the Tobler time to the given distance', () => {
+    const short = TravelTimeService.estimate({ distance: 2000, elevationProfile: profile(2000, 0.1) }, TOBLER_WALKING)
+    const long = TravelTimeService.estimate({ distance: 4000, elevationProfile: profile(2000, 0.1) }, TOBLER_WALKING)
+    expect(long).toBeCloseTo(short * 2, -1)
+  })
+
+  it('falls back to Naismith when Tobler has no profile', () => {
+    expect(TravelTimeService.estimate({ distance: 5000, elevationGain: 300 }, TOBLER_WALKING)).toBe(90)
+  })
+
+  it('is zero without a distance', () => {
+    expect(TravelTimeService.estimate({ distance: 0, elevationGain: 300 }, NAISMITH_WALKING)).toBe(0)
+  })
+})
+
+describe('TravelTimeService settings', () => {
+  it('defaults to Naismith and walking', () => {
+    expect(TravelTimeService.getSettings()).toEqual(NAISMITH_WALKING)
+  })
+
+  it('restores saved settings', () => {
+    TravelTimeService.saveSettings({ method: 'tobler', pace: 'skiing' })
+    expect(TravelTimeService.getSettings()).toEqual({ method: 'tobler', pace: 'skiing' })
+  })
+
+  it('replaces unknown saved values with the defaults', () => {
+    localStorage.setItem('trakke_travel_time_v1', JSON.stringify({ method: 'tobler', pace: 'cycling' }))
+    expect(TravelTimeService.getSettings()).toEqual({ method: 'tobler', pace: 'walking' })
+  })
+})
+
+describe('TravelTimeService.formatDuration', () => {
+  it('formats hours and minutes', () => {
+    expect(TravelTimeService.formatDuration(135)).toBe('2t 15min')
+    expect(TravelTimeService.formatDuration(120)).toBe('2t')
+    expect(TravelTimeService.formatDuration(45)).toBe('45min')
+  })
+})
@@ -0,0 +1,133 @@
+/**
+ * Travel time service - estimated hiking time from distance and elevation
+ *
+ * Two models are available:
+ * - Naismith's rule: flat speed plus a fixed time per metre of ascent
+ * - Tobler's hiking function: speed depends on the gradient of each profile segment,
+ *   so steep descents are slow too
+ *
+ * Both are scaled by a pace profile (walking, running, skiing, with child).
+ */
+
+import type { ElevationPoint } from '../data/trails'
+import { ElevationService } from './elevationService'
+
+export type TravelTimeMethod = 'naismith' | 'tobler'
+export type PaceProfileId = 'walking' | 'running' | 'skiing' | 'child'
+
+export interface PaceProfile {
+  id: PaceProfileId
+  name: string
+  icon: string        // Material Symbols icon
+  flatSpeed: number   // km/h on flat ground
+  ascentRate: number  // Metres of ascent per hour (Naismith)
+}
+
+export interface TravelTimeSettings {
+  method: TravelTimeMethod
+  pace: PaceProfileId
+}
+
+export interface TravelTimeInput {
+  distance: number                      // Meters
+  elevationProfile?: ElevationPoint[]   // Preferred source of ascent and gradients
+  elevationGain?: number                // Used when there is no profile
+}
+
+export const PACE_PROFILES: Record<PaceProfileId, PaceProfile> = {
+  walking: { id: 'walking', name: 'Gående', icon: 'hiking', flatSpeed: 5, ascentRate: 600 },
+  running: { id: 'running', name: 'Løping', icon: 'directions_run', flatSpeed: 10, ascentRate: 1000 },
+  skiing: { id: 'skiing', name: 'Ski', icon: 'downhill_skiing', flatSpeed: 8, ascentRate: 400 },
+  child: { id: 'child', name: 'Med barn', icon: 'family_restroom', flatSpeed: 3, ascentRate: 300 }
+}
+
+export const TRAVEL_TIME_METHODS: Record<TravelTimeMethod, string> = {
+  naismith: 'Naismith',
+  tobler: 'Tobler'
+}
+
+const STORAGE_KEY = 'trakke_travel_time_v1'
+const DEFAULT_SETTINGS: TravelTimeSettings = { method: 'naismith', pace: 'walking' }
+
+export class TravelTimeService {
+  // Tobler's function gives about 5.04 km/h on flat ground; pace profiles scale relative to this
+  private static readonly TOBLER_FLAT_SPEED = 6 * Math.exp(-3.5 * 0.05)
+
+  /**
+   * Estimated travel time in minutes
+   */
+  static estimate(input: TravelTimeInput, settings: TravelTimeSettings = this.getSettings()): number {
+    if (input.distance <= 0) return 0
+
+    const pace = PACE_PROFILES[settings.pace]
+    const profile = input.elevationProfile ?? []
+
+    // Tobler needs gradients; without a profile fall back to Naismith
+    if (settings.method === 'tobler' && profile.length >= 2) {
+      return Math.round(this.toblerHours(profile, input.distance, pace) * 60)
+    }
+
+    const ascent = ElevationService.getProfileStats(profile)?.ascent ?? input.elevationGain ?? 0
+    const hours = input.distance / 1000 / pace.flatSpeed + ascent / pace.ascentRate
+    return Math.round(hours * 60)
+  }
+
+  /**
+   * Saved settings, or the defaults (Naismith, walking)
+   */
+  static getSettings(): TravelTimeSettings {
+    try {
+      const data = localStorage.getItem(STORAGE_KEY)
+      if (!data) return DEFAULT_SETTINGS
+      const settings = JSON.parse(data) as Partial<TravelTimeSettings>
+      return {
+        method: settings.method && settings.method in TRAVEL_TIME_METHODS ? settings.method : DEFAULT_SETTINGS.method,
+        pace: settings.pace && settings.pace in PACE_PROFILES ? settings.pace : DEFAULT_SETTINGS.pace
+      }
+    } catch (error) {
+      console.error('❌ Error reading travel time settings:', error)
+      return DEFAULT_SETTINGS
+    }
+  }
+
+  static saveSettings(settings: TravelTimeSettings): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+    } catch (error) {
+      console.error('❌ Error saving travel time settings:', error)
+    }
+  }
+
+  /**
+   * Format minutes as e.g. "2t 15min"
+   */
+  static formatDuration(minutes: number): string {
+    const hours = Math.floor(minutes / 60)
+    const mins = Math.round(minutes % 60)
+    if (hours > 0) {
+      return mins > 0 ? `${hours}t ${mins}min` : `${hours}t`
+    }
+    return `${mins}min`
+  }
+
+  /**
+   * Sum Tobler walking time over each profile segment. The profile's own length
+   * may differ slightly from the given distance, so the result is scaled to it.
+   */
+  private static toblerHours(profile: ElevationPoint[], distance: number, pace: PaceProfile): number {
+    const speedFactor = pace.flatSpeed / this.TOBLER_FLAT_SPEED
+    let hours = 0
+
+    for (let i = 1; i < profile.length; i++) {
+      const run = profile[i].distance - profile[i - 1].distance
+      if (run <= 0) continue
+
+      const gradient = (profile[i].elevation - profile[i - 1].elevation) / run
+      const speed = 6 * Math.exp(-3.5 * Math.abs(gradient + 0.05)) * speedFactor
+      hours += run / 1000 / speed
+    }
+
+    const profileLength = profile[profile.length - 1].distance - profile[0].distance
+    return profileLength > 0 ? hours * (distance / profileLength) : distance / 1000 / pace.flatSpeed
+  }
+}
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { TurrutebasenService } from './turrutebasenService'
+
+const BOUNDS = { north: 60.0, south: 59.9, east: 10.8, west: 10.6 }
+
+/**
+ * A GeoJSON WFS page with `count` line features of the given type
+ */
+function wfsPage(typeName: string, startIndex: number, count: number): Response {
+  const features = Array.from({ length: count }, (_, i) => ({
+    type: 'Feature',
+    id: `${typeName}.${startIndex + i}`,
+    geometry: { type: 'LineString', coordinates: [[10.7, 59.95], [10.71, 59.96]] },
+    properties: {}
+  }))
+  return new Response(JSON.stringify({ type: 'FeatureCollection', features }))
+}
+
+describe('TurrutebasenService.fetchTrailsInBounds', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('splits maxFeatures between the feature types', async () => {
+    // Fotrute has far more features than the budget, Skiløype only three
+    const available: Record<string, number> = { 'app:Fotrute': 1000, 'app:Skiløype': 3 }
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(input => {
+      const params = new URL(String(input)).searchParams
+      const typeName = params.get('typeNames')!
+      const startIndex = Number(params.get('startIndex'))
+      const count = Math.min(Number(params.get('count')), available[typeName] - startIndex)
+      return Promise.resolve(wfsPage(typeName, startIndex, Math.max(count, 0)))
+    })
+
+    const trails = await TurrutebasenService.fetchTrailsInBounds(BOUNDS, { maxFeatures: 10, types: ['hiking', 'skiing'] })
+    const ids = trails.map(trail => trail.id)
+
+    expect(ids.filter(id => id.startsWith('app:Fotrute'))).toHaveLength(5)
+    expect(ids.filter(id => id.startsWith('app:Skiløype'))).toHaveLength(3)
+    expect(fetchMock.mock.calls.map(([url]) => new URL(String(url)).searchParams.get('count'))).toEqual(['5', '5'])
+  })
+
+  it('pages through a type until its share is reached', async () => {
+    const fetchMock = vi.spyOn(globalThis, 'fetch').mockImplementation(input => {
+      const params = new URL(String(input)).searchParams
+      return Promise.resolve(wfsPage(params.get('typeNames')!, Number(params.get('startIndex')), Number(params.get('count'))))
+    })
+
+    const trails = await TurrutebasenService.fetchTrailsInBounds(BOUNDS, { maxFeatures: 250, types: ['hiking'] })
+
+    expect(trails).toHaveLength(250)
+    expect(fetchMock.mock.calls.map(([url]) => new URL(String(url)).searchParams.get('startIndex'))).toEqual(['0', '100', '200'])
+  })
+})
@@ -1,14 +1,19 @@
-// Turrutebasen WMS Service - Norwegian National Trail Database
+// Turrutebasen WMS/WFS Service - Norwegian National Trail Database
 import type {
   Trail,
+  TrailType,
   TrailSearchQuery,
   TrailSearchResult,
   BoundingBox,
   ElevationPoint,
   PlannedRoute,
-  RoutePreferences
+  RoutePreferences,
+  TurrutebasenFeature,
+  TurrutebasenResponse
 } from '../data/trails'
+import { TrailUtils } from '../data/trails'
 import { ElevationService } from './elevationService'
+import { RoutePlannerService } from './routePlannerService'
 
 export class TurrutebasenService {
   private static readonly WMS_BASE_URL = 'https://wms.geonorge.no/skwms1/wms.friluftsruter2'
@@ -21,6 +26,22 @@ export class TurrutebasenService {
     other: 'AnnenRute'
   } as const
 
+  private static readonly WFS_BASE_URL = 'https://wfs.geonorge.no/skwms1/wfs.turogfriluftsruter'
+  private static readonly WFS_VERSION = '2.0.0'
+  private static readonly WFS_PAGE_SIZE = 100
+  private static readonly DEFAULT_MAX_FEATURES = 500
+
+  private static readonly WFS_FEATURE_TYPES: Record<TrailType, string[]> = {
+    hiking: ['app:Fotrute'],
+    skiing: ['app:Skiløype'],
+    cycling: ['app:Sykkelrute'],
+    mixed: ['app:AnnenRute'],
+    other: ['app:AnnenRute']
+  }
+
+  private static readonly CACHE_DURATION = 10 * 60 * 1000 // 10 minutes
+  private static trailCache = new Map<string, { trail: Trail, timestamp: number }>()
+
   static async checkServiceAvailability(): Promise<boolean> {
     try {
       const capabilitiesUrl = `${this.WMS_BASE_URL}?service=WMS&version=${this.WMS_VERSION}&request=GetCapabilities`
@@ -52,22 +73,121 @@ export class TurrutebasenService {
     return sources
   }
 
-  static async fetchTrailsInBounds(_bounds: BoundingBox, _options?: {
+  /**
+   * Fetch trail geometry from the Turrutebasen WFS within the given bounds.
+   * Pages through the result set with startIndex/count. maxFeatures is split evenly between
+   * the feature types, so one dense type can't crowd out the others.
+   */
+  static async fetchTrailsInBounds(bounds: BoundingBox, options?: {
     maxFeatures?: number
     types?: string[]
   }): Promise<Trail[]> {
-    return []
+    const maxFeatures = options?.maxFeatures ?? this.DEFAULT_MAX_FEATURES
+    const typeNames = this.resolveFeatureTypes(options?.types)
+    const maxPerType = Math.ceil(maxFeatures / typeNames.length)
+    const trails = new Map<string, Trail>()
+
+    for (const typeName of typeNames) {
+      let startIndex = 0
+      let typeCount = 0
+
+      while (typeCount < maxPerType) {
+        const count = Math.min(this.WFS_PAGE_SIZE, maxPerType - typeCount)
+
+        let page: { features: TurrutebasenFeature[]; featureCount: number }
+        try {
+          page = await this.fetchFeatures({
+            typeNames: typeName,
+            bbox: `${bounds.south},${bounds.west},${bounds.north},${bounds.east},urn:ogc:def:crs:EPSG::4326`,
+            count: String(count),
+            startIndex: String(startIndex)
+          }, typeName)
+        } catch (error) {
+          console.error(`❌ Error fetching ${typeName} from Turrutebasen WFS:`, error)
+          break
+        }
+
+        page.features.forEach(feature => {
+          const trail = this.toTrail(feature)
+          if (trail && typeCount < maxPerType && !trails.has(trail.id)) {
+            trails.set(trail.id, trail)
+            typeCount++
+          }
+        })
+
+        // A short page means the server has no more features for this bbox. Paging counts the
+        // server's features, not the part features multi-part lines are split into
+        if (page.featureCount < count) break
+        startIndex += page.featureCount
+      }
+    }
+
+    const result = Array.from(trails.values())
+    result.forEach(trail => this.trailCache.set(trail.id, { trail, timestamp: Date.now() }))
+    return result
   }
 
-  static async getTrailById(_id: string): Promise<Trail | null> {
+  static async getTrailById(id: string): Promise<Trail | null> {
+    const cached = this.trailCache.get(id)
+    if (cached && Date.now() - cached.timestamp < this.CACHE_DURATION) {
+      return cached.trail
+    }
+
+    // Parts of multi-part features have ids like `${id}-${part}`; the WFS only knows the feature id.
+    // An id that merely ends in digits is tried as is if the shortened one is not found.
+    const partMatch = /^(.+)-(\d+)$/.exec(id)
+    const resourceIds = partMatch ? [partMatch[1], id] : [id]
+
+    for (const resourceId of resourceIds) {
+      try {
+        const { features } = await this.fetchFeatures({ resourceId })
+        const feature = features.find(candidate => candidate.id === id) ?? (resourceId === id ? features[0] : undefined)
+        const trail = feature ? this.toTrail(feature) : null
+        if (trail) {
+          this.trailCache.set(trail.id, { trail, timestamp: Date.now() })
+          return trail
+        }
+      } catch (error) {
+        console.error(`❌ Error fetching trail ${resourceId} from Turrutebasen WFS:`, error)
+      }
+    }
+
     return null
   }
 
+  /**
+   * Search trails within the query bounds. The WFS has no free-text search,
+   * so attribute filters are applied client-side on the fetched features.
+   */
   static async searchTrails(query: TrailSearchQuery): Promise<TrailSearchResult> {
+    const startTime = performance.now()
+
+    if (!query.bounds) {
+      console.warn('⚠️ Trail search requires bounds - Turrutebasen WFS cannot be queried nationwide')
+      return { trails: [], totalCount: 0, searchTime: 0, bounds: query.bounds }
+    }
+
+    const fetched = await this.fetchTrailsInBounds(query.bounds, { types: query.types })
+    const text = query.text?.trim().toLowerCase()
+
+    const matches = fetched.filter(trail => {
+      const props = trail.properties
+      if (text && !props.name.toLowerCase().includes(text) && !props.description?.toLowerCase().includes(text)) return false
+      if (query.difficulties && !query.difficulties.includes(props.difficulty)) return false
+      if (query.minDistance !== undefined && props.distance < query.minDistance) return false
+      if (query.maxDistance !== undefined && props.distance > query.maxDistance) return false
+      if (query.minElevationGain !== undefined && (props.elevationGain ?? 0) < query.minElevationGain) return false
+      if (query.maxElevationGain !== undefined && (props.elevationGain ?? 0) > query.maxElevationGain) return false
+      if (query.municipalities && !query.municipalities.includes(props.municipality)) return false
+      if (query.facilities && !query.facilities.every(f => props.facilities?.includes(f))) return false
+      if (query.season && props.season && !props.season.includes(query.season)) return false
+      return true
+    })
+
     return {
-      trails: [],
-      totalCount: 0,
-      searchTime: 0,
+      trails: query.limit ? matches.slice(0, query.limit) : matches,
+      totalCount: matches.length,
+      searchTime: performance.now() - startTime,
       bounds: query.bounds
     }
   }
@@ -85,7 +205,185 @@ export class TurrutebasenService {
     }
   }
 
-  static async planRoute(_start: { lat: number; lng: number }, _end: { lat: number; lng: number }, _preferences?: RoutePreferences): Promise<PlannedRoute | null> {
-    return null
+  /**
+   * Plan a route over the trail network around start and end.
+   * Trails are loaded for the bounding box of both points plus a margin.
+   */
+  static async planRoute(start: { lat: number; lng: number }, end: { lat: number; lng: number }, preferences?: RoutePreferences): Promise<PlannedRoute | null> {
+    try {
+      const margin = 0.05 // ~5 km, lets the route detour outside the straight-line box
+      const bounds: BoundingBox = {
+        north: Math.max(start.lat, end.lat) + margin,
+        south: Math.min(start.lat, end.lat) - margin,
+        east: Math.max(start.lng, end.lng) + margin * 2,
+        west: Math.min(start.lng, end.lng) - margin * 2
+      }
+
+      // All trail types: preferred types are favoured by the route cost, not filtered here
+      const trails = await this.fetchTrailsInBounds(bounds, { maxFeatures: 1000 })
+
+      return await RoutePlannerService.planRoute(trails, start, end, preferences)
+    } catch (error) {
+      console.error('❌ Failed to plan route:', error)
+      return null
+    }
+  }
+
+  /**
+   * Map requested trail types to WFS feature type names (all types if none given)
+   */
+  private static resolveFeatureTypes(types?: string[]): string[] {
+    const requested = types && types.length > 0
+      ? types.filter((t): t is TrailType => t in this.WFS_FEATURE_TYPES)
+      : (Object.keys(this.WFS_FEATURE_TYPES) as TrailType[])
+
+    return Array.from(new Set(requested.flatMap(type => this.WFS_FEATURE_TYPES[type])))
+  }
+
+  /**
+   * Run a WFS GetFeature request and return the features, whether the server
+   * answers with GeoJSON or GML. Multi-part lines come back as one feature per part;
+   * featureCount is the number of features the server returned.
+   */
+  private static async fetchFeatures(query: Record<string, string>, typeName?: string): Promise<{ features: TurrutebasenFeature[]; featureCount: number }> {
+    const params = new URLSearchParams({
+      service: 'WFS',
+      version: this.WFS_VERSION,
+      request: 'GetFeature',
+      srsName: 'urn:ogc:def:crs:EPSG::4326',
+      outputFormat: 'application/json',
+      ...query
+    })
+
+    const response = await fetch(`${this.WFS_BASE_URL}?${params.toString()}`, {
+      headers: {
+        'User-Agent': 'Tråkke Norwegian Outdoor App (https://github.com/elzacka/trakke-react)',
+        'Accept': 'application/json, application/gml+xml;q=0.9, text/xml;q=0.8'
+      }
+    })
+
+    if (!response.ok) {
+      throw new Error(`WFS request failed: ${response.status} ${response.statusText}`)
+    }
+
+    const body = await response.text()
+    if (body.trimStart().startsWith('{')) {
+      const data: TurrutebasenResponse = JSON.parse(body)
+      const serverFeatures = data.features ?? []
+      const features = serverFeatures.flatMap(feature => this.splitLineParts(feature.geometry).map((coordinates, partIndex, parts) => ({
+        ...feature,
+        id: parts.length > 1 ? `${feature.id}-${partIndex}` : feature.id,
+        geometry: { type: 'LineString' as const, coordinates: this.normalizeAxisOrder(coordinates) },
+        properties: {
+          ...feature.properties,
+          rutetype: feature.properties.rutetype ?? typeName?.replace('app:', '')
+        }
+      })))
+      return { features, featureCount: serverFeatures.length }
+    }
+
+    return this.parseGMLFeatures(body, typeName)
+  }
+
+  /**
+   * Parse a GML 3.2 FeatureCollection into Turrutebasen features
+   */
+  private static parseGMLFeatures(xmlText: string, typeName?: string): { features: TurrutebasenFeature[]; featureCount: number } {
+    const xmlDoc = new DOMParser().parseFromString(xmlText, 'text/xml')
+
+    const exceptions = xmlDoc.getElementsByTagNameNS('*', 'ExceptionText')
+    if (exceptions.length > 0) {
+      throw new Error(`WFS Service Exception: ${exceptions[0].textContent}`)
+    }
+
+    const members = xmlDoc.getElementsByTagNameNS('*', 'member')
+    const features: TurrutebasenFeature[] = []
+
+    for (let i = 0; i < members.length; i++) {
+      const element = members[i].firstElementChild
+      if (!element) continue
+
+      try {
+        const id = element.getAttributeNS('http://www.opengis.net/gml/3.2', 'id') ?? element.getAttribute('gml:id') ?? `turrute_${i}`
+        const text = (tag: string) => element.getElementsByTagNameNS('*', tag)[0]?.textContent?.trim() ?? undefined
+
+        const lineParts = Array.from(element.getElementsByTagNameNS('*', 'posList'))
+          .map(posList => this.parsePosList(posList.textContent ?? ''))
+          .filter(coords => coords.length >= 2)
+
+        const lengthText = text('rutelengde') ?? text('lengde')
+
+        lineParts.forEach((coordinates, partIndex) => {
+          features.push({
+            type: 'Feature',
+            id: lineParts.length > 1 ? `${id}-${partIndex}` : id,
+            geometry: { type: 'LineString', coordinates },
+            properties: {
+              turrutenavn: text('rutenavn') ?? text('turrutenavn'),
+              rutetype: text('rutetype') ?? typeName?.replace('app:', '') ?? element.localName,
+              rutelengde: lengthText ? parseFloat(lengthText) : undefined,
+              kommune: text('kommune'),
+              fylke: text('fylke'),
+              vedlikeholder: text('vedlikeholdsansvarlig') ?? text('vedlikeholder'),
+              merkesystem: text('merking') ?? text('merkesystem'),
+              vanskelighetgrad: text('gradering') ?? text('vanskelighetgrad'),
+              underlaget: text('underlagstype') ?? text('underlaget'),
+              sesong: text('sesong'),
+              tilrettelegging: text('tilrettelegging'),
+              beskrivelse: text('beskrivelse')
+            }
+          })
+        })
+      } catch (featureError) {
+        console.warn('⚠️ Error parsing Turrutebasen feature:', featureError)
+      }
+    }
+
+    return { features, featureCount: members.length }
+  }
+
+  /**
+   * Parse a GML posList into coordinate pairs
+   */
+  private static parsePosList(posList: string): number[][] {
+    const values = posList.trim().split(/\s+/).map(parseFloat)
+    const coords: number[][] = []
+
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      if (isNaN(values[i]) || isNaN(values[i + 1])) continue
+      coords.push([values[i], values[i + 1]])
+    }
+
+    return this.normalizeAxisOrder(coords)
+  }
+
+  /**
+   * EPSG:4326 URNs use lat/lon axis order, so pairs are swapped to [lng, lat]
+   * when the first axis is clearly a Norwegian latitude (57.5–72°N vs. 4–32°E)
+   */
+  private static normalizeAxisOrder(coords: number[][]): number[][] {
+    const [first, second] = coords[0] ?? []
+    return first > 50 && second < 40 ? coords.map(([lat, lng]) => [lng, lat]) : coords
+  }
+
+  /**
+   * WFS features may carry MultiLineString geometry - each part becomes its own trail
+   */
+  private static splitLineParts(geometry: GeoJSON.Geometry | null): number[][][] {
+    if (geometry?.type === 'LineString') return [geometry.coordinates]
+    if (geometry?.type === 'MultiLineString') return geometry.coordinates.filter(part => part.length >= 2)
+    return []
+  }
+
+  private static toTrail(feature: TurrutebasenFeature): Trail | null {
+    if (feature.geometry?.type !== 'LineString' || feature.geometry.coordinates.length < 2) {
+      return null
+    }
+
+    const trail = TrailUtils.convertFromTurrutebasen({ ...feature, id: String(feature.id) })
+    if (!trail.properties.distance) {
+      trail.properties.distance = TrailUtils.calculateDistance(trail.geometry)
+    }
+    return trail
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { getUTMZone } from './coordinateService'
+import { UtmGridService, ZoneSector } from './utmGridService'
+
+const labels = (sectors: ZoneSector[]) => sectors.map(sector => `${sector.zone}${sector.band}`)
+
+describe('UtmGridService.getZoneSectors', () => {
+  it('clips a zone to the bounds', () => {
+    expect(UtmGridService.getZoneSectors({ north: 60.5, south: 59.5, east: 11, west: 10 })).toEqual([
+      { zone: 32, band: 'V', west: 10, east: 11, south: 59.5, north: 60.5 }
+    ])
+  })
+
+  it('splits the bounds at zone and band boundaries', () => {
+    const sectors = UtmGridService.getZoneSectors({ north: 65, south: 63, east: 13, west: 11 })
+
+    expect(labels(sectors)).toEqual(['32V', '33V', '32W', '33W'])
+    expect(sectors[0]).toMatchObject({ west: 11, east: 12, south: 63, north: 64 })
+    expect(sectors[3]).toMatchObject({ west: 12, east: 13, south: 64, north: 65 })
+  })
+
+  it('widens zone 32 to 3°E in band V', () => {
+    const sectors = UtmGridService.getZoneSectors({ north: 60, south: 59, east: 6, west: 2 })
+
+    expect(labels(sectors)).toEqual(['31V', '32V'])
+    expect(sectors[1]).toMatchObject({ west: 3, east: 6 })
+  })
+
+  it('uses the wide Svalbard zones in band X', () => {
+    const sectors = UtmGridService.getZoneSectors({ north: 80, south: 76, east: 30, west: 8 })
+
+    expect(labels(sectors)).toEqual(['31X', '33X', '35X'])
+    expect(sectors.map(sector => [sector.west, sector.east])).toEqual([[8, 9], [9, 21], [21, 30]])
+  })
+
+  it('matches the zones used for the coordinate display', () => {
+    const bounds = { north: 81, south: 57, east: 32, west: 4 }
+    UtmGridService.getZoneSectors(bounds).forEach(sector => {
+      const lat = (sector.south + sector.north) / 2
+      const lng = (sector.west + sector.east) / 2
+      expect(getUTMZone(lat, lng)).toBe(sector.zone)
+    })
+  })
+
+  it('stops at the limits of UTM', () => {
+    const sectors = UtmGridService.getZoneSectors({ north: 89, south: 83, east: 8, west: 5 })
+
+    expect(labels(sectors)).toEqual(['31X'])
+    expect(sectors[0]).toMatchObject({ south: 83, north: 84 })
+  })
+})
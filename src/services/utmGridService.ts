@@ -0,0 +1,319 @@
+/**
+ * UTM/MGRS grid overlay - grid lines for the map viewport
+ *
+ * Lines follow the UTM zones that coordinateService uses for the coordinate display, so grid
+ * references read off the map match what the app reports: zone 32 is widened to 3°E in band V,
+ * and Svalbard (band X) uses the wide zones 31, 33, 35 and 37. MGRS squares share the UTM
+ * grid, so the same lines serve both; only the labels differ.
+ */
+
+import { latLngToMGRS, latLngToUTM, utmToLatLng } from './coordinateService'
+
+export interface GridBounds {
+  north: number
+  south: number
+  east: number
+  west: number
+}
+
+export interface ZoneSector extends GridBounds {
+  zone: number
+  band: string
+}
+
+export interface GridLineProperties {
+  kind: 'grid' | 'zone'
+  axis?: 'easting' | 'northing'
+  value?: number
+  zone?: number
+}
+
+export type GridLineFeature = GeoJSON.Feature<GeoJSON.MultiLineString, GridLineProperties>
+
+export interface UTMGrid {
+  interval: number // meters
+  sectors: ZoneSector[]
+  lines: GeoJSON.FeatureCollection<GeoJSON.MultiLineString, GridLineProperties>
+}
+
+const BAND_LETTERS = 'CDEFGHJKLMNPQRSTUVWX'
+
+export class UtmGridService {
+  static readonly MIN_ZOOM = 6
+  // Samples per grid line within a zone sector; UTM lines curve slightly in latitude/longitude
+  private static readonly LINE_STEPS = 24
+  // Lines per zone sector; more means the viewport is too large for the interval
+  private static readonly MAX_LINES = 400
+
+  /**
+   * Grid spacing for a zoom level: about 50–100 px between lines, or null when zoomed out too far
+   */
+  static getInterval(zoom: number): number | null {
+    if (zoom < this.MIN_ZOOM) return null
+    if (zoom < 10) return 10000
+    if (zoom < 14) return 1000
+    return 100
+  }
+
+  /**
+   * Grid lines and zone boundaries covering the bounds
+   */
+  static getGrid(bounds: GridBounds, zoom: number): UTMGrid | null {
+    const interval = this.getInterval(zoom)
+    if (!interval) return null
+
+    const sectors = this.getZoneSectors(bounds)
+    const features = [
+      ...sectors.flatMap(sector => this.getSectorLines(sector, interval)),
+      ...this.getZoneBoundaries(sectors, bounds)
+    ]
+
+    return {
+      interval,
+      sectors,
+      lines: { type: 'FeatureCollection', features }
+    }
+  }
+
+  /**
+   * Label for a grid line: kilometres for UTM, or the digits within the 100 km square for MGRS
+   */
+  static formatLabel(value: number, interval: number, format: 'utm' | 'mgrs'): string {
+    if (format === 'mgrs') {
+      const digits = Math.round(Math.log10(100000 / interval))
+      return String(Math.floor((value % 100000) / interval)).padStart(digits, '0')
+    }
+
+    return interval < 1000
+      ? (value / 1000).toLocaleString('nb-NO', { minimumFractionDigits: 1, maximumFractionDigits: 1 })
+      : String(Math.round(value / 1000))
+  }
+
+  /**
+   * Label for a zone sector, e.g. "32V", or "32V NM" with the MGRS 100 km square at the position
+   */
+  static formatZoneLabel(sector: ZoneSector, lat: number, lng: number, format: 'utm' | 'mgrs'): string {
+    const zone = `${sector.zone}${sector.band}`
+    return format === 'mgrs' ? `${zone} ${latLngToMGRS(lat, lng, 1).split(' ')[0].slice(zone.length)}` : zone
+  }
+
+  /**
+   * The parts of UTM zones (split by latitude band) inside the bounds
+   */
+  static getZoneSectors(bounds: GridBounds): ZoneSector[] {
+    const sectors: ZoneSector[] = []
+    const south = Math.max(bounds.south, -80)
+    const north = Math.min(bounds.north, 84)
+
+    // Band X spans 72–84°, so the index is capped at the last band
+    for (let index = Math.min(Math.floor((south + 80) / 8), BAND_LETTERS.length - 1); index < BAND_LETTERS.length; index++) {
+      const bandSouth = -80 + index * 8
+      const bandNorth = index === BAND_LETTERS.length - 1 ? 84 : bandSouth + 8
+      if (bandSouth >= north) break
+
+      this.getBandZones(bandSouth).forEach(({ zone, west, east }) => {
+        if (east <= bounds.west || west >= bounds.east) return
+        sectors.push({
+          zone,
+          band: BAND_LETTERS[index],
+          west: Math.max(west, bounds.west),
+          east: Math.min(east, bounds.east),
+          south: Math.max(bandSouth, south),
+          north: Math.min(bandNorth, north)
+        })
+      })
+    }
+
+    return sectors
+  }
+
+  /**
+   * Zones and their longitude ranges in the latitude band starting at bandSouth
+   */
+  private static getBandZones(bandSouth: number): { zone: number; west: number; east: number }[] {
+    if (bandSouth === 72) {
+      // Band X: zones 32, 34 and 36 are not used, their neighbours are widened
+      const svalbardZones = [{ zone: 31, west: 0, east: 9 }, { zone: 33, west: 9, east: 21 }, { zone: 35, west: 21, east: 33 }, { zone: 37, west: 33, east: 42 }]
+      return [
+        ...this.getStandardZones(-180, 0),
+        ...svalbardZones,
+        ...this.getStandardZones(42, 180)
+      ]
+    }
+
+    if (bandSouth === 56) {
+      // Band V: zone 32 is widened west to 3°E to cover south-western Norway
+      return [
+        ...this.getStandardZones(-180, 0),
+        { zone: 31, west: 0, east: 3 },
+        { zone: 32, west: 3, east: 12 },
+        ...this.getStandardZones(12, 180)
+      ]
+    }
+
+    return this.getStandardZones(-180, 180)
+  }
+
+  private static getStandardZones(west: number, east: number): { zone: number; west: number; east: number }[] {
+    const zones = []
+    for (let zoneWest = west; zoneWest < east; zoneWest += 6) {
+      zones.push({ zone: Math.floor((zoneWest + 180) / 6) + 1, west: zoneWest, east: zoneWest + 6 })
+    }
+    return zones
+  }
+
+  /**
+   * Easting and northing lines of one zone sector, clipped to it
+   */
+  private static getSectorLines(sector: ZoneSector, interval: number): GridLineFeature[] {
+    const { zone } = sector
+    const hemisphere = sector.south >= 0 ? 'N' : 'S'
+
+    // Corners and edge midpoints: lines of constant easting bow out between the corners
+    const midLat = (sector.south + sector.north) / 2
+    const midLng = (sector.west + sector.east) / 2
+    const samples = [
+      [sector.south, sector.west], [sector.south, midLng], [sector.south, sector.east],
+      [midLat, sector.west], [midLat, sector.east],
+      [sector.north, sector.west], [sector.north, midLng], [sector.north, sector.east]
+    ].map(([lat, lng]) => latLngToUTM(lat, lng, zone))
+
+    const eastings = samples.map(utm => utm.easting)
+    const northings = samples.map(utm => utm.northing)
+    const minE = Math.min(...eastings)
+    const maxE = Math.max(...eastings)
+    const minN = Math.min(...northings)
+    const maxN = Math.max(...northings)
+    if ((maxE - minE) / interval + (maxN - minN) / interval > this.MAX_LINES) return []
+
+    const toLngLat = (easting: number, northing: number): [number, number] => {
+      const { lat, lng } = utmToLatLng(zone, hemisphere, easting, northing)
+      return [lng, lat]
+    }
+    const features: GridLineFeature[] = []
+
+    for (let easting = Math.ceil(minE / interval) * interval; easting <= maxE; easting += interval) {
+      const points = Array.from({ length: this.LINE_STEPS + 1 }, (_, i) =>
+        toLngLat(easting, minN + (maxN - minN) * i / this.LINE_STEPS))
+      const parts = this.clipLine(points, sector)
+      if (parts.length > 0) {
+        features.push(this.lineFeature(parts, { kind: 'grid', axis: 'easting', value: easting, zone }))
+      }
+    }
+
+    for (let northing = Math.ceil(minN / interval) * interval; northing <= maxN; northing += interval) {
+      const points = Array.from({ length: this.LINE_STEPS + 1 }, (_, i) =>
+        toLngLat(minE + (maxE - minE) * i / this.LINE_STEPS, northing))
+      const parts = this.clipLine(points, sector)
+      if (parts.length > 0) {
+        features.push(this.lineFeature(parts, { kind: 'grid', axis: 'northing', value: northing, zone }))
+      }
+    }
+
+    return features
+  }
+
+  /**
+   * Zone edges inside the bounds: meridians between zones, and band edges where the zone changes
+   */
+  private static getZoneBoundaries(sectors: ZoneSector[], bounds: GridBounds): GridLineFeature[] {
+    const parts: [number, number][][] = []
+
+    sectors.forEach(sector => {
+      const bandSouth = -80 + BAND_LETTERS.indexOf(sector.band) * 8
+      const zoneExtent = this.getBandZones(bandSouth).find(zone => zone.zone === sector.zone)
+      if (!zoneExtent) return
+
+      // Only the zone's own west edge, not where the sector is cut by the viewport
+      if (zoneExtent.west > bounds.west && zoneExtent.west < bounds.east) {
+        parts.push([[zoneExtent.west, sector.south], [zoneExtent.west, sector.north]])
+      }
+
+      if (bandSouth <= bounds.south || sector.band === 'C') return
+
+      this.getBandZones(bandSouth - 8)
+        .filter(below => below.zone !== sector.zone)
+        .forEach(below => {
+          const west = Math.max(below.west, sector.west)
+          const east = Math.min(below.east, sector.east)
+          if (east > west) parts.push([[west, bandSouth], [east, bandSouth]])
+        })
+    })
+
+    return parts.length > 0 ? [this.lineFeature(parts, { kind: 'zone' })] : []
+  }
+
+  /**
+   * Clip a line to a latitude/longitude rectangle, one segment at a time (Liang–Barsky)
+   */
+  private static clipLine(points: [number, number][], bounds: GridBounds): [number, number][][] {
+    const parts: [number, number][][] = []
+    let current: [number, number][] = []
+
+    for (let i = 1; i < points.length; i++) {
+      const segment = this.clipSegment(points[i - 1], points[i], bounds)
+      if (!segment) {
+        if (current.length > 1) parts.push(current)
+        current = []
+        continue
+      }
+
+      const [start, end] = segment
+      const last = current[current.length - 1] as [number, number] | undefined
+      if (!last || last[0] !== start[0] || last[1] !== start[1]) {
+        if (current.length > 1) parts.push(current)
+        current = [start]
+      }
+      current.push(end)
+    }
+
+    if (current.length > 1) parts.push(current)
+    return parts
+  }
+
+  private static clipSegment(
+    [x0, y0]: [number, number],
+    [x1, y1]: [number, number],
+    bounds: GridBounds
+  ): [[number, number], [number, number]] | null {
+    const dx = x1 - x0
+    const dy = y1 - y0
+    let t0 = 0
+    let t1 = 1
+
+    const edges: [number, number][] = [
+      [-dx, x0 - bounds.west],
+      [dx, bounds.east - x0],
+      [-dy, y0 - bounds.south],
+      [dy, bounds.north - y0]
+    ]
+
+    for (const [p, q] of edges) {
+      if (p === 0) {
+        if (q < 0) return null
+        continue
+      }
+      const t = q / p
+      if (p < 0) {
+        if (t > t1) return null
+        t0 = Math.max(t0, t)
+      } else {
+        if (t < t0) return null
+        t1 = Math.min(t1, t)
+      }
+    }
+
+    return [
+      t0 === 0 ? [x0, y0] : [x0 + t0 * dx, y0 + t0 * dy],
+      t1 === 1 ? [x1, y1] : [x0 + t1 * dx, y0 + t1 * dy]
+    ]
+  }
+
+  private static lineFeature(parts: [number, number][][], properties: GridLineProperties): GridLineFeature {
+    return {
+      type: 'Feature',
+      geometry: { type: 'MultiLineString', coordinates: parts },
+      properties
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Viewshed - the terrain visible from a point, such as a viewpoint or an observation tower
+ *
+ * Computed from the DEM tiles (see terrainService) in a Web Worker, so the map stays responsive,
+ * and shown as an image overlay. Only terrain blocks the view: forest and buildings, which the
+ * elevation model does not include, can hide more than shown.
+ */
+
+import type maplibregl from 'maplibre-gl'
+import type { ViewshedGrid, ViewshedRequest, ViewshedResponse } from '../workers/viewshed.worker'
+
+export interface ViewshedSettings {
+  observerHeight: number // meters above the ground
+  radius: number // meters
+}
+
+export interface ViewshedOrigin {
+  lat: number
+  lng: number
+  name?: string // Viewpoint POI the analysis was started from
+}
+
+export interface Viewshed {
+  origin: ViewshedOrigin
+  settings: ViewshedSettings
+  observerElevation: number // meters above sea level
+  visibleShare: number // 0–1 of the area within the radius
+  image: string // PNG data URL
+  coordinates: [[number, number], [number, number], [number, number], [number, number]] // Image corners
+}
+
+export interface ViewshedClass {
+  value: number // Cell value from the worker
+  label: string
+  color: string
+  rgb: [number, number, number]
+}
+
+export const VIEWSHED_CLASSES: ViewshedClass[] = [
+  { value: 2, label: 'Synlig', color: '#22c55e', rgb: [34, 197, 94] },
+  { value: 1, label: 'Skjult', color: '#1f2937', rgb: [31, 41, 55] }
+]
+
+export const DEFAULT_VIEWSHED_SETTINGS: ViewshedSettings = {
+  observerHeight: 1.7,
+  radius: 5000
+}
+
+export const VIEWSHED_OBSERVER_HEIGHT_RANGE = { min: 0, max: 50, step: 0.5 }
+export const VIEWSHED_RADIUS_RANGE = { min: 1000, max: 15000, step: 500 }
+
+interface PendingRequest {
+  origin: ViewshedOrigin
+  settings: ViewshedSettings
+  resolve: (viewshed: Viewshed) => void
+  reject: (error: Error) => void
+}
+
+export class ViewshedService {
+  static readonly SOURCE_ID = 'viewshed'
+  static readonly LAYER_ID = 'viewshed-overlay'
+  static readonly OPACITY = 0.5
+  private static worker: Worker | null = null
+  private static nextId = 1
+  private static pending = new Map<number, PendingRequest>()
+
+  /**
+   * Compute the viewshed from a point. Only one analysis runs at a time: a new one cancels the
+   * previous, which rejects with an AbortError.
+   */
+  static compute(origin: ViewshedOrigin, settings: ViewshedSettings): Promise<Viewshed> {
+    this.cancel()
+
+    const worker = this.getWorker()
+    const id = this.nextId++
+    const request: ViewshedRequest = { id, lat: origin.lat, lng: origin.lng, ...settings }
+
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { origin, settings, resolve, reject })
+      worker.postMessage(request)
+    })
+  }
+
+  /**
+   * Stop a running analysis. The worker is terminated, as the computation cannot be interrupted.
+   */
+  static cancel(): void {
+    if (this.pending.size === 0) return
+
+    this.worker?.terminate()
+    this.worker = null
+    this.rejectAll(new DOMException('Viewshed cancelled', 'AbortError'))
+  }
+
+  static getSource(viewshed: Viewshed): maplibregl.ImageSourceSpecification {
+    return {
+      type: 'image',
+      url: viewshed.image,
+      coordinates: viewshed.coordinates
+    }
+  }
+
+  static getMapLayer(): maplibregl.RasterLayerSpecification {
+    return {
+      id: this.LAYER_ID,
+      type: 'raster',
+      source: this.SOURCE_ID,
+      paint: {
+        'raster-opacity': this.OPACITY,
+        // Visible and hidden cells stay distinct when zoomed in
+        'raster-resampling': 'nearest',
+        'raster-fade-duration': 0
+      }
+    }
+  }
+
+  private static getWorker(): Worker {
+    if (this.worker) return this.worker
+
+    const worker = new Worker(new URL('../workers/viewshed.worker.ts', import.meta.url), { type: 'module' })
+    worker.addEventListener('message', (event: MessageEvent<ViewshedResponse>) => this.handleResponse(event.data))
+    worker.addEventListener('error', (event) => {
+      console.error('❌ Viewshed worker error:', event.message)
+      this.worker?.terminate()
+      this.worker = null
+      this.rejectAll(new Error(event.message || 'Viewshed worker failed'))
+    })
+
+    this.worker = worker
+    return worker
+  }
+
+  private static handleResponse(response: ViewshedResponse): void {
+    const request = this.pending.get(response.id)
+    if (!request) return
+    this.pending.delete(response.id)
+
+    if ('error' in response) {
+      request.reject(new Error(response.error))
+      return
+    }
+
+    try {
+      const { bounds } = response.grid
+      request.resolve({
+        origin: request.origin,
+        settings: request.settings,
+        observerElevation: response.grid.observerElevation,
+        visibleShare: response.grid.visibleShare,
+        image: this.renderImage(response.grid),
+        coordinates: [
+          [bounds.west, bounds.north],
+          [bounds.east, bounds.north],
+          [bounds.east, bounds.south],
+          [bounds.west, bounds.south]
+        ]
+      })
+    } catch (error) {
+      request.reject(error instanceof Error ? error : new Error(String(error)))
+    }
+  }
+
+  private static rejectAll(error: Error): void {
+    this.pending.forEach(request => request.reject(error))
+    this.pending.clear()
+  }
+
+  private static renderImage(grid: ViewshedGrid): string {
+    const canvas = document.createElement('canvas')
+    canvas.width = grid.width
+    canvas.height = grid.height
+    const context = canvas.getContext('2d')
+    if (!context) throw new Error('Canvas 2D is not available')
+
+    const image = context.createImageData(grid.width, grid.height)
+    grid.cells.forEach((cell, index) => {
+      const viewshedClass = VIEWSHED_CLASSES.find(candidate => candidate.value === cell)
+      if (!viewshedClass) return
+      image.data[index * 4] = viewshedClass.rgb[0]
+      image.data[index * 4 + 1] = viewshedClass.rgb[1]
+      image.data[index * 4 + 2] = viewshedClass.rgb[2]
+      image.data[index * 4 + 3] = 255
+    })
+
+    context.putImageData(image, 0, 0)
+    return canvas.toDataURL('image/png')
+  }
+}
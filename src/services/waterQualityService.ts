@@ -0,0 +1,163 @@
+/**
+ * Service for bathing water quality and temperature readings
+ *
+ * Municipalities publish their bathing water samples in different ways, so readings are read
+ * from one configurable JSON endpoint (VITE_WATER_QUALITY_URL), e.g. a municipal open data
+ * feed behind a proxy, or the local fixture in public/fixtures/water-quality.json.
+ * Readings are attached to the nearest bathing place.
+ *
+ * Quality follows Folkehelseinstituttet's guidance for bathing water (E. coli and
+ * intestinal enterococci per 100 ml), unless the feed classifies it itself.
+ */
+
+import type { POI } from '../data/pois'
+
+export type WaterQuality = 'good' | 'fair' | 'poor'
+
+export interface WaterQualityReading {
+  id: string
+  name: string
+  lat: number
+  lng: number
+  measuredAt: string // ISO 8601
+  quality?: WaterQuality
+  waterTemperature?: number // °C
+  ecoli?: number // per 100 ml
+  enterococci?: number // per 100 ml
+}
+
+interface WaterQualityFeed {
+  source?: string
+  readings: WaterQualityReading[]
+}
+
+const QUALITY_LABELS: Record<WaterQuality, string> = {
+  good: 'God',
+  fair: 'Mindre god',
+  poor: 'Ikke egnet for bading'
+}
+
+export class WaterQualityService {
+  private static readonly FEED_URL = import.meta.env.VITE_WATER_QUALITY_URL as string | undefined
+  private static readonly CACHE_TTL = 60 * 60 * 1000 // 1 hour - samples are taken weekly at most
+  // Readings further away than this belong to another bathing place
+  private static readonly MAX_DISTANCE = 300 // meters
+  private static feed: { readings: WaterQualityReading[]; source?: string; fetched: number } | null = null
+  private static pending: Promise<void> | null = null
+
+  /**
+   * Add the latest reading near a bathing place to its description and metadata
+   * Leaves the POI unchanged when there is no feed or no reading nearby
+   */
+  static async enhance(poi: POI): Promise<POI> {
+    const reading = await this.findReading(poi.lat, poi.lng)
+    if (!reading) return poi
+
+    const quality = reading.quality ?? this.classify(reading)
+    const measured = this.formatDate(reading.measuredAt)
+    const details = [
+      ...(quality ? [`Vannkvalitet: ${QUALITY_LABELS[quality]} (prøve ${measured})`] : []),
+      ...(reading.waterTemperature !== undefined
+        ? [`Vanntemperatur: ${Math.round(reading.waterTemperature)} °C (målt ${measured})`]
+        : []),
+      ...(this.feed?.source ? [`Kilde: ${this.feed.source}`] : [])
+    ]
+
+    return {
+      ...poi,
+      description: [poi.description, ...details].filter(Boolean).join('. '),
+      metadata: {
+        ...(poi.metadata as Record<string, string | number> | undefined),
+        ...(quality ? { waterQuality: quality } : {}),
+        ...(reading.waterTemperature !== undefined ? { waterTemperature: reading.waterTemperature } : {}),
+        measuredAt: reading.measuredAt
+      }
+    }
+  }
+
+  static async findReading(lat: number, lng: number): Promise<WaterQualityReading | null> {
+    await this.loadFeed()
+
+    let nearest: WaterQualityReading | null = null
+    let nearestDistance = this.MAX_DISTANCE
+    this.feed?.readings.forEach(reading => {
+      const distance = this.distanceMeters(lat, lng, reading.lat, reading.lng)
+      if (distance < nearestDistance) {
+        nearest = reading
+        nearestDistance = distance
+      }
+    })
+
+    return nearest
+  }
+
+  /**
+   * Classify a sample from its bacteria counts, when the feed does not
+   */
+  static classify(reading: WaterQualityReading): WaterQuality | undefined {
+    const { ecoli, enterococci } = reading
+    if (ecoli === undefined && enterococci === undefined) return undefined
+
+    if ((ecoli ?? 0) > 1000 || (enterococci ?? 0) > 400) return 'poor'
+    if ((ecoli ?? 0) > 100 || (enterococci ?? 0) > 50) return 'fair'
+    return 'good'
+  }
+
+  /**
+   * Fetch the feed once per CACHE_TTL; concurrent callers share the request
+   */
+  private static async loadFeed(): Promise<void> {
+    if (!this.FEED_URL) return
+    if (this.feed && Date.now() - this.feed.fetched < this.CACHE_TTL) return
+
+    this.pending ??= this.fetchFeed(this.FEED_URL).finally(() => {
+      this.pending = null
+    })
+    await this.pending
+  }
+
+  private static async fetchFeed(feedUrl: string): Promise<void> {
+    try {
+      const url = new URL(feedUrl, window.location.href)
+      const response = await fetch(url.toString(), { headers: { 'Accept': 'application/json' } })
+
+      if (!response.ok) {
+        throw new Error(`Water quality feed error: ${response.status} ${response.statusText}`)
+      }
+
+      const data = await response.json() as WaterQualityFeed | WaterQualityReading[]
+      const readings = Array.isArray(data) ? data : data.readings
+
+      // Keep only the latest reading per bathing place
+      const latest = new Map<string, WaterQualityReading>()
+      readings
+        .filter(reading => !isNaN(reading.lat) && !isNaN(reading.lng) && !isNaN(Date.parse(reading.measuredAt)))
+        .forEach(reading => {
+          const current = latest.get(reading.id)
+          if (!current || Date.parse(reading.measuredAt) > Date.parse(current.measuredAt)) {
+            latest.set(reading.id, reading)
+          }
+        })
+
+      this.feed = {
+        readings: Array.from(latest.values()),
+        source: Array.isArray(data) ? undefined : data.source,
+        fetched: Date.now()
+      }
+    } catch (error) {
+      console.error('❌ Error fetching water quality readings:', error)
+      // Keep serving the previous readings; retry on the next load after the TTL
+      this.feed = { readings: this.feed?.readings ?? [], source: this.feed?.source, fetched: Date.now() }
+    }
+  }
+
+  private static formatDate(isoDate: string): string {
+    return new Date(isoDate).toLocaleDateString('nb-NO', { day: 'numeric', month: 'short' })
+  }
+
+  private static distanceMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+    const dLat = (lat2 - lat1) * 111320
+    const dLng = (lng2 - lng1) * 111320 * Math.cos(lat1 * Math.PI / 180)
+    return Math.hypot(dLat, dLng)
+  }
+}
@@ -8,11 +8,13 @@ interface UIProviderProps {
 export const UIProvider: React.FC<UIProviderProps> = ({ children }) => {
   const [isHurtigtasterOpen, setIsHurtigtasterOpen] = useState(false)
   const [isTegnforklaringOpen, setIsTegnforklaringOpen] = useState(false)
+  const [isUtskriftOpen, setIsUtskriftOpen] = useState(false)
 
   const openHurtigtaster = () => {
     setIsHurtigtasterOpen(true)
     // Close other modals
     setIsTegnforklaringOpen(false)
+    setIsUtskriftOpen(false)
   }
 
   const closeHurtigtaster = () => {
@@ -23,19 +25,34 @@ export const UIProvider: React.FC<UIProviderProps> = ({ children }) => {
     setIsTegnforklaringOpen(true)
     // Close other modals
     setIsHurtigtasterOpen(false)
+    setIsUtskriftOpen(false)
   }
 
   const closeTegnforklaring = () => {
     setIsTegnforklaringOpen(false)
   }
 
+  const openUtskrift = () => {
+    setIsUtskriftOpen(true)
+    // Close other modals
+    setIsHurtigtasterOpen(false)
+    setIsTegnforklaringOpen(false)
+  }
+
+  const closeUtskrift = () => {
+    setIsUtskriftOpen(false)
+  }
+
   const value: UIState = {
     isHurtigtasterOpen,
     isTegnforklaringOpen,
+    isUtskriftOpen,
     openHurtigtaster,
     closeHurtigtaster,
     openTegnforklaring,
-    closeTegnforklaring
+    closeTegnforklaring,
+    openUtskrift,
+    closeUtskrift
   }
 
   return <UIContext.Provider value={value}>{children}</UIContext.Provider>
@@ -3,10 +3,13 @@ import { createContext, useContext } from 'react'
 export type UIState = {
   isHurtigtasterOpen: boolean
   isTegnforklaringOpen: boolean
+  isUtskriftOpen: boolean
   openHurtigtaster: () => void
   closeHurtigtaster: () => void
   openTegnforklaring: () => void
   closeTegnforklaring: () => void
+  openUtskrift: () => void
+  closeUtskrift: () => void
 }
 
 export const UIContext = createContext<UIState | undefined>(undefined)
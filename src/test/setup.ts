@@ -0,0 +1,10 @@
+/**
+ * Test setup - runs before each test file
+ */
+
+import { afterEach, vi } from 'vitest'
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  localStorage.clear()
+})
@@ -0,0 +1,174 @@
+/**
+ * Viewshed worker - terrain visible from an observer, computed from DEM tiles off the main thread
+ *
+ * Rays are cast from the observer to every cell on the edge of the analysis grid (the R2
+ * algorithm). Along a ray, a cell is visible when its elevation angle is at least the steepest
+ * angle seen closer to the observer. Elevations are lowered for earth curvature, less the part
+ * that atmospheric refraction bends back into view.
+ */
+
+import { DemTile, TerrainService } from '../services/terrainService'
+
+export interface ViewshedRequest {
+  id: number
+  lat: number
+  lng: number
+  observerHeight: number // meters above the ground
+  radius: number // meters
+}
+
+export interface ViewshedGrid {
+  width: number
+  height: number
+  cells: Uint8Array // 0 outside the radius, 1 hidden, 2 visible; row by row from the north-west corner
+  bounds: { north: number; south: number; east: number; west: number }
+  observerElevation: number // ground elevation at the observer, meters above sea level
+  visibleShare: number // 0–1 of the area within the radius
+}
+
+export type ViewshedResponse = { id: number; grid: ViewshedGrid } | { id: number; error: string }
+
+const OUTSIDE = 0
+const HIDDEN = 1
+const VISIBLE = 2
+
+const EARTH_CIRCUMFERENCE = 40075016.686 // meters
+const EARTH_RADIUS = 6371008.8 // meters
+const REFRACTION_COEFFICIENT = 0.13 // Standard atmosphere
+// Cells across the analysis grid; the DEM zoom is chosen to stay below this
+const MAX_GRID_SIZE = 800
+const MIN_DEM_ZOOM = 8
+
+/**
+ * DEM zoom for the radius: as detailed as the tiles allow while the grid stays below MAX_GRID_SIZE
+ */
+function getDemZoom(lat: number, radius: number): number {
+  const tilePixelSize = EARTH_CIRCUMFERENCE * Math.cos(lat * Math.PI / 180) / TerrainService.DEM_TILE_SIZE
+  const zoom = Math.floor(Math.log2(tilePixelSize * MAX_GRID_SIZE / (2 * radius)))
+  return Math.min(Math.max(zoom, MIN_DEM_ZOOM), TerrainService.DEM_MAX_ZOOM)
+}
+
+function latitudeAt(y: number, worldSize: number): number {
+  return Math.atan(Math.sinh(Math.PI * (1 - 2 * y / worldSize))) * 180 / Math.PI
+}
+
+async function computeViewshed({ lat, lng, observerHeight, radius }: ViewshedRequest): Promise<ViewshedGrid> {
+  const zoom = getDemZoom(lat, radius)
+  const tileCount = Math.pow(2, zoom)
+
+  // Tiles are usually DEM_TILE_SIZE, but the decoded size is what counts
+  const centerX = (lng + 180) / 360 * tileCount
+  const latRadians = lat * Math.PI / 180
+  const centerY = (1 - Math.log(Math.tan(latRadians) + 1 / Math.cos(latRadians)) / Math.PI) / 2 * tileCount
+  const centerTile = await TerrainService.fetchDemTile(zoom, Math.floor(centerX), Math.floor(centerY))
+  const tileSize = centerTile.size
+  const worldSize = tileSize * tileCount
+
+  // Ground size of a cell at the observer; the variation across 10–20 km is negligible
+  const cellSize = EARTH_CIRCUMFERENCE * Math.cos(latRadians) / worldSize
+  const radiusCells = Math.ceil(radius / cellSize)
+  const observerX = Math.floor(centerX * tileSize)
+  const observerY = Math.floor(centerY * tileSize)
+  const left = observerX - radiusCells
+  const top = observerY - radiusCells
+  const width = 2 * radiusCells + 1
+  const height = width
+
+  // Elevations for the grid, copied from the tiles it covers
+  const elevations = new Float32Array(width * height)
+  const tileRequests: Promise<void>[] = []
+  for (let tileY = Math.floor(top / tileSize); tileY <= Math.floor((top + height - 1) / tileSize); tileY++) {
+    for (let tileX = Math.floor(left / tileSize); tileX <= Math.floor((left + width - 1) / tileSize); tileX++) {
+      if (tileY < 0 || tileY >= tileCount) continue
+      const wrappedX = ((tileX % tileCount) + tileCount) % tileCount
+      tileRequests.push(TerrainService.fetchDemTile(zoom, wrappedX, tileY).then((tile: DemTile) => {
+        for (let row = 0; row < tileSize; row++) {
+          const gridRow = tileY * tileSize + row - top
+          if (gridRow < 0 || gridRow >= height) continue
+          for (let column = 0; column < tileSize; column++) {
+            const gridColumn = tileX * tileSize + column - left
+            if (gridColumn < 0 || gridColumn >= width) continue
+            elevations[gridRow * width + gridColumn] = tile.elevations[row * tileSize + column]
+          }
+        }
+      }))
+    }
+  }
+  await Promise.all(tileRequests)
+
+  const cells = new Uint8Array(width * height)
+  const originIndex = radiusCells * width + radiusCells
+  const observerElevation = elevations[originIndex]
+  const eye = observerElevation + observerHeight
+  const curvature = (1 - REFRACTION_COEFFICIENT) / (2 * EARTH_RADIUS)
+  cells[originIndex] = VISIBLE
+
+  const castRay = (targetX: number, targetY: number) => {
+    const dx = targetX - radiusCells
+    const dy = targetY - radiusCells
+    const steps = Math.max(Math.abs(dx), Math.abs(dy))
+    let maxSlope = -Infinity
+
+    for (let step = 1; step <= steps; step++) {
+      const x = radiusCells + Math.round(dx * step / steps)
+      const y = radiusCells + Math.round(dy * step / steps)
+      const distance = Math.hypot(x - radiusCells, y - radiusCells) * cellSize
+      if (distance > radius) break
+
+      const index = y * width + x
+      const slope = (elevations[index] - distance * distance * curvature - eye) / distance
+      if (slope >= maxSlope) {
+        maxSlope = slope
+        cells[index] = VISIBLE
+      } else if (cells[index] === OUTSIDE) {
+        // Neighbouring rays pass through the same cells: one clear line of sight is enough
+        cells[index] = HIDDEN
+      }
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    castRay(x, 0)
+    castRay(x, height - 1)
+  }
+  for (let y = 1; y < height - 1; y++) {
+    castRay(0, y)
+    castRay(width - 1, y)
+  }
+
+  let visible = 0
+  let hidden = 0
+  cells.forEach(cell => {
+    if (cell === VISIBLE) visible++
+    else if (cell === HIDDEN) hidden++
+  })
+
+  return {
+    width,
+    height,
+    cells,
+    bounds: {
+      north: latitudeAt(top, worldSize),
+      south: latitudeAt(top + height, worldSize),
+      west: left / worldSize * 360 - 180,
+      east: (left + width) / worldSize * 360 - 180
+    },
+    observerElevation,
+    visibleShare: visible / (visible + hidden)
+  }
+}
+
+async function handleRequest(request: ViewshedRequest): Promise<void> {
+  try {
+    const grid = await computeViewshed(request)
+    const response: ViewshedResponse = { id: request.id, grid }
+    self.postMessage(response, { transfer: [grid.cells.buffer] })
+  } catch (error) {
+    const response: ViewshedResponse = { id: request.id, error: error instanceof Error ? error.message : String(error) }
+    self.postMessage(response)
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<ViewshedRequest>) => {
+  void handleRequest(event.data)
+})
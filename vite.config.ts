@@ -1,7 +1,24 @@
+/// <reference lib="webworker" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import { VitePWA } from 'vite-plugin-pwa'
 
+// Serve tiles from downloaded offline areas (see src/services/offlineMapService.ts)
+// when the runtime cache has no copy. Stringified into the generated service worker,
+// so it must be self-contained.
+const offlineAreaFallback = {
+  cachedResponseWillBeUsed: async ({ request, cachedResponse }: { request: Request; cachedResponse?: Response }) => {
+    if (cachedResponse) return cachedResponse
+
+    const cacheNames = (await caches.keys()).filter(name => name.startsWith('trakke-offline-'))
+    for (const cacheName of cacheNames) {
+      const match = await (await caches.open(cacheName)).match(request.url)
+      if (match) return match
+    }
+    return null
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
@@ -81,6 +98,11 @@ export default defineConfig({
         clientsClaim: true,
         skipWaiting: true,
         runtimeCaching: [
+          {
+            // Offline area downloads (fetched with cache: 'no-store') always go to the network
+            urlPattern: ({ request }: { request: Request }) => request.cache === 'no-store',
+            handler: 'NetworkOnly'
+          },
           {
             urlPattern: /^https:\/\/fonts\.googleapis\.com\/.*/i,
             handler: 'CacheFirst',
@@ -96,7 +118,7 @@ export default defineConfig({
             }
           },
           {
-            urlPattern: /^https:\/\/opencache\.statkart\.no\/.*/i,
+            urlPattern: /^https:\/\/(cache\.kartverket\.no|opencache\.statkart\.no)\/.*/i,
             handler: 'StaleWhileRevalidate',
             options: {
               cacheName: 'kartverket-tiles',
@@ -106,7 +128,25 @@ export default defineConfig({
               },
               cacheableResponse: {
                 statuses: [0, 200]
-              }
+              },
+              plugins: [offlineAreaFallback]
+            }
+          },
+          {
+            // Naturskog and Turrutebasen WMS overlays
+            urlPattern: /^https:\/\/(wms\.geonorge\.no|image001\.miljodirektoratet\.no)\/.*request=GetMap.*/i,
+            handler: 'NetworkFirst',
+            options: {
+              cacheName: 'overlay-tiles',
+              networkTimeoutSeconds: 10,
+              expiration: {
+                maxEntries: 200,
+                maxAgeSeconds: 60 * 60 * 24 * 7 // 7 days
+              },
+              cacheableResponse: {
+                statuses: [0, 200]
+              },
+              plugins: [offlineAreaFallback]
             }
           },
           {